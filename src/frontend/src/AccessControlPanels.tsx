@@ -0,0 +1,193 @@
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { PanelHeading } from "./RegistryShared";
+import { useInternetIdentity } from "./hooks/useInternetIdentity";
+import { useAccess, useAssignRole, useDataScope } from "./hooks/useRegistry";
+import {
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  PERMISSION_MATRIX,
+  ROLES,
+  type Role,
+} from "./registryAccess";
+import { describeScope } from "./registryInstitutions";
+
+// ─── Access Control ──────────────────────────────────────────────────────────
+export function PermissionMatrixTable() {
+  const header = {
+    fontSize: "10px",
+    color: "var(--thodar-text-muted)",
+    padding: "8px 12px",
+    letterSpacing: "0.1em",
+  };
+  return (
+    <div
+      className="mt-8"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+        overflowX: "auto",
+      }}
+    >
+      <table
+        className="w-full"
+        style={{ borderCollapse: "collapse", minWidth: "560px" }}
+      >
+        <thead>
+          <tr
+            style={{
+              borderBottom: "1px solid var(--thodar-border)",
+              backgroundColor: "var(--thodar-surface)",
+            }}
+          >
+            <th
+              className="font-inter font-medium text-left uppercase"
+              style={header}
+            >
+              Permission
+            </th>
+            {ROLES.map((role) => (
+              <th
+                key={role}
+                className="font-inter font-medium text-center uppercase"
+                style={header}
+              >
+                {role}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {PERMISSIONS.map((permission) => (
+            <tr
+              key={permission}
+              style={{ borderBottom: "1px solid var(--thodar-border)" }}
+            >
+              <td
+                className="font-inter font-light"
+                style={{
+                  padding: "8px 12px",
+                  fontSize: "12px",
+                  color: "var(--thodar-text-secondary)",
+                }}
+              >
+                {PERMISSION_LABELS[permission]}
+              </td>
+              {ROLES.map((role) => {
+                const granted = PERMISSION_MATRIX[role].includes(permission);
+                return (
+                  <td
+                    key={role}
+                    className="font-inter text-center"
+                    style={{
+                      padding: "8px 12px",
+                      fontSize: "12px",
+                      color: granted
+                        ? "var(--thodar-teal)"
+                        : "var(--thodar-separator)",
+                    }}
+                    aria-label={granted ? "Granted" : "Not granted"}
+                  >
+                    {granted ? "●" : "—"}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function CallerAccessPanel() {
+  const { identity, login, clear, isLoggingIn } = useInternetIdentity();
+  const { access, role, can } = useAccess();
+  const scope = useDataScope();
+  const assignRole = useAssignRole();
+
+  function claimAdministrator() {
+    if (!access) return;
+    assignRole.mutate(
+      { principal: access.principal, role: "Administrator" },
+      {
+        onSuccess: () => toast.success("Administrator role claimed"),
+        onError: (error) =>
+          toast.error("Role could not be claimed", {
+            description: error.message,
+          }),
+      },
+    );
+  }
+
+  return (
+    <div
+      className="mt-8 p-6 flex flex-wrap items-start justify-between gap-4"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+      }}
+    >
+      <div>
+        <PanelHeading>Your Access</PanelHeading>
+        <p
+          className="font-inter font-light -mt-3"
+          style={{ fontSize: "13px", color: "var(--thodar-text-secondary)" }}
+        >
+          {access?.suspended
+            ? "Account suspended"
+            : (role ?? "No role assigned")}
+          {" · "}
+          <span style={{ color: "var(--thodar-text-muted)" }}>
+            {identity
+              ? identity.getPrincipal().toText()
+              : "Not signed in with Internet Identity"}
+          </span>
+        </p>
+        <p
+          className="font-inter font-light mt-1"
+          style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+        >
+          Data scope:{" "}
+          {!can("viewCaseRecords") && can("viewAllInstitutions")
+            ? "De-identified analytics across all institutions"
+            : describeScope(scope)}
+        </p>
+        {!role && identity && (
+          <p
+            className="font-inter font-light mt-2"
+            style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+          >
+            Share your principal with a registry Administrator to be assigned a
+            role.
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        {access && !access.administratorAssigned && identity && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={assignRole.isPending}
+            onClick={claimAdministrator}
+            className="font-inter font-medium"
+            style={{ fontSize: "12px" }}
+          >
+            Claim Administrator
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isLoggingIn}
+          onClick={identity ? clear : login}
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          {identity ? "Sign Out" : isLoggingIn ? "Signing In…" : "Sign In"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,663 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useState } from "react";
+import { toast } from "sonner";
+import { PanelHeading, PanelInputLabel } from "./RegistryShared";
+import {
+  useAccess,
+  useAssignRole,
+  useImplantRecords,
+  useImportSyntheticCases,
+  useInstitutions,
+  useRegisterInstitution,
+  useRegisterUser,
+  useRevokeRole,
+  useRoleAssignments,
+  useSetUserSuspended,
+  useUpdateUserAccount,
+  useUserAccounts,
+} from "./hooks/useRegistry";
+import { ROLES, type Role, type UserAccount } from "./registryAccess";
+import { formatAuthor, formatTimestamp } from "./registryHistory";
+import type { Institution } from "./registryInstitutions";
+import {
+  MAX_SYNTHETIC_CASES,
+  SYNTHETIC_PATIENT_PREFIX,
+} from "./registrySynthetic";
+
+// ─── User Administration ─────────────────────────────────────────────────────
+const NO_ROLE = "__none";
+const NO_INSTITUTION = "__none";
+
+function InstitutionSelect({
+  id,
+  value,
+  institutions,
+  disabled,
+  label,
+  onChange,
+  className,
+  size,
+}: {
+  id?: string;
+  value: string;
+  institutions: Institution[];
+  disabled?: boolean;
+  label?: string;
+  onChange: (institution: string) => void;
+  className?: string;
+  size?: "sm" | "default";
+}) {
+  return (
+    <Select
+      value={value || NO_INSTITUTION}
+      disabled={disabled}
+      onValueChange={(v) => onChange(v === NO_INSTITUTION ? "" : v)}
+    >
+      <SelectTrigger
+        id={id}
+        size={size}
+        aria-label={label}
+        className={`font-inter ${className ?? ""}`}
+        style={size === "sm" ? { fontSize: "12px" } : undefined}
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_INSTITUTION}>No institution</SelectItem>
+        {institutions.map((i) => (
+          <SelectItem key={i.name} value={i.name}>
+            {i.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function UserAccountRow({
+  account,
+  role,
+  isSelf,
+  institutions,
+}: {
+  account: UserAccount;
+  role: Role | null;
+  isSelf: boolean;
+  institutions: Institution[];
+}) {
+  const assignRole = useAssignRole();
+  const revokeRole = useRevokeRole();
+  const updateAccount = useUpdateUserAccount();
+  const setSuspended = useSetUserSuspended();
+  const [displayName, setDisplayName] = useState(account.displayName);
+  const onError = (title: string) => (error: Error) =>
+    toast.error(title, { description: error.message });
+
+  function saveDetails(institution = account.institution) {
+    const update = {
+      principal: account.principal,
+      displayName: displayName.trim(),
+      institution,
+    };
+    if (
+      update.displayName === account.displayName &&
+      update.institution === account.institution
+    ) {
+      return;
+    }
+    updateAccount.mutate(update, {
+      onError: (error) => {
+        setDisplayName(account.displayName);
+        onError("Account not updated")(error);
+      },
+    });
+  }
+
+  function changeRole(value: string) {
+    if (value === NO_ROLE) {
+      revokeRole.mutate(account.principal, {
+        onError: onError("Role not revoked"),
+      });
+    } else {
+      assignRole.mutate(
+        { principal: account.principal, role: value as Role },
+        { onError: onError("Role not assigned") },
+      );
+    }
+  }
+
+  const cell = {
+    padding: "10px 12px",
+    fontSize: "12px",
+    color: "var(--thodar-text-secondary)",
+    verticalAlign: "top" as const,
+  };
+  const muted = { color: "var(--thodar-text-muted)" };
+
+  return (
+    <tr
+      style={{
+        borderBottom: "1px solid var(--thodar-border)",
+        opacity: account.suspended ? 0.6 : 1,
+      }}
+    >
+      <td style={cell}>
+        <Input
+          value={displayName}
+          placeholder="Display name"
+          aria-label={`Display name for ${account.principal}`}
+          className="h-8 min-w-40"
+          style={{ fontSize: "12px" }}
+          onChange={(e) => setDisplayName(e.target.value)}
+          onBlur={() => saveDetails()}
+        />
+        <p
+          className="font-inter font-light mt-1"
+          style={{
+            ...muted,
+            fontSize: "11px",
+            maxWidth: "220px",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+          }}
+          title={account.principal}
+        >
+          {account.principal}
+        </p>
+      </td>
+      <td style={cell}>
+        <Select
+          value={role ?? NO_ROLE}
+          disabled={isSelf || assignRole.isPending || revokeRole.isPending}
+          onValueChange={changeRole}
+        >
+          <SelectTrigger
+            size="sm"
+            aria-label={`Role for ${account.principal}`}
+            className="font-inter min-w-44"
+            style={{ fontSize: "12px" }}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_ROLE}>No role</SelectItem>
+            {ROLES.map((r) => (
+              <SelectItem key={r} value={r}>
+                {r}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </td>
+      <td style={cell}>
+        <InstitutionSelect
+          size="sm"
+          value={account.institution}
+          institutions={institutions}
+          disabled={updateAccount.isPending}
+          label={`Institution for ${account.principal}`}
+          className="min-w-48"
+          onChange={saveDetails}
+        />
+      </td>
+      <td className="font-inter font-light" style={cell}>
+        {account.lastLoginAt ? (
+          formatTimestamp(account.lastLoginAt)
+        ) : (
+          <span style={muted}>Never</span>
+        )}
+        <br />
+        <span style={muted}>
+          Registered {formatTimestamp(account.registeredAt)} by{" "}
+          {formatAuthor(account.registeredBy)}
+        </span>
+      </td>
+      <td className="text-right" style={cell}>
+        <span
+          className="font-inter font-medium block mb-1"
+          style={{
+            color: account.suspended ? "#b91c1c" : "var(--thodar-teal)",
+          }}
+        >
+          {account.suspended ? "Suspended" : "Active"}
+        </span>
+        {!isSelf && (
+          <button
+            type="button"
+            disabled={setSuspended.isPending}
+            onClick={() =>
+              setSuspended.mutate(
+                {
+                  principal: account.principal,
+                  suspended: !account.suspended,
+                },
+                {
+                  onError: onError(
+                    account.suspended
+                      ? "Account not reinstated"
+                      : "Account not suspended",
+                  ),
+                },
+              )
+            }
+            className="font-inter font-light hover:opacity-60 transition-opacity"
+            style={muted}
+          >
+            {account.suspended ? "Reinstate" : "Suspend"}
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export function UserAdministrationPanel() {
+  const { access, can } = useAccess();
+  const { data: accounts = [] } = useUserAccounts();
+  const { data: assignments = [] } = useRoleAssignments();
+  const { data: institutions = [] } = useInstitutions();
+  const registerUser = useRegisterUser();
+  const [principal, setPrincipal] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [institution, setInstitution] = useState("");
+  const [role, setRole] = useState<Role | typeof NO_ROLE>(NO_ROLE);
+
+  if (!can("manageRoles")) return null;
+
+  const roles = new Map(assignments.map((a) => [a.principal, a.role]));
+  const ordered = [...accounts].sort(
+    (a, b) =>
+      Number(a.suspended) - Number(b.suspended) ||
+      (a.displayName || a.principal).localeCompare(
+        b.displayName || b.principal,
+      ),
+  );
+
+  function register() {
+    registerUser.mutate(
+      {
+        principal: principal.trim(),
+        displayName: displayName.trim(),
+        institution,
+        role: role === NO_ROLE ? null : role,
+      },
+      {
+        onSuccess: (account) => {
+          toast.success(`${account.displayName} registered`);
+          setPrincipal("");
+          setDisplayName("");
+          setInstitution("");
+          setRole(NO_ROLE);
+        },
+        onError: (error) =>
+          toast.error("User not registered", { description: error.message }),
+      },
+    );
+  }
+
+  return (
+    <div
+      className="mt-8 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+      }}
+    >
+      <PanelHeading>User Administration</PanelHeading>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-6">
+        <div className="md:col-span-2">
+          <PanelInputLabel htmlFor="user-principal">Principal</PanelInputLabel>
+          <Input
+            id="user-principal"
+            value={principal}
+            placeholder="aaaaa-aa…"
+            onChange={(e) => setPrincipal(e.target.value)}
+          />
+        </div>
+        <div>
+          <PanelInputLabel htmlFor="user-name">Display Name</PanelInputLabel>
+          <Input
+            id="user-name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+          />
+        </div>
+        <div>
+          <PanelInputLabel htmlFor="user-institution">
+            Institution
+          </PanelInputLabel>
+          <InstitutionSelect
+            id="user-institution"
+            value={institution}
+            institutions={institutions}
+            className="w-full"
+            onChange={setInstitution}
+          />
+        </div>
+        <div>
+          <PanelInputLabel htmlFor="user-role">Role</PanelInputLabel>
+          <Select
+            value={role}
+            onValueChange={(v) => setRole(v as Role | typeof NO_ROLE)}
+          >
+            <SelectTrigger id="user-role" className="w-full font-inter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ROLE}>No role</SelectItem>
+              {ROLES.map((r) => (
+                <SelectItem key={r} value={r}>
+                  {r}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant="outline"
+          disabled={
+            !principal.trim() || !displayName.trim() || registerUser.isPending
+          }
+          onClick={register}
+          className="font-inter font-medium md:col-start-5"
+          style={{ fontSize: "12px" }}
+        >
+          Register User
+        </Button>
+      </div>
+      {ordered.length === 0 ? (
+        <p
+          className="font-inter font-light"
+          style={{ fontSize: "13px", color: "var(--thodar-text-muted)" }}
+        >
+          No users have been registered.
+        </p>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table
+            className="w-full"
+            style={{ borderCollapse: "collapse", minWidth: "820px" }}
+          >
+            <thead>
+              <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+                {["User", "Role", "Institution", "Last Login", "Status"].map(
+                  (label) => (
+                    <th
+                      key={label}
+                      className={`font-inter font-medium uppercase ${label === "Status" ? "text-right" : "text-left"}`}
+                      style={{
+                        fontSize: "10px",
+                        color: "var(--thodar-text-muted)",
+                        padding: "8px 12px",
+                        letterSpacing: "0.1em",
+                      }}
+                    >
+                      {label}
+                    </th>
+                  ),
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {ordered.map((account) => (
+                <UserAccountRow
+                  key={`${account.principal}-${account.displayName}-${account.institution}`}
+                  account={account}
+                  role={roles.get(account.principal) ?? null}
+                  isSelf={account.principal === access?.principal}
+                  institutions={institutions}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Institutions ────────────────────────────────────────────────────────────
+export function InstitutionsPanel() {
+  const { can } = useAccess();
+  const { data: institutions = [] } = useInstitutions();
+  const { data: accounts = [] } = useUserAccounts();
+  const { data: records = [] } = useImplantRecords();
+  const registerInstitution = useRegisterInstitution();
+  const [name, setName] = useState("");
+
+  if (!can("manageRoles")) return null;
+
+  const count = (names: string[]) => {
+    const counts = new Map<string, number>();
+    for (const n of names) counts.set(n, (counts.get(n) ?? 0) + 1);
+    return counts;
+  };
+  const userCounts = count(accounts.map((a) => a.institution));
+  const caseCounts = count(records.map((r) => r.institution));
+
+  function register() {
+    registerInstitution.mutate(name.trim(), {
+      onSuccess: (institution) => {
+        toast.success(`${institution.name} registered`);
+        setName("");
+      },
+      onError: (error) =>
+        toast.error("Institution not registered", {
+          description: error.message,
+        }),
+    });
+  }
+
+  const cell = {
+    padding: "10px 12px",
+    fontSize: "12px",
+    color: "var(--thodar-text-secondary)",
+  };
+
+  return (
+    <div
+      className="mt-8 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+      }}
+    >
+      <PanelHeading>Participating Institutions</PanelHeading>
+      <p
+        className="font-inter font-light -mt-3 mb-5"
+        style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+      >
+        Surgeons and Department Heads only see cases from the institution on
+        their account. Quality Officers, Regional Registry Staff and
+        Administrators see every institution.
+      </p>
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div className="flex-1 min-w-60">
+          <PanelInputLabel htmlFor="institution-name">
+            Institution Name
+          </PanelInputLabel>
+          <Input
+            id="institution-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <Button
+          variant="outline"
+          disabled={!name.trim() || registerInstitution.isPending}
+          onClick={register}
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          Register Institution
+        </Button>
+      </div>
+      <div style={{ overflowX: "auto" }}>
+        <table
+          className="w-full"
+          style={{ borderCollapse: "collapse", minWidth: "560px" }}
+        >
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+              {["Institution", "Users", "Cases", "Registered"].map((label) => (
+                <th
+                  key={label}
+                  className="font-inter font-medium uppercase text-left"
+                  style={{
+                    fontSize: "10px",
+                    color: "var(--thodar-text-muted)",
+                    padding: "8px 12px",
+                    letterSpacing: "0.1em",
+                  }}
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {institutions.map((institution) => (
+              <tr
+                key={institution.name}
+                style={{ borderBottom: "1px solid var(--thodar-border)" }}
+              >
+                <td
+                  className="font-inter font-medium"
+                  style={{ ...cell, color: "var(--thodar-text-primary)" }}
+                >
+                  {institution.name}
+                </td>
+                <td className="font-inter font-light" style={cell}>
+                  {userCounts.get(institution.name) ?? 0}
+                </td>
+                <td className="font-inter font-light" style={cell}>
+                  {caseCounts.get(institution.name) ?? 0}
+                </td>
+                <td
+                  className="font-inter font-light"
+                  style={{ ...cell, color: "var(--thodar-text-muted)" }}
+                >
+                  {formatTimestamp(institution.registeredAt)} by{" "}
+                  {formatAuthor(institution.registeredBy)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// ─── Synthetic Demo Dataset ──────────────────────────────────────────────────
+export function SyntheticDatasetPanel() {
+  const { can } = useAccess();
+  const { data: institutions = [] } = useInstitutions();
+  const importSynthetic = useImportSyntheticCases();
+  const [count, setCount] = useState("1000");
+  const [seed, setSeed] = useState("1");
+
+  if (!can("manageRoles")) return null;
+
+  const caseCount = Number(count);
+  const valid =
+    Number.isInteger(caseCount) &&
+    caseCount >= 1 &&
+    caseCount <= MAX_SYNTHETIC_CASES &&
+    Number.isInteger(Number(seed)) &&
+    seed.trim() !== "";
+
+  function generate() {
+    importSynthetic.mutate(
+      {
+        count: caseCount,
+        seed: Number(seed),
+        institutions: institutions.map((i) => i.name),
+      },
+      {
+        onSuccess: (records) =>
+          toast.success(
+            `${records.length.toLocaleString()} synthetic cases imported`,
+          ),
+        onError: (error) =>
+          toast.error("Synthetic import stopped", {
+            description: error.message,
+          }),
+      },
+    );
+  }
+
+  return (
+    <div
+      className="mt-8 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+      }}
+    >
+      <PanelHeading>Synthetic Demo Dataset</PanelHeading>
+      <p
+        className="font-inter font-light -mt-3 mb-5"
+        style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+      >
+        Imports generated cases spread across the registered institutions, for
+        demonstrations and load testing. The same seed always produces the same
+        cases; patient identifiers start with {SYNTHETIC_PATIENT_PREFIX} so they
+        are never mistaken for real patients.
+      </p>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="w-36">
+          <PanelInputLabel htmlFor="synthetic-count">Cases</PanelInputLabel>
+          <Input
+            id="synthetic-count"
+            type="number"
+            min={1}
+            max={MAX_SYNTHETIC_CASES}
+            value={count}
+            onChange={(e) => setCount(e.target.value)}
+          />
+        </div>
+        <div className="w-28">
+          <PanelInputLabel htmlFor="synthetic-seed">Seed</PanelInputLabel>
+          <Input
+            id="synthetic-seed"
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+          />
+        </div>
+        <Button
+          variant="outline"
+          disabled={
+            !valid || institutions.length === 0 || importSynthetic.isPending
+          }
+          onClick={generate}
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          {importSynthetic.isPending ? "Importing…" : "Generate & Import"}
+        </Button>
+      </div>
+      {institutions.length === 0 && (
+        <p
+          className="font-inter font-light mt-3"
+          style={{ fontSize: "12px", color: "#b45309" }}
+        >
+          Register an institution before generating cases.
+        </p>
+      )}
+    </div>
+  );
+}
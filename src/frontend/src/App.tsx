@@ -1,3 +1,4 @@
+import { Toaster } from "@/components/ui/sonner";
 import {
   type ReactNode,
   useCallback,
@@ -901,6 +902,7 @@ export default function App() {
         <RegistryAndAnalyticsSections />
       </main>
       <Footer />
+      <Toaster position="bottom-right" />
     </div>
   );
 }
@@ -0,0 +1,231 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { useState } from "react";
+import { toast } from "sonner";
+import { PanelHeading, PanelInputLabel } from "./RegistryShared";
+import {
+  useAccess,
+  useCertifiedAuditTrailLoader,
+  useRecordAuditEvent,
+} from "./hooks/useRegistry";
+import {
+  type AuditEntry,
+  type AuditVerificationReport,
+  auditExportFileName,
+  auditLogToCsv,
+  buildAuditJsonExport,
+  parseAuditExport,
+  verifyAuditExport,
+} from "./registryAudit";
+import { downloadFile } from "./registryExport";
+
+// ─── Audit Export and Verification ───────────────────────────────────────────
+export function AuditExportControls({ entries }: { entries: AuditEntry[] }) {
+  const { access } = useAccess();
+  const recordAudit = useRecordAuditEvent();
+  const loadTrail = useCertifiedAuditTrailLoader();
+  const [exporting, setExporting] = useState(false);
+
+  // The export is recorded before the trail is read, so the file ends with
+  // its own entry and no file leaves without one.
+  async function exportLog(format: "csv" | "json") {
+    setExporting(true);
+    try {
+      await recordAudit.mutateAsync({
+        action: "Audit log exported",
+        caseRef: "",
+        detail: `${format === "csv" ? "CSV" : "JSON"}, full trail`,
+      });
+      const trail = await loadTrail();
+      const content =
+        format === "csv"
+          ? auditLogToCsv(trail.entries)
+          : JSON.stringify(
+              buildAuditJsonExport(trail, access?.principal ?? ""),
+              null,
+              2,
+            );
+      downloadFile(
+        auditExportFileName(format),
+        format === "csv" ? "text/csv" : "application/json",
+        content,
+      );
+    } catch (error) {
+      toast.error("Export failed", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+      <span
+        className="font-inter font-light mr-auto"
+        style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+      >
+        {entries.length} entries · exports always contain the full trail
+      </span>
+      {(["csv", "json"] as const).map((format) => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          disabled={exporting || entries.length === 0}
+          onClick={() => exportLog(format)}
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          {format === "csv" ? "Export CSV" : "Export JSON"}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function AuditVerificationPanel({ live }: { live: AuditEntry[] }) {
+  const [fileName, setFileName] = useState("");
+  const [report, setReport] = useState<AuditVerificationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  async function verify(file: File) {
+    setFileName(file.name);
+    setReport(null);
+    setError(null);
+    setVerifying(true);
+    try {
+      setReport(
+        await verifyAuditExport(parseAuditExport(await file.text()), live),
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  const textStyle = { fontSize: "12px", color: "var(--thodar-text-secondary)" };
+  const intact = report !== null && report.issues.length === 0;
+
+  return (
+    <div
+      className="mt-6 p-5"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-bg)",
+      }}
+    >
+      <PanelHeading>Integrity Verification</PanelHeading>
+      <p className="font-inter font-light mb-3" style={textStyle}>
+        Select an exported CSV or JSON file to re-compute its hash chain and
+        compare it with the live audit trail. JSON exports also carry the
+        Internet Computer's certificate over the chain head, which shows the
+        export is authentic without access to the registry.
+      </p>
+      <PanelInputLabel htmlFor="audit-verify-file">Export file</PanelInputLabel>
+      <Input
+        id="audit-verify-file"
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        disabled={verifying}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) verify(file);
+          e.target.value = "";
+        }}
+        className="max-w-sm"
+      />
+      {verifying && (
+        <p className="font-inter font-light mt-3" style={textStyle}>
+          Verifying {fileName}…
+        </p>
+      )}
+      {error && (
+        <p
+          className="font-inter font-light mt-3"
+          style={{ fontSize: "12px", color: "#b91c1c" }}
+        >
+          {fileName}: {error}
+        </p>
+      )}
+      {report && (
+        <div className="mt-4">
+          <p
+            className="font-inter font-medium mb-2"
+            style={{
+              fontSize: "13px",
+              color: intact ? "var(--thodar-teal)" : "#b91c1c",
+            }}
+          >
+            {intact
+              ? "Chain intact — no missing or modified entries"
+              : `${report.issues.length} integrity issue${report.issues.length === 1 ? "" : "s"} found`}
+          </p>
+          <dl
+            className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 font-inter font-light"
+            style={textStyle}
+          >
+            <div>
+              <dt style={{ color: "var(--thodar-text-muted)" }}>File</dt>
+              <dd>
+                {fileName} ({report.format})
+              </dd>
+            </div>
+            <div>
+              <dt style={{ color: "var(--thodar-text-muted)" }}>Entries</dt>
+              <dd>
+                {report.entryCount}
+                {report.firstSequence !== null &&
+                  ` (#${report.firstSequence}–#${report.lastSequence})`}
+              </dd>
+            </div>
+            <div>
+              <dt style={{ color: "var(--thodar-text-muted)" }}>Certificate</dt>
+              <dd>
+                {report.certified === null
+                  ? "None in file"
+                  : report.certified
+                    ? "Valid"
+                    : "Invalid"}
+              </dd>
+            </div>
+            <div>
+              <dt style={{ color: "var(--thodar-text-muted)" }}>
+                Registry trail
+              </dt>
+              <dd>
+                {report.matchesLive === null
+                  ? "Not compared"
+                  : report.matchesLive
+                    ? "Matches"
+                    : "Differs"}
+              </dd>
+            </div>
+          </dl>
+          {report.issues.length > 0 && (
+            <ul className="flex flex-col gap-1.5">
+              {report.issues.map((issue) => (
+                <li
+                  key={`${issue.kind}-${issue.sequence}-${issue.message}`}
+                  className="font-inter font-light"
+                  style={textStyle}
+                >
+                  <span
+                    className="font-medium uppercase tracking-wide mr-2"
+                    style={{ fontSize: "10px", color: "#b91c1c" }}
+                  >
+                    {issue.kind}
+                  </span>
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
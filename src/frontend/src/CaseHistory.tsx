@@ -0,0 +1,385 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useState } from "react";
+import { PanelHeading, PanelInputLabel } from "./RegistryShared";
+import {
+  useFollowUpProtocols,
+  useLogFollowUpEvent,
+  useRecordVersions,
+  useUpdateImplantRecord,
+} from "./hooks/useRegistry";
+import { IMPLANT_FIELD_LABELS, type ImplantRecord } from "./registryData";
+import { computeFollowUpSchedule } from "./registryFollowUp";
+import {
+  type FieldChange,
+  appendRevisionEntry,
+  changesInVersion,
+  diffRecords,
+  formatAuthor,
+  formatTimestamp,
+} from "./registryHistory";
+import type { ImplantRecordInput } from "./registryRepository";
+import { validateImplantRecordInput } from "./registryValidation";
+
+// ─── Case Update Actions ─────────────────────────────────────────────────────
+export function CaseUpdateActions({ record }: { record: ImplantRecord }) {
+  const updateRecord = useUpdateImplantRecord();
+  const today = new Date().toISOString().slice(0, 10);
+  const logEvent = useLogFollowUpEvent();
+  const { data: protocols } = useFollowUpProtocols();
+  const schedule = computeFollowUpSchedule(record, new Date(), protocols);
+  const [reviewDate, setReviewDate] = useState(today);
+  const [reviewNotes, setReviewNotes] = useState("");
+  const [complication, setComplication] = useState("");
+  const [complicationDate, setComplicationDate] = useState(today);
+  const [revision, setRevision] = useState("");
+  const [revisionDate, setRevisionDate] = useState(today);
+  const [error, setError] = useState<string | null>(null);
+
+  function submit(
+    changes: Partial<ImplantRecordInput>,
+    note: string,
+    onSuccess?: () => void,
+  ) {
+    const problems = validateImplantRecordInput({ ...record, ...changes });
+    const first = Object.entries(problems)[0];
+    if (first) {
+      const field = first[0] as keyof typeof IMPLANT_FIELD_LABELS;
+      setError(`${IMPLANT_FIELD_LABELS[field]}: ${first[1]}`);
+      return;
+    }
+    setError(null);
+    updateRecord.mutate({ id: record.id, changes, note }, { onSuccess });
+  }
+
+  return (
+    <div>
+      <div
+        className="py-7"
+        style={{ borderBottom: "1px solid var(--thodar-border)" }}
+      >
+        <PanelHeading>Record Clinical Review</PanelHeading>
+        <p
+          className="font-inter font-light mb-5"
+          style={{ fontSize: "12px", color: "var(--thodar-text-secondary)" }}
+        >
+          {schedule.protocol.name} protocol —{" "}
+          {schedule.nextReview
+            ? `next review due ${schedule.nextReview}.`
+            : "all scheduled reviews completed."}
+        </p>
+        <div className="grid grid-cols-3 gap-x-6 gap-y-4">
+          <div className="col-span-2">
+            <PanelInputLabel htmlFor="case-review-notes">
+              Review Notes
+            </PanelInputLabel>
+            <Input
+              id="case-review-notes"
+              value={reviewNotes}
+              placeholder="e.g. Radiographs satisfactory, no loosening"
+              onChange={(e) => setReviewNotes(e.target.value)}
+            />
+          </div>
+          <div>
+            <PanelInputLabel htmlFor="case-review-date">Date</PanelInputLabel>
+            <Input
+              id="case-review-date"
+              type="date"
+              value={reviewDate}
+              onChange={(e) => setReviewDate(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="font-inter font-medium mt-5"
+          style={{ fontSize: "12px" }}
+          disabled={updateRecord.isPending || logEvent.isPending}
+          onClick={() =>
+            submit(
+              { lastReview: reviewDate },
+              `Clinical review recorded (${reviewDate})`,
+              () =>
+                logEvent.mutate(
+                  {
+                    recordId: record.id,
+                    eventType: "Clinical Review",
+                    eventDate: reviewDate,
+                    notes: reviewNotes.trim(),
+                  },
+                  { onSuccess: () => setReviewNotes("") },
+                ),
+            )
+          }
+        >
+          Record Review
+        </Button>
+      </div>
+
+      <div
+        className="py-7"
+        style={{ borderBottom: "1px solid var(--thodar-border)" }}
+      >
+        <PanelHeading>Log Complication</PanelHeading>
+        <div className="grid grid-cols-3 gap-x-6 gap-y-4">
+          <div className="col-span-2">
+            <PanelInputLabel htmlFor="case-complication">
+              Description
+            </PanelInputLabel>
+            <Input
+              id="case-complication"
+              value={complication}
+              placeholder="e.g. Superficial wound infection"
+              onChange={(e) => setComplication(e.target.value)}
+            />
+          </div>
+          <div>
+            <PanelInputLabel htmlFor="case-complication-date">
+              Date
+            </PanelInputLabel>
+            <Input
+              id="case-complication-date"
+              type="date"
+              value={complicationDate}
+              onChange={(e) => setComplicationDate(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="font-inter font-medium mt-5"
+          style={{ fontSize: "12px" }}
+          disabled={updateRecord.isPending || complication.trim() === ""}
+          onClick={() =>
+            submit(
+              { complicationsLogged: record.complicationsLogged + 1 },
+              `Complication logged (${complicationDate}): ${complication.trim()}`,
+              () => setComplication(""),
+            )
+          }
+        >
+          Log Complication
+        </Button>
+      </div>
+
+      <div className="py-7">
+        <PanelHeading>Record Revision</PanelHeading>
+        <div className="grid grid-cols-3 gap-x-6 gap-y-4">
+          <div className="col-span-2">
+            <PanelInputLabel htmlFor="case-revision">
+              Revision Procedure
+            </PanelInputLabel>
+            <Input
+              id="case-revision"
+              value={revision}
+              placeholder="e.g. Liner exchange"
+              onChange={(e) => setRevision(e.target.value)}
+            />
+          </div>
+          <div>
+            <PanelInputLabel htmlFor="case-revision-date">Date</PanelInputLabel>
+            <Input
+              id="case-revision-date"
+              type="date"
+              value={revisionDate}
+              onChange={(e) => setRevisionDate(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="font-inter font-medium mt-5"
+          style={{ fontSize: "12px" }}
+          disabled={updateRecord.isPending || revision.trim() === ""}
+          onClick={() =>
+            submit(
+              {
+                revisionHistory: appendRevisionEntry(
+                  record.revisionHistory,
+                  revision,
+                  revisionDate,
+                ),
+              },
+              `Revision recorded (${revisionDate}): ${revision.trim()}`,
+              () => setRevision(""),
+            )
+          }
+        >
+          Record Revision
+        </Button>
+      </div>
+
+      {(error || updateRecord.error || logEvent.error) && (
+        <p
+          className="font-inter font-light pb-6"
+          style={{ fontSize: "12px", color: "#b91c1c" }}
+        >
+          {error ?? updateRecord.error?.message ?? logEvent.error?.message}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ─── Version diff list ───────────────────────────────────────────────────────
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  if (changes.length === 0) {
+    return (
+      <p
+        className="font-inter font-light"
+        style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+      >
+        No field changes.
+      </p>
+    );
+  }
+  return (
+    <ul className="space-y-2">
+      {changes.map((c) => (
+        <li key={c.field} className="font-inter" style={{ fontSize: "12px" }}>
+          <span
+            className="font-medium"
+            style={{ color: "var(--thodar-text-secondary)" }}
+          >
+            {c.label}:
+          </span>{" "}
+          <span
+            className="font-light"
+            style={{
+              color: "var(--thodar-text-muted)",
+              textDecoration: "line-through",
+            }}
+          >
+            {c.before || "—"}
+          </span>{" "}
+          <span style={{ color: "var(--thodar-text-muted)" }}>→</span>{" "}
+          <span className="font-light" style={{ color: "var(--thodar-teal)" }}>
+            {c.after || "—"}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ─── Case History ────────────────────────────────────────────────────────────
+export function CaseHistory({ record }: { record: ImplantRecord }) {
+  const { data: versions = [], isLoading } = useRecordVersions(record.id);
+  const [fromVersion, setFromVersion] = useState<string>("");
+  const [toVersion, setToVersion] = useState<string>("");
+
+  if (isLoading) return null;
+  if (versions.length === 0) {
+    return (
+      <p
+        className="font-inter font-light py-7"
+        style={{ fontSize: "13px", color: "var(--thodar-text-muted)" }}
+      >
+        No tracked changes yet. A baseline version is captured with the first
+        edit to this record.
+      </p>
+    );
+  }
+
+  const from =
+    versions.find((v) => String(v.version) === fromVersion) ?? versions[0];
+  const to =
+    versions.find((v) => String(v.version) === toVersion) ??
+    versions[versions.length - 1];
+
+  return (
+    <div>
+      {versions.length > 1 && (
+        <div
+          className="py-7"
+          style={{ borderBottom: "1px solid var(--thodar-border)" }}
+        >
+          <PanelHeading>Compare Versions</PanelHeading>
+          <div className="grid grid-cols-2 gap-x-6 mb-5">
+            {(
+              [
+                ["From", from, setFromVersion],
+                ["To", to, setToVersion],
+              ] as const
+            ).map(([label, selected, setSelected]) => (
+              <div key={label}>
+                <PanelInputLabel htmlFor={`case-compare-${label}`}>
+                  {label}
+                </PanelInputLabel>
+                <Select
+                  value={String(selected.version)}
+                  onValueChange={setSelected}
+                >
+                  <SelectTrigger
+                    id={`case-compare-${label}`}
+                    className="w-full"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((v) => (
+                      <SelectItem key={v.version} value={String(v.version)}>
+                        Version {v.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <ChangeList changes={diffRecords(from.snapshot, to.snapshot)} />
+        </div>
+      )}
+
+      <div className="py-7">
+        <PanelHeading>Version History</PanelHeading>
+        <ol className="space-y-5">
+          {versions
+            .map((v, i) => ({
+              version: v,
+              changes: changesInVersion(versions, i),
+            }))
+            .reverse()
+            .map(({ version, changes }) => (
+              <li
+                key={version.version}
+                className="pl-4"
+                style={{ borderLeft: "2px solid var(--thodar-border)" }}
+              >
+                <p
+                  className="font-inter font-medium mb-0.5"
+                  style={{
+                    fontSize: "12px",
+                    color: "var(--thodar-text-primary)",
+                  }}
+                >
+                  Version {version.version} — {version.note}
+                </p>
+                <p
+                  className="font-inter font-light mb-2"
+                  style={{
+                    fontSize: "11px",
+                    color: "var(--thodar-text-muted)",
+                  }}
+                >
+                  {formatTimestamp(version.timestamp)} ·{" "}
+                  {formatAuthor(version.author)}
+                </p>
+                {version.version > 1 && <ChangeList changes={changes} />}
+              </li>
+            ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ErrorBar, XAxis, YAxis } from "recharts";
+import { COHORT_COLORS } from "./RegistryShared";
+import {
+  COHORT_DIMENSIONS,
+  MAX_COHORTS,
+  computeCohortStats,
+  formatRateEstimate,
+  listCohortOptions,
+} from "./registryCohorts";
+import type { ImplantRecord } from "./registryData";
+
+// ─── Cohort Comparison ───────────────────────────────────────────────────────
+const COHORT_METRICS: Array<{
+  key: "complication" | "revision" | "compliance";
+  label: string;
+}> = [
+  { key: "complication", label: "Complication rate" },
+  { key: "revision", label: "Revision rate" },
+  { key: "compliance", label: "Follow-up compliance" },
+];
+
+export function CohortComparisonPanel({
+  records,
+}: { records: ImplantRecord[] }) {
+  const [dimension, setDimension] = useState(COHORT_DIMENSIONS[0]);
+  const [chosen, setChosen] = useState<string[] | null>(null);
+  const options = useMemo(
+    () => listCohortOptions(records, dimension),
+    [records, dimension],
+  );
+  // Until the officer picks cohorts, compare the two largest groupings.
+  const selected = useMemo(
+    () => chosen ?? options.slice(0, 2).map((o) => o.value),
+    [chosen, options],
+  );
+  const stats = useMemo(
+    () => computeCohortStats(records, dimension, selected),
+    [records, dimension, selected],
+  );
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    stats.map((cohort, i) => [
+      `cohort${i}`,
+      { label: cohort.value, color: COHORT_COLORS[i] },
+    ]),
+  );
+  const chartData = COHORT_METRICS.map(({ key, label }) => {
+    const row: Record<string, string | number | [number, number] | null> = {
+      metric: label,
+    };
+    stats.forEach((cohort, i) => {
+      const estimate = cohort[key];
+      if (estimate.rate === null) return;
+      const pct = Math.round(estimate.rate * 100);
+      row[`cohort${i}`] = pct;
+      row[`cohort${i}Ci`] = [
+        pct - Math.round((estimate.lower ?? 0) * 100),
+        Math.round((estimate.upper ?? 0) * 100) - pct,
+      ];
+    });
+    return row;
+  });
+
+  function toggleCohort(value: string) {
+    if (selected.includes(value)) {
+      setChosen(selected.filter((v) => v !== value));
+    } else if (selected.length < MAX_COHORTS) {
+      setChosen([...selected, value]);
+    }
+  }
+
+  const headerCell = {
+    fontSize: "10px",
+    color: "var(--thodar-text-muted)",
+    padding: "8px 12px",
+    textTransform: "uppercase" as const,
+    letterSpacing: "0.1em",
+  };
+
+  return (
+    <div
+      className="mt-6 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-bg)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.04)",
+      }}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-5">
+        <div>
+          <p
+            className="font-inter font-medium"
+            style={{ fontSize: "13px", color: "var(--thodar-text-primary)" }}
+          >
+            Cohort Comparison
+          </p>
+          <p
+            className="font-inter font-light mt-1"
+            style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+          >
+            Compare outcome rates between groupings of active cases.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor="cohort-dimension"
+            className="font-inter font-medium uppercase"
+            style={{
+              fontSize: "10px",
+              color: "var(--thodar-text-muted)",
+              letterSpacing: "0.12em",
+            }}
+          >
+            Group by
+          </Label>
+          <Select
+            value={dimension.field}
+            onValueChange={(field) => {
+              const next = COHORT_DIMENSIONS.find((d) => d.field === field);
+              if (!next) return;
+              setDimension(next);
+              setChosen(null);
+            }}
+          >
+            <SelectTrigger
+              id="cohort-dimension"
+              size="sm"
+              className="font-inter min-w-44"
+              style={{
+                fontSize: "12px",
+                backgroundColor: "var(--thodar-surface)",
+              }}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COHORT_DIMENSIONS.map((d) => (
+                <SelectItem key={d.field} value={d.field}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-5 gap-y-2 mb-6">
+        {options.map((option) => {
+          const id = `cohort-${option.value.replace(/\W+/g, "-")}`;
+          const checked = selected.includes(option.value);
+          return (
+            <div key={option.value} className="flex items-center gap-2">
+              <Checkbox
+                id={id}
+                checked={checked}
+                disabled={!checked && selected.length >= MAX_COHORTS}
+                onCheckedChange={() => toggleCohort(option.value)}
+              />
+              <Label
+                htmlFor={id}
+                className="font-inter font-light cursor-pointer"
+                style={{
+                  fontSize: "12px",
+                  color: "var(--thodar-text-secondary)",
+                }}
+              >
+                {option.value}{" "}
+                <span style={{ color: "var(--thodar-text-muted)" }}>
+                  ({option.count})
+                </span>
+              </Label>
+            </div>
+          );
+        })}
+      </div>
+
+      {stats.length < 2 ? (
+        <p
+          className="font-inter font-light"
+          style={{ fontSize: "13px", color: "var(--thodar-text-muted)" }}
+        >
+          Select at least two cohorts to compare.
+        </p>
+      ) : (
+        <>
+          <ChartContainer config={chartConfig} className="h-[240px] w-full">
+            <BarChart data={chartData} barCategoryGap="24%">
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="metric" tickLine={false} axisLine={false} />
+              <YAxis
+                domain={[0, 100]}
+                tickFormatter={(v) => `${v}%`}
+                tickLine={false}
+                axisLine={false}
+                width={40}
+              />
+              <ChartTooltip content={<ChartTooltipContent indicator="dot" />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {stats.map((cohort, i) => (
+                <Bar
+                  key={cohort.value}
+                  dataKey={`cohort${i}`}
+                  fill={`var(--color-cohort${i})`}
+                  radius={[2, 2, 0, 0]}
+                >
+                  <ErrorBar
+                    dataKey={`cohort${i}Ci`}
+                    width={4}
+                    strokeWidth={1}
+                    stroke="var(--thodar-text-secondary)"
+                  />
+                </Bar>
+              ))}
+            </BarChart>
+          </ChartContainer>
+
+          <div style={{ overflowX: "auto" }} className="mt-6">
+            <table className="w-full" style={{ borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+                  <th
+                    className="font-inter font-medium text-left"
+                    style={headerCell}
+                  >
+                    {dimension.label}
+                  </th>
+                  <th
+                    className="font-inter font-medium text-right"
+                    style={headerCell}
+                  >
+                    Cases
+                  </th>
+                  {COHORT_METRICS.map((m) => (
+                    <th
+                      key={m.key}
+                      className="font-inter font-medium text-right"
+                      style={headerCell}
+                    >
+                      {m.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map((cohort, i) => (
+                  <tr
+                    key={cohort.value}
+                    style={{ borderBottom: "1px solid var(--thodar-border)" }}
+                  >
+                    <td
+                      className="font-inter font-medium"
+                      style={{
+                        padding: "10px 12px",
+                        fontSize: "12px",
+                        color: "var(--thodar-text-primary)",
+                      }}
+                    >
+                      <span
+                        className="inline-block rounded-full mr-2"
+                        style={{
+                          width: "7px",
+                          height: "7px",
+                          backgroundColor: COHORT_COLORS[i],
+                        }}
+                      />
+                      {cohort.value}
+                    </td>
+                    <td
+                      className="font-inter font-light text-right tabular-nums"
+                      style={{
+                        padding: "10px 12px",
+                        fontSize: "12px",
+                        color: "var(--thodar-text-secondary)",
+                      }}
+                    >
+                      {cohort.count}
+                    </td>
+                    {COHORT_METRICS.map((m) => (
+                      <td
+                        key={m.key}
+                        className="font-inter font-light text-right tabular-nums"
+                        style={{
+                          padding: "10px 12px",
+                          fontSize: "12px",
+                          color: "var(--thodar-text-secondary)",
+                        }}
+                      >
+                        {formatRateEstimate(cohort[m.key])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p
+            className="font-inter font-light mt-3"
+            style={{ fontSize: "11px", color: "var(--thodar-text-muted)" }}
+          >
+            Rates shown with 95% Wilson score intervals. Overlapping intervals
+            mean the cohorts cannot be distinguished on current data.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useState } from "react";
+import { toast } from "sonner";
+import { AlertBadge, RiskBadge, StatusBadge } from "./RegistryShared";
+import {
+  type ComparisonRow,
+  buildComparisonRows,
+  orderForComparison,
+} from "./registryComparison";
+import type { ImplantRecord } from "./registryData";
+
+// ─── Comparison Workspace ────────────────────────────────────────────────────
+const DIFF_BG = "rgba(217,119,6,0.09)";
+const REFERENCE_BG = "rgba(61,139,130,0.07)";
+
+export function ComparisonWorkspace({
+  records,
+  referenceId,
+  onReferenceChange,
+  onRemove,
+  onClose,
+}: {
+  records: ImplantRecord[];
+  referenceId: string | null;
+  onReferenceChange: (id: string | null) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const ordered = orderForComparison(records, referenceId);
+  const rows = buildComparisonRows(ordered, referenceId);
+  const visibleRows = differencesOnly
+    ? rows.filter((row) => row.hasDifference)
+    : rows;
+  const differingCount = rows.filter((row) => row.hasDifference).length;
+  const reference = ordered.find((r) => r.id === referenceId);
+
+  function pin(record: ImplantRecord) {
+    if (record.id === referenceId) {
+      onReferenceChange(null);
+      toast(`Reference cleared — ${record.patientId}`);
+      return;
+    }
+    onReferenceChange(record.id);
+    toast.success(`${record.patientId} pinned as reference`, {
+      description: "Other cases are now diffed against this one.",
+    });
+  }
+
+  function renderValue(record: ImplantRecord, row: ComparisonRow, i: number) {
+    switch (row.field.key) {
+      case "alertLevel":
+        return <AlertBadge level={record.alertLevel} />;
+      case "riskLevel":
+        return <RiskBadge level={record.riskLevel} />;
+      case "followUpStatus":
+        return <StatusBadge status={record.followUpStatus} />;
+      default:
+        return row.values[i];
+    }
+  }
+
+  const labelCellStyle = {
+    position: "sticky" as const,
+    left: 0,
+    zIndex: 1,
+    minWidth: "170px",
+    borderRight: "1px solid var(--thodar-border)",
+  };
+
+  return (
+    <div
+      id="comparison"
+      className="mt-8 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+      }}
+    >
+      <div className="flex items-start justify-between mb-5">
+        <div>
+          <p
+            className="font-inter font-medium tracking-[0.16em] uppercase mb-1"
+            style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
+          >
+            Multi-Implant Comparative Review
+          </p>
+          <h4
+            className="font-playfair font-normal"
+            style={{
+              fontSize: "19px",
+              color: "var(--thodar-text-primary)",
+            }}
+          >
+            Comparative Clinical Review Mode
+          </h4>
+          <p
+            className="font-inter font-light mt-1"
+            style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+          >
+            {records.length} cases · {differingCount} of {rows.length} fields
+            differ
+            {reference ? ` from reference ${reference.patientId}` : ""}
+          </p>
+        </div>
+        <div className="flex items-center gap-5">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="comparison-differences-only"
+              checked={differencesOnly}
+              onCheckedChange={setDifferencesOnly}
+            />
+            <Label
+              htmlFor="comparison-differences-only"
+              className="font-inter font-light cursor-pointer"
+              style={{
+                fontSize: "12px",
+                color: "var(--thodar-text-secondary)",
+              }}
+            >
+              Differences only
+            </Label>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="font-inter font-light hover:opacity-50 transition-opacity"
+            style={{
+              fontSize: "18px",
+              color: "var(--thodar-text-muted)",
+            }}
+            aria-label="Close comparison"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+      <div style={{ overflow: "auto", maxHeight: "70vh" }}>
+        <table style={{ borderCollapse: "separate", borderSpacing: 0 }}>
+          <thead>
+            <tr>
+              <th
+                className="font-inter font-medium text-left"
+                style={{
+                  ...labelCellStyle,
+                  top: 0,
+                  zIndex: 3,
+                  fontSize: "10px",
+                  color: "var(--thodar-text-muted)",
+                  padding: "8px 12px",
+                  textTransform: "uppercase",
+                  letterSpacing: "0.1em",
+                  backgroundColor: "var(--thodar-surface)",
+                  borderBottom: "1px solid var(--thodar-border)",
+                }}
+              >
+                Attribute
+              </th>
+              {ordered.map((r) => {
+                const isReference = r.id === referenceId;
+                return (
+                  <th
+                    key={r.id}
+                    className="font-inter font-medium text-left align-top"
+                    style={{
+                      position: "sticky",
+                      top: 0,
+                      zIndex: 2,
+                      minWidth: "180px",
+                      padding: "8px 12px",
+                      backgroundColor: isReference
+                        ? "var(--thodar-bg)"
+                        : "var(--thodar-surface)",
+                      borderBottom: "1px solid var(--thodar-border)",
+                    }}
+                  >
+                    <p
+                      style={{
+                        fontSize: "10px",
+                        color: "var(--thodar-teal)",
+                        textTransform: "uppercase",
+                        letterSpacing: "0.1em",
+                      }}
+                    >
+                      {r.patientId}
+                      {isReference && (
+                        <span style={{ color: "var(--thodar-text-muted)" }}>
+                          {" "}
+                          · Reference
+                        </span>
+                      )}
+                    </p>
+                    <div className="flex items-center gap-3 mt-1.5">
+                      <button
+                        type="button"
+                        onClick={() => pin(r)}
+                        aria-pressed={isReference}
+                        className="font-inter font-light transition-opacity hover:opacity-60"
+                        style={{
+                          fontSize: "11px",
+                          color: "var(--thodar-text-secondary)",
+                        }}
+                      >
+                        {isReference ? "Unpin" : "Pin as reference"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onRemove(r.id)}
+                        className="font-inter font-light transition-opacity hover:opacity-60"
+                        style={{
+                          fontSize: "11px",
+                          color: "var(--thodar-text-muted)",
+                        }}
+                        aria-label={`Remove ${r.patientId} from comparison`}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row, rowIndex) => {
+              const rowBg =
+                rowIndex % 2 === 0
+                  ? "var(--thodar-bg)"
+                  : "var(--thodar-surface)";
+              return (
+                <tr key={row.field.key}>
+                  <td
+                    className="font-inter font-medium"
+                    style={{
+                      ...labelCellStyle,
+                      padding: "10px 12px",
+                      fontSize: "12px",
+                      color: "var(--thodar-text-muted)",
+                      whiteSpace: "nowrap",
+                      backgroundColor: rowBg,
+                      borderBottom: "1px solid var(--thodar-border)",
+                    }}
+                  >
+                    {row.field.label}
+                    {row.hasDifference && (
+                      <span
+                        className="inline-block ml-2 rounded-full"
+                        style={{
+                          width: "6px",
+                          height: "6px",
+                          backgroundColor: "#d97706",
+                          verticalAlign: "middle",
+                        }}
+                        title="Values differ"
+                      />
+                    )}
+                  </td>
+                  {ordered.map((r, i) => (
+                    <td
+                      key={r.id}
+                      className="font-inter font-light"
+                      style={{
+                        padding: "10px 12px",
+                        fontSize: "13px",
+                        color: "var(--thodar-text-secondary)",
+                        backgroundColor: row.differs[i]
+                          ? DIFF_BG
+                          : r.id === referenceId
+                            ? REFERENCE_BG
+                            : rowBg,
+                        boxShadow: row.differs[i]
+                          ? "inset 2px 0 0 #d97706"
+                          : undefined,
+                        borderBottom: "1px solid var(--thodar-border)",
+                      }}
+                    >
+                      {renderValue(r, row, i)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={ordered.length + 1}
+                  className="font-inter font-light text-center"
+                  style={{
+                    padding: "20px 12px",
+                    fontSize: "13px",
+                    color: "var(--thodar-text-muted)",
+                  }}
+                >
+                  All compared fields match.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <p
+        className="font-inter font-light mt-4"
+        style={{
+          fontSize: "11px",
+          color: "var(--thodar-text-muted)",
+          fontStyle: "italic",
+        }}
+      >
+        Designed for multidisciplinary review meetings. Highlighted cells differ{" "}
+        {reference ? "from the pinned reference" : "across the compared cases"}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useState } from "react";
+import { toast } from "sonner";
+import { PanelHeading, PanelInputLabel } from "./RegistryShared";
+import {
+  useAccess,
+  useDevices,
+  useRegisterDevice,
+  useRetireDevice,
+} from "./hooks/useRegistry";
+import type { ImplantRecord } from "./registryData";
+import {
+  ANATOMICAL_SITES,
+  type CatalogueDevice,
+  type CatalogueDeviceInput,
+  findDeviceMismatches,
+  validateDeviceInput,
+} from "./registryDevices";
+
+// ─── Device Catalogue ────────────────────────────────────────────────────────
+const EMPTY_DEVICE: CatalogueDeviceInput = {
+  manufacturer: "",
+  productFamily: "",
+  modelRef: "",
+  catalogueNumber: "",
+  material: "",
+  fixationType: "",
+  intendedSites: [],
+  udiDi: "",
+};
+
+const ANY_SITE = "__any";
+
+function DeviceRegistrationForm({ devices }: { devices: CatalogueDevice[] }) {
+  const registerDevice = useRegisterDevice();
+  const [draft, setDraft] = useState<CatalogueDeviceInput>(EMPTY_DEVICE);
+  const [submitted, setSubmitted] = useState(false);
+  const errors = validateDeviceInput(draft, devices);
+
+  function set<K extends keyof CatalogueDeviceInput>(
+    field: K,
+    value: CatalogueDeviceInput[K],
+  ) {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function toggleSite(site: string) {
+    set(
+      "intendedSites",
+      draft.intendedSites.includes(site)
+        ? draft.intendedSites.filter((s) => s !== site)
+        : ANATOMICAL_SITES.filter(
+            (s) => s === site || draft.intendedSites.includes(s),
+          ),
+    );
+  }
+
+  function submit() {
+    setSubmitted(true);
+    if (Object.keys(errors).length > 0) return;
+    registerDevice.mutate(draft, {
+      onSuccess: (device) => {
+        toast.success(`${device.modelRef} added to the catalogue`, {
+          description: `Catalogue ID ${device.id}`,
+        });
+        setDraft(EMPTY_DEVICE);
+        setSubmitted(false);
+      },
+      onError: (error) =>
+        toast.error("Device not registered", { description: error.message }),
+    });
+  }
+
+  const error = (id: keyof CatalogueDeviceInput) =>
+    submitted &&
+    errors[id] && (
+      <p
+        className="font-inter mt-1"
+        style={{ fontSize: "11px", color: "#b91c1c" }}
+      >
+        {errors[id]}
+      </p>
+    );
+
+  const text = (id: keyof CatalogueDeviceInput, label: string) => (
+    <div>
+      <PanelInputLabel htmlFor={`device-${id}`}>{label}</PanelInputLabel>
+      <Input
+        id={`device-${id}`}
+        value={draft[id] as string}
+        onChange={(e) => set(id, e.target.value)}
+      />
+      {error(id)}
+    </div>
+  );
+
+  return (
+    <div
+      className="mb-6 p-4"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-bg)",
+      }}
+    >
+      <div className="grid sm:grid-cols-2 gap-3">
+        {text("manufacturer", "Manufacturer")}
+        {text("productFamily", "Product Family")}
+        {text("modelRef", "Model Reference")}
+        {text("catalogueNumber", "Catalogue Number")}
+        {text("material", "Material Composition")}
+        {text("fixationType", "Fixation Type")}
+        {text("udiDi", "UDI-DI (GTIN-14)")}
+      </div>
+      <fieldset className="mt-4">
+        <legend
+          className="font-inter font-medium uppercase mb-2"
+          style={{
+            fontSize: "10px",
+            color: "var(--thodar-text-muted)",
+            letterSpacing: "0.1em",
+          }}
+        >
+          Intended Anatomical Sites
+        </legend>
+        <div className="flex flex-wrap gap-x-5 gap-y-2">
+          {ANATOMICAL_SITES.map((site) => {
+            const id = `device-site-${site.replace(/\s+/g, "-").toLowerCase()}`;
+            return (
+              <div key={site} className="flex items-center gap-2">
+                <Checkbox
+                  id={id}
+                  checked={draft.intendedSites.includes(site)}
+                  onCheckedChange={() => toggleSite(site)}
+                />
+                <Label
+                  htmlFor={id}
+                  className="font-inter font-light cursor-pointer"
+                  style={{
+                    fontSize: "12px",
+                    color: "var(--thodar-text-secondary)",
+                  }}
+                >
+                  {site}
+                </Label>
+              </div>
+            );
+          })}
+        </div>
+        {error("intendedSites")}
+      </fieldset>
+      <Button
+        variant="outline"
+        disabled={registerDevice.isPending}
+        onClick={submit}
+        className="font-inter font-medium mt-4"
+        style={{ fontSize: "12px" }}
+      >
+        Register Device
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Browses the device catalogue that case records link to, and lists legacy
+ * cases whose free-text model names a catalogue device intended for a
+ * different anatomical site.
+ */
+export function DeviceCataloguePanel({
+  records,
+}: { records: ImplantRecord[] }) {
+  const { can } = useAccess();
+  const { data: devices = [] } = useDevices();
+  const retireDevice = useRetireDevice();
+  const [query, setQuery] = useState("");
+  const [site, setSite] = useState(ANY_SITE);
+  const [showRetired, setShowRetired] = useState(false);
+
+  const caseCounts = new Map<string, number>();
+  for (const r of records) {
+    if (r.deviceId)
+      caseCounts.set(r.deviceId, (caseCounts.get(r.deviceId) ?? 0) + 1);
+  }
+  const mismatches = findDeviceMismatches(records, devices);
+  const needle = query.trim().toLowerCase();
+  const visible = devices.filter(
+    (d) =>
+      (showRetired || !d.retired) &&
+      (site === ANY_SITE || d.intendedSites.includes(site)) &&
+      (!needle ||
+        [
+          d.manufacturer,
+          d.productFamily,
+          d.modelRef,
+          d.catalogueNumber,
+          d.udiDi,
+        ]
+          .join(" ")
+          .toLowerCase()
+          .includes(needle)),
+  );
+
+  function retire(device: CatalogueDevice) {
+    retireDevice.mutate(device.id, {
+      onSuccess: () =>
+        toast.success(`${device.modelRef} retired`, {
+          description: "Existing cases keep their link to it.",
+        }),
+      onError: (error) =>
+        toast.error("Device not retired", { description: error.message }),
+    });
+  }
+
+  const cell = {
+    padding: "10px 12px",
+    fontSize: "12px",
+    color: "var(--thodar-text-secondary)",
+  };
+
+  return (
+    <div
+      className="mt-8 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-bg)",
+      }}
+    >
+      <PanelHeading>Device Catalogue</PanelHeading>
+      <p
+        className="font-inter font-light -mt-3 mb-5"
+        style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+      >
+        Cases linked to a catalogue device take its manufacturer, model,
+        material and fixation from here, and can only be linked to devices
+        intended for their anatomical site.
+      </p>
+      {can("manageDevices") && <DeviceRegistrationForm devices={devices} />}
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div className="flex-1 min-w-60">
+          <PanelInputLabel htmlFor="device-search">Search</PanelInputLabel>
+          <Input
+            id="device-search"
+            value={query}
+            placeholder="Manufacturer, model, catalogue number or UDI-DI"
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <div className="min-w-44">
+          <PanelInputLabel htmlFor="device-site">
+            Anatomical Site
+          </PanelInputLabel>
+          <Select value={site} onValueChange={setSite}>
+            <SelectTrigger id="device-site" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_SITE}>Any site</SelectItem>
+              {ANATOMICAL_SITES.map((s) => (
+                <SelectItem key={s} value={s}>
+                  {s}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch
+            id="device-show-retired"
+            checked={showRetired}
+            onCheckedChange={setShowRetired}
+          />
+          <Label
+            htmlFor="device-show-retired"
+            className="font-inter font-light"
+            style={{ fontSize: "12px", color: "var(--thodar-text-secondary)" }}
+          >
+            Show retired
+          </Label>
+        </div>
+      </div>
+      <div style={{ overflowX: "auto" }}>
+        <table
+          className="w-full"
+          style={{ borderCollapse: "collapse", minWidth: "980px" }}
+        >
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+              {[
+                "Device",
+                "Catalogue No.",
+                "Material",
+                "Fixation",
+                "Intended Sites",
+                "UDI-DI",
+                "Cases",
+                "Status",
+              ].map((label) => (
+                <th
+                  key={label}
+                  className="font-inter font-medium uppercase text-left"
+                  style={{
+                    fontSize: "10px",
+                    color: "var(--thodar-text-muted)",
+                    padding: "8px 12px",
+                    letterSpacing: "0.1em",
+                  }}
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((device) => (
+              <tr
+                key={device.id}
+                style={{
+                  borderBottom: "1px solid var(--thodar-border)",
+                  opacity: device.retired ? 0.6 : 1,
+                }}
+              >
+                <td className="font-inter" style={cell}>
+                  <span
+                    className="font-medium"
+                    style={{ color: "var(--thodar-text-primary)" }}
+                  >
+                    {device.modelRef}
+                  </span>
+                  <br />
+                  <span className="font-light">
+                    {device.manufacturer} · {device.productFamily}
+                  </span>
+                </td>
+                <td className="font-inter font-light" style={cell}>
+                  {device.catalogueNumber}
+                </td>
+                <td className="font-inter font-light" style={cell}>
+                  {device.material}
+                </td>
+                <td className="font-inter font-light" style={cell}>
+                  {device.fixationType}
+                </td>
+                <td className="font-inter font-light" style={cell}>
+                  {device.intendedSites.join(", ")}
+                </td>
+                <td className="font-mono" style={{ ...cell, fontSize: "11px" }}>
+                  (01){device.udiDi}
+                </td>
+                <td className="font-inter font-light" style={cell}>
+                  {caseCounts.get(device.id) ?? 0}
+                </td>
+                <td className="font-inter font-light" style={cell}>
+                  {device.retired ? (
+                    "Retired"
+                  ) : can("manageDevices") ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={retireDevice.isPending}
+                      onClick={() => retire(device)}
+                      className="font-inter"
+                      style={{ fontSize: "11px" }}
+                    >
+                      Retire
+                    </Button>
+                  ) : (
+                    "Active"
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visible.length === 0 && (
+          <p
+            className="font-inter font-light mt-4"
+            style={{ fontSize: "13px", color: "var(--thodar-text-muted)" }}
+          >
+            No catalogue devices match these filters.
+          </p>
+        )}
+      </div>
+      {mismatches.length > 0 && (
+        <div className="mt-6">
+          <PanelHeading>Site Mismatches</PanelHeading>
+          <ul className="flex flex-col gap-1">
+            {mismatches.map(({ record, device }) => (
+              <li
+                key={record.id}
+                className="font-inter font-light"
+                style={{ fontSize: "12px", color: "#b45309" }}
+              >
+                {record.id} ({record.patientId}): {device.modelRef} recorded at{" "}
+                {record.anatomicalSite}; the catalogue lists it for{" "}
+                {device.intendedSites.join(", ")}.
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
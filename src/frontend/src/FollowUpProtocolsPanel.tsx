@@ -0,0 +1,291 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { PanelHeading } from "./RegistryShared";
+import {
+  useAccess,
+  useFollowUpProtocols,
+  useSaveFollowUpProtocols,
+} from "./hooks/useRegistry";
+import {
+  type FollowUpProtocol,
+  formatMilestones,
+  parseMilestones,
+  validateFollowUpProtocols,
+} from "./registryFollowUp";
+
+// ─── Follow-Up Protocols ─────────────────────────────────────────────────────
+interface ProtocolDraft {
+  id: string;
+  name: string;
+  categoryPattern: string;
+  milestones: string;
+  thenEveryMonths: string;
+}
+
+function toDraft(protocol: FollowUpProtocol): ProtocolDraft {
+  return {
+    id: protocol.id,
+    name: protocol.name,
+    categoryPattern: protocol.categoryPattern,
+    milestones: formatMilestones(protocol.milestones),
+    thenEveryMonths: protocol.thenEveryMonths
+      ? String(protocol.thenEveryMonths)
+      : "",
+  };
+}
+
+// Malformed milestone shorthand is reported here; everything else by
+// `validateFollowUpProtocols`.
+function fromDrafts(drafts: ProtocolDraft[]): {
+  protocols: FollowUpProtocol[];
+  problems: string[];
+} {
+  const problems: string[] = [];
+  const protocols = drafts.map((draft) => {
+    const milestones = parseMilestones(draft.milestones);
+    if (!milestones) {
+      problems.push(
+        `${draft.name || draft.id}: write milestones as weeks or months, e.g. "6w, 3m, 12m"`,
+      );
+    }
+    const every = draft.thenEveryMonths.trim();
+    return {
+      id: draft.id,
+      name: draft.name.trim(),
+      categoryPattern: draft.categoryPattern.trim(),
+      milestones: milestones ?? [],
+      ...(every && { thenEveryMonths: Number(every) }),
+    };
+  });
+  return {
+    protocols,
+    problems: problems.length ? problems : validateFollowUpProtocols(protocols),
+  };
+}
+
+function nextProtocolId(drafts: ProtocolDraft[]): string {
+  const ids = new Set(drafts.map((d) => d.id));
+  let n = drafts.length + 1;
+  while (ids.has(`protocol-${n}`)) n += 1;
+  return `protocol-${n}`;
+}
+
+export function FollowUpProtocolsPanel() {
+  const { can } = useAccess();
+  const { data: protocols } = useFollowUpProtocols();
+  const saveProtocols = useSaveFollowUpProtocols();
+  const [drafts, setDrafts] = useState<ProtocolDraft[]>([]);
+
+  useEffect(() => {
+    if (protocols) setDrafts(protocols.map(toDraft));
+  }, [protocols]);
+
+  if (!can("manageProtocols")) return null;
+
+  const { protocols: edited, problems } = fromDrafts(drafts);
+  const dirty =
+    protocols !== undefined &&
+    JSON.stringify(protocols.map(toDraft)) !== JSON.stringify(drafts);
+
+  function change(index: number, field: keyof ProtocolDraft, value: string) {
+    setDrafts((current) =>
+      current.map((d, i) => (i === index ? { ...d, [field]: value } : d)),
+    );
+  }
+
+  // New protocols go before the catch-all so it keeps matching last.
+  function add() {
+    setDrafts((current) => [
+      ...current.slice(0, -1),
+      {
+        id: nextProtocolId(current),
+        name: "",
+        categoryPattern: "",
+        milestones: "",
+        thenEveryMonths: "",
+      },
+      ...current.slice(-1),
+    ]);
+  }
+
+  function remove(index: number) {
+    setDrafts((current) => current.filter((_, i) => i !== index));
+  }
+
+  function save() {
+    saveProtocols.mutate(edited, {
+      onSuccess: (saved) =>
+        toast.success(`${saved.length} follow-up protocols saved`, {
+          description: "Every case is rescheduled against the new protocols.",
+        }),
+      onError: (error) =>
+        toast.error("Protocols not saved", { description: error.message }),
+    });
+  }
+
+  const cell = { padding: "8px 6px", verticalAlign: "top" as const };
+
+  return (
+    <div
+      className="mt-8 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+      }}
+    >
+      <PanelHeading>Follow-Up Protocols</PanelHeading>
+      <p
+        className="font-inter font-light -mt-3 mb-5"
+        style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+      >
+        Each case follows the first protocol whose pattern matches its implant
+        category; the last protocol covers every other category. Milestones are
+        counted from surgery, e.g. "6w, 12m", and reviews then recur every given
+        number of months. Leave the interval empty to complete the protocol
+        after its last milestone.
+      </p>
+      <div style={{ overflowX: "auto" }}>
+        <table
+          className="w-full"
+          style={{ borderCollapse: "collapse", minWidth: "720px" }}
+        >
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+              {[
+                "Protocol",
+                "Implant Category Pattern",
+                "Milestones",
+                "Then Every (Months)",
+                "",
+              ].map((label) => (
+                <th
+                  key={label}
+                  className="font-inter font-medium uppercase text-left"
+                  style={{
+                    fontSize: "10px",
+                    color: "var(--thodar-text-muted)",
+                    padding: "8px 6px",
+                    letterSpacing: "0.1em",
+                  }}
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map((draft, index) => {
+              const catchAll = index === drafts.length - 1;
+              return (
+                <tr
+                  key={draft.id}
+                  style={{ borderBottom: "1px solid var(--thodar-border)" }}
+                >
+                  <td style={cell}>
+                    <Input
+                      aria-label="Protocol name"
+                      value={draft.name}
+                      onChange={(e) => change(index, "name", e.target.value)}
+                    />
+                  </td>
+                  <td style={cell}>
+                    <Input
+                      aria-label="Implant category pattern"
+                      value={draft.categoryPattern}
+                      onChange={(e) =>
+                        change(index, "categoryPattern", e.target.value)
+                      }
+                      className="font-mono"
+                    />
+                  </td>
+                  <td style={cell}>
+                    <Input
+                      aria-label="Milestones"
+                      value={draft.milestones}
+                      onChange={(e) =>
+                        change(index, "milestones", e.target.value)
+                      }
+                    />
+                  </td>
+                  <td style={{ ...cell, width: "120px" }}>
+                    <Input
+                      aria-label="Recurring interval in months"
+                      inputMode="numeric"
+                      value={draft.thenEveryMonths}
+                      onChange={(e) =>
+                        change(index, "thenEveryMonths", e.target.value)
+                      }
+                    />
+                  </td>
+                  <td style={{ ...cell, width: "90px" }}>
+                    {catchAll ? (
+                      <span
+                        className="font-inter font-light"
+                        style={{
+                          fontSize: "11px",
+                          color: "var(--thodar-text-muted)",
+                        }}
+                      >
+                        Catch-all
+                      </span>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => remove(index)}
+                        className="font-inter"
+                        style={{ fontSize: "11px" }}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {dirty && problems.length > 0 && (
+        <ul
+          className="flex flex-col gap-1 mt-4 font-inter font-light"
+          style={{ fontSize: "12px", color: "#b91c1c" }}
+        >
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-3 mt-5">
+        <Button
+          variant="outline"
+          onClick={add}
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          Add Protocol
+        </Button>
+        <Button
+          variant="outline"
+          disabled={!dirty}
+          onClick={() => setDrafts((protocols ?? []).map(toDraft))}
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          Discard Changes
+        </Button>
+        <Button
+          disabled={!dirty || problems.length > 0 || saveProtocols.isPending}
+          onClick={save}
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          Save Protocols
+        </Button>
+      </div>
+    </div>
+  );
+}
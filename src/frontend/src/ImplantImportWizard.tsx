@@ -0,0 +1,582 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import {
+  useAccess,
+  useDataScope,
+  useDevices,
+  useFollowUpProtocols,
+  useImplantRecords,
+  useImportImplantRecords,
+  useInstitutions,
+} from "./hooks/useRegistry";
+import { downloadFile } from "./registryExport";
+import {
+  type ColumnMapping,
+  IMPORT_FIELDS,
+  type ImportField,
+  type ImportRow,
+  type ImportTable,
+  importFieldDefault,
+  importFieldLabel,
+  importReportToCsv,
+  importRowStatus,
+  importableInputs,
+  planImport,
+  readImportFile,
+  sourcePatientIds,
+  suggestMapping,
+  summarizeImport,
+  unmappedRequiredFields,
+} from "./registryImport";
+import { inScope } from "./registryInstitutions";
+import {
+  DEFAULT_PSEUDONYMIZATION_OPTIONS,
+  type PseudonymTable,
+  type PseudonymizationOptions,
+  countPseudonymizationChanges,
+  derivePseudonyms,
+} from "./registryPseudonymization";
+
+const STEPS = ["Upload File", "Map Columns", "De-identify", "Dry Run"] as const;
+const UNMAPPED = "__none";
+
+const STATUS_COLORS: Record<ReturnType<typeof importRowStatus>, string> = {
+  ready: "var(--thodar-teal)",
+  duplicate: "#b45309",
+  invalid: "#b91c1c",
+};
+
+function rowIssues(row: ImportRow): string[] {
+  return [
+    ...Object.entries(row.errors).map(
+      ([field, message]) =>
+        `${importFieldLabel(field as ImportField)}: ${message}`,
+    ),
+    ...(row.duplicateOf ? [`Duplicate of ${row.duplicateOf}`] : []),
+    ...row.warnings,
+  ];
+}
+
+function MappingField({
+  field,
+  columns,
+  value,
+  onChange,
+}: {
+  field: ImportField;
+  columns: string[];
+  value: string | undefined;
+  onChange: (column: string | undefined) => void;
+}) {
+  const fallback = importFieldDefault(field);
+  return (
+    <div className="grid gap-1.5">
+      <Label htmlFor={`import-${field}`} className="text-xs">
+        {importFieldLabel(field)}
+        {!fallback && <span className="text-destructive">*</span>}
+      </Label>
+      <Select
+        value={value ?? UNMAPPED}
+        onValueChange={(v) => onChange(v === UNMAPPED ? undefined : v)}
+      >
+        <SelectTrigger id={`import-${field}`} size="sm" className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNMAPPED}>
+            {fallback ? `Not mapped (${fallback})` : "Not mapped"}
+          </SelectItem>
+          {columns.map((column) => (
+            <SelectItem key={column} value={column}>
+              {column}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+const OPTION_LABELS: Record<
+  keyof typeof DEFAULT_PSEUDONYMIZATION_OPTIONS,
+  string
+> = {
+  generalizeAges: "Report ages above 89 as 90",
+  monthPrecisionDates: "Truncate surgery and review dates to the month",
+  scrubFreeText:
+    "Remove names, phone and hospital numbers and email addresses from diagnosis, comorbidity and revision notes",
+};
+
+function DeidentificationStep({
+  enabled,
+  required,
+  options,
+  onEnabledChange,
+  onOptionsChange,
+}: {
+  enabled: boolean;
+  /** Set when the caller cannot see identifiers and so may not import them. */
+  required: boolean;
+  options: PseudonymizationOptions;
+  onEnabledChange: (enabled: boolean) => void;
+  onOptionsChange: (options: PseudonymizationOptions) => void;
+}) {
+  return (
+    <div className="grid gap-4">
+      <div className="flex items-start gap-2">
+        <Checkbox
+          id="import-deidentify"
+          checked={enabled}
+          disabled={required}
+          onCheckedChange={(checked) => onEnabledChange(checked === true)}
+        />
+        <Label htmlFor="import-deidentify" className="leading-snug">
+          Replace patient identifiers with keyed pseudonyms
+        </Label>
+      </div>
+      {required && (
+        <p className="text-muted-foreground text-sm">
+          Your role cannot view patient identifiers, so imported identifiers and
+          free text are always de-identified.
+        </p>
+      )}
+      {enabled ? (
+        <>
+          <div className="grid gap-2">
+            <Label htmlFor="import-key">Pseudonymization Key</Label>
+            <Input
+              id="import-key"
+              type="password"
+              autoComplete="off"
+              value={options.key}
+              onChange={(e) =>
+                onOptionsChange({ ...options, key: e.target.value })
+              }
+            />
+            <p className="text-muted-foreground text-sm">
+              The key is never stored. Using the same key for later imports
+              gives the same patient the same pseudonym, so follow-up batches
+              link up and repeated cases are caught as duplicates.
+            </p>
+          </div>
+          {(Object.keys(OPTION_LABELS) as (keyof typeof OPTION_LABELS)[]).map(
+            (option) => (
+              <div key={option} className="flex items-start gap-2">
+                <Checkbox
+                  id={`import-${option}`}
+                  checked={options[option]}
+                  disabled={required && option === "scrubFreeText"}
+                  onCheckedChange={(checked) =>
+                    onOptionsChange({ ...options, [option]: checked === true })
+                  }
+                />
+                <Label htmlFor={`import-${option}`} className="leading-snug">
+                  {OPTION_LABELS[option]}
+                </Label>
+              </div>
+            ),
+          )}
+        </>
+      ) : (
+        <p className="text-destructive text-sm">
+          Identifiers and free text will be imported exactly as supplied. Only
+          continue if the source file is already de-identified.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function DryRunReport({
+  rows,
+  deidentified,
+}: {
+  rows: ImportRow[];
+  deidentified: boolean;
+}) {
+  const summary = summarizeImport(rows);
+  const changes = countPseudonymizationChanges(rows.flatMap((r) => r.changes));
+  const flagged = rows.filter(
+    (r) => importRowStatus(r) !== "ready" || r.warnings.length > 0,
+  );
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[
+          ["Rows", summary.total],
+          ["Ready", summary.ready],
+          ["Duplicates", summary.duplicates],
+          ["Errors", summary.invalid],
+        ].map(([label, value]) => (
+          <div key={label} className="border p-2">
+            <p className="font-playfair text-xl">{value}</p>
+            <p className="text-muted-foreground text-xs uppercase tracking-wide">
+              {label}
+            </p>
+          </div>
+        ))}
+      </div>
+      {flagged.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          Every row passed validation.
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto border">
+          <table
+            className="w-full text-xs"
+            style={{ borderCollapse: "collapse" }}
+          >
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="p-2 font-medium">Line</th>
+                <th className="p-2 font-medium">Patient</th>
+                <th className="p-2 font-medium">Status</th>
+                <th className="p-2 font-medium">Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flagged.map((row) => {
+                const status = importRowStatus(row);
+                return (
+                  <tr key={row.line} className="border-b align-top">
+                    <td className="p-2">{row.line}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      {row.input.patientId || "—"}
+                    </td>
+                    <td
+                      className="p-2 capitalize"
+                      style={{ color: STATUS_COLORS[status] }}
+                    >
+                      {status}
+                    </td>
+                    <td className="p-2">
+                      {rowIssues(row).map((issue) => (
+                        <p key={issue}>{issue}</p>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-muted-foreground text-sm">
+        {deidentified
+          ? `De-identification: ${changes.identifier} identifiers pseudonymized, ${changes.age} ages generalized, ${changes.date} dates truncated, ${changes["free text"]} free-text fields scrubbed. The downloadable report lists each change.`
+          : "De-identification is off; identifiers are imported as supplied."}
+      </p>
+      <p className="text-muted-foreground text-sm">
+        {summary.invalid > 0
+          ? "Correct the rows with errors in the source file, or adjust the mapping, before importing."
+          : summary.duplicates > 0
+            ? "Duplicate rows are skipped; the remaining cases are registered together."
+            : "All cases are registered together, or none are if the registry rejects any."}
+      </p>
+    </div>
+  );
+}
+
+// ─── Retrospective Case Import ───────────────────────────────────────────────
+export function ImplantImportDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [step, setStep] = useState(0);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [deidentifyChosen, setDeidentify] = useState(true);
+  const [chosenOptions, setOptions] = useState<PseudonymizationOptions>({
+    key: "",
+    ...DEFAULT_PSEUDONYMIZATION_OPTIONS,
+  });
+  const [pseudonyms, setPseudonyms] = useState<PseudonymTable | null>(null);
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const { data: existing = [] } = useImplantRecords();
+  const { data: institutions = [] } = useInstitutions();
+  const { data: devices = [] } = useDevices();
+  const { data: protocols } = useFollowUpProtocols();
+  const scope = useDataScope();
+  const { can } = useAccess();
+  const importRecords = useImportImplantRecords();
+
+  const deidentifyRequired = !can("viewIdentifiers");
+  const deidentify = deidentifyRequired || deidentifyChosen;
+  const options = useMemo(
+    () =>
+      deidentifyRequired
+        ? { ...chosenOptions, scrubFreeText: true }
+        : chosenOptions,
+    [deidentifyRequired, chosenOptions],
+  );
+
+  const missing = unmappedRequiredFields(mapping);
+  const rows = useMemo(
+    () =>
+      table && step === 3
+        ? planImport(table, mapping, {
+            existing,
+            devices,
+            protocols,
+            institutions: institutions
+              .map((i) => i.name)
+              .filter((name) => inScope(scope, name)),
+            pseudonymization:
+              deidentify && pseudonyms ? { options, pseudonyms } : undefined,
+          })
+        : [],
+    [
+      table,
+      mapping,
+      existing,
+      devices,
+      protocols,
+      institutions,
+      scope,
+      step,
+      deidentify,
+      options,
+      pseudonyms,
+    ],
+  );
+  const summary = summarizeImport(rows);
+
+  function close() {
+    setStep(0);
+    setTable(null);
+    setMapping({});
+    setFileError(null);
+    setOptions({ key: "", ...DEFAULT_PSEUDONYMIZATION_OPTIONS });
+    setDeidentify(true);
+    setPseudonyms(null);
+    setKeyError(null);
+    importRecords.reset();
+    onOpenChange(false);
+  }
+
+  async function selectFile(file: File | undefined) {
+    if (!file) return;
+    setReading(true);
+    setFileError(null);
+    try {
+      const next = await readImportFile(file);
+      setTable(next);
+      setMapping(suggestMapping(next.columns));
+      setStep(1);
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setReading(false);
+    }
+  }
+
+  async function runDryRun() {
+    if (!table) return;
+    setKeyError(null);
+    try {
+      setPseudonyms(
+        deidentify
+          ? await derivePseudonyms(
+              sourcePatientIds(table, mapping),
+              options.key,
+            )
+          : null,
+      );
+      setStep(3);
+    } catch (error) {
+      setKeyError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  function commit() {
+    if (!table) return;
+    importRecords.mutate(
+      {
+        inputs: importableInputs(rows),
+        source: deidentify
+          ? `${table.fileName} (de-identified)`
+          : table.fileName,
+      },
+      {
+        onSuccess: (records) => {
+          toast.success(`${records.length} cases imported`);
+          close();
+        },
+      },
+    );
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(true) : close())}
+    >
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <p
+            className="font-inter font-medium tracking-[0.18em] uppercase"
+            style={{ fontSize: "9px", color: "var(--thodar-teal)" }}
+          >
+            Case Import — Step {step + 1} of {STEPS.length}
+          </p>
+          <DialogTitle className="font-playfair font-normal">
+            {STEPS[step]}
+          </DialogTitle>
+          <DialogDescription>
+            {table
+              ? `${table.fileName} · ${table.rows.length} rows`
+              : "Import a retrospective dataset from a CSV or Excel (.xlsx) file with one case per row."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 0 && (
+          <div className="grid gap-2">
+            <Label htmlFor="import-file">Source File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv"
+              disabled={reading}
+              onChange={(e) => selectFile(e.target.files?.[0])}
+            />
+            <p className="text-muted-foreground text-sm">
+              The first row must hold column headers. Only the first worksheet
+              of a workbook is read, and dates may be ISO or day-first.
+            </p>
+            {fileError && (
+              <p className="text-destructive text-sm">{fileError}</p>
+            )}
+          </div>
+        )}
+
+        {step === 1 && table && (
+          <div className="grid gap-3">
+            <div className="grid max-h-96 grid-cols-2 gap-3 overflow-y-auto pr-1">
+              {IMPORT_FIELDS.map((field) => (
+                <MappingField
+                  key={field}
+                  field={field}
+                  columns={table.columns}
+                  value={mapping[field]}
+                  onChange={(column) =>
+                    setMapping((m) => ({ ...m, [field]: column }))
+                  }
+                />
+              ))}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-destructive text-sm">
+                Map a column to {missing.map(importFieldLabel).join(", ")}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 2 && (
+          <>
+            <DeidentificationStep
+              enabled={deidentify}
+              required={deidentifyRequired}
+              options={options}
+              onEnabledChange={setDeidentify}
+              onOptionsChange={setOptions}
+            />
+            {keyError && <p className="text-destructive text-sm">{keyError}</p>}
+          </>
+        )}
+
+        {step === 3 && <DryRunReport rows={rows} deidentified={deidentify} />}
+
+        {importRecords.error && (
+          <p className="text-destructive text-sm">
+            {importRecords.error.message}
+          </p>
+        )}
+
+        <DialogFooter>
+          {step > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setStep((s) => s - 1)}
+            >
+              Back
+            </Button>
+          )}
+          {step === 1 && (
+            <Button
+              type="button"
+              disabled={missing.length > 0}
+              onClick={() => setStep(2)}
+            >
+              Next
+            </Button>
+          )}
+          {step === 2 && (
+            <Button
+              type="button"
+              disabled={deidentify && !options.key.trim()}
+              onClick={runDryRun}
+            >
+              Run Dry Run
+            </Button>
+          )}
+          {step === 3 && table && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  downloadFile(
+                    table.fileName.replace(/\.[^.]+$/, "-import-report.csv"),
+                    "text/csv",
+                    importReportToCsv(rows),
+                  )
+                }
+              >
+                Download Report
+              </Button>
+              <Button
+                type="button"
+                disabled={
+                  summary.invalid > 0 ||
+                  summary.ready === 0 ||
+                  importRecords.isPending
+                }
+                onClick={commit}
+              >
+                {importRecords.isPending
+                  ? "Importing…"
+                  : `Import ${summary.ready} Cases`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
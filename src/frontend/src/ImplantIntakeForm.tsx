@@ -0,0 +1,591 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useState } from "react";
+import { type FieldErrors, type Resolver, useForm } from "react-hook-form";
+import {
+  useCreateImplantRecord,
+  useDataScope,
+  useDevices,
+  useFollowUpProtocols,
+  useInstitutions,
+} from "./hooks/useRegistry";
+import { type ImplantRecord, LATERALITIES, SEXES } from "./registryData";
+import {
+  ANATOMICAL_SITES,
+  CATALOGUE_RECORD_FIELDS,
+  type CatalogueDevice,
+  anatomicalSiteGroup,
+  deviceSelectionError,
+  isDeviceCompatible,
+} from "./registryDevices";
+import { computeFollowUpSchedule } from "./registryFollowUp";
+import { inScope } from "./registryInstitutions";
+import type { ImplantRecordInput } from "./registryRepository";
+import {
+  LOT_NUMBER_FORMATS,
+  type ValidationErrors,
+  findLotNumberFormat,
+  parseIsoDate,
+  validateImplantRecordInput,
+} from "./registryValidation";
+
+interface IntakeFormValues {
+  patientId: string;
+  age: string;
+  sex: ImplantRecord["sex"] | "";
+  primaryDiagnosis: string;
+  comorbidities: string;
+  implantCategory: string;
+  deviceId: string;
+  manufacturer: string;
+  modelRef: string;
+  lotNumber: string;
+  material: string;
+  fixationType: string;
+  anatomicalSite: string;
+  laterality: ImplantRecord["laterality"] | "";
+  operatingSurgeon: string;
+  institution: string;
+  surgeryDate: string;
+}
+
+type IntakeField = keyof IntakeFormValues;
+
+const DEFAULT_VALUES: IntakeFormValues = {
+  patientId: "",
+  age: "",
+  sex: "",
+  primaryDiagnosis: "",
+  comorbidities: "",
+  implantCategory: "",
+  deviceId: "",
+  manufacturer: "",
+  modelRef: "",
+  lotNumber: "",
+  material: "",
+  fixationType: "",
+  anatomicalSite: "",
+  laterality: "",
+  operatingSurgeon: "",
+  institution: "",
+  surgeryDate: "",
+};
+
+const STEPS: Array<{ title: string; fields: IntakeField[] }> = [
+  { title: "Patient Demographics", fields: ["patientId", "age", "sex"] },
+  { title: "Diagnosis", fields: ["primaryDiagnosis", "comorbidities"] },
+  // The site comes first so the device picker can offer compatible devices.
+  { title: "Anatomical Site", fields: ["anatomicalSite", "laterality"] },
+  {
+    title: "Implant Device",
+    fields: [
+      "implantCategory",
+      "deviceId",
+      "manufacturer",
+      "modelRef",
+      "lotNumber",
+      "material",
+      "fixationType",
+    ],
+  },
+  {
+    title: "Surgery & Follow-Up",
+    fields: ["operatingSurgeon", "institution", "surgeryDate"],
+  },
+];
+
+// New cases enter the registry at the start of their monitoring lifecycle;
+// the repository schedules the first review from the follow-up protocol.
+function toRecordInput(values: IntakeFormValues): ImplantRecordInput {
+  return {
+    patientId: values.patientId.trim(),
+    age: values.age.trim() === "" ? Number.NaN : Number(values.age),
+    sex: values.sex as ImplantRecord["sex"],
+    primaryDiagnosis: values.primaryDiagnosis.trim(),
+    comorbidities: values.comorbidities.trim() || "None recorded",
+    implantCategory: values.implantCategory.trim(),
+    deviceId: values.deviceId,
+    manufacturer: values.manufacturer.trim(),
+    modelRef: values.modelRef.trim(),
+    lotNumber: values.lotNumber.trim(),
+    material: values.material.trim(),
+    fixationType: values.fixationType.trim(),
+    anatomicalSite: values.anatomicalSite.trim(),
+    laterality: values.laterality as ImplantRecord["laterality"],
+    operatingSurgeon: values.operatingSurgeon.trim(),
+    institution: values.institution.trim(),
+    surgeryDate: values.surgeryDate,
+    nextReview: "",
+    lastReview: values.surgeryDate,
+    followUpStatus: "Scheduled",
+    alertLevel: "stable",
+    riskLevel: "Low",
+    revisionHistory: "No prior revision",
+    complicationsLogged: 0,
+  };
+}
+
+function intakeResolver(
+  devices: CatalogueDevice[],
+): Resolver<IntakeFormValues> {
+  return (values) => {
+    const input = toRecordInput(values);
+    const errors = validateImplantRecordInput(input);
+    if (input.deviceId) {
+      const deviceError = deviceSelectionError(
+        devices.find((d) => d.id === input.deviceId),
+        input.deviceId,
+        input.anatomicalSite,
+      );
+      if (deviceError) errors.deviceId = deviceError;
+    }
+    return toFormResult(values, errors);
+  };
+}
+
+function toFormResult(
+  values: IntakeFormValues,
+  errors: ValidationErrors<ImplantRecordInput>,
+): ReturnType<Resolver<IntakeFormValues>> {
+  const fieldErrors: FieldErrors<IntakeFormValues> = {};
+  for (const [field, message] of Object.entries(errors)) {
+    if (field in DEFAULT_VALUES) {
+      fieldErrors[field as IntakeField] = { type: "validate", message };
+    }
+  }
+  return Object.keys(fieldErrors).length > 0
+    ? { values: {}, errors: fieldErrors }
+    : { values, errors: {} };
+}
+
+function TextField({
+  form,
+  name,
+  label,
+  placeholder,
+  type = "text",
+  description,
+  list,
+  readOnly,
+}: {
+  form: ReturnType<typeof useForm<IntakeFormValues>>;
+  name: IntakeField;
+  label: string;
+  placeholder?: string;
+  type?: string;
+  description?: string;
+  list?: string;
+  readOnly?: boolean;
+}) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              type={type}
+              placeholder={placeholder}
+              list={list}
+              readOnly={readOnly}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function OptionField({
+  form,
+  name,
+  label,
+  options,
+}: {
+  form: ReturnType<typeof useForm<IntakeFormValues>>;
+  name: "sex" | "laterality" | "institution";
+  label: string;
+  options: string[];
+}) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder={`Select ${label.toLowerCase()}`} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+const NO_DEVICE = "__none";
+
+/**
+ * Picks a catalogue device for the chosen site and copies its details into
+ * the form; "Not in catalogue" leaves them to be typed in.
+ */
+function DeviceField({
+  form,
+  devices,
+}: {
+  form: ReturnType<typeof useForm<IntakeFormValues>>;
+  devices: CatalogueDevice[];
+}) {
+  const site = form.watch("anatomicalSite");
+  const options = devices.filter(
+    (d) => !d.retired && isDeviceCompatible(d, site),
+  );
+
+  function select(id: string) {
+    const device = devices.find((d) => d.id === id);
+    form.setValue("deviceId", device?.id ?? "");
+    for (const field of CATALOGUE_RECORD_FIELDS) {
+      form.setValue(field, device?.[field] ?? "");
+    }
+  }
+
+  return (
+    <FormField
+      control={form.control}
+      name="deviceId"
+      render={({ field }) => {
+        const device = devices.find((d) => d.id === field.value);
+        return (
+          <FormItem>
+            <FormLabel>Catalogue Device</FormLabel>
+            <Select value={field.value || NO_DEVICE} onValueChange={select}>
+              <FormControl>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NO_DEVICE}>Not in catalogue</SelectItem>
+                {options.map((d) => (
+                  <SelectItem key={d.id} value={d.id}>
+                    {d.modelRef} · {d.catalogueNumber}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              {device
+                ? `UDI-DI ${device.udiDi} · intended for ${device.intendedSites.join(", ")}`
+                : `${options.length} catalogue devices are intended for ${anatomicalSiteGroup(site) || "this site"}.`}
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
+
+// ─── Implant Record Intake Dialog ────────────────────────────────────────────
+export function ImplantIntakeDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [step, setStep] = useState(0);
+  const createRecord = useCreateImplantRecord();
+  const scope = useDataScope();
+  const { data: institutions = [] } = useInstitutions();
+  const { data: devices = [] } = useDevices();
+  const { data: protocols } = useFollowUpProtocols();
+  const form = useForm<IntakeFormValues>({
+    defaultValues: DEFAULT_VALUES,
+    resolver: intakeResolver(devices),
+  });
+  const manufacturer = form.watch("manufacturer");
+  const linked = form.watch("deviceId") !== "";
+  const lotFormat = findLotNumberFormat(manufacturer);
+  const [implantCategory, surgeryDate] = form.watch([
+    "implantCategory",
+    "surgeryDate",
+  ]);
+  const schedule = parseIsoDate(surgeryDate)
+    ? computeFollowUpSchedule(
+        { implantCategory, surgeryDate, lastReview: surgeryDate },
+        new Date(),
+        protocols,
+      )
+    : null;
+  const isLastStep = step === STEPS.length - 1;
+
+  function close() {
+    form.reset(DEFAULT_VALUES);
+    createRecord.reset();
+    setStep(0);
+    onOpenChange(false);
+  }
+
+  async function goNext() {
+    const valid = await form.trigger(STEPS[step].fields);
+    if (valid) setStep((s) => s + 1);
+  }
+
+  function onSubmit(values: IntakeFormValues) {
+    createRecord.mutate(toRecordInput(values), { onSuccess: close });
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(true) : close())}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <p
+            className="font-inter font-medium tracking-[0.18em] uppercase"
+            style={{ fontSize: "9px", color: "var(--thodar-teal)" }}
+          >
+            Case Intake — Step {step + 1} of {STEPS.length}
+          </p>
+          <DialogTitle className="font-playfair font-normal">
+            {STEPS[step].title}
+          </DialogTitle>
+          <DialogDescription>
+            Register a new implant case in the regional registry.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="grid gap-4"
+            noValidate
+          >
+            {step === 0 && (
+              <>
+                <TextField
+                  form={form}
+                  name="patientId"
+                  label="Patient Identifier"
+                  placeholder="TH-011"
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <TextField form={form} name="age" label="Age" type="number" />
+                  <OptionField
+                    form={form}
+                    name="sex"
+                    label="Sex"
+                    options={SEXES}
+                  />
+                </div>
+              </>
+            )}
+
+            {step === 1 && (
+              <>
+                <TextField
+                  form={form}
+                  name="primaryDiagnosis"
+                  label="Primary Diagnosis"
+                />
+                <FormField
+                  control={form.control}
+                  name="comorbidities"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Relevant Comorbidities</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} rows={3} />
+                      </FormControl>
+                      <FormDescription>
+                        Comma-separated; leave blank if none.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {step === 2 && (
+              <>
+                <TextField
+                  form={form}
+                  name="anatomicalSite"
+                  label="Anatomical Site"
+                  placeholder="Hip"
+                  list="intake-sites"
+                  description="Add the spinal level in brackets, e.g. Lumbar Spine (L4-L5)."
+                />
+                <datalist id="intake-sites">
+                  {ANATOMICAL_SITES.map((site) => (
+                    <option key={site} value={site} />
+                  ))}
+                </datalist>
+                <OptionField
+                  form={form}
+                  name="laterality"
+                  label="Laterality"
+                  options={LATERALITIES}
+                />
+              </>
+            )}
+
+            {step === 3 && (
+              <>
+                <TextField
+                  form={form}
+                  name="implantCategory"
+                  label="Implant Category"
+                  placeholder="Total Hip Arthroplasty"
+                />
+                <DeviceField form={form} devices={devices} />
+                <TextField
+                  form={form}
+                  name="manufacturer"
+                  label="Manufacturer"
+                  list="intake-manufacturers"
+                  readOnly={linked}
+                />
+                <datalist id="intake-manufacturers">
+                  {LOT_NUMBER_FORMATS.map((f) => (
+                    <option key={f.manufacturer} value={f.manufacturer} />
+                  ))}
+                </datalist>
+                <TextField
+                  form={form}
+                  name="modelRef"
+                  label="Model Reference"
+                  readOnly={linked}
+                />
+                <TextField
+                  form={form}
+                  name="lotNumber"
+                  label="Lot / Batch Number"
+                  placeholder={lotFormat?.example}
+                  description={
+                    lotFormat ? `Format: ${lotFormat.example}` : undefined
+                  }
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <TextField
+                    form={form}
+                    name="material"
+                    label="Material Composition"
+                    readOnly={linked}
+                  />
+                  <TextField
+                    form={form}
+                    name="fixationType"
+                    label="Fixation Type"
+                    readOnly={linked}
+                  />
+                </div>
+              </>
+            )}
+
+            {step === 4 && (
+              <>
+                <TextField
+                  form={form}
+                  name="operatingSurgeon"
+                  label="Operating Surgeon"
+                />
+                <OptionField
+                  form={form}
+                  name="institution"
+                  label="Operating Institution"
+                  options={institutions
+                    .map((i) => i.name)
+                    .filter((name) => inScope(scope, name))}
+                />
+                <TextField
+                  form={form}
+                  name="surgeryDate"
+                  label="Date of Implantation"
+                  type="date"
+                />
+                <p className="text-muted-foreground text-sm">
+                  {schedule
+                    ? `${schedule.protocol.name} protocol — first review due ${schedule.nextReview}.`
+                    : "The first review is scheduled from the implant category's follow-up protocol."}
+                </p>
+              </>
+            )}
+
+            {createRecord.error && (
+              <p className="text-destructive text-sm">
+                {createRecord.error.message}
+              </p>
+            )}
+
+            <DialogFooter>
+              {step > 0 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setStep((s) => s - 1)}
+                >
+                  Back
+                </Button>
+              )}
+              {isLastStep ? (
+                <Button type="submit" disabled={createRecord.isPending}>
+                  {createRecord.isPending ? "Registering…" : "Register Case"}
+                </Button>
+              ) : (
+                <Button type="button" onClick={goNext}>
+                  Next
+                </Button>
+              )}
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,490 @@
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  LineChart,
+  ReferenceLine,
+  Scatter,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { toast } from "sonner";
+import { AMBER, RED, TEAL } from "./RegistryShared";
+import {
+  useAccess,
+  useGovernanceItems,
+  useRaiseGovernanceItem,
+} from "./hooks/useRegistry";
+import type { ImplantRecord } from "./registryData";
+import { findOpenGovernanceItem } from "./registryGovernance";
+import { formatPercent } from "./registryMetrics";
+import {
+  ALARM_Z,
+  ALERT_Z,
+  CUSUM_THRESHOLD,
+  OUTCOME_LABELS,
+  OUTLIER_DIMENSIONS,
+  OUTLIER_OUTCOMES,
+  type OutlierOutcome,
+  type OutlierUnit,
+  describeOutlier,
+  detectOutliers,
+  funnelLimit,
+  isSignalling,
+  outlierSignalKey,
+} from "./registryOutliers";
+
+// ─── Outlier Detection ───────────────────────────────────────────────────────
+const OUTLIER_LEVEL_COLORS = { none: TEAL, alert: AMBER, alarm: RED };
+
+export function OutlierDetectionPanel({
+  records,
+}: { records: ImplantRecord[] }) {
+  const [dimension, setDimension] = useState(OUTLIER_DIMENSIONS[0]);
+  const [outcome, setOutcome] = useState<OutlierOutcome>("revision");
+  const [cusumUnit, setCusumUnit] = useState<string | null>(null);
+  const { can } = useAccess();
+  const { data: governanceItems = [] } = useGovernanceItems();
+  const raiseItem = useRaiseGovernanceItem();
+  const analysis = useMemo(
+    () => detectOutliers(records, dimension, outcome),
+    [records, dimension, outcome],
+  );
+  const selectedUnit =
+    analysis.units.find((u) => u.value === cusumUnit) ?? analysis.units[0];
+
+  // Funnel limits drawn across the span of expected counts on the chart.
+  const maxExpected = Math.max(1, ...analysis.units.map((u) => u.expected));
+  const funnelData = Array.from({ length: 40 }, (_, i) => {
+    const expected = (maxExpected * (i + 1)) / 40;
+    return {
+      expected,
+      alert: funnelLimit(expected, ALERT_Z),
+      alarm: funnelLimit(expected, ALARM_Z),
+    };
+  });
+  const unitPoints = analysis.units
+    .filter((u) => u.ratio !== null)
+    .map((u) => ({ expected: u.expected, ratio: u.ratio, unit: u }));
+  const yMax = Math.max(
+    3,
+    ...unitPoints.map((p) => Math.ceil((p.ratio ?? 0) + 0.5)),
+  );
+
+  function raise(unit: OutlierUnit) {
+    raiseItem.mutate(
+      {
+        signalKey: outlierSignalKey(dimension, outcome, unit.value),
+        category: "Outlier",
+        subject: `${dimension.label}: ${unit.value}`,
+        summary: describeOutlier(analysis, unit),
+        level: unit.level === "alarm" ? "Alarm" : "Alert",
+      },
+      {
+        onSuccess: (item) =>
+          toast.success(`Raised for Quality Officer review (${item.id})`),
+        onError: (error) =>
+          toast.error("Could not raise governance item", {
+            description: error.message,
+          }),
+      },
+    );
+  }
+
+  const chartConfig: ChartConfig = {
+    ratio: { label: "Observed / expected", color: TEAL },
+    alert: { label: "95% limit", color: AMBER },
+    alarm: { label: "99.8% limit", color: RED },
+  };
+  const cusumConfig: ChartConfig = {
+    value: { label: "CUSUM", color: TEAL },
+  };
+  const cellStyle = {
+    padding: "8px 10px",
+    fontSize: "12px",
+    color: "var(--thodar-text-secondary)",
+  };
+  const headerStyle = {
+    ...cellStyle,
+    fontSize: "10px",
+    color: "var(--thodar-text-muted)",
+    textTransform: "uppercase" as const,
+    letterSpacing: "0.1em",
+  };
+  const labelStyle = {
+    fontSize: "10px",
+    color: "var(--thodar-text-muted)",
+    letterSpacing: "0.12em",
+  };
+
+  return (
+    <div
+      className="mt-6 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-bg)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.04)",
+      }}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-5">
+        <div>
+          <p
+            className="font-inter font-medium"
+            style={{ fontSize: "13px", color: "var(--thodar-text-primary)" }}
+          >
+            Outlier Detection
+          </p>
+          <p
+            className="font-inter font-light mt-1"
+            style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+          >
+            Observed against expected outcomes, adjusted for age band and
+            comorbidity burden. Registry-wide{" "}
+            {OUTCOME_LABELS[outcome].toLowerCase()} rate{" "}
+            {formatPercent(analysis.overallRate)}.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Label
+            htmlFor="outlier-dimension"
+            className="font-inter font-medium uppercase"
+            style={labelStyle}
+          >
+            Unit
+          </Label>
+          <Select
+            value={dimension.field}
+            onValueChange={(field) => {
+              const next = OUTLIER_DIMENSIONS.find((d) => d.field === field);
+              if (!next) return;
+              setDimension(next);
+              setCusumUnit(null);
+            }}
+          >
+            <SelectTrigger
+              id="outlier-dimension"
+              size="sm"
+              className="font-inter min-w-40"
+              style={{
+                fontSize: "12px",
+                backgroundColor: "var(--thodar-surface)",
+              }}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OUTLIER_DIMENSIONS.map((d) => (
+                <SelectItem key={d.field} value={d.field}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Label
+            htmlFor="outlier-outcome"
+            className="font-inter font-medium uppercase"
+            style={labelStyle}
+          >
+            Outcome
+          </Label>
+          <Select
+            value={outcome}
+            onValueChange={(v) => setOutcome(v as OutlierOutcome)}
+          >
+            <SelectTrigger
+              id="outlier-outcome"
+              size="sm"
+              className="font-inter min-w-32"
+              style={{
+                fontSize: "12px",
+                backgroundColor: "var(--thodar-surface)",
+              }}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OUTLIER_OUTCOMES.map((o) => (
+                <SelectItem key={o} value={o}>
+                  {OUTCOME_LABELS[o]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div>
+          <p
+            className="font-inter font-medium uppercase mb-2"
+            style={labelStyle}
+          >
+            Funnel plot
+          </p>
+          <ChartContainer config={chartConfig} className="h-[240px] w-full">
+            <ComposedChart data={funnelData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="expected"
+                type="number"
+                domain={[0, maxExpected]}
+                tickFormatter={(v) => Number(v).toFixed(1)}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                domain={[0, yMax]}
+                allowDataOverflow
+                tickLine={false}
+                axisLine={false}
+                width={32}
+              />
+              <ReferenceLine y={1} stroke="var(--thodar-text-muted)" />
+              <Line
+                dataKey="alert"
+                stroke="var(--color-alert)"
+                strokeDasharray="4 3"
+                dot={false}
+                isAnimationActive={false}
+              />
+              <Line
+                dataKey="alarm"
+                stroke="var(--color-alarm)"
+                strokeDasharray="4 3"
+                dot={false}
+                isAnimationActive={false}
+              />
+              <Scatter
+                data={unitPoints}
+                dataKey="ratio"
+                isAnimationActive={false}
+                onClick={(point: { unit?: OutlierUnit }) =>
+                  point.unit && setCusumUnit(point.unit.value)
+                }
+              >
+                {unitPoints.map((point) => (
+                  <Cell
+                    key={point.unit.value}
+                    fill={OUTLIER_LEVEL_COLORS[point.unit.level]}
+                    cursor="pointer"
+                  />
+                ))}
+              </Scatter>
+              <ChartLegend content={<ChartLegendContent />} />
+            </ComposedChart>
+          </ChartContainer>
+          <p
+            className="font-inter font-light mt-1"
+            style={{ fontSize: "11px", color: "var(--thodar-text-muted)" }}
+          >
+            x: expected {OUTCOME_LABELS[outcome].toLowerCase()}s · y: observed /
+            expected
+          </p>
+        </div>
+        <div>
+          <p
+            className="font-inter font-medium uppercase mb-2"
+            style={labelStyle}
+          >
+            Risk-adjusted CUSUM
+            {selectedUnit ? ` — ${selectedUnit.value}` : ""}
+          </p>
+          <ChartContainer config={cusumConfig} className="h-[240px] w-full">
+            <LineChart
+              data={(selectedUnit?.cusum ?? []).map((p, i) => ({
+                ...p,
+                index: i + 1,
+              }))}
+            >
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="index" tickLine={false} axisLine={false} />
+              <YAxis
+                domain={[0, Math.max(CUSUM_THRESHOLD + 0.5, 1)]}
+                tickLine={false}
+                axisLine={false}
+                width={32}
+              />
+              <ReferenceLine
+                y={CUSUM_THRESHOLD}
+                stroke={RED}
+                strokeDasharray="4 3"
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      `Case ${payload?.[0]?.payload?.index ?? ""} · ${payload?.[0]?.payload?.surgeryDate ?? ""}`
+                    }
+                  />
+                }
+              />
+              <Line
+                dataKey="value"
+                type="stepAfter"
+                stroke="var(--color-value)"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ChartContainer>
+          <p
+            className="font-inter font-light mt-1"
+            style={{ fontSize: "11px", color: "var(--thodar-text-muted)" }}
+          >
+            Cases in surgery order; signals at {CUSUM_THRESHOLD} for a doubling
+            of the odds of {OUTCOME_LABELS[outcome].toLowerCase()}.
+          </p>
+        </div>
+      </div>
+
+      <div style={{ overflowX: "auto" }} className="mt-6">
+        <table className="w-full" style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+              <th
+                className="font-inter font-medium text-left"
+                style={headerStyle}
+              >
+                {dimension.label}
+              </th>
+              {["Cases", "Observed", "Expected", "O / E", "CUSUM peak"].map(
+                (label) => (
+                  <th
+                    key={label}
+                    className="font-inter font-medium text-right"
+                    style={headerStyle}
+                  >
+                    {label}
+                  </th>
+                ),
+              )}
+              <th
+                className="font-inter font-medium text-left"
+                style={headerStyle}
+              >
+                Signal
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.units.map((unit) => {
+              const signalling = isSignalling(unit);
+              const raised = findOpenGovernanceItem(
+                governanceItems,
+                outlierSignalKey(dimension, outcome, unit.value),
+              );
+              return (
+                <tr
+                  key={unit.value}
+                  style={{
+                    borderBottom: "1px solid var(--thodar-border)",
+                    backgroundColor:
+                      unit.value === selectedUnit?.value
+                        ? "var(--thodar-surface)"
+                        : undefined,
+                  }}
+                >
+                  <td className="font-inter font-light" style={cellStyle}>
+                    <button
+                      type="button"
+                      onClick={() => setCusumUnit(unit.value)}
+                      className="text-left hover:opacity-60 transition-opacity"
+                    >
+                      {unit.value}
+                    </button>
+                  </td>
+                  <td
+                    className="font-inter font-light text-right tabular-nums"
+                    style={cellStyle}
+                  >
+                    {unit.cases}
+                  </td>
+                  <td
+                    className="font-inter font-light text-right tabular-nums"
+                    style={cellStyle}
+                  >
+                    {unit.observed}
+                  </td>
+                  <td
+                    className="font-inter font-light text-right tabular-nums"
+                    style={cellStyle}
+                  >
+                    {unit.expected.toFixed(2)}
+                  </td>
+                  <td
+                    className="font-inter font-light text-right tabular-nums"
+                    style={cellStyle}
+                  >
+                    {unit.ratio === null ? "—" : unit.ratio.toFixed(2)}
+                  </td>
+                  <td
+                    className="font-inter font-light text-right tabular-nums"
+                    style={cellStyle}
+                  >
+                    {Math.max(0, ...unit.cusum.map((p) => p.value)).toFixed(2)}
+                  </td>
+                  <td className="font-inter font-light" style={cellStyle}>
+                    {!signalling ? (
+                      <span style={{ color: "var(--thodar-text-muted)" }}>
+                        Within limits
+                      </span>
+                    ) : raised ? (
+                      <span style={{ color: "var(--thodar-teal)" }}>
+                        {raised.status} ({raised.id})
+                      </span>
+                    ) : !can("raiseGovernance") ? (
+                      <span
+                        style={{
+                          color:
+                            OUTLIER_LEVEL_COLORS[
+                              unit.level === "none" ? "alert" : unit.level
+                            ],
+                        }}
+                      >
+                        Signal
+                      </span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => raise(unit)}
+                        disabled={raiseItem.isPending}
+                        className="font-inter font-medium hover:opacity-60 transition-opacity"
+                        style={{
+                          color:
+                            OUTLIER_LEVEL_COLORS[
+                              unit.level === "none" ? "alert" : unit.level
+                            ],
+                        }}
+                      >
+                        Raise for review
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
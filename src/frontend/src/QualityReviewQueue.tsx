@@ -0,0 +1,191 @@
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useState } from "react";
+import { toast } from "sonner";
+import { PanelHeading } from "./RegistryShared";
+import {
+  useAccess,
+  useGovernanceItems,
+  useUpdateGovernanceItem,
+} from "./hooks/useRegistry";
+import {
+  GOVERNANCE_STATUSES,
+  type GovernanceItem,
+  type GovernanceStatus,
+} from "./registryGovernance";
+import { formatAuthor, formatTimestamp } from "./registryHistory";
+
+// ─── Quality Review Queue ────────────────────────────────────────────────────
+function GovernanceItemRow({
+  item,
+  readOnly,
+}: {
+  item: GovernanceItem;
+  readOnly: boolean;
+}) {
+  const updateItem = useUpdateGovernanceItem();
+  const [resolution, setResolution] = useState(item.resolution);
+
+  function save(status: GovernanceStatus) {
+    updateItem.mutate(
+      { id: item.id, status, resolution: resolution.trim() },
+      {
+        onError: (error) =>
+          toast.error("Review status not saved", {
+            description: error.message,
+          }),
+      },
+    );
+  }
+
+  const cell = {
+    padding: "10px 12px",
+    fontSize: "12px",
+    color: "var(--thodar-text-secondary)",
+    verticalAlign: "top" as const,
+  };
+
+  return (
+    <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+      <td className="font-inter font-medium" style={cell}>
+        <span style={{ color: item.level === "Alarm" ? "#b91c1c" : "#b45309" }}>
+          {item.level}
+        </span>
+        <br />
+        <span
+          className="font-light"
+          style={{ color: "var(--thodar-text-muted)" }}
+        >
+          {item.id}
+        </span>
+      </td>
+      <td className="font-inter font-light" style={cell}>
+        <span style={{ color: "var(--thodar-text-primary)" }}>
+          {item.subject}
+        </span>
+        <br />
+        {item.summary}
+        <br />
+        <span style={{ color: "var(--thodar-text-muted)" }}>
+          Raised {formatTimestamp(item.raisedAt)} by{" "}
+          {formatAuthor(item.raisedBy)}
+        </span>
+      </td>
+      <td style={cell}>
+        <Select
+          value={item.status}
+          disabled={readOnly || updateItem.isPending}
+          onValueChange={(v) => save(v as GovernanceStatus)}
+        >
+          <SelectTrigger
+            size="sm"
+            aria-label={`Review status for ${item.id}`}
+            className="font-inter min-w-32"
+            style={{ fontSize: "12px" }}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GOVERNANCE_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </td>
+      <td style={cell}>
+        <Input
+          value={resolution}
+          disabled={readOnly}
+          placeholder="Review outcome"
+          aria-label={`Review outcome for ${item.id}`}
+          className="h-8"
+          style={{ fontSize: "12px" }}
+          onChange={(e) => setResolution(e.target.value)}
+          onBlur={() => {
+            if (resolution.trim() !== item.resolution) save(item.status);
+          }}
+        />
+      </td>
+    </tr>
+  );
+}
+
+export function QualityReviewQueue() {
+  const { can } = useAccess();
+  const { data: items = [] } = useGovernanceItems();
+  const ordered = [...items].sort(
+    (a, b) =>
+      Number(a.status === "Closed") - Number(b.status === "Closed") ||
+      b.raisedAt.localeCompare(a.raisedAt),
+  );
+  const openCount = items.filter((i) => i.status !== "Closed").length;
+  if (!can("raiseGovernance")) return null;
+
+  return (
+    <div
+      className="mt-8 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+      }}
+    >
+      <PanelHeading>Quality Officer Review Queue</PanelHeading>
+      <p
+        className="font-inter font-light -mt-3 mb-4"
+        style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+      >
+        {openCount} unresolved {openCount === 1 ? "item" : "items"} raised from
+        outlier analytics.
+      </p>
+      {ordered.length === 0 ? (
+        <p
+          className="font-inter font-light"
+          style={{ fontSize: "13px", color: "var(--thodar-text-muted)" }}
+        >
+          No signals have been raised for review.
+        </p>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table className="w-full" style={{ borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+                {["Level", "Signal", "Status", "Outcome"].map((label) => (
+                  <th
+                    key={label}
+                    className="font-inter font-medium text-left uppercase"
+                    style={{
+                      fontSize: "10px",
+                      color: "var(--thodar-text-muted)",
+                      padding: "8px 12px",
+                      letterSpacing: "0.1em",
+                    }}
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ordered.map((item) => (
+                <GovernanceItemRow
+                  key={`${item.id}-${item.updatedAt}`}
+                  item={item}
+                  readOnly={!can("reviewGovernance")}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,647 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { type ReactNode, useState } from "react";
+import { toast } from "sonner";
+import { DeviceCataloguePanel } from "./DeviceCataloguePanel";
+import {
+  FadeIn,
+  PanelHeading,
+  PanelInputLabel,
+  RestrictedNotice,
+  SectionLabel,
+  SectionTitle,
+} from "./RegistryShared";
+import {
+  useAccess,
+  useCloseRecall,
+  useCreateRecall,
+  useImplantRecords,
+  useRecallNotices,
+  useRecalls,
+  useUpdateRecallNotice,
+} from "./hooks/useRegistry";
+import type { ImplantRecord } from "./registryData";
+import { formatAuthor, formatTimestamp } from "./registryHistory";
+import type { Institution } from "./registryInstitutions";
+import {
+  NOTICE_STATUSES,
+  type NoticeStatus,
+  RECALL_SEVERITIES,
+  RECALL_SEVERITY_DESCRIPTIONS,
+  type Recall,
+  type RecallInput,
+  type RecallSeverity,
+  type RecallWorklistItem,
+  buildRecallWorklist,
+  countByNoticeStatus,
+  findAffectedRecords,
+  validateRecallInput,
+} from "./registryRecall";
+
+// ─── Device Recall Section ───────────────────────────────────────────────────
+const EMPTY_RECALL: RecallInput = {
+  reference: "",
+  manufacturer: "",
+  modelRef: "",
+  lotFrom: "",
+  lotTo: "",
+  implantedFrom: "",
+  implantedTo: "",
+  severity: "Class II",
+  description: "",
+};
+
+const NOTICE_STATUS_COLORS: Record<NoticeStatus, string> = {
+  Pending: "var(--thodar-text-muted)",
+  "Contact Attempted": "#b45309",
+  Notified: "#15803d",
+  Unreachable: "#b91c1c",
+};
+
+function RecallForm({ records }: { records: ImplantRecord[] }) {
+  const createRecall = useCreateRecall();
+  const [draft, setDraft] = useState<RecallInput>(EMPTY_RECALL);
+  const [submitted, setSubmitted] = useState(false);
+  const errors = validateRecallInput(draft);
+  const affected =
+    draft.manufacturer && draft.modelRef
+      ? findAffectedRecords(records, draft).length
+      : null;
+  const manufacturers = [...new Set(records.map((r) => r.manufacturer))].sort();
+  const models = [
+    ...new Set(
+      records
+        .filter(
+          (r) => !draft.manufacturer || r.manufacturer === draft.manufacturer,
+        )
+        .map((r) => r.modelRef),
+    ),
+  ].sort();
+
+  function set<K extends keyof RecallInput>(field: K, value: RecallInput[K]) {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function submit() {
+    setSubmitted(true);
+    if (Object.keys(errors).length > 0) return;
+    createRecall.mutate(draft, {
+      onSuccess: (recall) => {
+        toast.success(`Recall ${recall.reference || recall.id} issued`, {
+          description: `${affected ?? 0} affected patients added to the call-back worklist.`,
+        });
+        setDraft(EMPTY_RECALL);
+        setSubmitted(false);
+      },
+      onError: (error) =>
+        toast.error("Recall could not be issued", {
+          description: error.message,
+        }),
+    });
+  }
+
+  const field = (
+    id: keyof RecallInput,
+    label: string,
+    input: ReactNode,
+    span = 1,
+  ) => (
+    <div className={span === 2 ? "col-span-2" : undefined}>
+      <PanelInputLabel htmlFor={`recall-${id}`}>{label}</PanelInputLabel>
+      {input}
+      {submitted && errors[id] && (
+        <p
+          className="font-inter mt-1"
+          style={{ fontSize: "11px", color: "#b91c1c" }}
+        >
+          {errors[id]}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      className="p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+      }}
+    >
+      <PanelHeading>Register Field Safety Notice</PanelHeading>
+      <div className="grid grid-cols-2 gap-x-5 gap-y-4">
+        {field(
+          "reference",
+          "Notice Reference",
+          <Input
+            id="recall-reference"
+            value={draft.reference}
+            placeholder="e.g. FSN-2026-014"
+            onChange={(e) => set("reference", e.target.value)}
+          />,
+        )}
+        {field(
+          "severity",
+          "Severity",
+          <Select
+            value={draft.severity}
+            onValueChange={(v) => set("severity", v as RecallSeverity)}
+          >
+            <SelectTrigger id="recall-severity" className="w-full font-inter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECALL_SEVERITIES.map((severity) => (
+                <SelectItem key={severity} value={severity}>
+                  {severity} — {RECALL_SEVERITY_DESCRIPTIONS[severity]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>,
+        )}
+        {field(
+          "manufacturer",
+          "Manufacturer",
+          <>
+            <Input
+              id="recall-manufacturer"
+              list="recall-manufacturer-options"
+              value={draft.manufacturer}
+              onChange={(e) => set("manufacturer", e.target.value)}
+            />
+            <datalist id="recall-manufacturer-options">
+              {manufacturers.map((m) => (
+                <option key={m} value={m} />
+              ))}
+            </datalist>
+          </>,
+        )}
+        {field(
+          "modelRef",
+          "Model",
+          <>
+            <Input
+              id="recall-modelRef"
+              list="recall-model-options"
+              value={draft.modelRef}
+              onChange={(e) => set("modelRef", e.target.value)}
+            />
+            <datalist id="recall-model-options">
+              {models.map((m) => (
+                <option key={m} value={m} />
+              ))}
+            </datalist>
+          </>,
+        )}
+        {field(
+          "lotFrom",
+          "First Lot (optional)",
+          <Input
+            id="recall-lotFrom"
+            value={draft.lotFrom}
+            onChange={(e) => set("lotFrom", e.target.value)}
+          />,
+        )}
+        {field(
+          "lotTo",
+          "Last Lot (optional)",
+          <Input
+            id="recall-lotTo"
+            value={draft.lotTo}
+            onChange={(e) => set("lotTo", e.target.value)}
+          />,
+        )}
+        {field(
+          "implantedFrom",
+          "Implanted From",
+          <Input
+            id="recall-implantedFrom"
+            type="date"
+            value={draft.implantedFrom}
+            onChange={(e) => set("implantedFrom", e.target.value)}
+          />,
+        )}
+        {field(
+          "implantedTo",
+          "Implanted To",
+          <Input
+            id="recall-implantedTo"
+            type="date"
+            value={draft.implantedTo}
+            onChange={(e) => set("implantedTo", e.target.value)}
+          />,
+        )}
+        {field(
+          "description",
+          "Issue Description",
+          <Input
+            id="recall-description"
+            value={draft.description}
+            placeholder="e.g. Elevated wear of polyethylene liner"
+            onChange={(e) => set("description", e.target.value)}
+          />,
+          2,
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-4 mt-5">
+        <p
+          className="font-inter font-light"
+          style={{ fontSize: "12px", color: "var(--thodar-text-secondary)" }}
+        >
+          {affected === null
+            ? "Enter a manufacturer and model to look up affected patients."
+            : `${affected} active ${affected === 1 ? "patient matches" : "patients match"} this notice.`}
+        </p>
+        <Button
+          size="sm"
+          onClick={submit}
+          disabled={createRecall.isPending}
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          Issue Recall
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RecallWorklistRow({
+  recall,
+  item,
+  readOnly,
+}: {
+  recall: Recall;
+  item: RecallWorklistItem;
+  readOnly: boolean;
+}) {
+  const updateNotice = useUpdateRecallNotice();
+  const [note, setNote] = useState(item.notice?.note ?? "");
+
+  function save(status: NoticeStatus, nextNote = note) {
+    updateNotice.mutate(
+      {
+        recallId: recall.id,
+        recordId: item.record.id,
+        status,
+        note: nextNote.trim(),
+      },
+      {
+        onError: (error) =>
+          toast.error("Notification status not saved", {
+            description: error.message,
+          }),
+      },
+    );
+  }
+
+  const cell = {
+    padding: "8px 10px",
+    fontSize: "12px",
+    color: "var(--thodar-text-secondary)",
+  };
+
+  return (
+    <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+      <td className="font-inter font-medium" style={cell}>
+        {item.record.patientId}
+      </td>
+      <td className="font-inter font-light" style={cell}>
+        {item.record.institution}
+        <br />
+        <span style={{ color: "var(--thodar-text-muted)" }}>
+          {item.record.operatingSurgeon}
+        </span>
+      </td>
+      <td className="font-inter font-light" style={cell}>
+        {item.record.lotNumber}
+        <br />
+        <span style={{ color: "var(--thodar-text-muted)" }}>
+          {item.record.surgeryDate}
+        </span>
+      </td>
+      <td style={cell}>
+        <Select
+          value={item.status}
+          disabled={recall.closed || readOnly || updateNotice.isPending}
+          onValueChange={(v) => save(v as NoticeStatus)}
+        >
+          <SelectTrigger
+            size="sm"
+            aria-label={`Notification status for ${item.record.patientId}`}
+            className="font-inter min-w-40"
+            style={{
+              fontSize: "12px",
+              color: NOTICE_STATUS_COLORS[item.status],
+            }}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NOTICE_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </td>
+      <td style={cell}>
+        <Input
+          value={note}
+          disabled={recall.closed || readOnly}
+          placeholder="Call-back note"
+          aria-label={`Call-back note for ${item.record.patientId}`}
+          className="h-8"
+          style={{ fontSize: "12px" }}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={() => {
+            if (note.trim() !== (item.notice?.note ?? "")) {
+              save(item.status);
+            }
+          }}
+        />
+      </td>
+      <td className="font-inter font-light" style={cell}>
+        {item.notice ? (
+          <>
+            {formatTimestamp(item.notice.updatedAt)}
+            <br />
+            <span style={{ color: "var(--thodar-text-muted)" }}>
+              {formatAuthor(item.notice.updatedBy)}
+            </span>
+          </>
+        ) : (
+          "—"
+        )}
+      </td>
+    </tr>
+  );
+}
+
+function RecallWorklist({
+  recall,
+  records,
+}: {
+  recall: Recall;
+  records: ImplantRecord[];
+}) {
+  const { can } = useAccess();
+  const { data: notices = [] } = useRecallNotices(recall.id);
+  const closeRecall = useCloseRecall();
+  const worklist = buildRecallWorklist(records, recall, notices);
+  const counts = countByNoticeStatus(worklist);
+
+  const header = {
+    fontSize: "10px",
+    color: "var(--thodar-text-muted)",
+    padding: "8px 10px",
+    textTransform: "uppercase" as const,
+    letterSpacing: "0.1em",
+  };
+
+  return (
+    <div
+      className="mt-6 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+      }}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <PanelHeading>
+            Call-Back Worklist — {recall.reference || recall.id}
+          </PanelHeading>
+          <p
+            className="font-inter font-light -mt-3"
+            style={{ fontSize: "12px", color: "var(--thodar-text-secondary)" }}
+          >
+            {recall.manufacturer} {recall.modelRef}
+            {recall.lotFrom || recall.lotTo
+              ? ` · lots ${recall.lotFrom || "…"} to ${recall.lotTo || "…"}`
+              : " · all lots"}
+            {recall.description ? ` · ${recall.description}` : ""}
+          </p>
+          <p
+            className="font-inter font-light mt-2"
+            style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+          >
+            {NOTICE_STATUSES.map((s) => `${counts[s]} ${s.toLowerCase()}`).join(
+              " · ",
+            )}
+          </p>
+        </div>
+        {!recall.closed && can("manageRecalls") && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={closeRecall.isPending}
+            onClick={() =>
+              closeRecall.mutate(recall.id, {
+                onSuccess: () =>
+                  toast.success(
+                    `Recall ${recall.reference || recall.id} closed`,
+                  ),
+                onError: (error) =>
+                  toast.error("Recall could not be closed", {
+                    description: error.message,
+                  }),
+              })
+            }
+            className="font-inter font-medium"
+            style={{ fontSize: "12px" }}
+          >
+            Close Recall
+          </Button>
+        )}
+      </div>
+      {worklist.length === 0 ? (
+        <p
+          className="font-inter font-light"
+          style={{ fontSize: "13px", color: "var(--thodar-text-muted)" }}
+        >
+          No active registry patients carry an affected device.
+        </p>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table className="w-full" style={{ borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+                {[
+                  "Patient",
+                  "Institution / Surgeon",
+                  "Lot / Implanted",
+                  "Notification",
+                  "Note",
+                  "Last Update",
+                ].map((label) => (
+                  <th
+                    key={label}
+                    className="font-inter font-medium text-left"
+                    style={header}
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {worklist.map((item) => (
+                <RecallWorklistRow
+                  key={`${item.record.id}-${item.notice?.updatedAt ?? ""}`}
+                  recall={recall}
+                  item={item}
+                  readOnly={!can("recordCallBacks")}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RecallSection() {
+  const { can } = useAccess();
+  const { data: records = [] } = useImplantRecords();
+  const { data: recalls = [] } = useRecalls();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const ordered = [...recalls].sort(
+    (a, b) =>
+      Number(a.closed) - Number(b.closed) ||
+      b.issuedAt.localeCompare(a.issuedAt),
+  );
+  const selected =
+    ordered.find((r) => r.id === selectedId) ??
+    ordered.find((r) => !r.closed) ??
+    null;
+
+  return (
+    <section
+      id="recalls"
+      className="px-8 py-20 border-t border-thodar"
+      style={{ backgroundColor: "var(--thodar-surface)" }}
+    >
+      <div className="max-w-5xl mx-auto">
+        <FadeIn>
+          <SectionLabel>Field Safety</SectionLabel>
+        </FadeIn>
+        <FadeIn delay={80}>
+          <SectionTitle maxWidth="560px">
+            Device Recall &amp; Lot Lookup
+          </SectionTitle>
+        </FadeIn>
+        <FadeIn delay={140}>
+          <div className="grid md:grid-cols-2 gap-6">
+            {can("manageRecalls") ? (
+              <RecallForm records={records} />
+            ) : (
+              <RestrictedNotice>
+                Recalls are issued and closed by Quality Officers and
+                Administrators.
+              </RestrictedNotice>
+            )}
+            <div
+              className="p-6"
+              style={{
+                border: "1px solid var(--thodar-border)",
+                backgroundColor: "var(--thodar-bg)",
+              }}
+            >
+              <PanelHeading>Recalls on File</PanelHeading>
+              {!can("viewCaseRecords") ? (
+                <p
+                  className="font-inter font-light"
+                  style={{
+                    fontSize: "13px",
+                    color: "var(--thodar-text-muted)",
+                  }}
+                >
+                  Recalls on file are listed for roles with access to case
+                  records.
+                </p>
+              ) : ordered.length === 0 ? (
+                <p
+                  className="font-inter font-light"
+                  style={{
+                    fontSize: "13px",
+                    color: "var(--thodar-text-muted)",
+                  }}
+                >
+                  No field safety notices have been registered.
+                </p>
+              ) : (
+                <ul className="flex flex-col gap-2">
+                  {ordered.map((recall) => {
+                    const affected = findAffectedRecords(
+                      records,
+                      recall,
+                    ).length;
+                    const isSelected = recall.id === selected?.id;
+                    return (
+                      <li key={recall.id}>
+                        <button
+                          type="button"
+                          onClick={() => setSelectedId(recall.id)}
+                          aria-pressed={isSelected}
+                          className="w-full text-left p-3 transition-colors"
+                          style={{
+                            border: `1px solid ${isSelected ? "var(--thodar-teal)" : "var(--thodar-border)"}`,
+                            backgroundColor: "var(--thodar-surface)",
+                            opacity: recall.closed ? 0.6 : 1,
+                          }}
+                        >
+                          <p
+                            className="font-inter font-medium"
+                            style={{
+                              fontSize: "13px",
+                              color: "var(--thodar-text-primary)",
+                            }}
+                          >
+                            {recall.reference || recall.id} · {recall.severity}
+                            {recall.closed ? " · Closed" : ""}
+                          </p>
+                          <p
+                            className="font-inter font-light"
+                            style={{
+                              fontSize: "12px",
+                              color: "var(--thodar-text-secondary)",
+                            }}
+                          >
+                            {recall.manufacturer} {recall.modelRef} · {affected}{" "}
+                            affected
+                          </p>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        </FadeIn>
+        {selected && can("viewCaseRecords") && (
+          <FadeIn delay={200}>
+            <RecallWorklist
+              key={selected.id}
+              recall={selected}
+              records={records}
+            />
+          </FadeIn>
+        )}
+        <FadeIn delay={260}>
+          <DeviceCataloguePanel records={records} />
+        </FadeIn>
+      </div>
+    </section>
+  );
+}
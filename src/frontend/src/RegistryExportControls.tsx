@@ -0,0 +1,88 @@
+import { Button } from "@/components/ui/button";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  useAccess,
+  useFilteredRecordsLoader,
+  useRecordAuditEvent,
+} from "./hooks/useRegistry";
+import { downloadFile } from "./registryExport";
+import type { RecordFilter, RecordSort } from "./registryQuery";
+import {
+  RECORD_EXPORT_FORMATS,
+  type RecordExportFormat,
+  exportRecords,
+  recordExportFileName,
+} from "./registryRecordExport";
+
+// ─── Registry Export ─────────────────────────────────────────────────────────
+export function RegistryExportControls({
+  filter,
+  sort,
+  matching,
+}: {
+  filter: RecordFilter;
+  sort: RecordSort;
+  matching: number;
+}) {
+  const { can } = useAccess();
+  const loadRecords = useFilteredRecordsLoader();
+  const recordAudit = useRecordAuditEvent();
+  const [exporting, setExporting] = useState(false);
+
+  // Exports read case records, which the canister refuses to callers
+  // without case access even when they may export analytics.
+  if (!can("exportData") || !can("viewCaseRecords")) return null;
+  const identifiable = can("viewIdentifiers");
+
+  async function exportView(format: RecordExportFormat) {
+    setExporting(true);
+    try {
+      const records = await loadRecords(filter, sort);
+      // No file leaves without its audit entry.
+      await recordAudit.mutateAsync({
+        action: "Registry data exported",
+        caseRef: "",
+        detail: `${RECORD_EXPORT_FORMATS[format].label}, ${records.length} records${identifiable ? "" : ", identifiers removed"}`,
+      });
+      downloadFile(
+        recordExportFileName(format),
+        RECORD_EXPORT_FORMATS[format].mimeType,
+        exportRecords(records, format, { identifiable }),
+      );
+    } catch (error) {
+      toast.error("Export failed", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 mb-3">
+      <span
+        className="font-inter font-light mr-auto"
+        style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+      >
+        Export the {matching} records matching the current filters
+        {identifiable ? "" : " without patient identifiers"}
+      </span>
+      {(Object.keys(RECORD_EXPORT_FORMATS) as RecordExportFormat[]).map(
+        (format) => (
+          <Button
+            key={format}
+            variant="outline"
+            size="sm"
+            disabled={exporting || matching === 0}
+            onClick={() => exportView(format)}
+            className="font-inter font-medium"
+            style={{ fontSize: "12px" }}
+          >
+            Export {RECORD_EXPORT_FORMATS[format].label}
+          </Button>
+        ),
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,17 @@
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { type ReactNode, useEffect, useRef, useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { type ReactNode, useEffect, useMemo, useState } from "react";
 import {
   Bar,
   BarChart,
@@ -19,212 +28,88 @@ import {
   YAxis,
 } from "recharts";
 import {
-  type ImplantRecord,
-  REGISTRY_DATA,
-  getImplantDuration,
-} from "./registryData";
-
-// ─── Local FadeIn (mirrors App.tsx pattern) ────────────────────────────────
-function useFadeIn() {
-  const ref = useRef<HTMLDivElement>(null);
-  useEffect(() => {
-    const element = ref.current;
-    if (!element) return;
-    const observer = new IntersectionObserver(
-      (entries) => {
-        for (const e of entries) {
-          if (e.isIntersecting) e.target.classList.add("is-visible");
-        }
-      },
-      { threshold: 0.1, rootMargin: "0px 0px -40px 0px" },
-    );
-    observer.observe(element);
-    return () => observer.disconnect();
-  }, []);
-  return ref;
-}
-
-function FadeIn({
-  children,
-  delay = 0,
-  className = "",
-}: {
-  children: ReactNode;
-  delay?: number;
-  className?: string;
-}) {
-  const ref = useFadeIn();
-  return (
-    <div
-      ref={ref}
-      className={`fade-in-section ${className}`}
-      style={{ transitionDelay: `${delay}ms` }}
-    >
-      {children}
-    </div>
-  );
-}
-
-// ─── Section label helper ───────────────────────────────────────────────────
-function SectionLabel({ children }: { children: ReactNode }) {
-  return (
-    <p
-      className="font-inter font-medium tracking-[0.2em] uppercase mb-8"
-      style={{ fontSize: "11px", color: "var(--thodar-teal)" }}
-    >
-      {children}
-    </p>
-  );
-}
-
-function SectionTitle({
-  children,
-  maxWidth = "640px",
-}: {
-  children: ReactNode;
-  maxWidth?: string;
-}) {
-  return (
-    <h2
-      className="font-playfair font-normal leading-tight mb-8"
-      style={{
-        fontSize: "clamp(26px, 3.5vw, 42px)",
-        color: "var(--thodar-text-primary)",
-        maxWidth,
-      }}
-    >
-      {children}
-    </h2>
-  );
-}
-
-// ─── Alert Level Badge ───────────────────────────────────────────────────────
-function AlertBadge({ level }: { level: "stable" | "review" | "attention" }) {
-  const config = {
-    stable: {
-      dot: "#16a34a",
-      text: "Stable Monitoring",
-      bg: "rgba(22,163,74,0.07)",
-      border: "rgba(22,163,74,0.25)",
-      color: "#15803d",
-    },
-    review: {
-      dot: "#d97706",
-      text: "Review Pending",
-      bg: "rgba(217,119,6,0.07)",
-      border: "rgba(217,119,6,0.25)",
-      color: "#b45309",
-    },
-    attention: {
-      dot: "#dc2626",
-      text: "Clinical Attention",
-      bg: "rgba(220,38,38,0.07)",
-      border: "rgba(220,38,38,0.25)",
-      color: "#b91c1c",
-    },
-  };
-  const c = config[level];
-  return (
-    <span
-      className="inline-flex items-center gap-1.5 px-2 py-0.5 font-inter"
-      style={{
-        fontSize: "11px",
-        fontWeight: 500,
-        borderRadius: "2px",
-        backgroundColor: c.bg,
-        border: `1px solid ${c.border}`,
-        color: c.color,
-        whiteSpace: "nowrap",
-      }}
-    >
-      <span
-        style={{
-          width: "5px",
-          height: "5px",
-          borderRadius: "50%",
-          backgroundColor: c.dot,
-          flexShrink: 0,
-        }}
-      />
-      {c.text}
-    </span>
-  );
-}
-
-// ─── Follow-up Status Badge ──────────────────────────────────────────────────
-function StatusBadge({ status }: { status: string }) {
-  const map: Record<string, { bg: string; border: string; color: string }> = {
-    Scheduled: {
-      bg: "rgba(67,122,168,0.07)",
-      border: "rgba(67,122,168,0.25)",
-      color: "var(--thodar-blue)",
-    },
-    Overdue: {
-      bg: "rgba(220,38,38,0.07)",
-      border: "rgba(220,38,38,0.25)",
-      color: "#b91c1c",
-    },
-    Completed: {
-      bg: "rgba(22,163,74,0.07)",
-      border: "rgba(22,163,74,0.25)",
-      color: "#15803d",
-    },
-  };
-  const c = map[status] ?? map.Scheduled;
-  return (
-    <span
-      className="font-inter"
-      style={{
-        fontSize: "11px",
-        fontWeight: 500,
-        padding: "2px 7px",
-        borderRadius: "2px",
-        backgroundColor: c.bg,
-        border: `1px solid ${c.border}`,
-        color: c.color,
-      }}
-    >
-      {status}
-    </span>
-  );
-}
-
-// ─── Risk Level Badge ────────────────────────────────────────────────────────
-function RiskBadge({ level }: { level: "Low" | "Moderate" | "High" }) {
-  const map = {
-    Low: {
-      bg: "rgba(22,163,74,0.07)",
-      border: "rgba(22,163,74,0.25)",
-      color: "#15803d",
-    },
-    Moderate: {
-      bg: "rgba(217,119,6,0.07)",
-      border: "rgba(217,119,6,0.25)",
-      color: "#b45309",
-    },
-    High: {
-      bg: "rgba(220,38,38,0.07)",
-      border: "rgba(220,38,38,0.25)",
-      color: "#b91c1c",
-    },
-  };
-  const c = map[level];
-  return (
-    <span
-      className="font-inter font-medium"
-      style={{
-        fontSize: "11px",
-        padding: "2px 7px",
-        borderRadius: "2px",
-        backgroundColor: c.bg,
-        border: `1px solid ${c.border}`,
-        color: c.color,
-      }}
-    >
-      {level}
-    </span>
-  );
-}
+  CallerAccessPanel,
+  PermissionMatrixTable,
+} from "./AccessControlPanels";
+import {
+  InstitutionsPanel,
+  SyntheticDatasetPanel,
+  UserAdministrationPanel,
+} from "./AdministrationPanels";
+import { AuditExportControls, AuditVerificationPanel } from "./AuditExport";
+import { CaseHistory, CaseUpdateActions } from "./CaseHistory";
+import { CohortComparisonPanel } from "./CohortComparisonPanel";
+import { ComparisonWorkspace } from "./ComparisonWorkspace";
+import { FollowUpProtocolsPanel } from "./FollowUpProtocolsPanel";
+import { ImplantImportDialog } from "./ImplantImportWizard";
+import { ImplantIntakeDialog } from "./ImplantIntakeForm";
+import { OutlierDetectionPanel } from "./OutlierDetectionPanel";
+import { QualityReviewQueue } from "./QualityReviewQueue";
+import { RecallSection } from "./RecallSection";
+import { RegistryExportControls } from "./RegistryExportControls";
+import {
+  AMBER,
+  AlertBadge,
+  FadeIn,
+  PanelInputLabel,
+  RED,
+  RestrictedNotice,
+  RiskBadge,
+  SectionLabel,
+  SectionTitle,
+  StatusBadge,
+  TEAL,
+} from "./RegistryShared";
+import {
+  RegistryFilterBar,
+  RegistryPagination,
+  RegistryViewControls,
+  SortableHeader,
+} from "./RegistryTableControls";
+import { RiskRationale } from "./RiskRationale";
+import { SurvivalAnalysisPanel } from "./SurvivalAnalysisPanel";
+import {
+  useAccess,
+  useAnalyticsRecords,
+  useAuditEntries,
+  useDevices,
+  useFollowUpProtocols,
+  useImplantRecord,
+  useImplantRecordPage,
+  useImplantRecords,
+  useRecordAuditEvent,
+  useRecordLogin,
+  useReviewHistory,
+} from "./hooks/useRegistry";
+import { useRegistryTableState } from "./hooks/useRegistryTableState";
+import { ROLES, ROLE_DESCRIPTIONS, type Role } from "./registryAccess";
+import {
+  computeAgeDistribution,
+  computeAlertStratification,
+  computeComplianceTrend,
+} from "./registryAnalytics";
+import {
+  AUDIT_ACTIONS,
+  type AuditFilter,
+  EMPTY_AUDIT_FILTER,
+  auditTimestampIso,
+  filterAuditEntries,
+} from "./registryAudit";
+import {
+  DEFAULT_COLUMN_SETTINGS,
+  REGISTRY_COLUMNS,
+  type RegistryColumnId,
+  resizeColumn,
+} from "./registryColumns";
+import { type ImplantRecord, getImplantDuration } from "./registryData";
+import { findFollowUpProtocol } from "./registryFollowUp";
+import { formatAuthor, formatTimestamp } from "./registryHistory";
+import type { Institution } from "./registryInstitutions";
+import {
+  computeRegistryMetrics,
+  formatPercent,
+  formatYears,
+} from "./registryMetrics";
 
 // ─── Field Row for detail panel ──────────────────────────────────────────────
 function DetailField({ label, value }: { label: string; value: ReactNode }) {
@@ -258,6 +143,18 @@ function CaseReviewPanel({
   record: ImplantRecord;
   onClose: () => void;
 }) {
+  const { can } = useAccess();
+  const { data: devices = [] } = useDevices();
+  const device = devices.find((d) => d.id === record.deviceId);
+  const { mutate: recordAudit } = useRecordAuditEvent();
+  useEffect(() => {
+    recordAudit({
+      action: "Case record viewed",
+      caseRef: record.id,
+      detail: "",
+    });
+  }, [record.id, recordAudit]);
+
   useEffect(() => {
     function handleKey(e: KeyboardEvent) {
       if (e.key === "Escape") onClose();
@@ -340,145 +237,177 @@ function CaseReviewPanel({
           </button>
         </div>
 
-        <div className="px-8 pb-10 flex-1">
-          {/* Patient Clinical Overview */}
-          <div
-            className="py-7"
-            style={{ borderBottom: "1px solid var(--thodar-border)" }}
-          >
-            <p
-              className="font-inter font-medium tracking-[0.16em] uppercase mb-5"
-              style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
+        <Tabs defaultValue="summary" className="px-8 pb-10 flex-1 pt-6 gap-0">
+          <TabsList className="w-full">
+            <TabsTrigger value="summary">Summary</TabsTrigger>
+            {can("editRecords") && (
+              <TabsTrigger value="update">Update</TabsTrigger>
+            )}
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="summary">
+            {/* Patient Clinical Overview */}
+            <div
+              className="py-7"
+              style={{ borderBottom: "1px solid var(--thodar-border)" }}
             >
-              Patient Clinical Overview
-            </p>
-            <div className="grid grid-cols-2 gap-x-6 gap-y-5">
-              <DetailField
-                label="Patient Identifier"
-                value={record.patientId}
-              />
-              <DetailField label="Age" value={`${record.age} years`} />
-              <DetailField label="Sex" value={record.sex} />
-              <DetailField
-                label="Primary Diagnosis"
-                value={record.primaryDiagnosis}
-              />
-              <div className="col-span-2">
+              <p
+                className="font-inter font-medium tracking-[0.16em] uppercase mb-5"
+                style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
+              >
+                Patient Clinical Overview
+              </p>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-5">
                 <DetailField
-                  label="Relevant Comorbidities"
-                  value={record.comorbidities}
+                  label="Patient Identifier"
+                  value={record.patientId}
                 />
-              </div>
-              <div className="col-span-2">
+                <DetailField label="Age" value={`${record.age} years`} />
+                <DetailField label="Sex" value={record.sex} />
                 <DetailField
-                  label="Operating Institution"
-                  value={record.institution}
+                  label="Primary Diagnosis"
+                  value={record.primaryDiagnosis}
                 />
+                <div className="col-span-2">
+                  <DetailField
+                    label="Relevant Comorbidities"
+                    value={record.comorbidities}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <DetailField
+                    label="Operating Institution"
+                    value={record.institution}
+                  />
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Implant Device Specifications */}
-          <div
-            className="py-7"
-            style={{ borderBottom: "1px solid var(--thodar-border)" }}
-          >
-            <p
-              className="font-inter font-medium tracking-[0.16em] uppercase mb-5"
-              style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
+            {/* Implant Device Specifications */}
+            <div
+              className="py-7"
+              style={{ borderBottom: "1px solid var(--thodar-border)" }}
             >
-              Implant Device Specifications
-            </p>
-            <div className="grid grid-cols-2 gap-x-6 gap-y-5">
-              <DetailField
-                label="Implant Category"
-                value={record.implantCategory}
-              />
-              <DetailField label="Manufacturer" value={record.manufacturer} />
-              <div className="col-span-2">
-                <DetailField label="Model Reference" value={record.modelRef} />
+              <p
+                className="font-inter font-medium tracking-[0.16em] uppercase mb-5"
+                style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
+              >
+                Implant Device Specifications
+              </p>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-5">
+                <DetailField
+                  label="Implant Category"
+                  value={record.implantCategory}
+                />
+                <DetailField label="Manufacturer" value={record.manufacturer} />
+                <div className="col-span-2">
+                  <DetailField
+                    label="Model Reference"
+                    value={record.modelRef}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <DetailField
+                    label="Catalogue Device"
+                    value={
+                      device
+                        ? `${device.catalogueNumber} · UDI-DI (01)${device.udiDi}${device.retired ? " · Retired" : ""}`
+                        : "Not linked to the catalogue"
+                    }
+                  />
+                </div>
+                <DetailField
+                  label="Lot / Batch Number"
+                  value={record.lotNumber}
+                />
+                <DetailField
+                  label="Material Composition"
+                  value={record.material}
+                />
+                <DetailField
+                  label="Fixation Type"
+                  value={record.fixationType}
+                />
+                <DetailField
+                  label="Anatomical Site"
+                  value={record.anatomicalSite}
+                />
+                <DetailField label="Laterality" value={record.laterality} />
               </div>
-              <DetailField
-                label="Lot / Batch Number"
-                value={record.lotNumber}
-              />
-              <DetailField
-                label="Material Composition"
-                value={record.material}
-              />
-              <DetailField label="Fixation Type" value={record.fixationType} />
-              <DetailField
-                label="Anatomical Site"
-                value={record.anatomicalSite}
-              />
-              <DetailField label="Laterality" value={record.laterality} />
+              <p
+                className="font-inter font-light mt-5 pt-5"
+                style={{
+                  fontSize: "11px",
+                  color: "var(--thodar-text-muted)",
+                  borderTop: "1px solid var(--thodar-border)",
+                  fontStyle: "italic",
+                }}
+              >
+                Device metadata simulated for pilot demonstration.
+              </p>
             </div>
-            <p
-              className="font-inter font-light mt-5 pt-5"
-              style={{
-                fontSize: "11px",
-                color: "var(--thodar-text-muted)",
-                borderTop: "1px solid var(--thodar-border)",
-                fontStyle: "italic",
-              }}
-            >
-              Device metadata simulated for pilot demonstration.
-            </p>
-          </div>
 
-          {/* Surgical & Monitoring Data */}
-          <div className="py-7">
-            <p
-              className="font-inter font-medium tracking-[0.16em] uppercase mb-5"
-              style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
-            >
-              Surgical &amp; Monitoring Data
-            </p>
-            <div className="grid grid-cols-2 gap-x-6 gap-y-5">
-              <DetailField
-                label="Date of Implantation"
-                value={record.surgeryDate}
-              />
-              <DetailField
-                label="Implant Duration"
-                value={getImplantDuration(record.surgeryDate)}
-              />
-              <div className="col-span-2">
+            {/* Surgical & Monitoring Data */}
+            <div className="py-7">
+              <p
+                className="font-inter font-medium tracking-[0.16em] uppercase mb-5"
+                style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
+              >
+                Surgical &amp; Monitoring Data
+              </p>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-5">
                 <DetailField
-                  label="Revision History"
-                  value={record.revisionHistory}
+                  label="Date of Implantation"
+                  value={record.surgeryDate}
                 />
-              </div>
-              <DetailField
-                label="Complication Reports"
-                value={`${record.complicationsLogged} logged`}
-              />
-              <DetailField
-                label="Last Clinical Review"
-                value={record.lastReview}
-              />
-              <DetailField
-                label="Scheduled Next Review"
-                value={record.nextReview}
-              />
-              <div className="col-span-2 flex items-start gap-3">
-                <div className="flex-1">
-                  <p
-                    className="font-inter font-medium uppercase tracking-wide mb-2"
-                    style={{
-                      fontSize: "10px",
-                      color: "var(--thodar-text-muted)",
-                      letterSpacing: "0.12em",
-                    }}
-                  >
-                    Risk Stratification
-                  </p>
-                  <RiskBadge level={record.riskLevel} />
+                <DetailField
+                  label="Implant Duration"
+                  value={getImplantDuration(record.surgeryDate)}
+                />
+                <div className="col-span-2">
+                  <DetailField
+                    label="Revision History"
+                    value={record.revisionHistory}
+                  />
+                </div>
+                <DetailField
+                  label="Complication Reports"
+                  value={`${record.complicationsLogged} logged`}
+                />
+                <DetailField
+                  label="Last Clinical Review"
+                  value={record.lastReview}
+                />
+                <DetailField
+                  label="Scheduled Next Review"
+                  value={record.nextReview || "Protocol completed"}
+                />
+                <DetailField
+                  label="Follow-Up Protocol"
+                  value={findFollowUpProtocol(record.implantCategory).name}
+                />
+                <DetailField
+                  label="Follow-Up Status"
+                  value={<StatusBadge status={record.followUpStatus} />}
+                />
+                <div className="col-span-2">
+                  <RiskRationale key={record.id} record={record} />
                 </div>
               </div>
             </div>
-          </div>
-        </div>
+          </TabsContent>
+
+          {can("editRecords") && (
+            <TabsContent value="update">
+              <CaseUpdateActions key={record.id} record={record} />
+            </TabsContent>
+          )}
+
+          <TabsContent value="history">
+            <CaseHistory key={record.id} record={record} />
+          </TabsContent>
+        </Tabs>
       </dialog>
     </>
   );
@@ -578,6 +507,27 @@ function SummaryCard({ value, label }: { value: string; label: string }) {
   );
 }
 
+function RegistryCell({
+  record,
+  column,
+}: {
+  record: ImplantRecord;
+  column: RegistryColumnId;
+}) {
+  switch (column) {
+    case "duration":
+      return <>{getImplantDuration(record.surgeryDate)}</>;
+    case "followUpStatus":
+      return <StatusBadge status={record.followUpStatus} />;
+    case "alertLevel":
+      return <AlertBadge level={record.alertLevel} />;
+    case "riskLevel":
+      return <RiskBadge level={record.riskLevel} />;
+    default:
+      return <>{record[column]}</>;
+  }
+}
+
 // ─── 2. RegistryDashboardSection ─────────────────────────────────────────────
 export function RegistryDashboardSection({
   onSelectRecord,
@@ -587,34 +537,91 @@ export function RegistryDashboardSection({
   const [comparisonMode, setComparisonMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [showComparison, setShowComparison] = useState(false);
+  const [referenceId, setReferenceId] = useState<string | null>(null);
+  const [intakeOpen, setIntakeOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const { data: records = [] } = useImplantRecords();
+  const [tableState, setTableState] = useRegistryTableState();
+  const { data: page, isFetching } = useImplantRecordPage(
+    tableState.filter,
+    tableState.sort,
+    {
+      offset: (tableState.page - 1) * tableState.pageSize,
+      limit: tableState.pageSize,
+    },
+  );
+  const pageRecords = page?.items ?? [];
+  const { can } = useAccess();
+  const { mutate: recordAudit } = useRecordAuditEvent();
+  const [columns, setColumns] = useState(DEFAULT_COLUMN_SETTINGS);
+  // Roles without identifier access work from de-identified aggregate views.
+  const visibleColumns = can("viewIdentifiers")
+    ? columns
+    : columns.filter((c) => c.id !== "patientId");
+  const tableWidth =
+    visibleColumns.reduce((sum, c) => sum + c.width, 0) +
+    (comparisonMode ? 40 : 0);
+
+  // A shared link may point past the last page once records are archived.
+  useEffect(() => {
+    if (!page || page.total === 0) return;
+    const pageCount = Math.ceil(page.total / tableState.pageSize);
+    if (tableState.page > pageCount) {
+      setTableState({ ...tableState, page: pageCount });
+    }
+  }, [page, tableState, setTableState]);
+
+  // Regional staff see figures from the de-identified cross-institution
+  // projection; visitors without a registry role see none.
+  const { data: metricRecords = [] } = useAnalyticsRecords();
+  const showMetrics = can("viewCaseRecords") || can("viewAllInstitutions");
+  const metrics = useMemo(
+    () => computeRegistryMetrics(metricRecords),
+    [metricRecords],
+  );
 
   const summaryCards = [
-    { value: "10", label: "Total Active Implant Cases" },
-    { value: "4", label: "Upcoming Follow-Ups" },
-    { value: "2", label: "Replacement Evaluation Alerts" },
-    { value: "1", label: "Patients Lost to Follow-Up" },
-    { value: "78%", label: "Follow-Up Compliance Rate" },
-    { value: "3", label: "Cases Under Revision Monitoring" },
-    { value: "4.2 yrs", label: "Average Implant Duration" },
+    {
+      value: String(metrics.totalActiveCases),
+      label: "Total Active Implant Cases",
+    },
+    { value: String(metrics.upcomingFollowUps), label: "Upcoming Follow-Ups" },
+    {
+      value: String(metrics.replacementEvaluationAlerts),
+      label: "Replacement Evaluation Alerts",
+    },
+    {
+      value: String(metrics.lostToFollowUp),
+      label: "Patients Lost to Follow-Up",
+    },
+    {
+      value: formatPercent(metrics.complianceRate),
+      label: "Follow-Up Compliance Rate",
+    },
+    {
+      value: String(metrics.revisionMonitoring),
+      label: "Cases Under Revision Monitoring",
+    },
+    {
+      value: formatYears(metrics.meanImplantDurationYears),
+      label: "Average Implant Duration",
+    },
   ];
 
   function toggleSelection(id: string) {
     if (selectedIds.includes(id)) {
       setSelectedIds((prev) => prev.filter((x) => x !== id));
+      if (referenceId === id) setReferenceId(null);
+      if (selectedIds.length <= 2) setShowComparison(false);
     } else {
-      if (selectedIds.length >= 3) {
-        alert(
-          "A maximum of 3 implant cases may be selected for comparative review.",
-        );
-        return;
-      }
       setSelectedIds((prev) => [...prev, id]);
     }
   }
 
-  const selectedRecords = REGISTRY_DATA.filter((r) =>
-    selectedIds.includes(r.id),
-  );
+  // Keep selection order so newly added cases appear as the rightmost column.
+  const selectedRecords = selectedIds
+    .map((id) => records.find((r) => r.id === id))
+    .filter((r): r is ImplantRecord => r !== undefined);
 
   return (
     <section
@@ -649,513 +656,387 @@ export function RegistryDashboardSection({
         </FadeIn>
 
         {/* Summary Cards */}
-        <FadeIn delay={160}>
-          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 mb-4">
-            {summaryCards.map((card) => (
-              <SummaryCard
-                key={card.label}
-                value={card.value}
-                label={card.label}
-              />
-            ))}
-          </div>
-          <p
-            className="font-inter font-light mb-14"
-            style={{
-              fontSize: "11px",
-              color: "var(--thodar-text-muted)",
-              fontStyle: "italic",
-            }}
-          >
-            Metrics derived from simulated registry dataset for prototype
-            validation.
-          </p>
-        </FadeIn>
-
-        {/* Table Header */}
-        <FadeIn delay={200}>
-          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
-            <div>
-              <p
-                className="font-inter font-medium tracking-[0.2em] uppercase mb-1"
-                style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
-              >
-                Registered Cases
-              </p>
-              <h3
-                className="font-playfair font-normal"
-                style={{
-                  fontSize: "22px",
-                  color: "var(--thodar-text-primary)",
-                }}
-              >
-                Regional Implant Registry Records
-              </h3>
-            </div>
-            <div className="flex items-center gap-3">
-              <Switch
-                id="comparison-mode"
-                checked={comparisonMode}
-                onCheckedChange={(val) => {
-                  setComparisonMode(val);
-                  if (!val) {
-                    setSelectedIds([]);
-                    setShowComparison(false);
-                  }
-                }}
-              />
-              <Label
-                htmlFor="comparison-mode"
-                className="font-inter font-light cursor-pointer"
-                style={{
-                  fontSize: "13px",
-                  color: "var(--thodar-text-secondary)",
-                }}
-              >
-                Enable Comparative Review Mode
-              </Label>
+        {showMetrics && (
+          <FadeIn delay={160}>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 mb-4">
+              {summaryCards.map((card) => (
+                <SummaryCard
+                  key={card.label}
+                  value={card.value}
+                  label={card.label}
+                />
+              ))}
             </div>
-          </div>
-        </FadeIn>
-
-        {/* Table */}
-        <FadeIn delay={240}>
-          <div
-            id="registry"
-            style={{
-              border: "1px solid var(--thodar-border)",
-              boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
-              overflowX: "auto",
-            }}
-          >
-            <table
-              className="w-full"
-              style={{ borderCollapse: "collapse", minWidth: "760px" }}
+            <p
+              className="font-inter font-light mb-14"
+              style={{
+                fontSize: "11px",
+                color: "var(--thodar-text-muted)",
+                fontStyle: "italic",
+              }}
             >
-              <thead>
-                <tr
-                  style={{
-                    borderBottom: "1px solid var(--thodar-border)",
-                    backgroundColor: "var(--thodar-bg)",
-                  }}
-                >
-                  {comparisonMode && <th style={{ width: "40px" }} />}
-                  {[
-                    "Patient ID",
-                    "Implant Category",
-                    "Manufacturer",
-                    "Surgeon",
-                    "Surgery Date",
-                    "Duration",
-                    "Follow-Up Status",
-                    "Alert Level",
-                  ].map((h) => (
-                    <th
-                      key={h}
-                      className="font-inter font-medium tracking-wide text-left"
-                      style={{
-                        fontSize: "10px",
-                        color: "var(--thodar-text-muted)",
-                        padding: "10px 14px",
-                        letterSpacing: "0.1em",
-                        textTransform: "uppercase",
-                        whiteSpace: "nowrap",
-                      }}
-                    >
-                      {h}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {REGISTRY_DATA.map((record, idx) => {
-                  const isSelected = selectedIds.includes(record.id);
-                  return (
-                    <tr
-                      key={record.id}
-                      onClick={() => {
-                        if (comparisonMode) {
-                          toggleSelection(record.id);
-                        } else {
-                          onSelectRecord(record);
-                        }
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter" || e.key === " ") {
-                          if (comparisonMode) {
-                            toggleSelection(record.id);
-                          } else {
-                            onSelectRecord(record);
-                          }
-                        }
-                      }}
-                      tabIndex={0}
-                      style={{
-                        borderBottom:
-                          idx < REGISTRY_DATA.length - 1
-                            ? "1px solid var(--thodar-border)"
-                            : undefined,
-                        backgroundColor: isSelected
-                          ? "var(--thodar-teal-light)"
-                          : "var(--thodar-surface)",
-                        cursor: "pointer",
-                        transition: "background-color 0.15s ease",
-                      }}
-                      onMouseEnter={(e) => {
-                        if (!isSelected)
-                          (
-                            e.currentTarget as HTMLTableRowElement
-                          ).style.backgroundColor = "var(--thodar-bg)";
-                      }}
-                      onMouseLeave={(e) => {
-                        if (!isSelected)
-                          (
-                            e.currentTarget as HTMLTableRowElement
-                          ).style.backgroundColor = "var(--thodar-surface)";
-                      }}
-                    >
-                      {comparisonMode && (
-                        <td
-                          style={{ padding: "12px 14px", paddingLeft: "16px" }}
-                        >
-                          <Checkbox
-                            checked={isSelected}
-                            onCheckedChange={() => toggleSelection(record.id)}
-                            onClick={(e) => e.stopPropagation()}
-                            aria-label={`Select ${record.patientId}`}
-                          />
-                        </td>
-                      )}
-                      <td
-                        className="font-inter font-medium"
-                        style={{
-                          padding: "12px 14px",
-                          fontSize: "13px",
-                          color: "var(--thodar-text-primary)",
-                          whiteSpace: "nowrap",
-                        }}
-                      >
-                        {record.patientId}
-                      </td>
-                      <td
-                        className="font-inter font-light"
-                        style={{
-                          padding: "12px 14px",
-                          fontSize: "13px",
-                          color: "var(--thodar-text-secondary)",
-                        }}
-                      >
-                        {record.implantCategory}
-                      </td>
-                      <td
-                        className="font-inter font-light"
-                        style={{
-                          padding: "12px 14px",
-                          fontSize: "13px",
-                          color: "var(--thodar-text-secondary)",
-                          whiteSpace: "nowrap",
-                        }}
-                      >
-                        {record.manufacturer}
-                      </td>
-                      <td
-                        className="font-inter font-light"
-                        style={{
-                          padding: "12px 14px",
-                          fontSize: "13px",
-                          color: "var(--thodar-text-secondary)",
-                          whiteSpace: "nowrap",
-                        }}
-                      >
-                        {record.operatingSurgeon}
-                      </td>
-                      <td
-                        className="font-inter font-light"
-                        style={{
-                          padding: "12px 14px",
-                          fontSize: "13px",
-                          color: "var(--thodar-text-secondary)",
-                          whiteSpace: "nowrap",
-                        }}
-                      >
-                        {record.surgeryDate}
-                      </td>
-                      <td
-                        className="font-inter font-light"
-                        style={{
-                          padding: "12px 14px",
-                          fontSize: "13px",
-                          color: "var(--thodar-text-secondary)",
-                          whiteSpace: "nowrap",
-                        }}
-                      >
-                        {getImplantDuration(record.surgeryDate)}
-                      </td>
-                      <td style={{ padding: "12px 14px" }}>
-                        <StatusBadge status={record.followUpStatus} />
-                      </td>
-                      <td style={{ padding: "12px 14px" }}>
-                        <AlertBadge level={record.alertLevel} />
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
-        </FadeIn>
+              Metrics derived from simulated registry dataset for prototype
+              validation.
+            </p>
+          </FadeIn>
+        )}
 
-        {/* Comparison Mode Controls */}
-        {comparisonMode && (
-          <FadeIn delay={60}>
-            <div className="mt-4 flex items-center gap-4">
-              <p
-                className="font-inter font-light"
-                style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
-              >
-                {selectedIds.length} of 3 cases selected
-              </p>
-              {selectedIds.length >= 2 && (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setShowComparison(true)}
-                  className="font-inter font-medium"
-                  style={{ fontSize: "12px" }}
-                >
-                  Compare Selected
-                </Button>
-              )}
-              {selectedIds.length > 0 && (
-                <button
-                  type="button"
-                  onClick={() => {
-                    setSelectedIds([]);
-                    setShowComparison(false);
-                  }}
-                  className="font-inter font-light transition-opacity hover:opacity-60"
-                  style={{
-                    fontSize: "12px",
-                    color: "var(--thodar-text-muted)",
-                  }}
-                >
-                  Clear selection
-                </button>
-              )}
-            </div>
+        {!can("viewCaseRecords") && (
+          <FadeIn delay={200}>
+            <RestrictedNotice>
+              {showMetrics
+                ? "Case-level records are available to clinical and quality roles; the metrics above are computed from de-identified records across all institutions."
+                : "Registry metrics and case records are available to registry roles only."}
+            </RestrictedNotice>
           </FadeIn>
         )}
 
-        {/* Comparison Panel */}
-        {comparisonMode && showComparison && selectedRecords.length >= 2 && (
-          <FadeIn delay={80}>
-            <div
-              id="comparison"
-              className="mt-8 p-6"
-              style={{
-                border: "1px solid var(--thodar-border)",
-                backgroundColor: "var(--thodar-surface)",
-                boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
-              }}
-            >
-              <div className="flex items-start justify-between mb-5">
+        {can("viewCaseRecords") && (
+          <>
+            {/* Table Header */}
+            <FadeIn delay={200}>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
                 <div>
                   <p
-                    className="font-inter font-medium tracking-[0.16em] uppercase mb-1"
+                    className="font-inter font-medium tracking-[0.2em] uppercase mb-1"
                     style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
                   >
-                    Multi-Implant Comparative Review
+                    Registered Cases
                   </p>
-                  <h4
+                  <h3
                     className="font-playfair font-normal"
                     style={{
-                      fontSize: "19px",
+                      fontSize: "22px",
                       color: "var(--thodar-text-primary)",
                     }}
                   >
-                    Comparative Clinical Review Mode
-                  </h4>
+                    Regional Implant Registry Records
+                  </h3>
+                </div>
+                <div className="flex items-center gap-3">
+                  {can("editRecords") && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setImportOpen(true)}
+                        className="font-inter font-medium"
+                        style={{ fontSize: "12px" }}
+                      >
+                        Import Cases
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIntakeOpen(true)}
+                        className="font-inter font-medium mr-3"
+                        style={{ fontSize: "12px" }}
+                      >
+                        Register New Case
+                      </Button>
+                    </>
+                  )}
+                  <Switch
+                    id="comparison-mode"
+                    checked={comparisonMode}
+                    onCheckedChange={(val) => {
+                      setComparisonMode(val);
+                      recordAudit({
+                        action: val
+                          ? "Comparison mode enabled"
+                          : "Comparison mode disabled",
+                        caseRef: "",
+                        detail: "",
+                      });
+                      if (!val) {
+                        setSelectedIds([]);
+                        setReferenceId(null);
+                        setShowComparison(false);
+                      }
+                    }}
+                  />
+                  <Label
+                    htmlFor="comparison-mode"
+                    className="font-inter font-light cursor-pointer"
+                    style={{
+                      fontSize: "13px",
+                      color: "var(--thodar-text-secondary)",
+                    }}
+                  >
+                    Enable Comparative Review Mode
+                  </Label>
                 </div>
-                <button
-                  type="button"
-                  onClick={() => setShowComparison(false)}
-                  className="font-inter font-light hover:opacity-50 transition-opacity"
-                  style={{
-                    fontSize: "18px",
-                    color: "var(--thodar-text-muted)",
-                  }}
-                  aria-label="Close comparison"
-                >
-                  ×
-                </button>
               </div>
-              <div style={{ overflowX: "auto" }}>
+            </FadeIn>
+
+            {/* Filters */}
+            <FadeIn delay={220}>
+              <div className="flex justify-end mb-3">
+                <RegistryViewControls
+                  columns={visibleColumns}
+                  state={tableState}
+                  onColumnsChange={setColumns}
+                  onStateChange={setTableState}
+                />
+              </div>
+              <RegistryExportControls
+                filter={tableState.filter}
+                sort={tableState.sort}
+                matching={page?.total ?? 0}
+              />
+              <RegistryFilterBar
+                state={tableState}
+                records={records}
+                onChange={setTableState}
+              />
+            </FadeIn>
+
+            {/* Table */}
+            <FadeIn delay={240}>
+              <div
+                id="registry"
+                style={{
+                  border: "1px solid var(--thodar-border)",
+                  boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+                  overflowX: "auto",
+                }}
+              >
                 <table
-                  className="w-full"
-                  style={{ borderCollapse: "collapse" }}
+                  style={{
+                    borderCollapse: "collapse",
+                    tableLayout: "fixed",
+                    width: `${tableWidth}px`,
+                    minWidth: "100%",
+                  }}
                 >
                   <thead>
                     <tr
-                      style={{ borderBottom: "1px solid var(--thodar-border)" }}
+                      style={{
+                        borderBottom: "1px solid var(--thodar-border)",
+                        backgroundColor: "var(--thodar-bg)",
+                      }}
                     >
-                      <th
-                        className="font-inter font-medium text-left"
-                        style={{
-                          fontSize: "10px",
-                          color: "var(--thodar-text-muted)",
-                          padding: "8px 12px",
-                          textTransform: "uppercase",
-                          letterSpacing: "0.1em",
-                        }}
-                      >
-                        Attribute
-                      </th>
-                      {selectedRecords.map((r) => (
-                        <th
-                          key={r.id}
-                          className="font-inter font-medium text-left"
-                          style={{
-                            fontSize: "10px",
-                            color: "var(--thodar-teal)",
-                            padding: "8px 12px",
-                            textTransform: "uppercase",
-                            letterSpacing: "0.1em",
-                          }}
-                        >
-                          {r.patientId}
-                        </th>
+                      {comparisonMode && <th style={{ width: "40px" }} />}
+                      {visibleColumns.map((column) => (
+                        <SortableHeader
+                          key={column.id}
+                          label={REGISTRY_COLUMNS[column.id].label}
+                          field={REGISTRY_COLUMNS[column.id].sortField}
+                          width={column.width}
+                          state={tableState}
+                          onChange={setTableState}
+                          onResize={(width) =>
+                            setColumns(resizeColumn(columns, column.id, width))
+                          }
+                        />
                       ))}
                     </tr>
                   </thead>
                   <tbody>
-                    {[
-                      {
-                        label: "Implant Category",
-                        key: "implantCategory" as keyof ImplantRecord,
-                      },
-                      {
-                        label: "Implant Duration",
-                        key: "surgeryDate" as keyof ImplantRecord,
-                      },
-                      {
-                        label: "Alert Level",
-                        key: "alertLevel" as keyof ImplantRecord,
-                      },
-                      {
-                        label: "Follow-Up Status",
-                        key: "followUpStatus" as keyof ImplantRecord,
-                      },
-                      {
-                        label: "Revision History",
-                        key: "revisionHistory" as keyof ImplantRecord,
-                      },
-                      {
-                        label: "Complication Events",
-                        key: "complicationsLogged" as keyof ImplantRecord,
-                      },
-                    ].map(({ label, key }, i) => (
-                      <tr
-                        key={key}
-                        style={{
-                          borderBottom:
-                            i < 5
-                              ? "1px solid var(--thodar-border)"
-                              : undefined,
-                          backgroundColor:
-                            i % 2 === 0
-                              ? "var(--thodar-bg)"
-                              : "var(--thodar-surface)",
-                        }}
-                      >
+                    {pageRecords.length === 0 && (
+                      <tr>
                         <td
-                          className="font-inter font-medium"
+                          colSpan={
+                            visibleColumns.length + (comparisonMode ? 1 : 0)
+                          }
+                          className="font-inter font-light text-center"
                           style={{
-                            padding: "10px 12px",
-                            fontSize: "12px",
+                            padding: "28px 14px",
+                            fontSize: "13px",
                             color: "var(--thodar-text-muted)",
-                            whiteSpace: "nowrap",
+                            backgroundColor: "var(--thodar-surface)",
                           }}
                         >
-                          {label}
+                          {isFetching
+                            ? "Loading registry records…"
+                            : "No cases match the current filters."}
                         </td>
-                        {selectedRecords.map((r) => {
-                          let displayVal: ReactNode = String(r[key]);
-                          if (key === "surgeryDate")
-                            displayVal = getImplantDuration(r.surgeryDate);
-                          if (key === "alertLevel")
-                            displayVal = <AlertBadge level={r.alertLevel} />;
-                          if (key === "followUpStatus")
-                            displayVal = (
-                              <StatusBadge status={r.followUpStatus} />
-                            );
-                          return (
+                      </tr>
+                    )}
+                    {pageRecords.map((record, idx) => {
+                      const isSelected = selectedIds.includes(record.id);
+                      return (
+                        <tr
+                          key={record.id}
+                          onClick={() => {
+                            if (comparisonMode) {
+                              toggleSelection(record.id);
+                            } else {
+                              onSelectRecord(record);
+                            }
+                          }}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter" || e.key === " ") {
+                              if (comparisonMode) {
+                                toggleSelection(record.id);
+                              } else {
+                                onSelectRecord(record);
+                              }
+                            }
+                          }}
+                          tabIndex={0}
+                          style={{
+                            borderBottom:
+                              idx < pageRecords.length - 1
+                                ? "1px solid var(--thodar-border)"
+                                : undefined,
+                            backgroundColor: isSelected
+                              ? "var(--thodar-teal-light)"
+                              : "var(--thodar-surface)",
+                            cursor: "pointer",
+                            transition: "background-color 0.15s ease",
+                          }}
+                          onMouseEnter={(e) => {
+                            if (!isSelected)
+                              (
+                                e.currentTarget as HTMLTableRowElement
+                              ).style.backgroundColor = "var(--thodar-bg)";
+                          }}
+                          onMouseLeave={(e) => {
+                            if (!isSelected)
+                              (
+                                e.currentTarget as HTMLTableRowElement
+                              ).style.backgroundColor = "var(--thodar-surface)";
+                          }}
+                        >
+                          {comparisonMode && (
+                            <td
+                              style={{
+                                padding: "12px 14px",
+                                paddingLeft: "16px",
+                              }}
+                            >
+                              <Checkbox
+                                checked={isSelected}
+                                onCheckedChange={() =>
+                                  toggleSelection(record.id)
+                                }
+                                onClick={(e) => e.stopPropagation()}
+                                aria-label={`Select ${record.patientId}`}
+                              />
+                            </td>
+                          )}
+                          {visibleColumns.map((column) => (
                             <td
-                              key={r.id}
-                              className="font-inter font-light"
+                              key={column.id}
+                              className={`font-inter ${column.id === "patientId" ? "font-medium" : "font-light"}`}
                               style={{
-                                padding: "10px 12px",
+                                padding: "12px 14px",
                                 fontSize: "13px",
-                                color: "var(--thodar-text-secondary)",
+                                color:
+                                  column.id === "patientId"
+                                    ? "var(--thodar-text-primary)"
+                                    : "var(--thodar-text-secondary)",
+                                whiteSpace: "nowrap",
+                                overflow: "hidden",
+                                textOverflow: "ellipsis",
                               }}
                             >
-                              {displayVal}
+                              <RegistryCell
+                                record={record}
+                                column={column.id}
+                              />
                             </td>
-                          );
-                        })}
-                      </tr>
-                    ))}
+                          ))}
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
-              <p
-                className="font-inter font-light mt-4"
-                style={{
-                  fontSize: "11px",
-                  color: "var(--thodar-text-muted)",
-                  fontStyle: "italic",
-                }}
-              >
-                Designed for multidisciplinary review meetings.
-              </p>
-            </div>
-          </FadeIn>
+              <RegistryPagination
+                state={tableState}
+                total={page?.total ?? 0}
+                onChange={setTableState}
+              />
+            </FadeIn>
+
+            {/* Comparison Mode Controls */}
+            {comparisonMode && (
+              <FadeIn delay={60}>
+                <div className="mt-4 flex items-center gap-4">
+                  <p
+                    className="font-inter font-light"
+                    style={{
+                      fontSize: "12px",
+                      color: "var(--thodar-text-muted)",
+                    }}
+                  >
+                    {selectedIds.length}{" "}
+                    {selectedIds.length === 1 ? "case" : "cases"} selected
+                  </p>
+                  {selectedIds.length >= 2 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowComparison(true)}
+                      className="font-inter font-medium"
+                      style={{ fontSize: "12px" }}
+                    >
+                      Compare Selected
+                    </Button>
+                  )}
+                  {selectedIds.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSelectedIds([]);
+                        setReferenceId(null);
+                        setShowComparison(false);
+                      }}
+                      className="font-inter font-light transition-opacity hover:opacity-60"
+                      style={{
+                        fontSize: "12px",
+                        color: "var(--thodar-text-muted)",
+                      }}
+                    >
+                      Clear selection
+                    </button>
+                  )}
+                </div>
+              </FadeIn>
+            )}
+
+            {/* Comparison Workspace */}
+            {comparisonMode &&
+              showComparison &&
+              selectedRecords.length >= 2 && (
+                <FadeIn delay={80}>
+                  <ComparisonWorkspace
+                    records={selectedRecords}
+                    referenceId={referenceId}
+                    onReferenceChange={setReferenceId}
+                    onRemove={toggleSelection}
+                    onClose={() => setShowComparison(false)}
+                  />
+                </FadeIn>
+              )}
+          </>
         )}
       </div>
+      <ImplantIntakeDialog open={intakeOpen} onOpenChange={setIntakeOpen} />
+      <ImplantImportDialog open={importOpen} onOpenChange={setImportOpen} />
     </section>
   );
 }
 
 // ─── 3. LifecycleAnalyticsSection ────────────────────────────────────────────
-const TEAL = "#3D8B82";
-const AMBER = "#D97706";
-const RED = "#DC2626";
-
-const ageDistData = [
-  { label: "0–2 yrs", count: 3 },
-  { label: "2–5 yrs", count: 4 },
-  { label: "5–10 yrs", count: 2 },
-  { label: "10+ yrs", count: 1 },
-];
-
-const complianceTrendData = [
-  { quarter: "Q1", pct: 65 },
-  { quarter: "Q2", pct: 68 },
-  { quarter: "Q3", pct: 72 },
-  { quarter: "Q4", pct: 70 },
-  { quarter: "Q5", pct: 74 },
-  { quarter: "Q6", pct: 76 },
-  { quarter: "Q7", pct: 78 },
-  { quarter: "Q8", pct: 78 },
-];
-
-const alertStratData = [
-  { name: "Stable", value: 6 },
-  { name: "Review Pending", value: 3 },
-  { name: "Revision Evaluation", value: 1 },
-];
-const pieColors = [TEAL, AMBER, RED];
+const pieColors = [TEAL, AMBER, RED, "#7C3AED"];
 
 export function LifecycleAnalyticsSection() {
+  const { data: records = [] } = useAnalyticsRecords();
+  const ageDistData = useMemo(() => computeAgeDistribution(records), [records]);
+  const { data: reviewHistory = [] } = useReviewHistory();
+  const { data: protocols } = useFollowUpProtocols();
+  const complianceTrendData = useMemo(
+    () => computeComplianceTrend(records, reviewHistory, new Date(), protocols),
+    [records, reviewHistory, protocols],
+  );
+  const alertStratData = useMemo(
+    () => computeAlertStratification(records),
+    [records],
+  );
+
   return (
     <section
       id="analytics"
@@ -1257,6 +1138,12 @@ export function LifecycleAnalyticsSection() {
               >
                 Follow-Up Compliance Trend
               </p>
+              <p
+                className="font-inter font-light -mt-4 mb-5"
+                style={{ fontSize: "11px", color: "var(--thodar-text-muted)" }}
+              >
+                Cases not overdue for a protocol review at each quarter's close
+              </p>
               <ResponsiveContainer width="100%" height={200}>
                 <LineChart
                   data={complianceTrendData}
@@ -1278,7 +1165,7 @@ export function LifecycleAnalyticsSection() {
                     tickLine={false}
                   />
                   <YAxis
-                    domain={[55, 85]}
+                    domain={[0, 100]}
                     tick={{
                       fontFamily: "Inter",
                       fontSize: 11,
@@ -1376,6 +1263,18 @@ export function LifecycleAnalyticsSection() {
           </FadeIn>
         </div>
 
+        <FadeIn delay={280}>
+          <SurvivalAnalysisPanel records={records} />
+        </FadeIn>
+
+        <FadeIn delay={300}>
+          <CohortComparisonPanel records={records} />
+        </FadeIn>
+
+        <FadeIn delay={310}>
+          <OutlierDetectionPanel records={records} />
+        </FadeIn>
+
         <FadeIn delay={320}>
           <p
             className="font-inter font-light mt-5"
@@ -1395,29 +1294,7 @@ export function LifecycleAnalyticsSection() {
 
 // ─── 4. GovernanceSection ────────────────────────────────────────────────────
 export function GovernanceSection() {
-  const roles: Array<{ role: string; access: string; description: string }> = [
-    {
-      role: "Orthopedic Surgeon",
-      access: "Full Case Review Access",
-      description:
-        "View individual case records, device specifications, surgical data, and clinical alerts.",
-    },
-    {
-      role: "Department Head",
-      access: "Registry Overview & Compliance Metrics",
-      description: "Access aggregate dashboard and compliance reporting.",
-    },
-    {
-      role: "Quality Officer",
-      access: "Follow-Up Compliance Analytics",
-      description: "Monitor follow-up trends and compliance metrics.",
-    },
-    {
-      role: "Administrator",
-      access: "Audit & Monitoring Controls",
-      description: "Full audit trail access and system administration.",
-    },
-  ];
+  const roles = ROLES.map((role) => ({ role, ...ROLE_DESCRIPTIONS[role] }));
   return (
     <section
       id="governance"
@@ -1526,72 +1403,59 @@ export function GovernanceSection() {
               fontStyle: "italic",
             }}
           >
-            Role architecture conceptualized for future production deployment.
-            Not active in prototype phase.
+            Roles are bound to Internet Identity principals and enforced by the
+            registry canister. Principals without a role see aggregate analytics
+            only, and case data is partitioned by institution.
           </p>
         </FadeIn>
+        <FadeIn delay={170}>
+          <PermissionMatrixTable />
+        </FadeIn>
+        <FadeIn delay={180}>
+          <CallerAccessPanel />
+        </FadeIn>
+        <FadeIn delay={190}>
+          <UserAdministrationPanel />
+        </FadeIn>
+        <FadeIn delay={195}>
+          <InstitutionsPanel />
+        </FadeIn>
+        <FadeIn delay={196}>
+          <FollowUpProtocolsPanel />
+        </FadeIn>
+        <FadeIn delay={198}>
+          <SyntheticDatasetPanel />
+        </FadeIn>
+        <FadeIn delay={200}>
+          <QualityReviewQueue />
+        </FadeIn>
       </div>
     </section>
   );
 }
 
 // ─── 5. AuditTraceabilitySection ─────────────────────────────────────────────
+const ANY_AUDIT_VALUE = "__any";
+
 export function AuditTraceabilitySection() {
-  const auditLog: Array<{
-    role: string;
-    action: string;
-    timestamp: string;
-    caseRef: string;
-  }> = [
-    {
-      role: "Administrator",
-      action: "Registry accessed",
-      timestamp: "2026-02-27 09:14",
-      caseRef: "—",
-    },
-    {
-      role: "Orthopedic Surgeon",
-      action: "Case record viewed",
-      timestamp: "2026-02-27 09:16",
-      caseRef: "TH-004",
-    },
-    {
-      role: "Quality Officer",
-      action: "Compliance report generated",
-      timestamp: "2026-02-27 09:22",
-      caseRef: "—",
-    },
-    {
-      role: "Department Head",
-      action: "Dashboard accessed",
-      timestamp: "2026-02-27 09:30",
-      caseRef: "—",
-    },
-    {
-      role: "Orthopedic Surgeon",
-      action: "Case record viewed",
-      timestamp: "2026-02-27 09:45",
-      caseRef: "TH-007",
-    },
-    {
-      role: "Administrator",
-      action: "Audit log reviewed",
-      timestamp: "2026-02-27 10:02",
-      caseRef: "—",
-    },
-    {
-      role: "Quality Officer",
-      action: "Follow-up alert acknowledged",
-      timestamp: "2026-02-27 10:15",
-      caseRef: "TH-002",
-    },
-    {
-      role: "Orthopedic Surgeon",
-      action: "Comparison mode activated",
-      timestamp: "2026-02-27 10:31",
-      caseRef: "—",
-    },
-  ];
+  const { can } = useAccess();
+  const { data: entries = [], isFetching } = useAuditEntries();
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY_AUDIT_FILTER);
+  const principals = useMemo(
+    () => [...new Set(entries.map((e) => e.principal))].sort(),
+    [entries],
+  );
+  const shown = useMemo(
+    () => filterAuditEntries(entries, filter).reverse(),
+    [entries, filter],
+  );
+  const cell = {
+    padding: "10px 12px",
+    fontSize: "12px",
+    color: "var(--thodar-text-secondary)",
+    verticalAlign: "top" as const,
+  };
+
   return (
     <section
       id="audit"
@@ -1608,111 +1472,243 @@ export function AuditTraceabilitySection() {
           </SectionTitle>
         </FadeIn>
         <FadeIn delay={140}>
-          <div
-            style={{
-              border: "1px solid var(--thodar-border)",
-              boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
-              overflowX: "auto",
-            }}
-          >
-            <table
-              className="w-full"
-              style={{ borderCollapse: "collapse", minWidth: "560px" }}
-            >
-              <thead>
-                <tr
-                  style={{
-                    borderBottom: "1px solid var(--thodar-border)",
-                    backgroundColor: "var(--thodar-bg)",
-                  }}
-                >
-                  {[
-                    "User Role",
-                    "Action Performed",
-                    "Timestamp",
-                    "Case Reference",
-                  ].map((h) => (
-                    <th
-                      key={h}
-                      className="font-inter font-medium text-left tracking-wide uppercase"
-                      style={{
-                        fontSize: "10px",
-                        color: "var(--thodar-text-muted)",
-                        padding: "10px 16px",
-                        letterSpacing: "0.1em",
-                      }}
-                    >
-                      {h}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {auditLog.map((row, i) => (
-                  <tr
-                    key={row.timestamp}
-                    style={{
-                      borderBottom:
-                        i < auditLog.length - 1
-                          ? "1px solid var(--thodar-border)"
-                          : undefined,
-                      backgroundColor:
-                        i % 2 === 0
-                          ? "var(--thodar-surface)"
-                          : "var(--thodar-bg)",
-                    }}
+          {!can("viewAuditTrail") ? (
+            <RestrictedNotice>
+              The audit trail is available to Quality Officers and
+              Administrators.
+            </RestrictedNotice>
+          ) : (
+            <>
+              <AuditExportControls entries={entries} />
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+                <div>
+                  <PanelInputLabel htmlFor="audit-user">User</PanelInputLabel>
+                  <Select
+                    value={filter.principal || ANY_AUDIT_VALUE}
+                    onValueChange={(v) =>
+                      setFilter({
+                        ...filter,
+                        principal: v === ANY_AUDIT_VALUE ? "" : v,
+                      })
+                    }
                   >
-                    <td
-                      className="font-inter font-light"
-                      style={{
-                        padding: "11px 16px",
-                        fontSize: "13px",
-                        color: "var(--thodar-text-secondary)",
-                        whiteSpace: "nowrap",
-                      }}
-                    >
-                      {row.role}
-                    </td>
-                    <td
-                      className="font-inter font-light"
-                      style={{
-                        padding: "11px 16px",
-                        fontSize: "13px",
-                        color: "var(--thodar-text-secondary)",
-                      }}
+                    <SelectTrigger
+                      id="audit-user"
+                      className="w-full font-inter"
+                      style={{ fontSize: "12px" }}
                     >
-                      {row.action}
-                    </td>
-                    <td
-                      className="font-inter font-light"
-                      style={{
-                        padding: "11px 16px",
-                        fontSize: "12px",
-                        color: "var(--thodar-text-muted)",
-                        whiteSpace: "nowrap",
-                      }}
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_AUDIT_VALUE}>All users</SelectItem>
+                      {principals.map((p) => (
+                        <SelectItem key={p} value={p}>
+                          {formatAuthor(p)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <PanelInputLabel htmlFor="audit-action">
+                    Action
+                  </PanelInputLabel>
+                  <Select
+                    value={filter.action || ANY_AUDIT_VALUE}
+                    onValueChange={(v) =>
+                      setFilter({
+                        ...filter,
+                        action: v === ANY_AUDIT_VALUE ? "" : v,
+                      })
+                    }
+                  >
+                    <SelectTrigger
+                      id="audit-action"
+                      className="w-full font-inter"
+                      style={{ fontSize: "12px" }}
                     >
-                      {row.timestamp}
-                    </td>
-                    <td
-                      className="font-inter font-medium"
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_AUDIT_VALUE}>
+                        All actions
+                      </SelectItem>
+                      {AUDIT_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action}>
+                          {action}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <PanelInputLabel htmlFor="audit-case">Case</PanelInputLabel>
+                  <Input
+                    id="audit-case"
+                    value={filter.caseRef}
+                    placeholder="rec-004"
+                    onChange={(e) =>
+                      setFilter({ ...filter, caseRef: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <PanelInputLabel htmlFor="audit-from">From</PanelInputLabel>
+                  <Input
+                    id="audit-from"
+                    type="date"
+                    value={filter.from}
+                    onChange={(e) =>
+                      setFilter({ ...filter, from: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <PanelInputLabel htmlFor="audit-to">To</PanelInputLabel>
+                  <Input
+                    id="audit-to"
+                    type="date"
+                    value={filter.to}
+                    onChange={(e) =>
+                      setFilter({ ...filter, to: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+              <div
+                style={{
+                  border: "1px solid var(--thodar-border)",
+                  boxShadow: "0 1px 4px rgba(0,0,0,0.05)",
+                  overflow: "auto",
+                  maxHeight: "520px",
+                }}
+              >
+                <table
+                  className="w-full"
+                  style={{ borderCollapse: "collapse", minWidth: "760px" }}
+                >
+                  <thead>
+                    <tr
                       style={{
-                        padding: "11px 16px",
-                        fontSize: "12px",
-                        color:
-                          row.caseRef === "—"
-                            ? "var(--thodar-text-muted)"
-                            : "var(--thodar-teal)",
-                        whiteSpace: "nowrap",
+                        borderBottom: "1px solid var(--thodar-border)",
+                        backgroundColor: "var(--thodar-bg)",
                       }}
                     >
-                      {row.caseRef}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                      {[
+                        "#",
+                        "Timestamp",
+                        "User",
+                        "Role",
+                        "Action Performed",
+                        "Case Reference",
+                        "Detail",
+                        "Hash",
+                      ].map((h) => (
+                        <th
+                          key={h}
+                          className="font-inter font-medium text-left tracking-wide uppercase"
+                          style={{
+                            fontSize: "10px",
+                            color: "var(--thodar-text-muted)",
+                            padding: "10px 12px",
+                            letterSpacing: "0.1em",
+                          }}
+                        >
+                          {h}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shown.length === 0 && (
+                      <tr>
+                        <td
+                          colSpan={8}
+                          className="font-inter font-light text-center"
+                          style={{
+                            ...cell,
+                            padding: "24px 12px",
+                            color: "var(--thodar-text-muted)",
+                          }}
+                        >
+                          {isFetching
+                            ? "Loading audit trail…"
+                            : "No audit entries match the current filters."}
+                        </td>
+                      </tr>
+                    )}
+                    {shown.map((entry) => (
+                      <tr
+                        key={entry.sequence}
+                        style={{
+                          borderBottom: "1px solid var(--thodar-border)",
+                        }}
+                      >
+                        <td
+                          className="font-inter font-light tabular-nums"
+                          style={{ ...cell, color: "var(--thodar-text-muted)" }}
+                        >
+                          {entry.sequence}
+                        </td>
+                        <td
+                          className="font-inter font-light"
+                          style={{ ...cell, whiteSpace: "nowrap" }}
+                        >
+                          {formatTimestamp(auditTimestampIso(entry))}
+                        </td>
+                        <td
+                          className="font-inter font-light"
+                          style={{
+                            ...cell,
+                            maxWidth: "140px",
+                            overflow: "hidden",
+                            textOverflow: "ellipsis",
+                            whiteSpace: "nowrap",
+                          }}
+                          title={entry.principal}
+                        >
+                          {formatAuthor(entry.principal)}
+                        </td>
+                        <td className="font-inter font-light" style={cell}>
+                          {entry.role || "Unassigned"}
+                        </td>
+                        <td className="font-inter font-light" style={cell}>
+                          {entry.action}
+                        </td>
+                        <td
+                          className="font-inter font-medium"
+                          style={{
+                            ...cell,
+                            color: entry.caseRef
+                              ? "var(--thodar-teal)"
+                              : "var(--thodar-text-muted)",
+                            whiteSpace: "nowrap",
+                          }}
+                        >
+                          {entry.caseRef || "—"}
+                        </td>
+                        <td className="font-inter font-light" style={cell}>
+                          {entry.detail || "—"}
+                        </td>
+                        <td
+                          className="font-mono"
+                          style={{
+                            ...cell,
+                            fontSize: "11px",
+                            color: "var(--thodar-text-muted)",
+                          }}
+                          title={`${entry.hash}\nprevious ${entry.previousHash}`}
+                        >
+                          {entry.hash.slice(7, 19)}…
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <AuditVerificationPanel live={entries} />
+            </>
+          )}
           <p
             className="font-inter font-light mt-4"
             style={{
@@ -1721,8 +1717,8 @@ export function AuditTraceabilitySection() {
               fontStyle: "italic",
             }}
           >
-            Audit logging designed to support institutional accountability and
-            regulatory traceability.
+            Each entry is chained to the hash of the entry before it, so
+            altering or removing an entry breaks every later link in the chain.
           </p>
         </FadeIn>
       </div>
@@ -2358,14 +2354,17 @@ export function CollaborationSection() {
 
 // ─── Main export: all new sections wired together ───────────────────────────
 export function RegistryAndAnalyticsSections() {
-  const [selectedRecord, setSelectedRecord] = useState<ImplantRecord | null>(
-    null,
-  );
+  const [selectedRecordId, setSelectedRecordId] = useState<string | null>(null);
+  useRecordLogin();
+  const { data: selectedRecord } = useImplantRecord(selectedRecordId);
 
   return (
     <>
       <ClinicalProblemStatementSection />
-      <RegistryDashboardSection onSelectRecord={setSelectedRecord} />
+      <RegistryDashboardSection
+        onSelectRecord={(record) => setSelectedRecordId(record.id)}
+      />
+      <RecallSection />
       <LifecycleAnalyticsSection />
       <GovernanceSection />
       <AuditTraceabilitySection />
@@ -2377,7 +2376,7 @@ export function RegistryAndAnalyticsSections() {
       {selectedRecord && (
         <CaseReviewPanel
           record={selectedRecord}
-          onClose={() => setSelectedRecord(null)}
+          onClose={() => setSelectedRecordId(null)}
         />
       )}
     </>
@@ -0,0 +1,284 @@
+import { Label } from "@/components/ui/label";
+import { type ReactNode, useEffect, useRef } from "react";
+import type { ImplantRecord } from "./registryData";
+import type { Recall } from "./registryRecall";
+
+// ─── Local FadeIn (mirrors App.tsx pattern) ────────────────────────────────
+function useFadeIn() {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const e of entries) {
+          if (e.isIntersecting) e.target.classList.add("is-visible");
+        }
+      },
+      { threshold: 0.1, rootMargin: "0px 0px -40px 0px" },
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+  return ref;
+}
+
+export function FadeIn({
+  children,
+  delay = 0,
+  className = "",
+}: {
+  children: ReactNode;
+  delay?: number;
+  className?: string;
+}) {
+  const ref = useFadeIn();
+  return (
+    <div
+      ref={ref}
+      className={`fade-in-section ${className}`}
+      style={{ transitionDelay: `${delay}ms` }}
+    >
+      {children}
+    </div>
+  );
+}
+
+// ─── Section label helper ───────────────────────────────────────────────────
+export function SectionLabel({ children }: { children: ReactNode }) {
+  return (
+    <p
+      className="font-inter font-medium tracking-[0.2em] uppercase mb-8"
+      style={{ fontSize: "11px", color: "var(--thodar-teal)" }}
+    >
+      {children}
+    </p>
+  );
+}
+
+export function SectionTitle({
+  children,
+  maxWidth = "640px",
+}: {
+  children: ReactNode;
+  maxWidth?: string;
+}) {
+  return (
+    <h2
+      className="font-playfair font-normal leading-tight mb-8"
+      style={{
+        fontSize: "clamp(26px, 3.5vw, 42px)",
+        color: "var(--thodar-text-primary)",
+        maxWidth,
+      }}
+    >
+      {children}
+    </h2>
+  );
+}
+
+// ─── Alert Level Badge ───────────────────────────────────────────────────────
+export function AlertBadge({ level }: { level: ImplantRecord["alertLevel"] }) {
+  const config = {
+    stable: {
+      dot: "#16a34a",
+      text: "Stable Monitoring",
+      bg: "rgba(22,163,74,0.07)",
+      border: "rgba(22,163,74,0.25)",
+      color: "#15803d",
+    },
+    review: {
+      dot: "#d97706",
+      text: "Review Pending",
+      bg: "rgba(217,119,6,0.07)",
+      border: "rgba(217,119,6,0.25)",
+      color: "#b45309",
+    },
+    attention: {
+      dot: "#dc2626",
+      text: "Clinical Attention",
+      bg: "rgba(220,38,38,0.07)",
+      border: "rgba(220,38,38,0.25)",
+      color: "#b91c1c",
+    },
+    recall: {
+      dot: "#7c3aed",
+      text: "Device Recall",
+      bg: "rgba(124,58,237,0.07)",
+      border: "rgba(124,58,237,0.3)",
+      color: "#6d28d9",
+    },
+  };
+  const c = config[level];
+  return (
+    <span
+      className="inline-flex items-center gap-1.5 px-2 py-0.5 font-inter"
+      style={{
+        fontSize: "11px",
+        fontWeight: 500,
+        borderRadius: "2px",
+        backgroundColor: c.bg,
+        border: `1px solid ${c.border}`,
+        color: c.color,
+        whiteSpace: "nowrap",
+      }}
+    >
+      <span
+        style={{
+          width: "5px",
+          height: "5px",
+          borderRadius: "50%",
+          backgroundColor: c.dot,
+          flexShrink: 0,
+        }}
+      />
+      {c.text}
+    </span>
+  );
+}
+
+// ─── Follow-up Status Badge ──────────────────────────────────────────────────
+export function StatusBadge({ status }: { status: string }) {
+  const map: Record<string, { bg: string; border: string; color: string }> = {
+    Scheduled: {
+      bg: "rgba(67,122,168,0.07)",
+      border: "rgba(67,122,168,0.25)",
+      color: "var(--thodar-blue)",
+    },
+    Overdue: {
+      bg: "rgba(220,38,38,0.07)",
+      border: "rgba(220,38,38,0.25)",
+      color: "#b91c1c",
+    },
+    Completed: {
+      bg: "rgba(22,163,74,0.07)",
+      border: "rgba(22,163,74,0.25)",
+      color: "#15803d",
+    },
+  };
+  const c = map[status] ?? map.Scheduled;
+  return (
+    <span
+      className="font-inter"
+      style={{
+        fontSize: "11px",
+        fontWeight: 500,
+        padding: "2px 7px",
+        borderRadius: "2px",
+        backgroundColor: c.bg,
+        border: `1px solid ${c.border}`,
+        color: c.color,
+      }}
+    >
+      {status}
+    </span>
+  );
+}
+
+// ─── Risk Level Badge ────────────────────────────────────────────────────────
+export function RiskBadge({ level }: { level: "Low" | "Moderate" | "High" }) {
+  const map = {
+    Low: {
+      bg: "rgba(22,163,74,0.07)",
+      border: "rgba(22,163,74,0.25)",
+      color: "#15803d",
+    },
+    Moderate: {
+      bg: "rgba(217,119,6,0.07)",
+      border: "rgba(217,119,6,0.25)",
+      color: "#b45309",
+    },
+    High: {
+      bg: "rgba(220,38,38,0.07)",
+      border: "rgba(220,38,38,0.25)",
+      color: "#b91c1c",
+    },
+  };
+  const c = map[level];
+  return (
+    <span
+      className="font-inter font-medium"
+      style={{
+        fontSize: "11px",
+        padding: "2px 7px",
+        borderRadius: "2px",
+        backgroundColor: c.bg,
+        border: `1px solid ${c.border}`,
+        color: c.color,
+      }}
+    >
+      {level}
+    </span>
+  );
+}
+
+// ─── Panel sub-heading ───────────────────────────────────────────────────────
+export function PanelHeading({ children }: { children: ReactNode }) {
+  return (
+    <p
+      className="font-inter font-medium tracking-[0.16em] uppercase mb-5"
+      style={{ fontSize: "10px", color: "var(--thodar-teal)" }}
+    >
+      {children}
+    </p>
+  );
+}
+
+export function PanelInputLabel({
+  htmlFor,
+  children,
+}: {
+  htmlFor: string;
+  children: ReactNode;
+}) {
+  return (
+    <Label
+      htmlFor={htmlFor}
+      className="font-inter font-medium uppercase mb-1.5"
+      style={{
+        fontSize: "10px",
+        color: "var(--thodar-text-muted)",
+        letterSpacing: "0.12em",
+      }}
+    >
+      {children}
+    </Label>
+  );
+}
+
+// ─── Restricted notice ───────────────────────────────────────────────────────
+export function RestrictedNotice({ children }: { children: ReactNode }) {
+  return (
+    <div
+      className="p-6"
+      style={{
+        border: "1px dashed var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+      }}
+    >
+      <p
+        className="font-inter font-light"
+        style={{ fontSize: "13px", color: "var(--thodar-text-muted)" }}
+      >
+        {children}{" "}
+        <a href="#governance" style={{ color: "var(--thodar-teal)" }}>
+          Review your access
+        </a>
+      </p>
+    </div>
+  );
+}
+
+// ─── Chart palette ───────────────────────────────────────────────────────────
+export const TEAL = "#3D8B82";
+export const AMBER = "#D97706";
+export const RED = "#DC2626";
+
+export const COHORT_COLORS = [
+  TEAL,
+  AMBER,
+  RED,
+  "#6366F1",
+  "#64748B",
+  "#0EA5E9",
+];
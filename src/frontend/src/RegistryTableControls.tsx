@@ -0,0 +1,757 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type FormEvent,
+  type MouseEvent,
+  type PointerEvent,
+  useEffect,
+  useState,
+} from "react";
+import {
+  useDeleteSavedView,
+  useSaveView,
+  useSavedViews,
+} from "./hooks/useRegistry";
+import {
+  type ColumnSetting,
+  DEFAULT_COLUMN_SETTINGS,
+  MAX_COLUMN_WIDTH,
+  MIN_COLUMN_WIDTH,
+  REGISTRY_COLUMNS,
+  REGISTRY_COLUMN_IDS,
+  type SavedView,
+  moveColumn,
+  toggleColumn,
+} from "./registryColumns";
+import {
+  ALERT_LEVELS,
+  FOLLOW_UP_STATUSES,
+  type ImplantRecord,
+  RISK_LEVELS,
+} from "./registryData";
+import type { SortField } from "./registryQuery";
+import {
+  DEFAULT_TABLE_STATE,
+  type FacetField,
+  PAGE_SIZES,
+  type RegistryTableState,
+  type TableFilter,
+  collectFacetValues,
+  hasActiveFilters,
+  parseTableState,
+  serializeTableState,
+} from "./registryTableState";
+
+// Radix Select reserves the empty string, so "any value" needs a sentinel.
+const ANY_VALUE = "__any";
+const SEARCH_DEBOUNCE_MS = 250;
+
+const ALERT_LEVEL_LABELS: Record<ImplantRecord["alertLevel"], string> = {
+  stable: "Stable",
+  review: "Review Pending",
+  attention: "Revision Evaluation",
+  recall: "Device Recall",
+};
+
+const FACETS: Array<{ field: FacetField; label: string }> = [
+  { field: "implantCategory", label: "Implant Category" },
+  { field: "manufacturer", label: "Manufacturer" },
+  { field: "operatingSurgeon", label: "Surgeon" },
+  { field: "institution", label: "Institution" },
+];
+
+function FilterSelect({
+  id,
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: string | undefined;
+  options: Array<{ value: string; label: string }>;
+  onChange: (value: string | undefined) => void;
+}) {
+  return (
+    <div>
+      <label
+        htmlFor={id}
+        className="font-inter font-medium uppercase block mb-1.5"
+        style={{
+          fontSize: "10px",
+          color: "var(--thodar-text-muted)",
+          letterSpacing: "0.12em",
+        }}
+      >
+        {label}
+      </label>
+      <Select
+        value={value ?? ANY_VALUE}
+        onValueChange={(v) => onChange(v === ANY_VALUE ? undefined : v)}
+      >
+        <SelectTrigger
+          id={id}
+          size="sm"
+          className="w-full font-inter"
+          style={{ fontSize: "12px", backgroundColor: "var(--thodar-surface)" }}
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY_VALUE}>All</SelectItem>
+          {options.map((o) => (
+            <SelectItem key={o.value} value={o.value}>
+              {o.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// ─── Registry Filter Bar ─────────────────────────────────────────────────────
+export function RegistryFilterBar({
+  state,
+  records,
+  onChange,
+}: {
+  state: RegistryTableState;
+  /** Full record set the facet options are drawn from. */
+  records: ImplantRecord[];
+  onChange: (next: RegistryTableState) => void;
+}) {
+  const [search, setSearch] = useState(state.filter.search ?? "");
+
+  // Keep the box in sync when the URL changes underneath it (back/forward).
+  useEffect(() => {
+    setSearch(state.filter.search ?? "");
+  }, [state.filter.search]);
+
+  function applyFilter(changes: Partial<TableFilter>) {
+    onChange({ ...state, filter: { ...state.filter, ...changes }, page: 1 });
+  }
+
+  useEffect(() => {
+    if (search.trim() === (state.filter.search ?? "")) return;
+    const timer = setTimeout(
+      () =>
+        onChange({
+          ...state,
+          filter: { ...state.filter, search: search.trim() || undefined },
+          page: 1,
+        }),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [search, state, onChange]);
+
+  return (
+    <div
+      className="p-5 mb-4"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-surface)",
+      }}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4 mb-4">
+        <div className="flex-1">
+          <label
+            htmlFor="registry-search"
+            className="font-inter font-medium uppercase block mb-1.5"
+            style={{
+              fontSize: "10px",
+              color: "var(--thodar-text-muted)",
+              letterSpacing: "0.12em",
+            }}
+          >
+            Search
+          </label>
+          <Input
+            id="registry-search"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Patient ID, lot number or model reference"
+            className="h-8 font-inter"
+            style={{ fontSize: "12px" }}
+          />
+        </div>
+        {hasActiveFilters(state.filter) && (
+          <button
+            type="button"
+            onClick={() => {
+              setSearch("");
+              onChange({
+                ...state,
+                filter: DEFAULT_TABLE_STATE.filter,
+                page: 1,
+              });
+            }}
+            className="font-inter font-light transition-opacity hover:opacity-60 sm:pb-1.5"
+            style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {FACETS.map(({ field, label }) => (
+          <FilterSelect
+            key={field}
+            id={`registry-filter-${field}`}
+            label={label}
+            value={state.filter[field]}
+            options={collectFacetValues(records, field).map((v) => ({
+              value: v,
+              label: v,
+            }))}
+            onChange={(v) => applyFilter({ [field]: v })}
+          />
+        ))}
+        <FilterSelect
+          id="registry-filter-status"
+          label="Follow-Up Status"
+          value={state.filter.followUpStatus}
+          options={FOLLOW_UP_STATUSES.map((s) => ({ value: s, label: s }))}
+          onChange={(v) =>
+            applyFilter({
+              followUpStatus: v as ImplantRecord["followUpStatus"] | undefined,
+            })
+          }
+        />
+        <FilterSelect
+          id="registry-filter-alert"
+          label="Alert Level"
+          value={state.filter.alertLevel}
+          options={ALERT_LEVELS.map((l) => ({
+            value: l,
+            label: ALERT_LEVEL_LABELS[l],
+          }))}
+          onChange={(v) =>
+            applyFilter({
+              alertLevel: v as ImplantRecord["alertLevel"] | undefined,
+            })
+          }
+        />
+        <FilterSelect
+          id="registry-filter-risk"
+          label="Risk Level"
+          value={state.filter.riskLevel}
+          options={RISK_LEVELS.map((r) => ({ value: r, label: r }))}
+          onChange={(v) =>
+            applyFilter({
+              riskLevel: v as ImplantRecord["riskLevel"] | undefined,
+            })
+          }
+        />
+      </div>
+    </div>
+  );
+}
+
+// ─── Column Resize Handle ────────────────────────────────────────────────────
+function ResizeHandle({
+  width,
+  label,
+  onResize,
+}: {
+  width: number;
+  label: string;
+  onResize: (width: number) => void;
+}) {
+  function startDrag(e: PointerEvent<HTMLSpanElement>) {
+    e.preventDefault();
+    const startX = e.clientX;
+    const onMove = (move: globalThis.PointerEvent) =>
+      onResize(width + move.clientX - startX);
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  }
+
+  return (
+    <span
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={`Resize ${label} column`}
+      aria-valuenow={width}
+      aria-valuemin={MIN_COLUMN_WIDTH}
+      aria-valuemax={MAX_COLUMN_WIDTH}
+      tabIndex={0}
+      onPointerDown={startDrag}
+      onKeyDown={(e) => {
+        if (e.key === "ArrowLeft") onResize(width - 10);
+        if (e.key === "ArrowRight") onResize(width + 10);
+      }}
+      className="absolute top-0 right-0 h-full cursor-col-resize"
+      style={{ width: "6px", borderRight: "1px solid var(--thodar-border)" }}
+    />
+  );
+}
+
+// ─── Sortable Column Header ──────────────────────────────────────────────────
+export function SortableHeader({
+  label,
+  field,
+  width,
+  state,
+  onChange,
+  onResize,
+}: {
+  label: string;
+  field?: SortField;
+  width: number;
+  state: RegistryTableState;
+  onChange: (next: RegistryTableState) => void;
+  onResize: (width: number) => void;
+}) {
+  const active = field !== undefined && state.sort.field === field;
+  const style = {
+    width: `${width}px`,
+    position: "relative" as const,
+    fontSize: "10px",
+    color: active ? "var(--thodar-teal)" : "var(--thodar-text-muted)",
+    padding: "10px 14px",
+    letterSpacing: "0.1em",
+    textTransform: "uppercase" as const,
+    whiteSpace: "nowrap" as const,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  };
+
+  return (
+    <th
+      className="font-inter font-medium tracking-wide text-left"
+      style={style}
+      aria-sort={
+        field === undefined
+          ? undefined
+          : active
+            ? state.sort.descending
+              ? "descending"
+              : "ascending"
+            : "none"
+      }
+    >
+      {field === undefined ? (
+        label
+      ) : (
+        <button
+          type="button"
+          className="uppercase tracking-wide transition-opacity hover:opacity-70"
+          onClick={() =>
+            onChange({
+              ...state,
+              sort: {
+                field,
+                descending: active ? !state.sort.descending : false,
+              },
+              page: 1,
+            })
+          }
+        >
+          {label}
+          <span aria-hidden="true" style={{ marginLeft: "4px" }}>
+            {active ? (state.sort.descending ? "▼" : "▲") : "↕"}
+          </span>
+        </button>
+      )}
+      <ResizeHandle width={width} label={label} onResize={onResize} />
+    </th>
+  );
+}
+
+// ─── Column Picker ───────────────────────────────────────────────────────────
+function ColumnPicker({
+  columns,
+  onChange,
+}: {
+  columns: ColumnSetting[];
+  onChange: (columns: ColumnSetting[]) => void;
+}) {
+  const hidden = REGISTRY_COLUMN_IDS.filter(
+    (id) => !columns.some((c) => c.id === id),
+  );
+  const arrowStyle = {
+    fontSize: "12px",
+    color: "var(--thodar-text-muted)",
+    width: "20px",
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="font-inter font-medium"
+          style={{ fontSize: "12px" }}
+        >
+          Columns ({columns.length})
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div
+          className="max-h-80 overflow-y-auto py-2"
+          style={{ borderBottom: "1px solid var(--thodar-border)" }}
+        >
+          {columns.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2 px-3 py-1">
+              <Checkbox
+                id={`column-${column.id}`}
+                checked
+                disabled={columns.length === 1}
+                onCheckedChange={() =>
+                  onChange(toggleColumn(columns, column.id))
+                }
+              />
+              <Label
+                htmlFor={`column-${column.id}`}
+                className="flex-1 font-inter font-light"
+                style={{ fontSize: "12px" }}
+              >
+                {REGISTRY_COLUMNS[column.id].label}
+              </Label>
+              <button
+                type="button"
+                aria-label={`Move ${REGISTRY_COLUMNS[column.id].label} left`}
+                disabled={index === 0}
+                onClick={() => onChange(moveColumn(columns, column.id, -1))}
+                className="disabled:opacity-30"
+                style={arrowStyle}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                aria-label={`Move ${REGISTRY_COLUMNS[column.id].label} right`}
+                disabled={index === columns.length - 1}
+                onClick={() => onChange(moveColumn(columns, column.id, 1))}
+                className="disabled:opacity-30"
+                style={arrowStyle}
+              >
+                ↓
+              </button>
+            </div>
+          ))}
+          {hidden.map((id) => (
+            <div key={id} className="flex items-center gap-2 px-3 py-1">
+              <Checkbox
+                id={`column-${id}`}
+                checked={false}
+                onCheckedChange={() => onChange(toggleColumn(columns, id))}
+              />
+              <Label
+                htmlFor={`column-${id}`}
+                className="flex-1 font-inter font-light"
+                style={{
+                  fontSize: "12px",
+                  color: "var(--thodar-text-muted)",
+                }}
+              >
+                {REGISTRY_COLUMNS[id].label}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_COLUMN_SETTINGS)}
+          className="w-full px-3 py-2 text-left font-inter font-light transition-opacity hover:opacity-60"
+          style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+        >
+          Reset to default columns
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// ─── Saved Views ─────────────────────────────────────────────────────────────
+export function RegistryViewControls({
+  columns,
+  state,
+  onColumnsChange,
+  onStateChange,
+}: {
+  columns: ColumnSetting[];
+  state: RegistryTableState;
+  onColumnsChange: (columns: ColumnSetting[]) => void;
+  onStateChange: (next: RegistryTableState) => void;
+}) {
+  const { data: views = [] } = useSavedViews();
+  const saveView = useSaveView();
+  const deleteView = useDeleteSavedView();
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const activeView = views.find((v) => v.id === activeViewId);
+
+  function applyView(view: SavedView) {
+    setActiveViewId(view.id);
+    onColumnsChange(view.columns);
+    onStateChange({ ...parseTableState(view.tableQuery), page: 1 });
+  }
+
+  function submitSave(e: FormEvent) {
+    e.preventDefault();
+    saveView.mutate(
+      {
+        name,
+        columns,
+        tableQuery: serializeTableState({ ...state, page: 1 }),
+      },
+      {
+        onSuccess: (view) => {
+          setActiveViewId(view.id);
+          setSaveOpen(false);
+          setName("");
+        },
+      },
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Select
+        value={activeView?.id ?? ""}
+        onValueChange={(id) => {
+          const view = views.find((v) => v.id === id);
+          if (view) applyView(view);
+        }}
+      >
+        <SelectTrigger
+          size="sm"
+          aria-label="Saved view"
+          className="font-inter min-w-44"
+          style={{ fontSize: "12px", backgroundColor: "var(--thodar-surface)" }}
+        >
+          <SelectValue
+            placeholder={views.length > 0 ? "Saved views" : "No saved views"}
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {views.map((view) => (
+            <SelectItem key={view.id} value={view.id}>
+              {view.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeView && (
+        <button
+          type="button"
+          onClick={() =>
+            deleteView.mutate(activeView.id, {
+              onSuccess: () => setActiveViewId(null),
+            })
+          }
+          className="font-inter font-light transition-opacity hover:opacity-60"
+          style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+        >
+          Delete view
+        </button>
+      )}
+      <Popover
+        open={saveOpen}
+        onOpenChange={(open) => {
+          setSaveOpen(open);
+          if (open) setName(activeView?.name ?? "");
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="font-inter font-medium"
+            style={{ fontSize: "12px" }}
+          >
+            Save View
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72">
+          <form onSubmit={submitSave} className="grid gap-3">
+            <Label
+              htmlFor="saved-view-name"
+              className="font-inter font-medium uppercase"
+              style={{
+                fontSize: "10px",
+                color: "var(--thodar-text-muted)",
+                letterSpacing: "0.12em",
+              }}
+            >
+              View Name
+            </Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Overdue high-risk hips"
+              className="h-8 font-inter"
+              style={{ fontSize: "12px" }}
+            />
+            <p
+              className="font-inter font-light"
+              style={{ fontSize: "11px", color: "var(--thodar-text-muted)" }}
+            >
+              Saves the visible columns, filters and sort order. Reusing a name
+              replaces that view.
+            </p>
+            {saveView.error && (
+              <p className="text-destructive text-xs">
+                {saveView.error.message}
+              </p>
+            )}
+            <Button
+              type="submit"
+              size="sm"
+              disabled={name.trim() === "" || saveView.isPending}
+            >
+              Save
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+      <ColumnPicker columns={columns} onChange={onColumnsChange} />
+    </div>
+  );
+}
+
+// Current page, its neighbours and both ends; gaps collapse to an ellipsis.
+function pageWindow(page: number, pageCount: number): Array<number | null> {
+  const pages: Array<number | null> = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+// ─── Registry Pagination ─────────────────────────────────────────────────────
+export function RegistryPagination({
+  state,
+  total,
+  onChange,
+}: {
+  state: RegistryTableState;
+  total: number;
+  onChange: (next: RegistryTableState) => void;
+}) {
+  const pageCount = Math.max(1, Math.ceil(total / state.pageSize));
+  const first = total === 0 ? 0 : (state.page - 1) * state.pageSize + 1;
+  const last = Math.min(state.page * state.pageSize, total);
+
+  function linkProps(page: number) {
+    const target = Math.min(Math.max(1, page), pageCount);
+    return {
+      href: `?${serializeTableState({ ...state, page: target }, window.location.search)}`,
+      onClick: (e: MouseEvent) => {
+        e.preventDefault();
+        if (target !== state.page) onChange({ ...state, page: target });
+      },
+    };
+  }
+
+  return (
+    <div className="mt-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+      <div className="flex items-center gap-3">
+        <p
+          className="font-inter font-light"
+          style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+        >
+          {total === 0
+            ? "No matching cases"
+            : `Showing ${first}–${last} of ${total} cases`}
+        </p>
+        <Select
+          value={String(state.pageSize)}
+          onValueChange={(v) =>
+            onChange({ ...state, pageSize: Number(v), page: 1 })
+          }
+        >
+          <SelectTrigger
+            size="sm"
+            aria-label="Rows per page"
+            className="font-inter"
+            style={{ fontSize: "12px" }}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZES.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                {size} per page
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {pageCount > 1 && (
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                {...linkProps(state.page - 1)}
+                aria-disabled={state.page === 1}
+              />
+            </PaginationItem>
+            {pageWindow(state.page, pageCount).map((page, i) =>
+              page === null ? (
+                // biome-ignore lint/suspicious/noArrayIndexKey: ellipses have no identity
+                <PaginationItem key={`gap-${i}`}>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              ) : (
+                <PaginationItem key={page}>
+                  <PaginationLink
+                    {...linkProps(page)}
+                    isActive={page === state.page}
+                  >
+                    {page}
+                  </PaginationLink>
+                </PaginationItem>
+              ),
+            )}
+            <PaginationItem>
+              <PaginationNext
+                {...linkProps(state.page + 1)}
+                aria-disabled={state.page === pageCount}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { Button } from "@/components/ui/button";
+import { useState } from "react";
+import { toast } from "sonner";
+import { AlertBadge, RiskBadge } from "./RegistryShared";
+import { useRecalls, useRecordAuditEvent } from "./hooks/useRegistry";
+import type { ImplantRecord } from "./registryData";
+import { matchesRecall } from "./registryRecall";
+import {
+  HIGH_RISK_SCORE,
+  MODERATE_RISK_SCORE,
+  assessRisk,
+} from "./registryRisk";
+
+// ─── Risk Rationale ──────────────────────────────────────────────────────────
+export function RiskRationale({ record }: { record: ImplantRecord }) {
+  const assessment = assessRisk(record);
+  const { data: recalls = [] } = useRecalls();
+  const recordAudit = useRecordAuditEvent();
+  const [acknowledged, setAcknowledged] = useState(false);
+  const openRecalls = recalls.filter(
+    (recall) => !recall.closed && matchesRecall(record, recall),
+  );
+  const alertReasons = [
+    ...openRecalls.map(
+      (recall) =>
+        `Device covered by open recall ${recall.reference || recall.id} (${recall.severity})`,
+    ),
+    ...assessment.alertReasons,
+  ];
+  const alertLevel = openRecalls.length > 0 ? "recall" : assessment.alertLevel;
+  const labelStyle = {
+    fontSize: "10px",
+    color: "var(--thodar-text-muted)",
+    letterSpacing: "0.12em",
+  };
+  const textStyle = { fontSize: "12px", color: "var(--thodar-text-secondary)" };
+
+  return (
+    <div>
+      <p
+        className="font-inter font-medium uppercase tracking-wide mb-2"
+        style={labelStyle}
+      >
+        Risk Stratification
+      </p>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <RiskBadge level={assessment.riskLevel} />
+        <AlertBadge level={alertLevel} />
+        <span className="font-inter font-light" style={textStyle}>
+          Score {assessment.score} (moderate from {MODERATE_RISK_SCORE}, high
+          from {HIGH_RISK_SCORE})
+        </span>
+      </div>
+      <p
+        className="font-inter font-medium uppercase tracking-wide mb-2"
+        style={labelStyle}
+      >
+        Contributing Factors
+      </p>
+      {assessment.factors.length === 0 ? (
+        <p className="font-inter font-light mb-4" style={textStyle}>
+          No scored risk factors present.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-1.5 mb-4">
+          {assessment.factors.map((factor) => (
+            <li
+              key={factor.id}
+              className="font-inter font-light flex items-baseline justify-between gap-4"
+              style={textStyle}
+            >
+              <span>
+                <span style={{ color: "var(--thodar-text-primary)" }}>
+                  {factor.label}
+                </span>{" "}
+                — {factor.detail}
+              </span>
+              <span
+                className="font-medium tabular-nums"
+                style={{ color: "var(--thodar-text-primary)" }}
+              >
+                +{factor.points}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p
+        className="font-inter font-medium uppercase tracking-wide mb-2"
+        style={labelStyle}
+      >
+        Alert Rationale
+      </p>
+      {alertReasons.length === 0 ? (
+        <p className="font-inter font-light" style={textStyle}>
+          No alert criteria met; routine monitoring.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-1.5">
+          {alertReasons.map((reason) => (
+            <li
+              key={reason}
+              className="font-inter font-light"
+              style={textStyle}
+            >
+              {reason}
+            </li>
+          ))}
+        </ul>
+      )}
+      {alertLevel !== "stable" && (
+        <div className="mt-4">
+          {acknowledged ? (
+            <span className="font-inter font-light" style={textStyle}>
+              Alert acknowledged
+            </span>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={recordAudit.isPending}
+              onClick={() =>
+                recordAudit.mutate(
+                  {
+                    action: "Alert acknowledged",
+                    caseRef: record.id,
+                    detail: `${alertLevel}: ${alertReasons.join("; ")}`,
+                  },
+                  {
+                    onSuccess: () => setAcknowledged(true),
+                    onError: (error) =>
+                      toast.error("Acknowledgement not recorded", {
+                        description: error.message,
+                      }),
+                  },
+                )
+              }
+              className="font-inter font-medium"
+              style={{ fontSize: "12px" }}
+            >
+              Acknowledge Alert
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMemo, useState } from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { COHORT_COLORS } from "./RegistryShared";
+import { listCohortOptions } from "./registryCohorts";
+import type { ImplantRecord } from "./registryData";
+import {
+  MAX_SURVIVAL_GROUPS,
+  SURVIVAL_GROUPINGS,
+  computeSurvivalCurves,
+  numberAtRisk,
+  survivalAt,
+  survivalTicks,
+} from "./registrySurvival";
+
+// ─── Survival Analysis ───────────────────────────────────────────────────────
+const ALL_IMPLANTS = "__all";
+
+export function SurvivalAnalysisPanel({
+  records,
+}: { records: ImplantRecord[] }) {
+  const [grouping, setGrouping] = useState<string>(ALL_IMPLANTS);
+  const dimension =
+    SURVIVAL_GROUPINGS.find((d) => d.field === grouping) ?? null;
+  const curves = useMemo(
+    () => computeSurvivalCurves(records, dimension),
+    [records, dimension],
+  );
+  const groupCount = dimension
+    ? listCohortOptions(records, dimension).length
+    : 1;
+  const ticks = survivalTicks(curves);
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    curves.map((curve, i) => [
+      `group${i}`,
+      { label: curve.group, color: COHORT_COLORS[i] },
+    ]),
+  );
+  // Curves share one time axis; each stops at its own longest follow-up.
+  const chartData = [
+    ...new Set(curves.flatMap((c) => c.points.map((p) => p.years))),
+  ]
+    .sort((a, b) => a - b)
+    .map((years) => {
+      const row: Record<string, number | [number, number] | null> = { years };
+      curves.forEach((curve, i) => {
+        const point = survivalAt(curve, years);
+        row[`group${i}`] = point
+          ? Math.round(point.survival * 1000) / 10
+          : null;
+        row[`group${i}Band`] = point
+          ? [
+              Math.round(point.lower * 1000) / 10,
+              Math.round(point.upper * 1000) / 10,
+            ]
+          : null;
+      });
+      return row;
+    });
+
+  const cellStyle = {
+    padding: "6px 10px",
+    fontSize: "11px",
+    color: "var(--thodar-text-secondary)",
+  };
+
+  return (
+    <div
+      className="mt-6 p-6"
+      style={{
+        border: "1px solid var(--thodar-border)",
+        backgroundColor: "var(--thodar-bg)",
+        boxShadow: "0 1px 4px rgba(0,0,0,0.04)",
+      }}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-5">
+        <div>
+          <p
+            className="font-inter font-medium"
+            style={{ fontSize: "13px", color: "var(--thodar-text-primary)" }}
+          >
+            Implant Survivorship (Kaplan–Meier)
+          </p>
+          <p
+            className="font-inter font-light mt-1"
+            style={{ fontSize: "12px", color: "var(--thodar-text-muted)" }}
+          >
+            Survival free of revision; implants without revision are censored at
+            their last clinical review.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor="survival-grouping"
+            className="font-inter font-medium uppercase"
+            style={{
+              fontSize: "10px",
+              color: "var(--thodar-text-muted)",
+              letterSpacing: "0.12em",
+            }}
+          >
+            Stratify by
+          </Label>
+          <Select value={grouping} onValueChange={setGrouping}>
+            <SelectTrigger
+              id="survival-grouping"
+              size="sm"
+              className="font-inter min-w-44"
+              style={{
+                fontSize: "12px",
+                backgroundColor: "var(--thodar-surface)",
+              }}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_IMPLANTS}>All implants</SelectItem>
+              {SURVIVAL_GROUPINGS.map((d) => (
+                <SelectItem key={d.field} value={d.field}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-[280px] w-full">
+        <ComposedChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis
+            dataKey="years"
+            type="number"
+            domain={[0, ticks[ticks.length - 1] ?? 0]}
+            ticks={ticks}
+            tickFormatter={(v) => `${v}y`}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis
+            domain={[0, 100]}
+            tickFormatter={(v) => `${v}%`}
+            tickLine={false}
+            axisLine={false}
+            width={40}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                indicator="line"
+                labelFormatter={(_, payload) =>
+                  `${Number(payload?.[0]?.payload?.years ?? 0).toFixed(1)} years`
+                }
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {curves.map((curve, i) => (
+            <Area
+              key={`${curve.group}-band`}
+              dataKey={`group${i}Band`}
+              type="stepAfter"
+              stroke="none"
+              fill={`var(--color-group${i})`}
+              fillOpacity={0.12}
+              legendType="none"
+              tooltipType="none"
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          ))}
+          {curves.map((curve, i) => (
+            <Line
+              key={curve.group}
+              dataKey={`group${i}`}
+              type="stepAfter"
+              stroke={`var(--color-group${i})`}
+              strokeWidth={2}
+              dot={false}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </ComposedChart>
+      </ChartContainer>
+
+      {/* Number at risk */}
+      <div style={{ overflowX: "auto" }} className="mt-4">
+        <table className="w-full" style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ borderBottom: "1px solid var(--thodar-border)" }}>
+              <th
+                className="font-inter font-medium text-left uppercase"
+                style={{
+                  ...cellStyle,
+                  fontSize: "10px",
+                  color: "var(--thodar-text-muted)",
+                  letterSpacing: "0.1em",
+                }}
+              >
+                Number at risk
+              </th>
+              {ticks.map((tick) => (
+                <th
+                  key={tick}
+                  className="font-inter font-medium text-right"
+                  style={{
+                    ...cellStyle,
+                    fontSize: "10px",
+                    color: "var(--thodar-text-muted)",
+                  }}
+                >
+                  {tick}y
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {curves.map((curve, i) => (
+              <tr
+                key={curve.group}
+                style={{ borderBottom: "1px solid var(--thodar-border)" }}
+              >
+                <td className="font-inter font-light" style={cellStyle}>
+                  <span
+                    className="inline-block rounded-full mr-2"
+                    style={{
+                      width: "7px",
+                      height: "7px",
+                      backgroundColor: COHORT_COLORS[i],
+                    }}
+                  />
+                  {curve.group}{" "}
+                  <span style={{ color: "var(--thodar-text-muted)" }}>
+                    ({curve.revisions}/{curve.cases} revised)
+                  </span>
+                </td>
+                {ticks.map((tick) => (
+                  <td
+                    key={tick}
+                    className="font-inter font-light text-right tabular-nums"
+                    style={cellStyle}
+                  >
+                    {numberAtRisk(curve, tick)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p
+        className="font-inter font-light mt-3"
+        style={{ fontSize: "11px", color: "var(--thodar-text-muted)" }}
+      >
+        Shaded bands are 95% pointwise confidence intervals (Greenwood,
+        log-log).
+        {groupCount > MAX_SURVIVAL_GROUPS
+          ? ` Showing the ${MAX_SURVIVAL_GROUPS} largest groups.`
+          : ""}
+      </p>
+    </div>
+  );
+}
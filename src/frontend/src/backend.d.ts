@@ -7,6 +7,317 @@ export interface None {
     __kind__: "None";
 }
 export type Option<T> = Some<T> | None;
+export interface ImplantRecordInput {
+    age: bigint;
+    alertLevel: string;
+    anatomicalSite: string;
+    comorbidities: string;
+    complicationsLogged: bigint;
+    deviceId: string;
+    fixationType: string;
+    followUpStatus: string;
+    implantCategory: string;
+    institution: string;
+    lastReview: string;
+    laterality: string;
+    lotNumber: string;
+    manufacturer: string;
+    material: string;
+    modelRef: string;
+    nextReview: string;
+    operatingSurgeon: string;
+    patientId: string;
+    primaryDiagnosis: string;
+    revisionHistory: string;
+    riskLevel: string;
+    sex: string;
+    surgeryDate: string;
+}
+export interface ImplantRecord {
+    age: bigint;
+    alertLevel: string;
+    anatomicalSite: string;
+    archived: boolean;
+    comorbidities: string;
+    complicationsLogged: bigint;
+    deviceId: string;
+    fixationType: string;
+    followUpStatus: string;
+    id: string;
+    implantCategory: string;
+    institution: string;
+    lastReview: string;
+    laterality: string;
+    lotNumber: string;
+    manufacturer: string;
+    material: string;
+    modelRef: string;
+    nextReview: string;
+    operatingSurgeon: string;
+    patientId: string;
+    primaryDiagnosis: string;
+    revisionHistory: string;
+    riskLevel: string;
+    sex: string;
+    surgeryDate: string;
+}
+export interface RecordVersion {
+    author: string;
+    note: string;
+    recordId: string;
+    snapshot: ImplantRecord;
+    timestamp: bigint;
+    version: bigint;
+}
+export interface RecordFilter {
+    alertLevel: string;
+    followUpStatus: string;
+    implantCategory: string;
+    includeArchived: boolean;
+    institution: string;
+    manufacturer: string;
+    operatingSurgeon: string;
+    riskLevel: string;
+    search: string;
+}
+export interface RecordPage {
+    items: Array<ImplantRecord>;
+    limit: bigint;
+    offset: bigint;
+    total: bigint;
+}
+export interface FollowUpEventInput {
+    eventDate: string;
+    eventType: string;
+    notes: string;
+    recordId: string;
+}
+export interface FollowUpEvent {
+    author: string;
+    eventDate: string;
+    eventType: string;
+    id: string;
+    notes: string;
+    recordId: string;
+    timestamp: bigint;
+}
+export interface RecordSort {
+    descending: boolean;
+    field: string;
+}
+export interface ColumnSetting {
+    id: string;
+    width: bigint;
+}
+export interface SavedViewInput {
+    columns: Array<ColumnSetting>;
+    name: string;
+    tableQuery: string;
+}
+export interface SavedView {
+    columns: Array<ColumnSetting>;
+    id: string;
+    name: string;
+    owner: string;
+    tableQuery: string;
+    updatedAt: bigint;
+}
+export interface RecallInput {
+    description: string;
+    implantedFrom: string;
+    implantedTo: string;
+    lotFrom: string;
+    lotTo: string;
+    manufacturer: string;
+    modelRef: string;
+    reference: string;
+    severity: string;
+}
+export interface Recall {
+    closed: boolean;
+    description: string;
+    id: string;
+    implantedFrom: string;
+    implantedTo: string;
+    issuedAt: bigint;
+    issuedBy: string;
+    lotFrom: string;
+    lotTo: string;
+    manufacturer: string;
+    modelRef: string;
+    reference: string;
+    severity: string;
+}
+export interface RecallNoticeInput {
+    note: string;
+    recallId: string;
+    recordId: string;
+    status: string;
+}
+export interface RecallNotice {
+    note: string;
+    recallId: string;
+    recordId: string;
+    status: string;
+    updatedAt: bigint;
+    updatedBy: string;
+}
+export interface GovernanceItemInput {
+    category: string;
+    level: string;
+    signalKey: string;
+    subject: string;
+    summary: string;
+}
+export interface GovernanceItem {
+    category: string;
+    id: string;
+    level: string;
+    raisedAt: bigint;
+    raisedBy: string;
+    resolution: string;
+    signalKey: string;
+    status: string;
+    subject: string;
+    summary: string;
+    updatedAt: bigint;
+    updatedBy: string;
+}
+export interface RoleAssignment {
+    assignedAt: bigint;
+    assignedBy: string;
+    principal: string;
+    role: string;
+}
+export interface CallerAccess {
+    administratorAssigned: boolean;
+    institution: string;
+    principal: string;
+    role: string;
+    suspended: boolean;
+}
+export interface AuditEntry {
+    action: string;
+    caseRef: string;
+    detail: string;
+    hash: string;
+    previousHash: string;
+    principal: string;
+    role: string;
+    sequence: bigint;
+    timestamp: bigint;
+}
+export interface AuditEventInput {
+    action: string;
+    caseRef: string;
+    detail: string;
+}
+export interface UserAccount {
+    displayName: string;
+    institution: string;
+    lastLoginAt: bigint;
+    principal: string;
+    registeredAt: bigint;
+    registeredBy: string;
+    suspended: boolean;
+}
+export interface UserAccountInput {
+    displayName: string;
+    institution: string;
+    principal: string;
+    role: string;
+}
+export interface Institution {
+    name: string;
+    registeredAt: bigint;
+    registeredBy: string;
+}
+export interface CatalogueDeviceInput {
+    catalogueNumber: string;
+    fixationType: string;
+    intendedSites: Array<string>;
+    manufacturer: string;
+    material: string;
+    modelRef: string;
+    productFamily: string;
+    udiDi: string;
+}
+export interface CatalogueDevice {
+    catalogueNumber: string;
+    fixationType: string;
+    id: string;
+    intendedSites: Array<string>;
+    manufacturer: string;
+    material: string;
+    modelRef: string;
+    productFamily: string;
+    registeredAt: bigint;
+    registeredBy: string;
+    retired: boolean;
+    udiDi: string;
+}
+export interface ReviewHistory {
+    recordId: string;
+    reviewDates: Array<string>;
+}
+export interface ReviewInterval {
+    months: bigint;
+    weeks: bigint;
+}
+export interface FollowUpProtocol {
+    categoryPattern: string;
+    id: string;
+    milestones: Array<ReviewInterval>;
+    name: string;
+    thenEveryMonths: bigint;
+}
+export interface CertifiedAuditTrail {
+    canisterId: string;
+    certificate: Uint8Array;
+    entries: Array<AuditEntry>;
+}
 export interface backendInterface {
+    archiveImplantRecord(id: string): Promise<ImplantRecord>;
+    assignRole(principal: string, role: string): Promise<RoleAssignment>;
+    closeRecall(id: string): Promise<Recall>;
+    createImplantRecord(input: ImplantRecordInput): Promise<ImplantRecord>;
+    createRecall(input: RecallInput): Promise<Recall>;
+    deleteSavedView(id: string): Promise<void>;
+    getCallerAccess(): Promise<CallerAccess>;
+    getCertifiedAuditTrail(): Promise<CertifiedAuditTrail>;
+    getImplantRecord(id: string): Promise<ImplantRecord | null>;
     getStatus(): Promise<string>;
+    importImplantRecords(inputs: Array<ImplantRecordInput>, source: string): Promise<Array<ImplantRecord>>;
+    listAnalyticsRecords(): Promise<Array<ImplantRecord>>;
+    listAuditEntries(): Promise<Array<AuditEntry>>;
+    listDevices(): Promise<Array<CatalogueDevice>>;
+    listFollowUpEvents(recordId: string): Promise<Array<FollowUpEvent>>;
+    listFollowUpProtocols(): Promise<Array<FollowUpProtocol>>;
+    listGovernanceItems(): Promise<Array<GovernanceItem>>;
+    listImplantRecords(includeArchived: boolean): Promise<Array<ImplantRecord>>;
+    listInstitutions(): Promise<Array<Institution>>;
+    listRecallNotices(recallId: string): Promise<Array<RecallNotice>>;
+    listRecalls(): Promise<Array<Recall>>;
+    listRecordVersions(id: string): Promise<Array<RecordVersion>>;
+    listReviewHistory(): Promise<Array<ReviewHistory>>;
+    listRoleAssignments(): Promise<Array<RoleAssignment>>;
+    listSavedViews(): Promise<Array<SavedView>>;
+    listUserAccounts(): Promise<Array<UserAccount>>;
+    logFollowUpEvent(input: FollowUpEventInput): Promise<FollowUpEvent>;
+    queryImplantRecords(filter: RecordFilter, sort: RecordSort, offset: bigint, limit: bigint): Promise<RecordPage>;
+    raiseGovernanceItem(input: GovernanceItemInput): Promise<GovernanceItem>;
+    recordAuditEvent(input: AuditEventInput): Promise<AuditEntry>;
+    recordLogin(): Promise<void>;
+    registerDevice(input: CatalogueDeviceInput): Promise<CatalogueDevice>;
+    registerInstitution(name: string): Promise<Institution>;
+    registerUser(input: UserAccountInput): Promise<UserAccount>;
+    retireDevice(id: string): Promise<CatalogueDevice>;
+    revokeRole(principal: string): Promise<void>;
+    saveFollowUpProtocols(protocols: Array<FollowUpProtocol>): Promise<Array<FollowUpProtocol>>;
+    saveView(input: SavedViewInput): Promise<SavedView>;
+    setUserSuspended(principal: string, suspended: boolean): Promise<UserAccount>;
+    updateGovernanceItem(id: string, status: string, resolution: string): Promise<GovernanceItem>;
+    updateImplantRecord(id: string, input: ImplantRecordInput, note: string): Promise<ImplantRecord>;
+    updateRecallNotice(input: RecallNoticeInput): Promise<RecallNotice>;
+    updateUserAccount(principal: string, displayName: string, institution: string): Promise<UserAccount>;
 }
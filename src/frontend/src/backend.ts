@@ -8,8 +8,7 @@
 
 import { Actor, HttpAgent, type HttpAgentOptions, type ActorConfig, type Agent, type ActorSubclass } from "@icp-sdk/core/agent";
 import type { Principal } from "@icp-sdk/core/principal";
-import { idlFactory, type _SERVICE } from "./declarations/backend.did";
-export interface Some<T> {
+import { idlFactory, type _SERVICE, type ImplantRecordInput as _ImplantRecordInput, type ImplantRecord as _ImplantRecord, type RecordVersion as _RecordVersion, type RecordFilter as _RecordFilter, type RecordPage as _RecordPage, type FollowUpEventInput as _FollowUpEventInput, type FollowUpEvent as _FollowUpEvent, type RecordSort as _RecordSort, type ColumnSetting as _ColumnSetting, type SavedViewInput as _SavedViewInput, type SavedView as _SavedView, type RecallInput as _RecallInput, type Recall as _Recall, type RecallNoticeInput as _RecallNoticeInput, type RecallNotice as _RecallNotice, type GovernanceItemInput as _GovernanceItemInput, type GovernanceItem as _GovernanceItem, type RoleAssignment as _RoleAssignment, type CallerAccess as _CallerAccess, type AuditEntry as _AuditEntry, type AuditEventInput as _AuditEventInput, type UserAccount as _UserAccount, type UserAccountInput as _UserAccountInput, type Institution as _Institution, type CatalogueDeviceInput as _CatalogueDeviceInput, type CatalogueDevice as _CatalogueDevice, type ReviewHistory as _ReviewHistory, type ReviewInterval as _ReviewInterval, type FollowUpProtocol as _FollowUpProtocol, type CertifiedAuditTrail as _CertifiedAuditTrail } from "./declarations/backend.did";export interface Some<T> {
     __kind__: "Some";
     value: T;
 }
@@ -89,11 +88,451 @@ export class ExternalBlob {
         return this;
     }
 }
+export interface ImplantRecordInput {
+    age: bigint;
+    alertLevel: string;
+    anatomicalSite: string;
+    comorbidities: string;
+    complicationsLogged: bigint;
+    deviceId: string;
+    fixationType: string;
+    followUpStatus: string;
+    implantCategory: string;
+    institution: string;
+    lastReview: string;
+    laterality: string;
+    lotNumber: string;
+    manufacturer: string;
+    material: string;
+    modelRef: string;
+    nextReview: string;
+    operatingSurgeon: string;
+    patientId: string;
+    primaryDiagnosis: string;
+    revisionHistory: string;
+    riskLevel: string;
+    sex: string;
+    surgeryDate: string;
+}
+export interface ImplantRecord {
+    age: bigint;
+    alertLevel: string;
+    anatomicalSite: string;
+    archived: boolean;
+    comorbidities: string;
+    complicationsLogged: bigint;
+    deviceId: string;
+    fixationType: string;
+    followUpStatus: string;
+    id: string;
+    implantCategory: string;
+    institution: string;
+    lastReview: string;
+    laterality: string;
+    lotNumber: string;
+    manufacturer: string;
+    material: string;
+    modelRef: string;
+    nextReview: string;
+    operatingSurgeon: string;
+    patientId: string;
+    primaryDiagnosis: string;
+    revisionHistory: string;
+    riskLevel: string;
+    sex: string;
+    surgeryDate: string;
+}
+export interface RecordVersion {
+    author: string;
+    note: string;
+    recordId: string;
+    snapshot: ImplantRecord;
+    timestamp: bigint;
+    version: bigint;
+}
+export interface RecordFilter {
+    alertLevel: string;
+    followUpStatus: string;
+    implantCategory: string;
+    includeArchived: boolean;
+    institution: string;
+    manufacturer: string;
+    operatingSurgeon: string;
+    riskLevel: string;
+    search: string;
+}
+export interface RecordPage {
+    items: Array<ImplantRecord>;
+    limit: bigint;
+    offset: bigint;
+    total: bigint;
+}
+export interface FollowUpEventInput {
+    eventDate: string;
+    eventType: string;
+    notes: string;
+    recordId: string;
+}
+export interface FollowUpEvent {
+    author: string;
+    eventDate: string;
+    eventType: string;
+    id: string;
+    notes: string;
+    recordId: string;
+    timestamp: bigint;
+}
+export interface RecordSort {
+    descending: boolean;
+    field: string;
+}
+export interface ColumnSetting {
+    id: string;
+    width: bigint;
+}
+export interface SavedViewInput {
+    columns: Array<ColumnSetting>;
+    name: string;
+    tableQuery: string;
+}
+export interface SavedView {
+    columns: Array<ColumnSetting>;
+    id: string;
+    name: string;
+    owner: string;
+    tableQuery: string;
+    updatedAt: bigint;
+}
+export interface RecallInput {
+    description: string;
+    implantedFrom: string;
+    implantedTo: string;
+    lotFrom: string;
+    lotTo: string;
+    manufacturer: string;
+    modelRef: string;
+    reference: string;
+    severity: string;
+}
+export interface Recall {
+    closed: boolean;
+    description: string;
+    id: string;
+    implantedFrom: string;
+    implantedTo: string;
+    issuedAt: bigint;
+    issuedBy: string;
+    lotFrom: string;
+    lotTo: string;
+    manufacturer: string;
+    modelRef: string;
+    reference: string;
+    severity: string;
+}
+export interface RecallNoticeInput {
+    note: string;
+    recallId: string;
+    recordId: string;
+    status: string;
+}
+export interface RecallNotice {
+    note: string;
+    recallId: string;
+    recordId: string;
+    status: string;
+    updatedAt: bigint;
+    updatedBy: string;
+}
+export interface GovernanceItemInput {
+    category: string;
+    level: string;
+    signalKey: string;
+    subject: string;
+    summary: string;
+}
+export interface GovernanceItem {
+    category: string;
+    id: string;
+    level: string;
+    raisedAt: bigint;
+    raisedBy: string;
+    resolution: string;
+    signalKey: string;
+    status: string;
+    subject: string;
+    summary: string;
+    updatedAt: bigint;
+    updatedBy: string;
+}
+export interface RoleAssignment {
+    assignedAt: bigint;
+    assignedBy: string;
+    principal: string;
+    role: string;
+}
+export interface CallerAccess {
+    administratorAssigned: boolean;
+    institution: string;
+    principal: string;
+    role: string;
+    suspended: boolean;
+}
+export interface AuditEntry {
+    action: string;
+    caseRef: string;
+    detail: string;
+    hash: string;
+    previousHash: string;
+    principal: string;
+    role: string;
+    sequence: bigint;
+    timestamp: bigint;
+}
+export interface AuditEventInput {
+    action: string;
+    caseRef: string;
+    detail: string;
+}
+export interface UserAccount {
+    displayName: string;
+    institution: string;
+    lastLoginAt: bigint;
+    principal: string;
+    registeredAt: bigint;
+    registeredBy: string;
+    suspended: boolean;
+}
+export interface UserAccountInput {
+    displayName: string;
+    institution: string;
+    principal: string;
+    role: string;
+}
+export interface Institution {
+    name: string;
+    registeredAt: bigint;
+    registeredBy: string;
+}
+export interface CatalogueDeviceInput {
+    catalogueNumber: string;
+    fixationType: string;
+    intendedSites: Array<string>;
+    manufacturer: string;
+    material: string;
+    modelRef: string;
+    productFamily: string;
+    udiDi: string;
+}
+export interface CatalogueDevice {
+    catalogueNumber: string;
+    fixationType: string;
+    id: string;
+    intendedSites: Array<string>;
+    manufacturer: string;
+    material: string;
+    modelRef: string;
+    productFamily: string;
+    registeredAt: bigint;
+    registeredBy: string;
+    retired: boolean;
+    udiDi: string;
+}
+export interface ReviewHistory {
+    recordId: string;
+    reviewDates: Array<string>;
+}
+export interface ReviewInterval {
+    months: bigint;
+    weeks: bigint;
+}
+export interface FollowUpProtocol {
+    categoryPattern: string;
+    id: string;
+    milestones: Array<ReviewInterval>;
+    name: string;
+    thenEveryMonths: bigint;
+}
+export interface CertifiedAuditTrail {
+    canisterId: string;
+    certificate: Uint8Array;
+    entries: Array<AuditEntry>;
+}
 export interface backendInterface {
+    archiveImplantRecord(id: string): Promise<ImplantRecord>;
+    assignRole(principal: string, role: string): Promise<RoleAssignment>;
+    closeRecall(id: string): Promise<Recall>;
+    createImplantRecord(input: ImplantRecordInput): Promise<ImplantRecord>;
+    createRecall(input: RecallInput): Promise<Recall>;
+    deleteSavedView(id: string): Promise<void>;
+    getCallerAccess(): Promise<CallerAccess>;
+    getCertifiedAuditTrail(): Promise<CertifiedAuditTrail>;
+    getImplantRecord(id: string): Promise<ImplantRecord | null>;
     getStatus(): Promise<string>;
+    importImplantRecords(inputs: Array<ImplantRecordInput>, source: string): Promise<Array<ImplantRecord>>;
+    listAnalyticsRecords(): Promise<Array<ImplantRecord>>;
+    listAuditEntries(): Promise<Array<AuditEntry>>;
+    listDevices(): Promise<Array<CatalogueDevice>>;
+    listFollowUpEvents(recordId: string): Promise<Array<FollowUpEvent>>;
+    listFollowUpProtocols(): Promise<Array<FollowUpProtocol>>;
+    listGovernanceItems(): Promise<Array<GovernanceItem>>;
+    listImplantRecords(includeArchived: boolean): Promise<Array<ImplantRecord>>;
+    listInstitutions(): Promise<Array<Institution>>;
+    listRecallNotices(recallId: string): Promise<Array<RecallNotice>>;
+    listRecalls(): Promise<Array<Recall>>;
+    listRecordVersions(id: string): Promise<Array<RecordVersion>>;
+    listReviewHistory(): Promise<Array<ReviewHistory>>;
+    listRoleAssignments(): Promise<Array<RoleAssignment>>;
+    listSavedViews(): Promise<Array<SavedView>>;
+    listUserAccounts(): Promise<Array<UserAccount>>;
+    logFollowUpEvent(input: FollowUpEventInput): Promise<FollowUpEvent>;
+    queryImplantRecords(filter: RecordFilter, sort: RecordSort, offset: bigint, limit: bigint): Promise<RecordPage>;
+    raiseGovernanceItem(input: GovernanceItemInput): Promise<GovernanceItem>;
+    recordAuditEvent(input: AuditEventInput): Promise<AuditEntry>;
+    recordLogin(): Promise<void>;
+    registerDevice(input: CatalogueDeviceInput): Promise<CatalogueDevice>;
+    registerInstitution(name: string): Promise<Institution>;
+    registerUser(input: UserAccountInput): Promise<UserAccount>;
+    retireDevice(id: string): Promise<CatalogueDevice>;
+    revokeRole(principal: string): Promise<void>;
+    saveFollowUpProtocols(protocols: Array<FollowUpProtocol>): Promise<Array<FollowUpProtocol>>;
+    saveView(input: SavedViewInput): Promise<SavedView>;
+    setUserSuspended(principal: string, suspended: boolean): Promise<UserAccount>;
+    updateGovernanceItem(id: string, status: string, resolution: string): Promise<GovernanceItem>;
+    updateImplantRecord(id: string, input: ImplantRecordInput, note: string): Promise<ImplantRecord>;
+    updateRecallNotice(input: RecallNoticeInput): Promise<RecallNotice>;
+    updateUserAccount(principal: string, displayName: string, institution: string): Promise<UserAccount>;
+}
+function from_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ImplantRecord]): ImplantRecord | null {
+    return value.length === 0 ? null : value[0];
 }
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
+    async archiveImplantRecord(id: string): Promise<ImplantRecord> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.archiveImplantRecord(id);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.archiveImplantRecord(id);
+            return result;
+        }
+    }
+    async assignRole(principal: string, role: string): Promise<RoleAssignment> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.assignRole(principal, role);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.assignRole(principal, role);
+            return result;
+        }
+    }
+    async closeRecall(id: string): Promise<Recall> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.closeRecall(id);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.closeRecall(id);
+            return result;
+        }
+    }
+    async createImplantRecord(input: ImplantRecordInput): Promise<ImplantRecord> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.createImplantRecord(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.createImplantRecord(input);
+            return result;
+        }
+    }
+    async createRecall(input: RecallInput): Promise<Recall> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.createRecall(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.createRecall(input);
+            return result;
+        }
+    }
+    async deleteSavedView(id: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteSavedView(id);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteSavedView(id);
+            return result;
+        }
+    }
+    async getCallerAccess(): Promise<CallerAccess> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallerAccess();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallerAccess();
+            return result;
+        }
+    }
+    async getCertifiedAuditTrail(): Promise<CertifiedAuditTrail> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCertifiedAuditTrail();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCertifiedAuditTrail();
+            return result;
+        }
+    }
+    async getImplantRecord(id: string): Promise<ImplantRecord | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getImplantRecord(id);
+                return from_candid_opt_n1(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getImplantRecord(id);
+            return from_candid_opt_n1(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async getStatus(): Promise<string> {
         if (this.processError) {
             try {
@@ -108,6 +547,468 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async importImplantRecords(inputs: Array<ImplantRecordInput>, source: string): Promise<Array<ImplantRecord>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.importImplantRecords(inputs, source);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.importImplantRecords(inputs, source);
+            return result;
+        }
+    }
+    async listAnalyticsRecords(): Promise<Array<ImplantRecord>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listAnalyticsRecords();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listAnalyticsRecords();
+            return result;
+        }
+    }
+    async listAuditEntries(): Promise<Array<AuditEntry>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listAuditEntries();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listAuditEntries();
+            return result;
+        }
+    }
+    async listDevices(): Promise<Array<CatalogueDevice>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listDevices();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listDevices();
+            return result;
+        }
+    }
+    async listFollowUpEvents(recordId: string): Promise<Array<FollowUpEvent>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listFollowUpEvents(recordId);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listFollowUpEvents(recordId);
+            return result;
+        }
+    }
+    async listFollowUpProtocols(): Promise<Array<FollowUpProtocol>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listFollowUpProtocols();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listFollowUpProtocols();
+            return result;
+        }
+    }
+    async listGovernanceItems(): Promise<Array<GovernanceItem>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listGovernanceItems();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listGovernanceItems();
+            return result;
+        }
+    }
+    async listImplantRecords(includeArchived: boolean): Promise<Array<ImplantRecord>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listImplantRecords(includeArchived);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listImplantRecords(includeArchived);
+            return result;
+        }
+    }
+    async listInstitutions(): Promise<Array<Institution>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listInstitutions();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listInstitutions();
+            return result;
+        }
+    }
+    async listRecallNotices(recallId: string): Promise<Array<RecallNotice>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listRecallNotices(recallId);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listRecallNotices(recallId);
+            return result;
+        }
+    }
+    async listRecalls(): Promise<Array<Recall>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listRecalls();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listRecalls();
+            return result;
+        }
+    }
+    async listRecordVersions(id: string): Promise<Array<RecordVersion>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listRecordVersions(id);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listRecordVersions(id);
+            return result;
+        }
+    }
+    async listReviewHistory(): Promise<Array<ReviewHistory>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listReviewHistory();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listReviewHistory();
+            return result;
+        }
+    }
+    async listRoleAssignments(): Promise<Array<RoleAssignment>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listRoleAssignments();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listRoleAssignments();
+            return result;
+        }
+    }
+    async listSavedViews(): Promise<Array<SavedView>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listSavedViews();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listSavedViews();
+            return result;
+        }
+    }
+    async listUserAccounts(): Promise<Array<UserAccount>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listUserAccounts();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listUserAccounts();
+            return result;
+        }
+    }
+    async logFollowUpEvent(input: FollowUpEventInput): Promise<FollowUpEvent> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.logFollowUpEvent(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.logFollowUpEvent(input);
+            return result;
+        }
+    }
+    async queryImplantRecords(filter: RecordFilter, sort: RecordSort, offset: bigint, limit: bigint): Promise<RecordPage> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.queryImplantRecords(filter, sort, offset, limit);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.queryImplantRecords(filter, sort, offset, limit);
+            return result;
+        }
+    }
+    async raiseGovernanceItem(input: GovernanceItemInput): Promise<GovernanceItem> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.raiseGovernanceItem(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.raiseGovernanceItem(input);
+            return result;
+        }
+    }
+    async recordAuditEvent(input: AuditEventInput): Promise<AuditEntry> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.recordAuditEvent(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.recordAuditEvent(input);
+            return result;
+        }
+    }
+    async recordLogin(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.recordLogin();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.recordLogin();
+            return result;
+        }
+    }
+    async registerDevice(input: CatalogueDeviceInput): Promise<CatalogueDevice> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.registerDevice(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.registerDevice(input);
+            return result;
+        }
+    }
+    async registerInstitution(name: string): Promise<Institution> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.registerInstitution(name);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.registerInstitution(name);
+            return result;
+        }
+    }
+    async registerUser(input: UserAccountInput): Promise<UserAccount> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.registerUser(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.registerUser(input);
+            return result;
+        }
+    }
+    async retireDevice(id: string): Promise<CatalogueDevice> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.retireDevice(id);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.retireDevice(id);
+            return result;
+        }
+    }
+    async revokeRole(principal: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.revokeRole(principal);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.revokeRole(principal);
+            return result;
+        }
+    }
+    async saveFollowUpProtocols(protocols: Array<FollowUpProtocol>): Promise<Array<FollowUpProtocol>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveFollowUpProtocols(protocols);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveFollowUpProtocols(protocols);
+            return result;
+        }
+    }
+    async saveView(input: SavedViewInput): Promise<SavedView> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveView(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveView(input);
+            return result;
+        }
+    }
+    async setUserSuspended(principal: string, suspended: boolean): Promise<UserAccount> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setUserSuspended(principal, suspended);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setUserSuspended(principal, suspended);
+            return result;
+        }
+    }
+    async updateGovernanceItem(id: string, status: string, resolution: string): Promise<GovernanceItem> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateGovernanceItem(id, status, resolution);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateGovernanceItem(id, status, resolution);
+            return result;
+        }
+    }
+    async updateImplantRecord(id: string, input: ImplantRecordInput, note: string): Promise<ImplantRecord> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateImplantRecord(id, input, note);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateImplantRecord(id, input, note);
+            return result;
+        }
+    }
+    async updateRecallNotice(input: RecallNoticeInput): Promise<RecallNotice> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateRecallNotice(input);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateRecallNotice(input);
+            return result;
+        }
+    }
+    async updateUserAccount(principal: string, displayName: string, institution: string): Promise<UserAccount> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateUserAccount(principal, displayName, institution);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateUserAccount(principal, displayName, institution);
+            return result;
+        }
+    }
 }
 export interface CreateActorOptions {
     agent?: Agent;
@@ -10,7 +10,320 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
-export interface _SERVICE { 'getStatus' : ActorMethod<[], string> }
+export interface ImplantRecordInput {
+  'age' : bigint,
+  'alertLevel' : string,
+  'anatomicalSite' : string,
+  'comorbidities' : string,
+  'complicationsLogged' : bigint,
+  'deviceId' : string,
+  'fixationType' : string,
+  'followUpStatus' : string,
+  'implantCategory' : string,
+  'institution' : string,
+  'lastReview' : string,
+  'laterality' : string,
+  'lotNumber' : string,
+  'manufacturer' : string,
+  'material' : string,
+  'modelRef' : string,
+  'nextReview' : string,
+  'operatingSurgeon' : string,
+  'patientId' : string,
+  'primaryDiagnosis' : string,
+  'revisionHistory' : string,
+  'riskLevel' : string,
+  'sex' : string,
+  'surgeryDate' : string,
+}
+export interface ImplantRecord {
+  'age' : bigint,
+  'alertLevel' : string,
+  'anatomicalSite' : string,
+  'archived' : boolean,
+  'comorbidities' : string,
+  'complicationsLogged' : bigint,
+  'deviceId' : string,
+  'fixationType' : string,
+  'followUpStatus' : string,
+  'id' : string,
+  'implantCategory' : string,
+  'institution' : string,
+  'lastReview' : string,
+  'laterality' : string,
+  'lotNumber' : string,
+  'manufacturer' : string,
+  'material' : string,
+  'modelRef' : string,
+  'nextReview' : string,
+  'operatingSurgeon' : string,
+  'patientId' : string,
+  'primaryDiagnosis' : string,
+  'revisionHistory' : string,
+  'riskLevel' : string,
+  'sex' : string,
+  'surgeryDate' : string,
+}
+export interface RecordVersion {
+  'author' : string,
+  'note' : string,
+  'recordId' : string,
+  'snapshot' : ImplantRecord,
+  'timestamp' : bigint,
+  'version' : bigint,
+}
+export interface RecordFilter {
+  'alertLevel' : string,
+  'followUpStatus' : string,
+  'implantCategory' : string,
+  'includeArchived' : boolean,
+  'institution' : string,
+  'manufacturer' : string,
+  'operatingSurgeon' : string,
+  'riskLevel' : string,
+  'search' : string,
+}
+export interface RecordPage {
+  'items' : Array<ImplantRecord>,
+  'limit' : bigint,
+  'offset' : bigint,
+  'total' : bigint,
+}
+export interface FollowUpEventInput {
+  'eventDate' : string,
+  'eventType' : string,
+  'notes' : string,
+  'recordId' : string,
+}
+export interface FollowUpEvent {
+  'author' : string,
+  'eventDate' : string,
+  'eventType' : string,
+  'id' : string,
+  'notes' : string,
+  'recordId' : string,
+  'timestamp' : bigint,
+}
+export interface RecordSort {
+  'descending' : boolean,
+  'field' : string,
+}
+export interface ColumnSetting {
+  'id' : string,
+  'width' : bigint,
+}
+export interface SavedViewInput {
+  'columns' : Array<ColumnSetting>,
+  'name' : string,
+  'tableQuery' : string,
+}
+export interface SavedView {
+  'columns' : Array<ColumnSetting>,
+  'id' : string,
+  'name' : string,
+  'owner' : string,
+  'tableQuery' : string,
+  'updatedAt' : bigint,
+}
+export interface RecallInput {
+  'description' : string,
+  'implantedFrom' : string,
+  'implantedTo' : string,
+  'lotFrom' : string,
+  'lotTo' : string,
+  'manufacturer' : string,
+  'modelRef' : string,
+  'reference' : string,
+  'severity' : string,
+}
+export interface Recall {
+  'closed' : boolean,
+  'description' : string,
+  'id' : string,
+  'implantedFrom' : string,
+  'implantedTo' : string,
+  'issuedAt' : bigint,
+  'issuedBy' : string,
+  'lotFrom' : string,
+  'lotTo' : string,
+  'manufacturer' : string,
+  'modelRef' : string,
+  'reference' : string,
+  'severity' : string,
+}
+export interface RecallNoticeInput {
+  'note' : string,
+  'recallId' : string,
+  'recordId' : string,
+  'status' : string,
+}
+export interface RecallNotice {
+  'note' : string,
+  'recallId' : string,
+  'recordId' : string,
+  'status' : string,
+  'updatedAt' : bigint,
+  'updatedBy' : string,
+}
+export interface GovernanceItemInput {
+  'category' : string,
+  'level' : string,
+  'signalKey' : string,
+  'subject' : string,
+  'summary' : string,
+}
+export interface GovernanceItem {
+  'category' : string,
+  'id' : string,
+  'level' : string,
+  'raisedAt' : bigint,
+  'raisedBy' : string,
+  'resolution' : string,
+  'signalKey' : string,
+  'status' : string,
+  'subject' : string,
+  'summary' : string,
+  'updatedAt' : bigint,
+  'updatedBy' : string,
+}
+export interface RoleAssignment {
+  'assignedAt' : bigint,
+  'assignedBy' : string,
+  'principal' : string,
+  'role' : string,
+}
+export interface CallerAccess {
+  'administratorAssigned' : boolean,
+  'institution' : string,
+  'principal' : string,
+  'role' : string,
+  'suspended' : boolean,
+}
+export interface AuditEntry {
+  'action' : string,
+  'caseRef' : string,
+  'detail' : string,
+  'hash' : string,
+  'previousHash' : string,
+  'principal' : string,
+  'role' : string,
+  'sequence' : bigint,
+  'timestamp' : bigint,
+}
+export interface AuditEventInput {
+  'action' : string,
+  'caseRef' : string,
+  'detail' : string,
+}
+export interface UserAccount {
+  'displayName' : string,
+  'institution' : string,
+  'lastLoginAt' : bigint,
+  'principal' : string,
+  'registeredAt' : bigint,
+  'registeredBy' : string,
+  'suspended' : boolean,
+}
+export interface UserAccountInput {
+  'displayName' : string,
+  'institution' : string,
+  'principal' : string,
+  'role' : string,
+}
+export interface Institution {
+  'name' : string,
+  'registeredAt' : bigint,
+  'registeredBy' : string,
+}
+export interface CatalogueDeviceInput {
+  'catalogueNumber' : string,
+  'fixationType' : string,
+  'intendedSites' : Array<string>,
+  'manufacturer' : string,
+  'material' : string,
+  'modelRef' : string,
+  'productFamily' : string,
+  'udiDi' : string,
+}
+export interface CatalogueDevice {
+  'catalogueNumber' : string,
+  'fixationType' : string,
+  'id' : string,
+  'intendedSites' : Array<string>,
+  'manufacturer' : string,
+  'material' : string,
+  'modelRef' : string,
+  'productFamily' : string,
+  'registeredAt' : bigint,
+  'registeredBy' : string,
+  'retired' : boolean,
+  'udiDi' : string,
+}
+export interface ReviewHistory {
+  'recordId' : string,
+  'reviewDates' : Array<string>,
+}
+export interface ReviewInterval {
+  'months' : bigint,
+  'weeks' : bigint,
+}
+export interface FollowUpProtocol {
+  'categoryPattern' : string,
+  'id' : string,
+  'milestones' : Array<ReviewInterval>,
+  'name' : string,
+  'thenEveryMonths' : bigint,
+}
+export interface CertifiedAuditTrail {
+  'canisterId' : string,
+  'certificate' : Uint8Array | number[],
+  'entries' : Array<AuditEntry>,
+}
+export interface _SERVICE {
+  'archiveImplantRecord' : ActorMethod<[string], ImplantRecord>,
+  'assignRole' : ActorMethod<[string, string], RoleAssignment>,
+  'closeRecall' : ActorMethod<[string], Recall>,
+  'createImplantRecord' : ActorMethod<[ImplantRecordInput], ImplantRecord>,
+  'createRecall' : ActorMethod<[RecallInput], Recall>,
+  'deleteSavedView' : ActorMethod<[string], undefined>,
+  'getCallerAccess' : ActorMethod<[], CallerAccess>,
+  'getCertifiedAuditTrail' : ActorMethod<[], CertifiedAuditTrail>,
+  'getImplantRecord' : ActorMethod<[string], [] | [ImplantRecord]>,
+  'getStatus' : ActorMethod<[], string>,
+  'importImplantRecords' : ActorMethod<[Array<ImplantRecordInput>, string], Array<ImplantRecord>>,
+  'listAnalyticsRecords' : ActorMethod<[], Array<ImplantRecord>>,
+  'listAuditEntries' : ActorMethod<[], Array<AuditEntry>>,
+  'listDevices' : ActorMethod<[], Array<CatalogueDevice>>,
+  'listFollowUpEvents' : ActorMethod<[string], Array<FollowUpEvent>>,
+  'listFollowUpProtocols' : ActorMethod<[], Array<FollowUpProtocol>>,
+  'listGovernanceItems' : ActorMethod<[], Array<GovernanceItem>>,
+  'listImplantRecords' : ActorMethod<[boolean], Array<ImplantRecord>>,
+  'listInstitutions' : ActorMethod<[], Array<Institution>>,
+  'listRecallNotices' : ActorMethod<[string], Array<RecallNotice>>,
+  'listRecalls' : ActorMethod<[], Array<Recall>>,
+  'listRecordVersions' : ActorMethod<[string], Array<RecordVersion>>,
+  'listReviewHistory' : ActorMethod<[], Array<ReviewHistory>>,
+  'listRoleAssignments' : ActorMethod<[], Array<RoleAssignment>>,
+  'listSavedViews' : ActorMethod<[], Array<SavedView>>,
+  'listUserAccounts' : ActorMethod<[], Array<UserAccount>>,
+  'logFollowUpEvent' : ActorMethod<[FollowUpEventInput], FollowUpEvent>,
+  'queryImplantRecords' : ActorMethod<[RecordFilter, RecordSort, bigint, bigint], RecordPage>,
+  'raiseGovernanceItem' : ActorMethod<[GovernanceItemInput], GovernanceItem>,
+  'recordAuditEvent' : ActorMethod<[AuditEventInput], AuditEntry>,
+  'recordLogin' : ActorMethod<[], undefined>,
+  'registerDevice' : ActorMethod<[CatalogueDeviceInput], CatalogueDevice>,
+  'registerInstitution' : ActorMethod<[string], Institution>,
+  'registerUser' : ActorMethod<[UserAccountInput], UserAccount>,
+  'retireDevice' : ActorMethod<[string], CatalogueDevice>,
+  'revokeRole' : ActorMethod<[string], undefined>,
+  'saveFollowUpProtocols' : ActorMethod<[Array<FollowUpProtocol>], Array<FollowUpProtocol>>,
+  'saveView' : ActorMethod<[SavedViewInput], SavedView>,
+  'setUserSuspended' : ActorMethod<[string, boolean], UserAccount>,
+  'updateGovernanceItem' : ActorMethod<[string, string, string], GovernanceItem>,
+  'updateImplantRecord' : ActorMethod<[string, ImplantRecordInput, string], ImplantRecord>,
+  'updateRecallNotice' : ActorMethod<[RecallNoticeInput], RecallNotice>,
+  'updateUserAccount' : ActorMethod<[string, string, string], UserAccount>,
+}
 export declare const idlService: IDL.ServiceClass;
 export declare const idlInitArgs: IDL.Type[];
 export declare const idlFactory: IDL.InterfaceFactory;
@@ -8,14 +8,638 @@
 
 import { IDL } from '@icp-sdk/core/candid';
 
+export const ImplantRecordInput = IDL.Record({
+  'age' : IDL.Nat,
+  'alertLevel' : IDL.Text,
+  'anatomicalSite' : IDL.Text,
+  'comorbidities' : IDL.Text,
+  'complicationsLogged' : IDL.Nat,
+  'deviceId' : IDL.Text,
+  'fixationType' : IDL.Text,
+  'followUpStatus' : IDL.Text,
+  'implantCategory' : IDL.Text,
+  'institution' : IDL.Text,
+  'lastReview' : IDL.Text,
+  'laterality' : IDL.Text,
+  'lotNumber' : IDL.Text,
+  'manufacturer' : IDL.Text,
+  'material' : IDL.Text,
+  'modelRef' : IDL.Text,
+  'nextReview' : IDL.Text,
+  'operatingSurgeon' : IDL.Text,
+  'patientId' : IDL.Text,
+  'primaryDiagnosis' : IDL.Text,
+  'revisionHistory' : IDL.Text,
+  'riskLevel' : IDL.Text,
+  'sex' : IDL.Text,
+  'surgeryDate' : IDL.Text,
+});
+export const ImplantRecord = IDL.Record({
+  'age' : IDL.Nat,
+  'alertLevel' : IDL.Text,
+  'anatomicalSite' : IDL.Text,
+  'archived' : IDL.Bool,
+  'comorbidities' : IDL.Text,
+  'complicationsLogged' : IDL.Nat,
+  'deviceId' : IDL.Text,
+  'fixationType' : IDL.Text,
+  'followUpStatus' : IDL.Text,
+  'id' : IDL.Text,
+  'implantCategory' : IDL.Text,
+  'institution' : IDL.Text,
+  'lastReview' : IDL.Text,
+  'laterality' : IDL.Text,
+  'lotNumber' : IDL.Text,
+  'manufacturer' : IDL.Text,
+  'material' : IDL.Text,
+  'modelRef' : IDL.Text,
+  'nextReview' : IDL.Text,
+  'operatingSurgeon' : IDL.Text,
+  'patientId' : IDL.Text,
+  'primaryDiagnosis' : IDL.Text,
+  'revisionHistory' : IDL.Text,
+  'riskLevel' : IDL.Text,
+  'sex' : IDL.Text,
+  'surgeryDate' : IDL.Text,
+});
+export const RecordVersion = IDL.Record({
+  'author' : IDL.Text,
+  'note' : IDL.Text,
+  'recordId' : IDL.Text,
+  'snapshot' : ImplantRecord,
+  'timestamp' : IDL.Int,
+  'version' : IDL.Nat,
+});
+export const RecordFilter = IDL.Record({
+  'alertLevel' : IDL.Text,
+  'followUpStatus' : IDL.Text,
+  'implantCategory' : IDL.Text,
+  'includeArchived' : IDL.Bool,
+  'institution' : IDL.Text,
+  'manufacturer' : IDL.Text,
+  'operatingSurgeon' : IDL.Text,
+  'riskLevel' : IDL.Text,
+  'search' : IDL.Text,
+});
+export const RecordPage = IDL.Record({
+  'items' : IDL.Vec(ImplantRecord),
+  'limit' : IDL.Nat,
+  'offset' : IDL.Nat,
+  'total' : IDL.Nat,
+});
+export const FollowUpEventInput = IDL.Record({
+  'eventDate' : IDL.Text,
+  'eventType' : IDL.Text,
+  'notes' : IDL.Text,
+  'recordId' : IDL.Text,
+});
+export const FollowUpEvent = IDL.Record({
+  'author' : IDL.Text,
+  'eventDate' : IDL.Text,
+  'eventType' : IDL.Text,
+  'id' : IDL.Text,
+  'notes' : IDL.Text,
+  'recordId' : IDL.Text,
+  'timestamp' : IDL.Int,
+});
+export const RecordSort = IDL.Record({
+  'descending' : IDL.Bool,
+  'field' : IDL.Text,
+});
+export const ColumnSetting = IDL.Record({
+  'id' : IDL.Text,
+  'width' : IDL.Nat,
+});
+export const SavedViewInput = IDL.Record({
+  'columns' : IDL.Vec(ColumnSetting),
+  'name' : IDL.Text,
+  'tableQuery' : IDL.Text,
+});
+export const SavedView = IDL.Record({
+  'columns' : IDL.Vec(ColumnSetting),
+  'id' : IDL.Text,
+  'name' : IDL.Text,
+  'owner' : IDL.Text,
+  'tableQuery' : IDL.Text,
+  'updatedAt' : IDL.Int,
+});
+export const RecallInput = IDL.Record({
+  'description' : IDL.Text,
+  'implantedFrom' : IDL.Text,
+  'implantedTo' : IDL.Text,
+  'lotFrom' : IDL.Text,
+  'lotTo' : IDL.Text,
+  'manufacturer' : IDL.Text,
+  'modelRef' : IDL.Text,
+  'reference' : IDL.Text,
+  'severity' : IDL.Text,
+});
+export const Recall = IDL.Record({
+  'closed' : IDL.Bool,
+  'description' : IDL.Text,
+  'id' : IDL.Text,
+  'implantedFrom' : IDL.Text,
+  'implantedTo' : IDL.Text,
+  'issuedAt' : IDL.Int,
+  'issuedBy' : IDL.Text,
+  'lotFrom' : IDL.Text,
+  'lotTo' : IDL.Text,
+  'manufacturer' : IDL.Text,
+  'modelRef' : IDL.Text,
+  'reference' : IDL.Text,
+  'severity' : IDL.Text,
+});
+export const RecallNoticeInput = IDL.Record({
+  'note' : IDL.Text,
+  'recallId' : IDL.Text,
+  'recordId' : IDL.Text,
+  'status' : IDL.Text,
+});
+export const RecallNotice = IDL.Record({
+  'note' : IDL.Text,
+  'recallId' : IDL.Text,
+  'recordId' : IDL.Text,
+  'status' : IDL.Text,
+  'updatedAt' : IDL.Int,
+  'updatedBy' : IDL.Text,
+});
+export const GovernanceItemInput = IDL.Record({
+  'category' : IDL.Text,
+  'level' : IDL.Text,
+  'signalKey' : IDL.Text,
+  'subject' : IDL.Text,
+  'summary' : IDL.Text,
+});
+export const GovernanceItem = IDL.Record({
+  'category' : IDL.Text,
+  'id' : IDL.Text,
+  'level' : IDL.Text,
+  'raisedAt' : IDL.Int,
+  'raisedBy' : IDL.Text,
+  'resolution' : IDL.Text,
+  'signalKey' : IDL.Text,
+  'status' : IDL.Text,
+  'subject' : IDL.Text,
+  'summary' : IDL.Text,
+  'updatedAt' : IDL.Int,
+  'updatedBy' : IDL.Text,
+});
+export const RoleAssignment = IDL.Record({
+  'assignedAt' : IDL.Int,
+  'assignedBy' : IDL.Text,
+  'principal' : IDL.Text,
+  'role' : IDL.Text,
+});
+export const CallerAccess = IDL.Record({
+  'administratorAssigned' : IDL.Bool,
+  'institution' : IDL.Text,
+  'principal' : IDL.Text,
+  'role' : IDL.Text,
+  'suspended' : IDL.Bool,
+});
+export const AuditEntry = IDL.Record({
+  'action' : IDL.Text,
+  'caseRef' : IDL.Text,
+  'detail' : IDL.Text,
+  'hash' : IDL.Text,
+  'previousHash' : IDL.Text,
+  'principal' : IDL.Text,
+  'role' : IDL.Text,
+  'sequence' : IDL.Nat,
+  'timestamp' : IDL.Int,
+});
+export const AuditEventInput = IDL.Record({
+  'action' : IDL.Text,
+  'caseRef' : IDL.Text,
+  'detail' : IDL.Text,
+});
+export const UserAccount = IDL.Record({
+  'displayName' : IDL.Text,
+  'institution' : IDL.Text,
+  'lastLoginAt' : IDL.Int,
+  'principal' : IDL.Text,
+  'registeredAt' : IDL.Int,
+  'registeredBy' : IDL.Text,
+  'suspended' : IDL.Bool,
+});
+export const UserAccountInput = IDL.Record({
+  'displayName' : IDL.Text,
+  'institution' : IDL.Text,
+  'principal' : IDL.Text,
+  'role' : IDL.Text,
+});
+export const Institution = IDL.Record({
+  'name' : IDL.Text,
+  'registeredAt' : IDL.Int,
+  'registeredBy' : IDL.Text,
+});
+export const CatalogueDeviceInput = IDL.Record({
+  'catalogueNumber' : IDL.Text,
+  'fixationType' : IDL.Text,
+  'intendedSites' : IDL.Vec(IDL.Text),
+  'manufacturer' : IDL.Text,
+  'material' : IDL.Text,
+  'modelRef' : IDL.Text,
+  'productFamily' : IDL.Text,
+  'udiDi' : IDL.Text,
+});
+export const CatalogueDevice = IDL.Record({
+  'catalogueNumber' : IDL.Text,
+  'fixationType' : IDL.Text,
+  'id' : IDL.Text,
+  'intendedSites' : IDL.Vec(IDL.Text),
+  'manufacturer' : IDL.Text,
+  'material' : IDL.Text,
+  'modelRef' : IDL.Text,
+  'productFamily' : IDL.Text,
+  'registeredAt' : IDL.Int,
+  'registeredBy' : IDL.Text,
+  'retired' : IDL.Bool,
+  'udiDi' : IDL.Text,
+});
+export const ReviewHistory = IDL.Record({
+  'recordId' : IDL.Text,
+  'reviewDates' : IDL.Vec(IDL.Text),
+});
+export const ReviewInterval = IDL.Record({
+  'months' : IDL.Nat,
+  'weeks' : IDL.Nat,
+});
+export const FollowUpProtocol = IDL.Record({
+  'categoryPattern' : IDL.Text,
+  'id' : IDL.Text,
+  'milestones' : IDL.Vec(ReviewInterval),
+  'name' : IDL.Text,
+  'thenEveryMonths' : IDL.Nat,
+});
+export const CertifiedAuditTrail = IDL.Record({
+  'canisterId' : IDL.Text,
+  'certificate' : IDL.Vec(IDL.Nat8),
+  'entries' : IDL.Vec(AuditEntry),
+});
 export const idlService = IDL.Service({
+  'archiveImplantRecord' : IDL.Func([IDL.Text], [ImplantRecord], []),
+  'assignRole' : IDL.Func([IDL.Text, IDL.Text], [RoleAssignment], []),
+  'closeRecall' : IDL.Func([IDL.Text], [Recall], []),
+  'createImplantRecord' : IDL.Func([ImplantRecordInput], [ImplantRecord], []),
+  'createRecall' : IDL.Func([RecallInput], [Recall], []),
+  'deleteSavedView' : IDL.Func([IDL.Text], [], []),
+  'getCallerAccess' : IDL.Func([], [CallerAccess], ['query']),
+  'getCertifiedAuditTrail' : IDL.Func([], [CertifiedAuditTrail], ['query']),
+  'getImplantRecord' : IDL.Func([IDL.Text], [IDL.Opt(ImplantRecord)], ['query']),
   'getStatus' : IDL.Func([], [IDL.Text], ['query']),
+  'importImplantRecords' : IDL.Func([IDL.Vec(ImplantRecordInput), IDL.Text], [IDL.Vec(ImplantRecord)], []),
+  'listAnalyticsRecords' : IDL.Func([], [IDL.Vec(ImplantRecord)], ['query']),
+  'listAuditEntries' : IDL.Func([], [IDL.Vec(AuditEntry)], ['query']),
+  'listDevices' : IDL.Func([], [IDL.Vec(CatalogueDevice)], ['query']),
+  'listFollowUpEvents' : IDL.Func([IDL.Text], [IDL.Vec(FollowUpEvent)], ['query']),
+  'listFollowUpProtocols' : IDL.Func([], [IDL.Vec(FollowUpProtocol)], ['query']),
+  'listGovernanceItems' : IDL.Func([], [IDL.Vec(GovernanceItem)], ['query']),
+  'listImplantRecords' : IDL.Func([IDL.Bool], [IDL.Vec(ImplantRecord)], ['query']),
+  'listInstitutions' : IDL.Func([], [IDL.Vec(Institution)], ['query']),
+  'listRecallNotices' : IDL.Func([IDL.Text], [IDL.Vec(RecallNotice)], ['query']),
+  'listRecalls' : IDL.Func([], [IDL.Vec(Recall)], ['query']),
+  'listRecordVersions' : IDL.Func([IDL.Text], [IDL.Vec(RecordVersion)], ['query']),
+  'listReviewHistory' : IDL.Func([], [IDL.Vec(ReviewHistory)], ['query']),
+  'listRoleAssignments' : IDL.Func([], [IDL.Vec(RoleAssignment)], ['query']),
+  'listSavedViews' : IDL.Func([], [IDL.Vec(SavedView)], ['query']),
+  'listUserAccounts' : IDL.Func([], [IDL.Vec(UserAccount)], ['query']),
+  'logFollowUpEvent' : IDL.Func([FollowUpEventInput], [FollowUpEvent], []),
+  'queryImplantRecords' : IDL.Func([RecordFilter, RecordSort, IDL.Nat, IDL.Nat], [RecordPage], ['query']),
+  'raiseGovernanceItem' : IDL.Func([GovernanceItemInput], [GovernanceItem], []),
+  'recordAuditEvent' : IDL.Func([AuditEventInput], [AuditEntry], []),
+  'recordLogin' : IDL.Func([], [], []),
+  'registerDevice' : IDL.Func([CatalogueDeviceInput], [CatalogueDevice], []),
+  'registerInstitution' : IDL.Func([IDL.Text], [Institution], []),
+  'registerUser' : IDL.Func([UserAccountInput], [UserAccount], []),
+  'retireDevice' : IDL.Func([IDL.Text], [CatalogueDevice], []),
+  'revokeRole' : IDL.Func([IDL.Text], [], []),
+  'saveFollowUpProtocols' : IDL.Func([IDL.Vec(FollowUpProtocol)], [IDL.Vec(FollowUpProtocol)], []),
+  'saveView' : IDL.Func([SavedViewInput], [SavedView], []),
+  'setUserSuspended' : IDL.Func([IDL.Text, IDL.Bool], [UserAccount], []),
+  'updateGovernanceItem' : IDL.Func([IDL.Text, IDL.Text, IDL.Text], [GovernanceItem], []),
+  'updateImplantRecord' : IDL.Func([IDL.Text, ImplantRecordInput, IDL.Text], [ImplantRecord], []),
+  'updateRecallNotice' : IDL.Func([RecallNoticeInput], [RecallNotice], []),
+  'updateUserAccount' : IDL.Func([IDL.Text, IDL.Text, IDL.Text], [UserAccount], []),
 });
 
 export const idlInitArgs = [];
 
 export const idlFactory = ({ IDL }) => {
-  return IDL.Service({ 'getStatus' : IDL.Func([], [IDL.Text], ['query']) });
+  const ImplantRecordInput = IDL.Record({
+    'age' : IDL.Nat,
+    'alertLevel' : IDL.Text,
+    'anatomicalSite' : IDL.Text,
+    'comorbidities' : IDL.Text,
+    'complicationsLogged' : IDL.Nat,
+    'deviceId' : IDL.Text,
+    'fixationType' : IDL.Text,
+    'followUpStatus' : IDL.Text,
+    'implantCategory' : IDL.Text,
+    'institution' : IDL.Text,
+    'lastReview' : IDL.Text,
+    'laterality' : IDL.Text,
+    'lotNumber' : IDL.Text,
+    'manufacturer' : IDL.Text,
+    'material' : IDL.Text,
+    'modelRef' : IDL.Text,
+    'nextReview' : IDL.Text,
+    'operatingSurgeon' : IDL.Text,
+    'patientId' : IDL.Text,
+    'primaryDiagnosis' : IDL.Text,
+    'revisionHistory' : IDL.Text,
+    'riskLevel' : IDL.Text,
+    'sex' : IDL.Text,
+    'surgeryDate' : IDL.Text,
+  });
+  const ImplantRecord = IDL.Record({
+    'age' : IDL.Nat,
+    'alertLevel' : IDL.Text,
+    'anatomicalSite' : IDL.Text,
+    'archived' : IDL.Bool,
+    'comorbidities' : IDL.Text,
+    'complicationsLogged' : IDL.Nat,
+    'deviceId' : IDL.Text,
+    'fixationType' : IDL.Text,
+    'followUpStatus' : IDL.Text,
+    'id' : IDL.Text,
+    'implantCategory' : IDL.Text,
+    'institution' : IDL.Text,
+    'lastReview' : IDL.Text,
+    'laterality' : IDL.Text,
+    'lotNumber' : IDL.Text,
+    'manufacturer' : IDL.Text,
+    'material' : IDL.Text,
+    'modelRef' : IDL.Text,
+    'nextReview' : IDL.Text,
+    'operatingSurgeon' : IDL.Text,
+    'patientId' : IDL.Text,
+    'primaryDiagnosis' : IDL.Text,
+    'revisionHistory' : IDL.Text,
+    'riskLevel' : IDL.Text,
+    'sex' : IDL.Text,
+    'surgeryDate' : IDL.Text,
+  });
+  const RecordVersion = IDL.Record({
+    'author' : IDL.Text,
+    'note' : IDL.Text,
+    'recordId' : IDL.Text,
+    'snapshot' : ImplantRecord,
+    'timestamp' : IDL.Int,
+    'version' : IDL.Nat,
+  });
+  const RecordFilter = IDL.Record({
+    'alertLevel' : IDL.Text,
+    'followUpStatus' : IDL.Text,
+    'implantCategory' : IDL.Text,
+    'includeArchived' : IDL.Bool,
+    'institution' : IDL.Text,
+    'manufacturer' : IDL.Text,
+    'operatingSurgeon' : IDL.Text,
+    'riskLevel' : IDL.Text,
+    'search' : IDL.Text,
+  });
+  const RecordPage = IDL.Record({
+    'items' : IDL.Vec(ImplantRecord),
+    'limit' : IDL.Nat,
+    'offset' : IDL.Nat,
+    'total' : IDL.Nat,
+  });
+  const FollowUpEventInput = IDL.Record({
+    'eventDate' : IDL.Text,
+    'eventType' : IDL.Text,
+    'notes' : IDL.Text,
+    'recordId' : IDL.Text,
+  });
+  const FollowUpEvent = IDL.Record({
+    'author' : IDL.Text,
+    'eventDate' : IDL.Text,
+    'eventType' : IDL.Text,
+    'id' : IDL.Text,
+    'notes' : IDL.Text,
+    'recordId' : IDL.Text,
+    'timestamp' : IDL.Int,
+  });
+  const RecordSort = IDL.Record({
+    'descending' : IDL.Bool,
+    'field' : IDL.Text,
+  });
+  const ColumnSetting = IDL.Record({
+    'id' : IDL.Text,
+    'width' : IDL.Nat,
+  });
+  const SavedViewInput = IDL.Record({
+    'columns' : IDL.Vec(ColumnSetting),
+    'name' : IDL.Text,
+    'tableQuery' : IDL.Text,
+  });
+  const SavedView = IDL.Record({
+    'columns' : IDL.Vec(ColumnSetting),
+    'id' : IDL.Text,
+    'name' : IDL.Text,
+    'owner' : IDL.Text,
+    'tableQuery' : IDL.Text,
+    'updatedAt' : IDL.Int,
+  });
+  const RecallInput = IDL.Record({
+    'description' : IDL.Text,
+    'implantedFrom' : IDL.Text,
+    'implantedTo' : IDL.Text,
+    'lotFrom' : IDL.Text,
+    'lotTo' : IDL.Text,
+    'manufacturer' : IDL.Text,
+    'modelRef' : IDL.Text,
+    'reference' : IDL.Text,
+    'severity' : IDL.Text,
+  });
+  const Recall = IDL.Record({
+    'closed' : IDL.Bool,
+    'description' : IDL.Text,
+    'id' : IDL.Text,
+    'implantedFrom' : IDL.Text,
+    'implantedTo' : IDL.Text,
+    'issuedAt' : IDL.Int,
+    'issuedBy' : IDL.Text,
+    'lotFrom' : IDL.Text,
+    'lotTo' : IDL.Text,
+    'manufacturer' : IDL.Text,
+    'modelRef' : IDL.Text,
+    'reference' : IDL.Text,
+    'severity' : IDL.Text,
+  });
+  const RecallNoticeInput = IDL.Record({
+    'note' : IDL.Text,
+    'recallId' : IDL.Text,
+    'recordId' : IDL.Text,
+    'status' : IDL.Text,
+  });
+  const RecallNotice = IDL.Record({
+    'note' : IDL.Text,
+    'recallId' : IDL.Text,
+    'recordId' : IDL.Text,
+    'status' : IDL.Text,
+    'updatedAt' : IDL.Int,
+    'updatedBy' : IDL.Text,
+  });
+  const GovernanceItemInput = IDL.Record({
+    'category' : IDL.Text,
+    'level' : IDL.Text,
+    'signalKey' : IDL.Text,
+    'subject' : IDL.Text,
+    'summary' : IDL.Text,
+  });
+  const GovernanceItem = IDL.Record({
+    'category' : IDL.Text,
+    'id' : IDL.Text,
+    'level' : IDL.Text,
+    'raisedAt' : IDL.Int,
+    'raisedBy' : IDL.Text,
+    'resolution' : IDL.Text,
+    'signalKey' : IDL.Text,
+    'status' : IDL.Text,
+    'subject' : IDL.Text,
+    'summary' : IDL.Text,
+    'updatedAt' : IDL.Int,
+    'updatedBy' : IDL.Text,
+  });
+  const RoleAssignment = IDL.Record({
+    'assignedAt' : IDL.Int,
+    'assignedBy' : IDL.Text,
+    'principal' : IDL.Text,
+    'role' : IDL.Text,
+  });
+  const CallerAccess = IDL.Record({
+    'administratorAssigned' : IDL.Bool,
+    'institution' : IDL.Text,
+    'principal' : IDL.Text,
+    'role' : IDL.Text,
+    'suspended' : IDL.Bool,
+  });
+  const AuditEntry = IDL.Record({
+    'action' : IDL.Text,
+    'caseRef' : IDL.Text,
+    'detail' : IDL.Text,
+    'hash' : IDL.Text,
+    'previousHash' : IDL.Text,
+    'principal' : IDL.Text,
+    'role' : IDL.Text,
+    'sequence' : IDL.Nat,
+    'timestamp' : IDL.Int,
+  });
+  const AuditEventInput = IDL.Record({
+    'action' : IDL.Text,
+    'caseRef' : IDL.Text,
+    'detail' : IDL.Text,
+  });
+  const UserAccount = IDL.Record({
+    'displayName' : IDL.Text,
+    'institution' : IDL.Text,
+    'lastLoginAt' : IDL.Int,
+    'principal' : IDL.Text,
+    'registeredAt' : IDL.Int,
+    'registeredBy' : IDL.Text,
+    'suspended' : IDL.Bool,
+  });
+  const UserAccountInput = IDL.Record({
+    'displayName' : IDL.Text,
+    'institution' : IDL.Text,
+    'principal' : IDL.Text,
+    'role' : IDL.Text,
+  });
+  const Institution = IDL.Record({
+    'name' : IDL.Text,
+    'registeredAt' : IDL.Int,
+    'registeredBy' : IDL.Text,
+  });
+  const CatalogueDeviceInput = IDL.Record({
+    'catalogueNumber' : IDL.Text,
+    'fixationType' : IDL.Text,
+    'intendedSites' : IDL.Vec(IDL.Text),
+    'manufacturer' : IDL.Text,
+    'material' : IDL.Text,
+    'modelRef' : IDL.Text,
+    'productFamily' : IDL.Text,
+    'udiDi' : IDL.Text,
+  });
+  const CatalogueDevice = IDL.Record({
+    'catalogueNumber' : IDL.Text,
+    'fixationType' : IDL.Text,
+    'id' : IDL.Text,
+    'intendedSites' : IDL.Vec(IDL.Text),
+    'manufacturer' : IDL.Text,
+    'material' : IDL.Text,
+    'modelRef' : IDL.Text,
+    'productFamily' : IDL.Text,
+    'registeredAt' : IDL.Int,
+    'registeredBy' : IDL.Text,
+    'retired' : IDL.Bool,
+    'udiDi' : IDL.Text,
+  });
+  const ReviewHistory = IDL.Record({
+    'recordId' : IDL.Text,
+    'reviewDates' : IDL.Vec(IDL.Text),
+  });
+  const ReviewInterval = IDL.Record({
+    'months' : IDL.Nat,
+    'weeks' : IDL.Nat,
+  });
+  const FollowUpProtocol = IDL.Record({
+    'categoryPattern' : IDL.Text,
+    'id' : IDL.Text,
+    'milestones' : IDL.Vec(ReviewInterval),
+    'name' : IDL.Text,
+    'thenEveryMonths' : IDL.Nat,
+  });
+  const CertifiedAuditTrail = IDL.Record({
+    'canisterId' : IDL.Text,
+    'certificate' : IDL.Vec(IDL.Nat8),
+    'entries' : IDL.Vec(AuditEntry),
+  });
+  return IDL.Service({
+    'archiveImplantRecord' : IDL.Func([IDL.Text], [ImplantRecord], []),
+    'assignRole' : IDL.Func([IDL.Text, IDL.Text], [RoleAssignment], []),
+    'closeRecall' : IDL.Func([IDL.Text], [Recall], []),
+    'createImplantRecord' : IDL.Func([ImplantRecordInput], [ImplantRecord], []),
+    'createRecall' : IDL.Func([RecallInput], [Recall], []),
+    'deleteSavedView' : IDL.Func([IDL.Text], [], []),
+    'getCallerAccess' : IDL.Func([], [CallerAccess], ['query']),
+    'getCertifiedAuditTrail' : IDL.Func([], [CertifiedAuditTrail], ['query']),
+    'getImplantRecord' : IDL.Func([IDL.Text], [IDL.Opt(ImplantRecord)], ['query']),
+    'getStatus' : IDL.Func([], [IDL.Text], ['query']),
+    'importImplantRecords' : IDL.Func([IDL.Vec(ImplantRecordInput), IDL.Text], [IDL.Vec(ImplantRecord)], []),
+    'listAnalyticsRecords' : IDL.Func([], [IDL.Vec(ImplantRecord)], ['query']),
+    'listAuditEntries' : IDL.Func([], [IDL.Vec(AuditEntry)], ['query']),
+    'listDevices' : IDL.Func([], [IDL.Vec(CatalogueDevice)], ['query']),
+    'listFollowUpEvents' : IDL.Func([IDL.Text], [IDL.Vec(FollowUpEvent)], ['query']),
+    'listFollowUpProtocols' : IDL.Func([], [IDL.Vec(FollowUpProtocol)], ['query']),
+    'listGovernanceItems' : IDL.Func([], [IDL.Vec(GovernanceItem)], ['query']),
+    'listImplantRecords' : IDL.Func([IDL.Bool], [IDL.Vec(ImplantRecord)], ['query']),
+    'listInstitutions' : IDL.Func([], [IDL.Vec(Institution)], ['query']),
+    'listRecallNotices' : IDL.Func([IDL.Text], [IDL.Vec(RecallNotice)], ['query']),
+    'listRecalls' : IDL.Func([], [IDL.Vec(Recall)], ['query']),
+    'listRecordVersions' : IDL.Func([IDL.Text], [IDL.Vec(RecordVersion)], ['query']),
+    'listReviewHistory' : IDL.Func([], [IDL.Vec(ReviewHistory)], ['query']),
+    'listRoleAssignments' : IDL.Func([], [IDL.Vec(RoleAssignment)], ['query']),
+    'listSavedViews' : IDL.Func([], [IDL.Vec(SavedView)], ['query']),
+    'listUserAccounts' : IDL.Func([], [IDL.Vec(UserAccount)], ['query']),
+    'logFollowUpEvent' : IDL.Func([FollowUpEventInput], [FollowUpEvent], []),
+    'queryImplantRecords' : IDL.Func([RecordFilter, RecordSort, IDL.Nat, IDL.Nat], [RecordPage], ['query']),
+    'raiseGovernanceItem' : IDL.Func([GovernanceItemInput], [GovernanceItem], []),
+    'recordAuditEvent' : IDL.Func([AuditEventInput], [AuditEntry], []),
+    'recordLogin' : IDL.Func([], [], []),
+    'registerDevice' : IDL.Func([CatalogueDeviceInput], [CatalogueDevice], []),
+    'registerInstitution' : IDL.Func([IDL.Text], [Institution], []),
+    'registerUser' : IDL.Func([UserAccountInput], [UserAccount], []),
+    'retireDevice' : IDL.Func([IDL.Text], [CatalogueDevice], []),
+    'revokeRole' : IDL.Func([IDL.Text], [], []),
+    'saveFollowUpProtocols' : IDL.Func([IDL.Vec(FollowUpProtocol)], [IDL.Vec(FollowUpProtocol)], []),
+    'saveView' : IDL.Func([SavedViewInput], [SavedView], []),
+    'setUserSuspended' : IDL.Func([IDL.Text, IDL.Bool], [UserAccount], []),
+    'updateGovernanceItem' : IDL.Func([IDL.Text, IDL.Text, IDL.Text], [GovernanceItem], []),
+    'updateImplantRecord' : IDL.Func([IDL.Text, ImplantRecordInput, IDL.Text], [ImplantRecord], []),
+    'updateRecallNotice' : IDL.Func([RecallNoticeInput], [RecallNotice], []),
+    'updateUserAccount' : IDL.Func([IDL.Text, IDL.Text, IDL.Text], [UserAccount], []),
+  });
 };
 
 export const init = ({ IDL }) => { return []; };
\ No newline at end of file
@@ -0,0 +1,584 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useMemo } from "react";
+import {
+  type CallerAccess,
+  type Permission,
+  type Role,
+  type RoleAssignment,
+  type UserAccount,
+  type UserAccountInput,
+  type UserAccountUpdate,
+  hasPermission,
+} from "../registryAccess";
+import type { AuditEntry, AuditEventInput } from "../registryAudit";
+import type { SavedView, SavedViewInput } from "../registryColumns";
+import type { ImplantRecord } from "../registryData";
+import type { CatalogueDevice, CatalogueDeviceInput } from "../registryDevices";
+import type {
+  FollowUpEvent,
+  FollowUpEventInput,
+  FollowUpProtocol,
+  ReviewHistory,
+} from "../registryFollowUp";
+import type {
+  GovernanceItem,
+  GovernanceItemInput,
+  GovernanceItemUpdate,
+} from "../registryGovernance";
+import type { RecordVersion } from "../registryHistory";
+import {
+  type DataScope,
+  type Institution,
+  type RecordVisibility,
+  applyVisibility,
+  dataScope,
+  recordVisibility,
+} from "../registryInstitutions";
+import {
+  MAX_PAGE_SIZE,
+  type PageRequest,
+  type RecordFilter,
+  type RecordPage,
+  type RecordSort,
+} from "../registryQuery";
+import type {
+  Recall,
+  RecallInput,
+  RecallNotice,
+  RecallNoticeInput,
+} from "../registryRecall";
+import {
+  BackendRegistryRepository,
+  type ImplantRecordInput,
+  InMemoryRegistryRepository,
+  type RegistryRepository,
+} from "../registryRepository";
+import {
+  type SyntheticDatasetOptions,
+  importSyntheticCases,
+  offlineSeedRecords,
+} from "../registrySynthetic";
+import { useActor } from "./useActor";
+import { useInternetIdentity } from "./useInternetIdentity";
+
+const REGISTRY_QUERY_KEY = "registry";
+
+// Shared across the app so records created offline survive re-renders.
+const inMemoryRepository = new InMemoryRegistryRepository(offlineSeedRecords());
+
+export type RegistrySource = "backend" | "memory";
+
+/**
+ * Resolves the registry repository: the canister when an actor is available,
+ * otherwise the in-memory store seeded with the simulated pilot dataset.
+ */
+export function useRegistryRepository(): {
+  repository: RegistryRepository;
+  source: RegistrySource;
+} {
+  const { actor } = useActor();
+  return useMemo(
+    () =>
+      actor
+        ? {
+            repository: new BackendRegistryRepository(actor),
+            source: "backend",
+          }
+        : { repository: inMemoryRepository, source: "memory" },
+    [actor],
+  );
+}
+
+export function useCallerAccess() {
+  const { repository, source } = useRegistryRepository();
+  const author = useAuthor();
+  return useQuery<CallerAccess>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "access", author],
+    queryFn: () => repository.getCallerAccess(author),
+  });
+}
+
+/**
+ * Permission checks for the current session. Until the caller's access has
+ * loaded every check fails closed.
+ */
+export function useAccess() {
+  const { data: access } = useCallerAccess();
+  const role = access?.role ?? null;
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role],
+  );
+  return { access, role, can };
+}
+
+/** The institutions whose records the current session may see. */
+export function useDataScope(): DataScope {
+  const { access } = useAccess();
+  return useMemo(() => dataScope(access), [access]);
+}
+
+function useVisibility(): RecordVisibility {
+  const { access } = useAccess();
+  return useMemo(() => recordVisibility(access), [access]);
+}
+
+/**
+ * The canister already confines records to the caller's institution and
+ * withholds identifiers; applying both again here covers the in-memory
+ * store, which serves every caller the same records.
+ */
+function useRecordVisibility() {
+  const visibility = useVisibility();
+  return useCallback(
+    (records: ImplantRecord[]) => applyVisibility(records, visibility),
+    [visibility],
+  );
+}
+
+export function useImplantRecords() {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  const visible = useRecordVisibility();
+  return useQuery<ImplantRecord[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "list"],
+    queryFn: () => repository.list(),
+    enabled: can("viewCaseRecords"),
+    select: visible,
+  });
+}
+
+/**
+ * Records behind the dashboard figures and lifecycle analytics. Roles with
+ * case record access use the records they may see; roles that only compare
+ * institutions get the canister's de-identified projection.
+ */
+export function useAnalyticsRecords() {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  const caseRecords = useImplantRecords();
+  const projection = useQuery<ImplantRecord[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "analytics"],
+    queryFn: () => repository.listAnalyticsRecords(),
+    enabled: !can("viewCaseRecords") && can("viewAllInstitutions"),
+  });
+  return can("viewCaseRecords") ? caseRecords : projection;
+}
+
+/** Review dates behind the quarterly follow-up compliance trend. */
+export function useReviewHistory() {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  return useQuery<ReviewHistory[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "review-history"],
+    queryFn: () => repository.listReviewHistory(),
+    enabled: can("viewCaseRecords") || can("viewAllInstitutions"),
+  });
+}
+
+/**
+ * Loads every record matching `filter`, page by page, as the caller may see
+ * them; for exports of the filtered registry view.
+ */
+export function useFilteredRecordsLoader() {
+  const { repository } = useRegistryRepository();
+  const visibility = useVisibility();
+  return useCallback(
+    async (filter: RecordFilter, sort: RecordSort) => {
+      const records: ImplantRecord[] = [];
+      for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+        const page = await repository.query(
+          filter,
+          sort,
+          { offset, limit: MAX_PAGE_SIZE },
+          visibility,
+        );
+        records.push(...page.items);
+        if (page.items.length === 0 || records.length >= page.total) break;
+      }
+      return records;
+    },
+    [repository, visibility],
+  );
+}
+
+export function useImplantRecordPage(
+  filter: RecordFilter,
+  sort: RecordSort,
+  page: PageRequest,
+) {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  const visibility = useVisibility();
+  return useQuery<RecordPage>({
+    queryKey: [
+      REGISTRY_QUERY_KEY,
+      source,
+      "page",
+      filter,
+      sort,
+      page,
+      visibility,
+    ],
+    queryFn: () => repository.query(filter, sort, page, visibility),
+    enabled: can("viewCaseRecords"),
+    placeholderData: (previous) => previous,
+  });
+}
+
+export function useImplantRecord(id: string | null) {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  const visible = useRecordVisibility();
+  return useQuery<ImplantRecord | null>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "record", id],
+    queryFn: () => (id ? repository.get(id) : null),
+    enabled: id !== null && can("viewCaseRecords"),
+    select: (record) => (record && visible([record])[0]) ?? null,
+  });
+}
+
+export function useRecordVersions(id: string | null) {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  const visible = useRecordVisibility();
+  return useQuery<RecordVersion[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "versions", id],
+    queryFn: () => (id ? repository.listVersions(id) : []),
+    enabled: id !== null && can("viewCaseRecords"),
+    select: (versions) =>
+      versions.flatMap((v) =>
+        visible([v.snapshot]).map((snapshot) => ({ ...v, snapshot })),
+      ),
+  });
+}
+
+export function useFollowUpEvents(recordId: string | null) {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  return useQuery<FollowUpEvent[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "events", recordId],
+    queryFn: () => (recordId ? repository.listFollowUpEvents(recordId) : []),
+    enabled: recordId !== null && can("viewCaseRecords"),
+  });
+}
+
+function useAuthor(): string {
+  const { identity } = useInternetIdentity();
+  return identity?.getPrincipal().toText() ?? "Anonymous session";
+}
+
+function useRegistryMutation<TVariables, TResult = ImplantRecord>(
+  mutationFn: (
+    repository: RegistryRepository,
+    variables: TVariables,
+    author: string,
+  ) => Promise<TResult>,
+) {
+  const { repository } = useRegistryRepository();
+  const author = useAuthor();
+  const queryClient = useQueryClient();
+  return useMutation<TResult, Error, TVariables>({
+    mutationFn: (variables) => mutationFn(repository, variables, author),
+    // Refetch after failures too: a batched import may have committed part
+    // of its work before failing.
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: [REGISTRY_QUERY_KEY] }),
+  });
+}
+
+export function useCreateImplantRecord() {
+  return useRegistryMutation<ImplantRecordInput>((repository, input, author) =>
+    repository.create(input, { author, note: "Case registered" }),
+  );
+}
+
+export function useImportImplantRecords() {
+  return useRegistryMutation<
+    { inputs: ImplantRecordInput[]; source: string },
+    ImplantRecord[]
+  >((repository, { inputs, source }, author) =>
+    repository.importRecords(inputs, source, author),
+  );
+}
+
+/** Generates a synthetic dataset and imports it in batches. */
+export function useImportSyntheticCases() {
+  return useRegistryMutation<SyntheticDatasetOptions, ImplantRecord[]>(
+    (repository, options, author) =>
+      importSyntheticCases(options, (inputs, source) =>
+        repository.importRecords(inputs, source, author),
+      ),
+  );
+}
+
+export function useUpdateImplantRecord() {
+  return useRegistryMutation<{
+    id: string;
+    changes: Partial<ImplantRecordInput>;
+    note: string;
+  }>((repository, { id, changes, note }, author) =>
+    repository.update(id, changes, { author, note }),
+  );
+}
+
+export function useArchiveImplantRecord() {
+  return useRegistryMutation<string>((repository, id, author) =>
+    repository.archive(id, { author, note: "Record archived" }),
+  );
+}
+
+export function useLogFollowUpEvent() {
+  return useRegistryMutation<FollowUpEventInput, FollowUpEvent>(
+    (repository, input, author) => repository.logFollowUpEvent(input, author),
+  );
+}
+
+export function useSavedViews() {
+  const { repository, source } = useRegistryRepository();
+  const author = useAuthor();
+  return useQuery<SavedView[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "views", author],
+    queryFn: () => repository.listSavedViews(author),
+  });
+}
+
+export function useSaveView() {
+  return useRegistryMutation<SavedViewInput, SavedView>(
+    (repository, input, author) => repository.saveView(input, author),
+  );
+}
+
+export function useDeleteSavedView() {
+  return useRegistryMutation<string, void>((repository, id, author) =>
+    repository.deleteSavedView(id, author),
+  );
+}
+
+export function useRecalls() {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  return useQuery<Recall[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "recalls"],
+    queryFn: () => repository.listRecalls(),
+    enabled: can("viewCaseRecords"),
+  });
+}
+
+export function useRecallNotices(recallId: string | null) {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  return useQuery<RecallNotice[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "recallNotices", recallId],
+    queryFn: () => (recallId ? repository.listRecallNotices(recallId) : []),
+    enabled: recallId !== null && can("viewCaseRecords"),
+  });
+}
+
+export function useCreateRecall() {
+  return useRegistryMutation<RecallInput, Recall>((repository, input, author) =>
+    repository.createRecall(input, author),
+  );
+}
+
+export function useCloseRecall() {
+  return useRegistryMutation<string, Recall>((repository, id, author) =>
+    repository.closeRecall(id, author),
+  );
+}
+
+export function useUpdateRecallNotice() {
+  return useRegistryMutation<RecallNoticeInput, RecallNotice>(
+    (repository, input, author) => repository.updateRecallNotice(input, author),
+  );
+}
+
+export function useGovernanceItems() {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  return useQuery<GovernanceItem[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "governance"],
+    queryFn: () => repository.listGovernanceItems(),
+    enabled: can("raiseGovernance"),
+  });
+}
+
+export function useRaiseGovernanceItem() {
+  return useRegistryMutation<GovernanceItemInput, GovernanceItem>(
+    (repository, input, author) =>
+      repository.raiseGovernanceItem(input, author),
+  );
+}
+
+export function useUpdateGovernanceItem() {
+  return useRegistryMutation<GovernanceItemUpdate, GovernanceItem>(
+    (repository, update, author) =>
+      repository.updateGovernanceItem(update, author),
+  );
+}
+
+export function useRoleAssignments() {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  return useQuery<RoleAssignment[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "roles"],
+    queryFn: () => repository.listRoleAssignments(),
+    enabled: can("manageRoles"),
+  });
+}
+
+export function useAssignRole() {
+  return useRegistryMutation<{ principal: string; role: Role }, RoleAssignment>(
+    (repository, { principal, role }, author) =>
+      repository.assignRole(principal, role, author),
+  );
+}
+
+export function useRevokeRole() {
+  return useRegistryMutation<string, void>((repository, principal, author) =>
+    repository.revokeRole(principal, author),
+  );
+}
+
+export function useInstitutions() {
+  const { repository, source } = useRegistryRepository();
+  return useQuery<Institution[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "institutions"],
+    queryFn: () => repository.listInstitutions(),
+  });
+}
+
+export function useRegisterInstitution() {
+  return useRegistryMutation<string, Institution>((repository, name, author) =>
+    repository.registerInstitution(name, author),
+  );
+}
+
+export function useDevices() {
+  const { repository, source } = useRegistryRepository();
+  return useQuery<CatalogueDevice[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "devices"],
+    queryFn: () => repository.listDevices(),
+  });
+}
+
+export function useRegisterDevice() {
+  return useRegistryMutation<CatalogueDeviceInput, CatalogueDevice>(
+    (repository, input, author) => repository.registerDevice(input, author),
+  );
+}
+
+export function useRetireDevice() {
+  return useRegistryMutation<string, CatalogueDevice>(
+    (repository, id, author) => repository.retireDevice(id, author),
+  );
+}
+
+export function useFollowUpProtocols() {
+  const { repository, source } = useRegistryRepository();
+  return useQuery<FollowUpProtocol[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "follow-up-protocols"],
+    queryFn: () => repository.listFollowUpProtocols(),
+  });
+}
+
+export function useSaveFollowUpProtocols() {
+  return useRegistryMutation<FollowUpProtocol[], FollowUpProtocol[]>(
+    (repository, protocols, author) =>
+      repository.saveFollowUpProtocols(protocols, author),
+  );
+}
+
+export function useUserAccounts() {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  return useQuery<UserAccount[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "users"],
+    queryFn: () => repository.listUserAccounts(),
+    enabled: can("manageRoles"),
+  });
+}
+
+export function useRegisterUser() {
+  return useRegistryMutation<UserAccountInput, UserAccount>(
+    (repository, input, author) => repository.registerUser(input, author),
+  );
+}
+
+export function useUpdateUserAccount() {
+  return useRegistryMutation<UserAccountUpdate, UserAccount>(
+    (repository, update, author) =>
+      repository.updateUserAccount(update, author),
+  );
+}
+
+export function useSetUserSuspended() {
+  return useRegistryMutation<
+    { principal: string; suspended: boolean },
+    UserAccount
+  >((repository, { principal, suspended }, author) =>
+    repository.setUserSuspended(principal, suspended, author),
+  );
+}
+
+// Sessions already stamped, keyed by source and principal, so re-renders and
+// actor refreshes do not log the same sign-in twice.
+const recordedLogins = new Set<string>();
+
+/**
+ * Stamps the last-login time once per signed-in session, so Administrators
+ * can see when each account was last used.
+ */
+export function useRecordLogin() {
+  const { repository, source } = useRegistryRepository();
+  const { identity } = useInternetIdentity();
+  const author = useAuthor();
+  const queryClient = useQueryClient();
+  useEffect(() => {
+    const key = `${source}:${author}`;
+    if (!identity || recordedLogins.has(key)) return;
+    recordedLogins.add(key);
+    repository
+      .recordLogin(author)
+      .then(() =>
+        queryClient.invalidateQueries({
+          queryKey: [REGISTRY_QUERY_KEY, source],
+        }),
+      )
+      // A missed stamp only leaves the last-login time stale.
+      .catch(() => recordedLogins.delete(key));
+  }, [identity, repository, source, author, queryClient]);
+}
+
+export function useAuditEntries() {
+  const { repository, source } = useRegistryRepository();
+  const { can } = useAccess();
+  return useQuery<AuditEntry[]>({
+    queryKey: [REGISTRY_QUERY_KEY, source, "audit"],
+    queryFn: () => repository.listAuditEntries(),
+    enabled: can("viewAuditTrail"),
+  });
+}
+
+/** Reads the whole trail with its certificate, for the JSON export. */
+export function useCertifiedAuditTrailLoader() {
+  const { repository } = useRegistryRepository();
+  return useCallback(() => repository.getCertifiedAuditTrail(), [repository]);
+}
+
+/**
+ * Reports a view or export to the audit trail. Only the trail is refetched,
+ * so opening a case does not reload the registry.
+ */
+export function useRecordAuditEvent() {
+  const { repository, source } = useRegistryRepository();
+  const author = useAuthor();
+  const queryClient = useQueryClient();
+  return useMutation<AuditEntry, Error, AuditEventInput>({
+    mutationFn: (input) => repository.recordAuditEvent(input, author),
+    onSuccess: () =>
+      queryClient.invalidateQueries({
+        queryKey: [REGISTRY_QUERY_KEY, source, "audit"],
+      }),
+  });
+}
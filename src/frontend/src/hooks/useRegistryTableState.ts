@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  type RegistryTableState,
+  parseTableState,
+  serializeTableState,
+} from "../registryTableState";
+
+function readLocation(): RegistryTableState {
+  return parseTableState(window.location.search);
+}
+
+/**
+ * Registry table filters, sort and page mirrored in the query string so a
+ * filtered view can be bookmarked or shared.
+ */
+export function useRegistryTableState(): [
+  RegistryTableState,
+  (next: RegistryTableState) => void,
+] {
+  const [state, setState] = useState(readLocation);
+
+  useEffect(() => {
+    const onPopState = () => setState(readLocation());
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const update = useCallback((next: RegistryTableState) => {
+    const query = serializeTableState(next, window.location.search);
+    const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+    window.history.replaceState(window.history.state, "", url);
+    setState(next);
+  }, []);
+
+  return [state, update];
+}
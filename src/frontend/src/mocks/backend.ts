@@ -0,0 +1,599 @@
+import type {
+  AuditEntry,
+  CatalogueDevice,
+  FollowUpEvent,
+  GovernanceItem,
+  RoleAssignment,
+  ImplantRecord,
+  ImplantRecordInput as BackendImplantRecordInput,
+  Institution,
+  Recall,
+  RecallNotice,
+  RecordVersion,
+  SavedView,
+  UserAccount,
+  backendInterface,
+} from "../backend";
+import {
+  type Permission,
+  type Role,
+  type RoleAssignment as RegistryRoleAssignment,
+  type UserAccount as RegistryUserAccount,
+  hasPermission,
+  redactIdentifiers,
+} from "../registryAccess";
+import {
+  CLIENT_AUDIT_PERMISSIONS,
+  type ClientAuditAction,
+  type AuditEntry as RegistryAuditEntry,
+} from "../registryAudit";
+import {
+  type SavedView as RegistrySavedView,
+  normalizeColumnSettings,
+} from "../registryColumns";
+import {
+  IMPLANT_FIELD_LABELS,
+  type ImplantRecord as RegistryRecord,
+} from "../registryData";
+import type { CatalogueDevice as RegistryCatalogueDevice } from "../registryDevices";
+import type {
+  FollowUpEventType,
+  FollowUpEvent as RegistryFollowUpEvent,
+} from "../registryFollowUp";
+import type {
+  GovernanceLevel,
+  GovernanceStatus,
+  GovernanceItem as RegistryGovernanceItem,
+} from "../registryGovernance";
+import type { RecordVersion as RegistryRecordVersion } from "../registryHistory";
+import {
+  type DataScope,
+  type RecordVisibility,
+  type Institution as RegistryInstitution,
+  applyVisibility,
+  dataScope,
+  inScope,
+  recordVisibility,
+} from "../registryInstitutions";
+import {
+  type ImplantRecordInput,
+  InMemoryRegistryRepository,
+  fromBackendProtocol,
+  fromBackendRecord,
+  toBackendProtocol,
+} from "../registryRepository";
+import {
+  type RecordFilter,
+  type RecordSort,
+  SORT_FIELDS,
+} from "../registryQuery";
+import type {
+  NoticeStatus,
+  Recall as RegistryRecall,
+  RecallNotice as RegistryRecallNotice,
+  RecallSeverity,
+} from "../registryRecall";
+import { offlineSeedRecords } from "../registrySynthetic";
+import { validateImplantRecordInput } from "../registryValidation";
+
+// Offline stand-in for the registry canister, loaded by config.ts when
+// VITE_USE_MOCK=true. Calls arrive unauthenticated, so every write is
+// attributed to the anonymous principal just as the canister would record it.
+// Unlike the canister, the mock lets that principal hold a role so offline
+// demos can exercise every level of the permission matrix.
+const ANONYMOUS_PRINCIPAL = "2vxsx-fae";
+
+const repository = new InMemoryRegistryRepository(offlineSeedRecords());
+
+function toNanoseconds(iso: string): bigint {
+  return BigInt(Date.parse(iso)) * BigInt(1_000_000);
+}
+
+function toRecord(record: RegistryRecord): ImplantRecord {
+  return {
+    ...record,
+    age: BigInt(record.age),
+    complicationsLogged: BigInt(record.complicationsLogged),
+    archived: record.archived ?? false,
+  };
+}
+
+function toVersion(version: RegistryRecordVersion): RecordVersion {
+  return {
+    ...version,
+    version: BigInt(version.version),
+    timestamp: toNanoseconds(version.timestamp),
+    snapshot: toRecord(version.snapshot),
+  };
+}
+
+function toEvent(event: RegistryFollowUpEvent): FollowUpEvent {
+  return { ...event, timestamp: toNanoseconds(event.timestamp) };
+}
+
+function toView(view: RegistrySavedView): SavedView {
+  return {
+    ...view,
+    columns: view.columns.map((c) => ({ id: c.id, width: BigInt(c.width) })),
+    updatedAt: toNanoseconds(view.updatedAt),
+  };
+}
+
+function toRecall(recall: RegistryRecall): Recall {
+  return { ...recall, issuedAt: toNanoseconds(recall.issuedAt) };
+}
+
+function toRecallNotice(notice: RegistryRecallNotice): RecallNotice {
+  return { ...notice, updatedAt: toNanoseconds(notice.updatedAt) };
+}
+
+function toGovernanceItem(item: RegistryGovernanceItem): GovernanceItem {
+  return {
+    ...item,
+    raisedAt: toNanoseconds(item.raisedAt),
+    updatedAt: toNanoseconds(item.updatedAt),
+  };
+}
+
+function toRoleAssignment(
+  assignment: RegistryRoleAssignment,
+): RoleAssignment {
+  return { ...assignment, assignedAt: toNanoseconds(assignment.assignedAt) };
+}
+
+function toDevice(device: RegistryCatalogueDevice): CatalogueDevice {
+  return { ...device, registeredAt: toNanoseconds(device.registeredAt) };
+}
+
+function toInstitution(institution: RegistryInstitution): Institution {
+  return {
+    ...institution,
+    registeredAt: toNanoseconds(institution.registeredAt),
+  };
+}
+
+function toUserAccount(account: RegistryUserAccount): UserAccount {
+  return {
+    ...account,
+    registeredAt: toNanoseconds(account.registeredAt),
+    lastLoginAt: account.lastLoginAt
+      ? toNanoseconds(account.lastLoginAt)
+      : BigInt(0),
+  };
+}
+
+function toAuditEntry(entry: RegistryAuditEntry): AuditEntry {
+  return {
+    ...entry,
+    sequence: BigInt(entry.sequence),
+    timestamp: BigInt(entry.timestamp),
+  };
+}
+
+async function can(permission: Permission): Promise<boolean> {
+  const { role } = await repository.getCallerAccess(ANONYMOUS_PRINCIPAL);
+  return hasPermission(role, permission);
+}
+
+async function requirePermission(permission: Permission): Promise<void> {
+  if (!(await can(permission))) {
+    throw new Error(`Not authorised: ${permission}`);
+  }
+}
+
+async function scope(): Promise<DataScope> {
+  return dataScope(await repository.getCallerAccess(ANONYMOUS_PRINCIPAL));
+}
+
+async function requireInstitutionAccess(institution: string): Promise<void> {
+  if (!inScope(await scope(), institution)) {
+    throw new Error(`Not authorised: records of ${institution}`);
+  }
+}
+
+async function requireRecordInScope(id: string): Promise<void> {
+  const record = await repository.get(id);
+  if (!record) throw new Error(`Implant record not found: ${id}`);
+  await requireInstitutionAccess(record.institution);
+}
+
+async function recordInScope(id: string): Promise<boolean> {
+  const record = await repository.get(id);
+  return record !== null && inScope(await scope(), record.institution);
+}
+
+async function visibility(): Promise<RecordVisibility> {
+  return recordVisibility(
+    await repository.getCallerAccess(ANONYMOUS_PRINCIPAL),
+  );
+}
+
+async function visible(
+  records: RegistryRecord[],
+): Promise<RegistryRecord[]> {
+  return applyVisibility(records, await visibility());
+}
+
+// Reuses the client-side decoding so the mock rejects the same enum values.
+function fromInput(input: BackendImplantRecordInput): ImplantRecordInput {
+  const { id: _id, archived: _archived, ...decoded } = fromBackendRecord({
+    ...input,
+    id: "",
+    archived: false,
+  });
+  return decoded;
+}
+
+// The canister re-validates every record it is sent.
+function validInput(
+  input: BackendImplantRecordInput,
+  prefix = "",
+): ImplantRecordInput {
+  const decoded = fromInput(input);
+  const errors = validateImplantRecordInput(decoded);
+  const field = (Object.keys(errors) as (keyof ImplantRecordInput)[])[0];
+  if (field) {
+    throw new Error(`${prefix}${IMPLANT_FIELD_LABELS[field]}: ${errors[field]}`);
+  }
+  return decoded;
+}
+
+export const mockBackend: backendInterface = {
+  async archiveImplantRecord(id) {
+    await requirePermission("editRecords");
+    await requireRecordInScope(id);
+    const record = await repository.archive(id, {
+      author: ANONYMOUS_PRINCIPAL,
+      note: "Record archived",
+    });
+    return toRecord(record);
+  },
+
+  async assignRole(principal, role) {
+    const assignment = await repository.assignRole(
+      principal,
+      role as Role,
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toRoleAssignment(assignment);
+  },
+
+  async closeRecall(id) {
+    await requirePermission("manageRecalls");
+    return toRecall(await repository.closeRecall(id, ANONYMOUS_PRINCIPAL));
+  },
+
+  async createImplantRecord(input) {
+    await requirePermission("editRecords");
+    await requireInstitutionAccess(input.institution);
+    const record = await repository.create(validInput(input), {
+      author: ANONYMOUS_PRINCIPAL,
+      note: "Case registered",
+    });
+    return toRecord(record);
+  },
+
+  async createRecall(input) {
+    await requirePermission("manageRecalls");
+    const recall = await repository.createRecall(
+      { ...input, severity: input.severity as RecallSeverity },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toRecall(recall);
+  },
+
+  async deleteSavedView(id) {
+    await repository.deleteSavedView(id, ANONYMOUS_PRINCIPAL);
+  },
+
+  async getCallerAccess() {
+    const access = await repository.getCallerAccess(ANONYMOUS_PRINCIPAL);
+    return { ...access, role: access.role ?? "" };
+  },
+
+  async getCertifiedAuditTrail() {
+    await requirePermission("viewAuditTrail");
+    const trail = await repository.getCertifiedAuditTrail();
+    return { ...trail, entries: trail.entries.map(toAuditEntry) };
+  },
+
+  async getImplantRecord(id) {
+    await requirePermission("viewCaseRecords");
+    const record = await repository.get(id);
+    if (!record) return null;
+    const [shown] = await visible([record]);
+    return shown ? toRecord(shown) : null;
+  },
+
+  async getStatus() {
+    return "Live";
+  },
+
+  async importImplantRecords(inputs, source) {
+    await requirePermission("editRecords");
+    const decoded = inputs.map((input, i) => validInput(input, `Row ${i + 1}: `));
+    for (const input of decoded) {
+      await requireInstitutionAccess(input.institution);
+    }
+    const records = await repository.importRecords(
+      decoded,
+      source,
+      ANONYMOUS_PRINCIPAL,
+    );
+    return records.map(toRecord);
+  },
+
+  async listAuditEntries() {
+    await requirePermission("viewAuditTrail");
+    const entries = await repository.listAuditEntries();
+    return entries.map(toAuditEntry);
+  },
+
+  async listDevices() {
+    const devices = await repository.listDevices();
+    return devices.map(toDevice);
+  },
+
+  async listFollowUpEvents(recordId) {
+    await requirePermission("viewCaseRecords");
+    if (!(await recordInScope(recordId))) return [];
+    const events = await repository.listFollowUpEvents(recordId);
+    return events.map(toEvent);
+  },
+
+  async listFollowUpProtocols() {
+    const protocols = await repository.listFollowUpProtocols();
+    return protocols.map(toBackendProtocol);
+  },
+
+  async listGovernanceItems() {
+    await requirePermission("raiseGovernance");
+    const items = await repository.listGovernanceItems();
+    return items.map(toGovernanceItem);
+  },
+
+  async listAnalyticsRecords() {
+    await requirePermission("viewAllInstitutions");
+    const records = await repository.listAnalyticsRecords();
+    return records.map(toRecord);
+  },
+
+  async listImplantRecords(includeArchived) {
+    await requirePermission("viewCaseRecords");
+    const records = await repository.list({ includeArchived });
+    return (await visible(records)).map(toRecord);
+  },
+
+  async listInstitutions() {
+    const institutions = await repository.listInstitutions();
+    return institutions.map(toInstitution);
+  },
+
+  async listRecallNotices(recallId) {
+    await requirePermission("viewCaseRecords");
+    const notices = await repository.listRecallNotices(recallId);
+    const shown: RegistryRecallNotice[] = [];
+    for (const notice of notices) {
+      if (await recordInScope(notice.recordId)) shown.push(notice);
+    }
+    return shown.map(toRecallNotice);
+  },
+
+  async listRecalls() {
+    await requirePermission("viewCaseRecords");
+    const recalls = await repository.listRecalls();
+    return recalls.map(toRecall);
+  },
+
+  async listRecordVersions(id) {
+    await requirePermission("viewCaseRecords");
+    if (!(await recordInScope(id))) return [];
+    const versions = await repository.listVersions(id);
+    const identifiable = await can("viewIdentifiers");
+    return versions
+      .map((v) =>
+        identifiable ? v : { ...v, snapshot: redactIdentifiers(v.snapshot) },
+      )
+      .map(toVersion);
+  },
+
+  async listReviewHistory() {
+    const crossInstitution = await can("viewAllInstitutions");
+    if (!crossInstitution) await requirePermission("viewCaseRecords");
+    const history = await repository.listReviewHistory();
+    const visible = await Promise.all(
+      history.map((h) => crossInstitution || recordInScope(h.recordId)),
+    );
+    return history.filter((_, i) => visible[i]);
+  },
+
+  async listRoleAssignments() {
+    await requirePermission("manageRoles");
+    const assignments = await repository.listRoleAssignments();
+    return assignments.map(toRoleAssignment);
+  },
+
+  async listSavedViews() {
+    const views = await repository.listSavedViews(ANONYMOUS_PRINCIPAL);
+    return views.map(toView);
+  },
+
+  async listUserAccounts() {
+    await requirePermission("manageRoles");
+    const accounts = await repository.listUserAccounts();
+    return accounts.map(toUserAccount);
+  },
+
+  async logFollowUpEvent(input) {
+    await requirePermission("editRecords");
+    await requireRecordInScope(input.recordId);
+    const event = await repository.logFollowUpEvent(
+      { ...input, eventType: input.eventType as FollowUpEventType },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toEvent(event);
+  },
+
+  async queryImplantRecords(filter, sort, offset, limit) {
+    await requirePermission("viewCaseRecords");
+    const registryFilter: RecordFilter = {
+      includeArchived: filter.includeArchived,
+        search: filter.search,
+        followUpStatus: (filter.followUpStatus ||
+          undefined) as RegistryRecord["followUpStatus"],
+        alertLevel: (filter.alertLevel ||
+          undefined) as RegistryRecord["alertLevel"],
+        riskLevel: (filter.riskLevel ||
+          undefined) as RegistryRecord["riskLevel"],
+        implantCategory: filter.implantCategory || undefined,
+        manufacturer: filter.manufacturer || undefined,
+        operatingSurgeon: filter.operatingSurgeon || undefined,
+        institution: filter.institution || undefined,
+    };
+    const registrySort: RecordSort = {
+      field: SORT_FIELDS.find((f) => f === sort.field),
+      descending: sort.descending,
+    };
+    const request = { offset: Number(offset), limit: Number(limit) };
+    const page = await repository.query(
+      registryFilter,
+      registrySort,
+      request,
+      await visibility(),
+    );
+    return {
+      items: page.items.map(toRecord),
+      total: BigInt(page.total),
+      offset: BigInt(page.offset),
+      limit: BigInt(page.limit),
+    };
+  },
+
+  async raiseGovernanceItem(input) {
+    await requirePermission("raiseGovernance");
+    const item = await repository.raiseGovernanceItem(
+      { ...input, level: input.level as GovernanceLevel },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toGovernanceItem(item);
+  },
+
+  async recordAuditEvent(input) {
+    const permission =
+      CLIENT_AUDIT_PERMISSIONS[input.action as ClientAuditAction];
+    if (!permission) {
+      throw new Error(`Unknown audit action: ${input.action}`);
+    }
+    await requirePermission(permission);
+    const entry = await repository.recordAuditEvent(
+      { ...input, action: input.action as ClientAuditAction },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toAuditEntry(entry);
+  },
+
+  async recordLogin() {
+    await repository.recordLogin(ANONYMOUS_PRINCIPAL);
+  },
+
+  async registerUser(input) {
+    const account = await repository.registerUser(
+      { ...input, role: input.role ? (input.role as Role) : null },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toUserAccount(account);
+  },
+
+  async registerDevice(input) {
+    await requirePermission("manageDevices");
+    const device = await repository.registerDevice(input, ANONYMOUS_PRINCIPAL);
+    return toDevice(device);
+  },
+
+  async registerInstitution(name) {
+    const institution = await repository.registerInstitution(
+      name,
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toInstitution(institution);
+  },
+
+  async retireDevice(id) {
+    await requirePermission("manageDevices");
+    const device = await repository.retireDevice(id, ANONYMOUS_PRINCIPAL);
+    return toDevice(device);
+  },
+
+  async revokeRole(principal) {
+    await repository.revokeRole(principal, ANONYMOUS_PRINCIPAL);
+  },
+
+  async saveFollowUpProtocols(protocols) {
+    await requirePermission("manageProtocols");
+    const saved = await repository.saveFollowUpProtocols(
+      protocols.map(fromBackendProtocol),
+      ANONYMOUS_PRINCIPAL,
+    );
+    return saved.map(toBackendProtocol);
+  },
+
+  async saveView(input) {
+    const view = await repository.saveView(
+      {
+        ...input,
+        columns: normalizeColumnSettings(
+          input.columns.map((c) => ({ id: c.id, width: Number(c.width) })),
+        ),
+      },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toView(view);
+  },
+
+  async setUserSuspended(principal, suspended) {
+    const account = await repository.setUserSuspended(
+      principal,
+      suspended,
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toUserAccount(account);
+  },
+
+  async updateRecallNotice(input) {
+    await requirePermission("recordCallBacks");
+    await requireRecordInScope(input.recordId);
+    const notice = await repository.updateRecallNotice(
+      { ...input, status: input.status as NoticeStatus },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toRecallNotice(notice);
+  },
+
+  async updateGovernanceItem(id, status, resolution) {
+    await requirePermission("reviewGovernance");
+    const item = await repository.updateGovernanceItem(
+      { id, status: status as GovernanceStatus, resolution },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toGovernanceItem(item);
+  },
+
+  async updateImplantRecord(id, input, note) {
+    await requirePermission("editRecords");
+    await requireRecordInScope(id);
+    await requireInstitutionAccess(input.institution);
+    const record = await repository.update(id, validInput(input), {
+      author: ANONYMOUS_PRINCIPAL,
+      note,
+    });
+    return toRecord(record);
+  },
+
+  async updateUserAccount(principal, displayName, institution) {
+    const account = await repository.updateUserAccount(
+      { principal, displayName, institution },
+      ANONYMOUS_PRINCIPAL,
+    );
+    return toUserAccount(account);
+  },
+};
@@ -0,0 +1,205 @@
+import type { ImplantRecord } from "./registryData";
+
+export const ROLES = [
+  "Orthopedic Surgeon",
+  "Department Head",
+  "Quality Officer",
+  "Regional Registry Staff",
+  "Administrator",
+] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_DESCRIPTIONS: Record<
+  Role,
+  { access: string; description: string }
+> = {
+  "Orthopedic Surgeon": {
+    access: "Full Case Review Access",
+    description:
+      "View individual case records, device specifications, surgical data, and clinical alerts at their own institution.",
+  },
+  "Department Head": {
+    access: "Registry Overview & Compliance Metrics",
+    description:
+      "Access their institution's dashboard and compliance reporting without patient identifiers.",
+  },
+  "Quality Officer": {
+    access: "Follow-Up Compliance Analytics",
+    description:
+      "Monitor follow-up trends and compliance metrics, manage recalls, the device catalogue and follow-up protocols, and review outlier signals.",
+  },
+  "Regional Registry Staff": {
+    access: "Cross-Institution Analytics",
+    description:
+      "Compare outcomes across participating institutions from aggregated, de-identified registry data.",
+  },
+  Administrator: {
+    access: "Audit & Monitoring Controls",
+    description:
+      "Full audit trail access, role assignment and system administration.",
+  },
+};
+
+export const PERMISSIONS = [
+  "viewCaseRecords",
+  "viewIdentifiers",
+  "editRecords",
+  "exportData",
+  "manageRecalls",
+  "manageDevices",
+  "manageProtocols",
+  "recordCallBacks",
+  "raiseGovernance",
+  "reviewGovernance",
+  "manageRoles",
+  "viewAuditTrail",
+  "viewAllInstitutions",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  viewCaseRecords: "View case records",
+  viewIdentifiers: "View patient identifiers",
+  editRecords: "Register and edit cases",
+  exportData: "Export registry data",
+  manageRecalls: "Issue and close recalls",
+  manageDevices: "Maintain the device catalogue",
+  manageProtocols: "Configure follow-up protocols",
+  recordCallBacks: "Record recall call-backs",
+  raiseGovernance: "Raise governance items",
+  reviewGovernance: "Resolve governance items",
+  manageRoles: "Assign roles",
+  viewAuditTrail: "Browse the audit trail",
+  viewAllInstitutions: "See every institution's data",
+};
+
+/**
+ * Declarative permission matrix, mirrored by the canister's
+ * `permissionMatrix`. Principals without a role get no permissions. Without
+ * `viewAllInstitutions`, data is limited to the caller's own institution.
+ */
+export const PERMISSION_MATRIX: Record<Role, readonly Permission[]> = {
+  "Orthopedic Surgeon": [
+    "viewCaseRecords",
+    "viewIdentifiers",
+    "editRecords",
+    "recordCallBacks",
+  ],
+  "Department Head": ["viewCaseRecords", "exportData", "raiseGovernance"],
+  "Quality Officer": [
+    "viewCaseRecords",
+    "viewIdentifiers",
+    "exportData",
+    "manageRecalls",
+    "manageDevices",
+    "manageProtocols",
+    "recordCallBacks",
+    "raiseGovernance",
+    "reviewGovernance",
+    "viewAuditTrail",
+    "viewAllInstitutions",
+  ],
+  "Regional Registry Staff": [
+    "exportData",
+    "raiseGovernance",
+    "viewAllInstitutions",
+  ],
+  Administrator: PERMISSIONS,
+};
+
+export interface RoleAssignment {
+  principal: string;
+  role: Role;
+  assignedBy: string;
+  /** ISO timestamp. */
+  assignedAt: string;
+}
+
+/** What the current session may do, as resolved by the repository. */
+export interface CallerAccess {
+  principal: string;
+  role: Role | null;
+  /** False until someone claims the first Administrator role. */
+  administratorAssigned: boolean;
+  /** Suspended accounts keep their role but act without permissions. */
+  suspended: boolean;
+  /** Institution on the caller's account; empty when none is assigned. */
+  institution: string;
+}
+
+/**
+ * A principal known to the registry. Roles are held separately as
+ * `RoleAssignment`s; principals given a role before being registered get an
+ * account with an empty display name.
+ */
+export interface UserAccount {
+  principal: string;
+  displayName: string;
+  institution: string;
+  suspended: boolean;
+  registeredBy: string;
+  /** ISO timestamp. */
+  registeredAt: string;
+  /** ISO timestamp; null until the user first signs in. */
+  lastLoginAt: string | null;
+}
+
+export interface UserAccountInput {
+  principal: string;
+  displayName: string;
+  institution: string;
+  role: Role | null;
+}
+
+export interface UserAccountUpdate {
+  principal: string;
+  displayName: string;
+  institution: string;
+}
+
+/** Stands in for patient identifiers the caller may not see. */
+export const REDACTED_IDENTIFIER = "Restricted";
+
+export function hasPermission(
+  role: Role | null,
+  permission: Permission,
+): boolean {
+  return role !== null && PERMISSION_MATRIX[role].includes(permission);
+}
+
+export function redactIdentifiers<T extends Pick<ImplantRecord, "patientId">>(
+  record: T,
+): T {
+  return { ...record, patientId: REDACTED_IDENTIFIER };
+}
+
+/**
+ * De-identified projection served to roles that compare institutions without
+ * case record access, mirroring the canister's `analyticsProjection`: the
+ * identifier and the fields that could single out a patient are dropped.
+ */
+export function toAnalyticsRecord(record: ImplantRecord): ImplantRecord {
+  return {
+    ...redactIdentifiers(record),
+    primaryDiagnosis: "",
+    comorbidities: "",
+    lotNumber: "",
+  };
+}
+
+/**
+ * Role changes follow the canister's rules: Administrators assign roles, and
+ * while none exists a principal may claim Administrator for itself so a
+ * fresh deployment can be bootstrapped.
+ */
+export function canAssignRole(
+  assignments: RoleAssignment[],
+  author: string,
+  principal: string,
+  role: Role,
+): boolean {
+  const authorRole = assignments.find((a) => a.principal === author)?.role;
+  if (hasPermission(authorRole ?? null, "manageRoles")) return true;
+  const bootstrapping = !assignments.some((a) => a.role === "Administrator");
+  return bootstrapping && principal === author && role === "Administrator";
+}
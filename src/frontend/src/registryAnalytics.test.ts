@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { computeComplianceTrend } from "./registryAnalytics";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import { DEFAULT_FOLLOW_UP_PROTOCOLS } from "./registryFollowUp";
+
+const AS_OF = new Date("2026-10-19T00:00:00Z");
+
+function record(
+  id: string,
+  surgeryDate: string,
+  lastReview: string,
+): ImplantRecord {
+  return {
+    ...REGISTRY_DATA[0],
+    id,
+    implantCategory: "Total Knee Arthroplasty",
+    surgeryDate,
+    lastReview,
+  };
+}
+
+// Arthroplasty reviews fall due 6 weeks and 12 months after surgery.
+const RECORDS = [
+  // 12-month review due 2026-01-10, held late on 2026-08-01.
+  record("a", "2025-01-10", "2026-08-01"),
+  // 6-week review due 2026-09-12, held on 2026-10-01.
+  record("b", "2026-08-01", "2026-08-01"),
+  { ...record("c", "2024-01-01", "2024-01-01"), archived: true },
+];
+
+const HISTORY = [
+  { recordId: "a", reviewDates: ["2025-01-10", "2025-02-20"] },
+  { recordId: "b", reviewDates: ["2026-10-01"] },
+];
+
+describe("computeComplianceTrend", () => {
+  it("replays each quarter from the reviews held by its close", () => {
+    expect(
+      computeComplianceTrend(
+        RECORDS,
+        HISTORY,
+        AS_OF,
+        DEFAULT_FOLLOW_UP_PROTOCOLS,
+        3,
+      ),
+    ).toEqual([
+      { quarter: "Q2 2026", cases: 1, pct: 0 },
+      { quarter: "Q3 2026", cases: 2, pct: 50 },
+      { quarter: "Q4 2026", cases: 2, pct: 100 },
+    ]);
+  });
+
+  it("falls back to each record's own last review", () => {
+    expect(
+      computeComplianceTrend(
+        RECORDS,
+        [],
+        AS_OF,
+        DEFAULT_FOLLOW_UP_PROTOCOLS,
+        3,
+      ),
+    ).toEqual([
+      { quarter: "Q2 2026", cases: 1, pct: 0 },
+      { quarter: "Q3 2026", cases: 2, pct: 50 },
+      { quarter: "Q4 2026", cases: 2, pct: 50 },
+    ]);
+  });
+
+  it("leaves quarters before the first implant empty", () => {
+    const [first] = computeComplianceTrend(
+      RECORDS,
+      HISTORY,
+      AS_OF,
+      DEFAULT_FOLLOW_UP_PROTOCOLS,
+      8,
+    );
+    expect(first).toEqual({ quarter: "Q1 2025", cases: 1, pct: 100 });
+    expect(
+      computeComplianceTrend([], [], AS_OF, DEFAULT_FOLLOW_UP_PROTOCOLS, 1).map(
+        (p) => p.pct,
+      ),
+    ).toEqual([null]);
+  });
+});
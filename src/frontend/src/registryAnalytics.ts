@@ -0,0 +1,152 @@
+import { type ImplantRecord, getImplantAgeYears } from "./registryData";
+import {
+  DEFAULT_FOLLOW_UP_PROTOCOLS,
+  type FollowUpProtocol,
+  type ReviewHistory,
+  computeFollowUpSchedule,
+} from "./registryFollowUp";
+
+export interface AgeBucket {
+  label: string;
+  count: number;
+}
+
+export interface CompliancePoint {
+  quarter: string;
+  /** Cases already implanted at the close of the quarter. */
+  cases: number;
+  /** Percentage of those cases not then overdue; null if there were none. */
+  pct: number | null;
+}
+
+export interface AlertStratum {
+  name: string;
+  level: ImplantRecord["alertLevel"];
+  value: number;
+}
+
+const AGE_BUCKETS: Array<{ label: string; minYears: number }> = [
+  { label: "0–2 yrs", minYears: 0 },
+  { label: "2–5 yrs", minYears: 2 },
+  { label: "5–10 yrs", minYears: 5 },
+  { label: "10+ yrs", minYears: 10 },
+];
+
+const ALERT_STRATA: Array<{
+  name: string;
+  level: ImplantRecord["alertLevel"];
+}> = [
+  { name: "Stable", level: "stable" },
+  { name: "Review Pending", level: "review" },
+  { name: "Revision Evaluation", level: "attention" },
+  { name: "Device Recall", level: "recall" },
+];
+
+function activeRecords(records: ImplantRecord[]): ImplantRecord[] {
+  return records.filter((r) => !r.archived);
+}
+
+/** Buckets active implants by years elapsed since `surgeryDate`. */
+export function computeAgeDistribution(
+  records: ImplantRecord[],
+  asOf: Date = new Date(),
+): AgeBucket[] {
+  const counts = AGE_BUCKETS.map(() => 0);
+  for (const record of activeRecords(records)) {
+    const years = getImplantAgeYears(record.surgeryDate, asOf);
+    let index = 0;
+    for (let i = 0; i < AGE_BUCKETS.length; i++) {
+      if (years >= AGE_BUCKETS[i].minYears) index = i;
+    }
+    counts[index] += 1;
+  }
+  return AGE_BUCKETS.map((b, i) => ({ label: b.label, count: counts[i] }));
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Replays a case's protocol at `at` from the latest review dated on or before
+ * that day, so reviews entered late still count from the day they took place.
+ */
+function wasOverdueAt(
+  record: ImplantRecord,
+  reviewDates: string[],
+  at: Date,
+  protocols: FollowUpProtocol[],
+): boolean {
+  const day = toIsoDate(at);
+  const lastReview = reviewDates.reduce(
+    (latest, date) => (date <= day && date > latest ? date : latest),
+    record.surgeryDate,
+  );
+  const schedule = computeFollowUpSchedule(
+    { ...record, lastReview },
+    at,
+    protocols,
+  );
+  return schedule.status === "Overdue";
+}
+
+/**
+ * Follow-up compliance at the close of each of the last `quarters` calendar
+ * quarters (the current quarter is measured at `asOf`): the share of cases
+ * implanted by then whose protocol review was not overdue, given the reviews
+ * in `history` and each record's own last review. Past quarters are judged
+ * against today's `protocols`.
+ */
+export function computeComplianceTrend(
+  records: ImplantRecord[],
+  history: ReviewHistory[],
+  asOf: Date = new Date(),
+  protocols: FollowUpProtocol[] = DEFAULT_FOLLOW_UP_PROTOCOLS,
+  quarters = 8,
+): CompliancePoint[] {
+  const reviews = new Map(history.map((h) => [h.recordId, h.reviewDates]));
+  const active = activeRecords(records);
+  const currentQuarterMonth = Math.floor(asOf.getUTCMonth() / 3) * 3;
+  const points: CompliancePoint[] = [];
+
+  for (let i = quarters - 1; i >= 0; i--) {
+    const start = new Date(
+      Date.UTC(asOf.getUTCFullYear(), currentQuarterMonth - i * 3, 1),
+    );
+    const end = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 3, 0),
+    );
+    const at = end.getTime() < asOf.getTime() ? end : asOf;
+    const population = active.filter((r) => r.surgeryDate <= toIsoDate(at));
+    const overdue = population.filter((r) =>
+      wasOverdueAt(
+        r,
+        [...(reviews.get(r.id) ?? []), r.lastReview],
+        at,
+        protocols,
+      ),
+    ).length;
+    points.push({
+      quarter: `Q${start.getUTCMonth() / 3 + 1} ${start.getUTCFullYear()}`,
+      cases: population.length,
+      pct:
+        population.length > 0
+          ? Math.round(
+              ((population.length - overdue) / population.length) * 100,
+            )
+          : null,
+    });
+  }
+  return points;
+}
+
+export function computeAlertStratification(
+  records: ImplantRecord[],
+): AlertStratum[] {
+  const active = activeRecords(records);
+  return ALERT_STRATA.map(({ name, level }) => ({
+    name,
+    level,
+    value: active.filter((r) => r.alertLevel === level).length,
+  }));
+}
@@ -0,0 +1,309 @@
+import { Cbor } from "@icp-sdk/core/agent";
+import { Principal } from "@icp-sdk/core/principal";
+import { describe, expect, it } from "vitest";
+import {
+  type AuditEntry,
+  type AuditFilter,
+  type CertificateOptions,
+  EMPTY_AUDIT_FILTER,
+  GENESIS_HASH,
+  auditLogToCsv,
+  buildAuditJsonExport,
+  chainAuditEntry,
+  checkAuditCertification,
+  filterAuditEntries,
+  parseAuditExport,
+  verifyAuditExport,
+} from "./registryAudit";
+import { YHash } from "./utils/StorageClient";
+
+const CANISTER = Principal.fromUint8Array(
+  new Uint8Array([0, 0, 0, 0, 0, 0, 0, 1, 1, 1]),
+);
+// Stands in for the BLS check, which needs a key only the IC holds.
+const SIGNED: CertificateOptions = { blsVerify: () => true };
+const FORGED: CertificateOptions = { blsVerify: () => false };
+
+async function chain(length: number): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  for (let i = 0; i < length; i++) {
+    entries.push(
+      await chainAuditEntry(
+        entries.at(-1),
+        {
+          action: "Case record viewed",
+          principal: "aaaaa-aa",
+          role: "Quality Officer",
+          caseRef: `rec-00${i + 1}`,
+          detail: i === 1 ? "line one\nline two" : "",
+        },
+        new Date(Date.UTC(2026, 0, 1, 0, i)),
+      ),
+    );
+  }
+  return entries;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** A state tree certifying `head` as the canister's data. */
+function certificateFor(head: string, canister = CANISTER): Uint8Array {
+  const label = (text: string) => new TextEncoder().encode(text);
+  const tree = [
+    1,
+    [
+      2,
+      label("canister"),
+      [
+        2,
+        canister.toUint8Array(),
+        [2, label("certified_data"), [3, YHash.fromHex(head.slice(7)).bytes]],
+      ],
+    ],
+    [2, label("time"), [3, new Uint8Array([0])]],
+  ];
+  return Cbor.encode({ tree, signature: new Uint8Array(48) });
+}
+
+function exportOf(
+  entries: AuditEntry[],
+  certificate: Uint8Array = new Uint8Array(),
+) {
+  return buildAuditJsonExport(
+    { canisterId: CANISTER.toText(), entries, certificate },
+    "aaaaa-aa",
+  );
+}
+
+async function verifyJson(entries: AuditEntry[], live?: AuditEntry[]) {
+  return verifyAuditExport(
+    parseAuditExport(JSON.stringify(exportOf(entries))),
+    live,
+  );
+}
+
+describe("chainAuditEntry", () => {
+  it("links each entry to the previous hash", async () => {
+    const entries = await chain(3);
+    expect(entries.map((e) => e.sequence)).toEqual([1, 2, 3]);
+    expect(entries[0].previousHash).toBe(GENESIS_HASH);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(entries[1].detail).toBe("line one line two");
+    expect(entries[0].hash).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+});
+
+describe("filterAuditEntries", () => {
+  it("matches principal, action, case and inclusive days", async () => {
+    const entries = await chain(3);
+    const sequences = (overrides: Partial<AuditFilter>) =>
+      filterAuditEntries(entries, { ...EMPTY_AUDIT_FILTER, ...overrides }).map(
+        (e) => e.sequence,
+      );
+    expect(sequences({})).toEqual([1, 2, 3]);
+    expect(sequences({ caseRef: "REC-002" })).toEqual([2]);
+    expect(sequences({ principal: "bbbbb-bb" })).toEqual([]);
+    expect(sequences({ action: "Case record edited" })).toEqual([]);
+    expect(sequences({ from: "2026-01-01", to: "2026-01-01" })).toEqual([
+      1, 2, 3,
+    ]);
+    expect(sequences({ from: "2026-01-02" })).toEqual([]);
+  });
+});
+
+describe("verifyAuditExport", () => {
+  it("accepts an untouched export in either format", async () => {
+    const entries = await chain(4);
+    const json = await verifyJson(entries, entries);
+    expect(json).toMatchObject({
+      format: "JSON",
+      entryCount: 4,
+      firstSequence: 1,
+      lastSequence: 4,
+      certified: null,
+      matchesLive: true,
+      issues: [],
+    });
+    const csv = await verifyAuditExport(
+      parseAuditExport(auditLogToCsv(entries)),
+    );
+    expect(csv).toMatchObject({
+      format: "CSV",
+      certified: null,
+      matchesLive: null,
+      issues: [],
+    });
+  });
+
+  it.each<[string, (entries: AuditEntry[]) => AuditEntry[], string[]]>([
+    [
+      "an edited entry",
+      (e) => e.map((x) => (x.sequence === 2 ? { ...x, detail: "edited" } : x)),
+      ["modified:2"],
+    ],
+    [
+      "a dropped entry",
+      (e) => e.filter((x) => x.sequence !== 2),
+      ["missing:2", "manifest:null"],
+    ],
+    [
+      "dropped middle entries",
+      (e) => e.filter((x) => x.sequence === 1 || x.sequence === 4),
+      ["missing:2", "manifest:null"],
+    ],
+    [
+      "an entry re-hashed after editing",
+      (e) =>
+        e.map((x) =>
+          x.sequence === 2 ? { ...x, hash: `sha256:${"1".repeat(64)}` } : x,
+        ),
+      ["modified:2", "modified:2"],
+    ],
+    ["a repeated entry", (e) => [...e, e[1]], ["modified:2", "manifest:null"]],
+  ])("reports %s", async (_name, tamper, expected) => {
+    const entries = await chain(4);
+    const file = JSON.stringify({
+      ...exportOf(entries),
+      entries: tamper(entries),
+    });
+    const report = await verifyAuditExport(parseAuditExport(file));
+    expect(report.issues.map((i) => `${i.kind}:${i.sequence}`)).toEqual(
+      expected,
+    );
+  });
+
+  it("reports a manifest that disagrees with its entries", async () => {
+    const file = JSON.stringify({ ...exportOf(await chain(2)), entryCount: 3 });
+    const report = await verifyAuditExport(parseAuditExport(file));
+    expect(report.issues.map((i) => i.kind)).toEqual(["manifest"]);
+  });
+
+  it("accepts a trail the IC certified", async () => {
+    const entries = await chain(3);
+    const exported = exportOf(entries, certificateFor(entries[2].hash));
+    const report = await verifyAuditExport(
+      parseAuditExport(JSON.stringify(exported)),
+      undefined,
+      SIGNED,
+    );
+    expect(report).toMatchObject({ certified: true, issues: [] });
+  });
+
+  it("catches a re-chained forgery through the certificate", async () => {
+    const entries = await chain(2);
+    const forged: AuditEntry[] = [];
+    for (const entry of entries) {
+      forged.push(
+        await chainAuditEntry(forged.at(-1), { ...entry, detail: "forged" }),
+      );
+    }
+    const exported = {
+      ...exportOf(entries, certificateFor(entries[1].hash)),
+      entries: forged,
+      headHash: forged[1].hash,
+    };
+    const report = await verifyAuditExport(
+      parseAuditExport(JSON.stringify(exported)),
+      undefined,
+      SIGNED,
+    );
+    expect(report.certified).toBe(false);
+    expect(report.issues.map((i) => i.message)).toEqual([
+      "Certificate vouches for a different audit head than the file ends with",
+    ]);
+  });
+
+  it("leaves an uncertified re-chained forgery to the live comparison", async () => {
+    const entries = await chain(2);
+    const forged: AuditEntry[] = [];
+    for (const entry of entries) {
+      forged.push(
+        await chainAuditEntry(forged.at(-1), { ...entry, detail: "forged" }),
+      );
+    }
+    const report = await verifyJson(forged, entries);
+    expect(report.certified).toBeNull();
+    expect(report.matchesLive).toBe(false);
+  });
+
+  it("compares the export against the live trail", async () => {
+    const entries = await chain(3);
+    const live = entries.map((e) =>
+      e.sequence === 3 ? { ...e, hash: `sha256:${"2".repeat(64)}` } : e,
+    );
+    const report = await verifyJson(entries, live.slice(1));
+    expect(report.matchesLive).toBe(false);
+    expect(report.issues.map((i) => i.message)).toEqual([
+      "Entry 3 differs from the registry's audit trail",
+      "1 entry is not in the registry's audit trail",
+    ]);
+  });
+});
+
+describe("checkAuditCertification", () => {
+  it("accepts only certificates the IC signed", async () => {
+    const head = (await chain(1))[0].hash;
+    const certification = {
+      canisterId: CANISTER.toText(),
+      certificate: toHex(certificateFor(head)),
+    };
+    expect(await checkAuditCertification(certification, head, SIGNED)).toBe(
+      null,
+    );
+    expect(await checkAuditCertification(certification, head, FORGED)).toBe(
+      "Certificate is not signed by the Internet Computer",
+    );
+  });
+
+  it("rejects a certificate for another canister", async () => {
+    const head = (await chain(1))[0].hash;
+    const other = Principal.fromUint8Array(new Uint8Array([9]));
+    const certification = {
+      canisterId: CANISTER.toText(),
+      certificate: toHex(certificateFor(head, other)),
+    };
+    expect(await checkAuditCertification(certification, head, SIGNED)).toBe(
+      `Certificate holds no audit head for canister ${CANISTER.toText()}`,
+    );
+  });
+});
+
+describe("parseAuditExport", () => {
+  it.each([
+    ["{not json", "File is not valid JSON"],
+    [
+      '{"format":"other","entries":[]}',
+      "File is not a Thodar audit log export",
+    ],
+    [
+      '{"format":"thodar-audit-log","entries":[{"sequence":0}]}',
+      "Entry 1 has an invalid sequence number",
+    ],
+    [
+      '{"format":"thodar-audit-log","version":1,"entries":[]}',
+      "Unsupported audit export version: 1",
+    ],
+    [
+      '{"format":"thodar-audit-log","version":2,"entryCount":-1,"entries":[]}',
+      "Export has an invalid entry count",
+    ],
+    [
+      '{"format":"thodar-audit-log","version":2,"entryCount":0,"entries":[]}',
+      'Export is missing "exportedAt"',
+    ],
+  ])("rejects %j", (content, message) => {
+    expect(() => parseAuditExport(content)).toThrow(message);
+  });
+
+  it("checks the certification it carries", () => {
+    const exported = JSON.stringify({
+      ...exportOf([]),
+      certification: { canisterId: CANISTER.toText(), certificate: "xyz" },
+    });
+    expect(() => parseAuditExport(exported)).toThrow(
+      "Certification has an invalid certificate",
+    );
+  });
+});
@@ -0,0 +1,579 @@
+import {
+  Certificate,
+  type CreateCertificateOptions,
+  IC_ROOT_KEY,
+  lookupResultToBuffer,
+} from "@icp-sdk/core/agent";
+import { Principal } from "@icp-sdk/core/principal";
+import type { Permission } from "./registryAccess";
+import { csvRecords, toCsv } from "./registryExport";
+import { YHash } from "./utils/StorageClient";
+
+/** Actions the canister records as part of the write they describe. */
+export const RECORDED_AUDIT_ACTIONS = [
+  "Case registered",
+  "Case record updated",
+  "Case record archived",
+  "Cases imported",
+  "Follow-up event logged",
+  "Recall issued",
+  "Recall closed",
+  "Recall call-back updated",
+  "Governance item raised",
+  "Governance item updated",
+  "Role assigned",
+  "Role revoked",
+  "User registered",
+  "User account updated",
+  "User suspended",
+  "User reinstated",
+  "Signed in",
+  "Institution registered",
+  "Device registered",
+  "Device retired",
+] as const;
+
+/**
+ * Views and exports happen in the browser, so the client reports them. Each
+ * needs the permission that makes the action possible in the first place.
+ */
+export const CLIENT_AUDIT_PERMISSIONS = {
+  "Case record viewed": "viewCaseRecords",
+  "Alert acknowledged": "viewCaseRecords",
+  "Comparison mode enabled": "viewCaseRecords",
+  "Comparison mode disabled": "viewCaseRecords",
+  "Registry data exported": "exportData",
+  "Audit log exported": "viewAuditTrail",
+} as const satisfies Record<string, Permission>;
+export type ClientAuditAction = keyof typeof CLIENT_AUDIT_PERMISSIONS;
+
+export const AUDIT_ACTIONS: readonly string[] = [
+  ...RECORDED_AUDIT_ACTIONS,
+  ...Object.keys(CLIENT_AUDIT_PERMISSIONS),
+];
+
+export interface AuditEventInput {
+  action: ClientAuditAction;
+  /** Record id the action concerns; empty for registry-wide actions. */
+  caseRef: string;
+  detail: string;
+}
+
+/**
+ * One link in the hash chain. Fields are kept exactly as hashed: `role` is
+ * empty for principals without a role and `timestamp` is canister time in
+ * nanoseconds.
+ */
+export interface AuditEntry {
+  sequence: number;
+  action: string;
+  principal: string;
+  role: string;
+  caseRef: string;
+  detail: string;
+  timestamp: string;
+  previousHash: string;
+  hash: string;
+}
+
+/**
+ * The trail with the IC certificate over its head, which the canister keeps
+ * in certified data. `certificate` is empty when nothing certifies the trail:
+ * offline stores, or the canister answering as an update call.
+ */
+export interface CertifiedAuditTrail {
+  canisterId: string;
+  entries: AuditEntry[];
+  certificate: Uint8Array;
+}
+
+export const GENESIS_HASH = `sha256:${"0".repeat(64)}`;
+
+const AUDIT_DOMAIN_SEPARATOR = new TextEncoder().encode("thodar-audit/");
+
+/** Fields are newline-separated when hashed, so they must be single-line. */
+export function singleLine(text: string): string {
+  return text.replace(/\n/g, " ");
+}
+
+/** The canonical text the canister hashes for an entry. */
+export function auditPayload(entry: Omit<AuditEntry, "hash">): string {
+  return [
+    entry.previousHash,
+    String(entry.sequence),
+    entry.timestamp,
+    entry.principal,
+    entry.role,
+    entry.action,
+    entry.caseRef,
+    entry.detail,
+  ].join("\n");
+}
+
+export async function computeAuditHash(
+  entry: Omit<AuditEntry, "hash">,
+): Promise<string> {
+  const hash = await YHash.fromBytes(
+    AUDIT_DOMAIN_SEPARATOR,
+    new TextEncoder().encode(auditPayload(entry)),
+  );
+  return hash.toShaString();
+}
+
+/** Appends to the chain the way the canister does; used by offline stores. */
+export async function chainAuditEntry(
+  previous: AuditEntry | undefined,
+  fields: Pick<
+    AuditEntry,
+    "action" | "principal" | "role" | "caseRef" | "detail"
+  >,
+  now = new Date(),
+): Promise<AuditEntry> {
+  const entry = {
+    ...fields,
+    caseRef: singleLine(fields.caseRef),
+    detail: singleLine(fields.detail),
+    sequence: (previous?.sequence ?? 0) + 1,
+    timestamp: (BigInt(now.getTime()) * BigInt(1_000_000)).toString(),
+    previousHash: previous?.hash ?? GENESIS_HASH,
+  };
+  return { ...entry, hash: await computeAuditHash(entry) };
+}
+
+export function auditTimestampIso(
+  entry: Pick<AuditEntry, "timestamp">,
+): string {
+  return new Date(
+    Number(BigInt(entry.timestamp) / BigInt(1_000_000)),
+  ).toISOString();
+}
+
+/** Empty fields match everything; dates are inclusive ISO days. */
+export interface AuditFilter {
+  principal: string;
+  action: string;
+  caseRef: string;
+  from: string;
+  to: string;
+}
+
+export const EMPTY_AUDIT_FILTER: AuditFilter = {
+  principal: "",
+  action: "",
+  caseRef: "",
+  from: "",
+  to: "",
+};
+
+export function filterAuditEntries(
+  entries: AuditEntry[],
+  filter: AuditFilter,
+): AuditEntry[] {
+  const caseRef = filter.caseRef.trim().toLowerCase();
+  return entries.filter((entry) => {
+    const day = auditTimestampIso(entry).slice(0, 10);
+    return (
+      (!filter.principal || entry.principal === filter.principal) &&
+      (!filter.action || entry.action === filter.action) &&
+      (!caseRef || entry.caseRef.toLowerCase().includes(caseRef)) &&
+      (!filter.from || day >= filter.from) &&
+      (!filter.to || day <= filter.to)
+    );
+  });
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+const AUDIT_CSV_COLUMNS = [
+  "sequence",
+  "timestamp",
+  "timestampIso",
+  "principal",
+  "role",
+  "action",
+  "caseRef",
+  "detail",
+  "previousHash",
+  "hash",
+] as const;
+
+/** Full-fidelity CSV: every hashed field, plus a readable timestamp. */
+export function auditLogToCsv(entries: AuditEntry[]): string {
+  return toCsv(
+    [...AUDIT_CSV_COLUMNS],
+    entries.map((e) => [
+      e.sequence,
+      e.timestamp,
+      auditTimestampIso(e),
+      e.principal,
+      e.role,
+      e.action,
+      e.caseRef,
+      e.detail,
+      e.previousHash,
+      e.hash,
+    ]),
+  );
+}
+
+export const AUDIT_EXPORT_FORMAT = "thodar-audit-log";
+
+/** Hex-encoded so the certificate survives the JSON round trip. */
+export interface AuditCertification {
+  canisterId: string;
+  certificate: string;
+}
+
+/**
+ * JSON export of the full trail. The certification is the IC's signature
+ * over the canister's certified data, which holds the chain head; as the
+ * head commits to every entry, it vouches for the whole trail without any
+ * secret held by the registry. The remaining manifest fields are not signed.
+ */
+export interface AuditJsonExport {
+  format: typeof AUDIT_EXPORT_FORMAT;
+  version: 2;
+  /** ISO timestamp. */
+  exportedAt: string;
+  exportedBy: string;
+  entryCount: number;
+  headHash: string;
+  entries: AuditEntry[];
+  /** Null when the trail came from a store the IC does not certify. */
+  certification: AuditCertification | null;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(
+    (hex.match(/.{2}/g) ?? []).map((byte) => Number.parseInt(byte, 16)),
+  );
+}
+
+export function buildAuditJsonExport(
+  trail: CertifiedAuditTrail,
+  exportedBy: string,
+  now = new Date(),
+): AuditJsonExport {
+  const { entries } = trail;
+  return {
+    format: AUDIT_EXPORT_FORMAT,
+    version: 2,
+    exportedAt: now.toISOString(),
+    exportedBy,
+    entryCount: entries.length,
+    headHash: entries.at(-1)?.hash ?? GENESIS_HASH,
+    entries,
+    certification:
+      trail.certificate.length > 0
+        ? {
+            canisterId: trail.canisterId,
+            certificate: toHex(trail.certificate),
+          }
+        : null,
+  };
+}
+
+export function auditExportFileName(extension: string, now = new Date()) {
+  return `thodar-audit-log-${now.toISOString().slice(0, 10)}.${extension}`;
+}
+
+// ─── Verification ────────────────────────────────────────────────────────────
+
+export type AuditIssueKind =
+  | "missing"
+  | "modified"
+  | "manifest"
+  | "certificate"
+  | "live";
+
+export interface AuditIssue {
+  kind: AuditIssueKind;
+  /** Entry the issue concerns; null for file-level problems. */
+  sequence: number | null;
+  message: string;
+}
+
+export interface AuditVerificationReport {
+  format: "CSV" | "JSON";
+  entryCount: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  /** Null when the file carries no certificate. */
+  certified: boolean | null;
+  /** Null when no live trail was available to compare against. */
+  matchesLive: boolean | null;
+  issues: AuditIssue[];
+}
+
+export interface ParsedAuditExport {
+  format: AuditVerificationReport["format"];
+  entries: AuditEntry[];
+  json: AuditJsonExport | null;
+}
+
+function parseSequence(value: unknown, row: number): number {
+  const sequence = Number(value);
+  if (!Number.isInteger(sequence) || sequence < 1) {
+    throw new Error(`Entry ${row} has an invalid sequence number`);
+  }
+  return sequence;
+}
+
+function requireText(
+  raw: Record<string, unknown>,
+  key: string,
+  owner: string,
+): string {
+  const value = raw[key];
+  if (typeof value !== "string") {
+    throw new Error(`${owner} is missing "${key}"`);
+  }
+  return value;
+}
+
+function toAuditEntry(raw: Record<string, unknown>, row: number): AuditEntry {
+  const text = (key: string) => requireText(raw, key, `Entry ${row}`);
+  return {
+    sequence: parseSequence(raw.sequence, row),
+    timestamp: text("timestamp"),
+    principal: text("principal"),
+    role: text("role"),
+    action: text("action"),
+    caseRef: text("caseRef"),
+    detail: text("detail"),
+    previousHash: text("previousHash"),
+    hash: text("hash"),
+  };
+}
+
+function toCertification(value: unknown): AuditCertification | null {
+  if (value === null) return null;
+  if (typeof value !== "object") {
+    throw new Error('Export is missing "certification"');
+  }
+  const raw = value as Record<string, unknown>;
+  const certificate = requireText(raw, "certificate", "Certification");
+  if (!/^(?:[0-9a-f]{2})+$/.test(certificate)) {
+    throw new Error("Certification has an invalid certificate");
+  }
+  return {
+    canisterId: requireText(raw, "canisterId", "Certification"),
+    certificate,
+  };
+}
+
+function toAuditJsonExport(
+  raw: Record<string, unknown>,
+  entries: AuditEntry[],
+): AuditJsonExport {
+  if (raw.version !== 2) {
+    throw new Error(`Unsupported audit export version: ${String(raw.version)}`);
+  }
+  const entryCount = raw.entryCount;
+  if (
+    typeof entryCount !== "number" ||
+    !Number.isInteger(entryCount) ||
+    entryCount < 0
+  ) {
+    throw new Error("Export has an invalid entry count");
+  }
+  return {
+    format: AUDIT_EXPORT_FORMAT,
+    version: 2,
+    exportedAt: requireText(raw, "exportedAt", "Export"),
+    exportedBy: requireText(raw, "exportedBy", "Export"),
+    entryCount,
+    headHash: requireText(raw, "headHash", "Export"),
+    entries,
+    certification: toCertification(raw.certification),
+  };
+}
+
+/** Reads a file produced by either export; throws if it is neither. */
+export function parseAuditExport(content: string): ParsedAuditExport {
+  if (content.trimStart().startsWith("{")) {
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(content);
+    } catch {
+      throw new Error("File is not valid JSON");
+    }
+    if (raw.format !== AUDIT_EXPORT_FORMAT || !Array.isArray(raw.entries)) {
+      throw new Error("File is not a Thodar audit log export");
+    }
+    const entries = raw.entries.map((e: Record<string, unknown>, i: number) =>
+      toAuditEntry(e, i + 1),
+    );
+    return { format: "JSON", entries, json: toAuditJsonExport(raw, entries) };
+  }
+  const rows = csvRecords(content, AUDIT_CSV_COLUMNS);
+  return {
+    format: "CSV",
+    entries: rows.map((row, i) => toAuditEntry(row, i + 1)),
+    json: null,
+  };
+}
+
+export interface CertificateOptions {
+  /** DER-encoded; defaults to the IC mainnet key. */
+  rootKey?: Uint8Array;
+  blsVerify?: CreateCertificateOptions["blsVerify"];
+}
+
+/**
+ * Why `certification` does not vouch for `headHash`, or null if it does.
+ * Exports are checked long after they were made, so the certificate's age
+ * is not held against it.
+ */
+export async function checkAuditCertification(
+  certification: AuditCertification,
+  headHash: string,
+  options: CertificateOptions = {},
+): Promise<string | null> {
+  let certificate: Certificate;
+  let canisterId: Principal;
+  try {
+    canisterId = Principal.fromText(certification.canisterId);
+    certificate = await Certificate.create({
+      certificate: fromHex(certification.certificate),
+      rootKey: options.rootKey ?? fromHex(IC_ROOT_KEY),
+      canisterId,
+      blsVerify: options.blsVerify,
+      disableTimeVerification: true,
+    });
+  } catch {
+    return "Certificate is not signed by the Internet Computer";
+  }
+  const certified = lookupResultToBuffer(
+    certificate.lookup_path([
+      "canister",
+      canisterId.toUint8Array(),
+      "certified_data",
+    ]),
+  );
+  if (!certified || certified.length !== 32) {
+    return `Certificate holds no audit head for canister ${certification.canisterId}`;
+  }
+  return new YHash(certified).toShaString() === headHash
+    ? null
+    : "Certificate vouches for a different audit head than the file ends with";
+}
+
+function describeGap(from: number, to: number): string {
+  return from === to
+    ? `Entry ${from} is missing`
+    : `Entries ${from}–${to} are missing`;
+}
+
+/**
+ * Re-computes every hash and link in an export. Gaps in the sequence are
+ * reported as missing entries; a stored hash that no longer matches its
+ * content, or that the following entry does not link to, as modified.
+ */
+export async function verifyAuditExport(
+  parsed: ParsedAuditExport,
+  live?: AuditEntry[],
+  certificateOptions?: CertificateOptions,
+): Promise<AuditVerificationReport> {
+  const issues: AuditIssue[] = [];
+  const entries = [...parsed.entries].sort((a, b) => a.sequence - b.sequence);
+  let previous: AuditEntry | undefined;
+  for (const entry of entries) {
+    const expectedSequence = (previous?.sequence ?? 0) + 1;
+    if (previous && entry.sequence === previous.sequence) {
+      issues.push({
+        kind: "modified",
+        sequence: entry.sequence,
+        message: `Entry ${entry.sequence} appears more than once`,
+      });
+      continue;
+    }
+    if (entry.sequence > expectedSequence) {
+      issues.push({
+        kind: "missing",
+        sequence: expectedSequence,
+        message: describeGap(expectedSequence, entry.sequence - 1),
+      });
+    } else if (entry.previousHash !== (previous?.hash ?? GENESIS_HASH)) {
+      issues.push({
+        kind: "modified",
+        sequence: previous?.sequence ?? entry.sequence,
+        message: previous
+          ? `Entry ${previous.sequence} does not match the hash entry ${entry.sequence} links to`
+          : `Entry ${entry.sequence} does not start from the genesis hash`,
+      });
+    }
+    if ((await computeAuditHash(entry)) !== entry.hash) {
+      issues.push({
+        kind: "modified",
+        sequence: entry.sequence,
+        message: `Entry ${entry.sequence} content does not match its hash`,
+      });
+    }
+    previous = entry;
+  }
+
+  let certified: boolean | null = null;
+  if (parsed.json) {
+    const { entryCount, headHash, certification } = parsed.json;
+    const actualHead = entries.at(-1)?.hash ?? GENESIS_HASH;
+    if (entryCount !== entries.length || headHash !== actualHead) {
+      issues.push({
+        kind: "manifest",
+        sequence: null,
+        message:
+          "Entry count or head hash does not match the entries; entries were added or removed",
+      });
+    }
+    if (certification) {
+      const problem = await checkAuditCertification(
+        certification,
+        actualHead,
+        certificateOptions,
+      );
+      certified = problem === null;
+      if (problem) {
+        issues.push({ kind: "certificate", sequence: null, message: problem });
+      }
+    }
+  }
+
+  let matchesLive: boolean | null = null;
+  if (live) {
+    const liveHashes = new Map(live.map((e) => [e.sequence, e.hash]));
+    const mismatched = entries.filter(
+      (e) =>
+        liveHashes.has(e.sequence) && liveHashes.get(e.sequence) !== e.hash,
+    );
+    const unknown = entries.filter((e) => !liveHashes.has(e.sequence));
+    matchesLive = mismatched.length === 0 && unknown.length === 0;
+    for (const entry of mismatched) {
+      issues.push({
+        kind: "live",
+        sequence: entry.sequence,
+        message: `Entry ${entry.sequence} differs from the registry's audit trail`,
+      });
+    }
+    if (unknown.length > 0) {
+      issues.push({
+        kind: "live",
+        sequence: unknown[0].sequence,
+        message: `${unknown.length} entr${unknown.length === 1 ? "y is" : "ies are"} not in the registry's audit trail`,
+      });
+    }
+  }
+
+  return {
+    format: parsed.format,
+    entryCount: entries.length,
+    firstSequence: entries[0]?.sequence ?? null,
+    lastSequence: entries.at(-1)?.sequence ?? null,
+    certified,
+    matchesLive,
+    issues,
+  };
+}
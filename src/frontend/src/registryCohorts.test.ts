@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  COHORT_DIMENSIONS,
+  type CohortDimension,
+  computeCohortStats,
+  formatRateEstimate,
+  listCohortOptions,
+  wilsonInterval,
+} from "./registryCohorts";
+import { REGISTRY_DATA } from "./registryData";
+
+function dimension(field: CohortDimension["field"]): CohortDimension {
+  const found = COHORT_DIMENSIONS.find((d) => d.field === field);
+  if (!found) throw new Error(`No cohort dimension for ${field}`);
+  return found;
+}
+
+describe("wilsonInterval", () => {
+  // Reference values from Newcombe (1998), table I.
+  it.each([
+    [5, 10, 0.5, 0.2366, 0.7634],
+    [0, 10, 0, 0, 0.2775],
+    [10, 10, 1, 0.7225, 1],
+    [81, 263, 0.308, 0.2553, 0.3662],
+  ])("%i/%i", (events, total, rate, lower, upper) => {
+    const estimate = wilsonInterval(events, total);
+    expect(estimate.rate).toBeCloseTo(rate, 3);
+    expect(estimate.lower).toBeCloseTo(lower, 3);
+    expect(estimate.upper).toBeCloseTo(upper, 3);
+  });
+
+  it("has no rate for an empty cohort", () => {
+    expect(wilsonInterval(0, 0)).toEqual({
+      events: 0,
+      total: 0,
+      rate: null,
+      lower: null,
+      upper: null,
+    });
+  });
+});
+
+describe("listCohortOptions", () => {
+  it("orders values by case count, then name", () => {
+    expect(listCohortOptions(REGISTRY_DATA, dimension("manufacturer"))).toEqual(
+      [
+        { value: "DePuy Synthes", count: 3 },
+        { value: "Stryker", count: 3 },
+        { value: "Smith & Nephew", count: 2 },
+        { value: "Zimmer Biomet", count: 2 },
+      ],
+    );
+  });
+
+  it("skips archived cases", () => {
+    const records = REGISTRY_DATA.map((r) => ({
+      ...r,
+      archived: r.manufacturer === "Stryker",
+    }));
+    const values = listCohortOptions(records, dimension("manufacturer")).map(
+      (o) => o.value,
+    );
+    expect(values).not.toContain("Stryker");
+  });
+});
+
+describe("computeCohortStats", () => {
+  it("counts events per cohort", () => {
+    const [hip, unknown] = computeCohortStats(
+      REGISTRY_DATA,
+      dimension("implantCategory"),
+      ["Total Hip Arthroplasty", "Unknown"],
+    );
+    expect(hip.count).toBe(3);
+    expect(hip.complication).toMatchObject({ events: 3, total: 3, rate: 1 });
+    expect(hip.revision).toMatchObject({ events: 1, total: 3 });
+    expect(hip.compliance).toMatchObject({ events: 0, total: 3, rate: 0 });
+    expect(unknown.count).toBe(0);
+    expect(unknown.revision.rate).toBeNull();
+  });
+});
+
+describe("formatRateEstimate", () => {
+  it.each([
+    [wilsonInterval(5, 10), "50% (24–76%)"],
+    [wilsonInterval(0, 0), "—"],
+  ])("%j → %s", (estimate, expected) => {
+    expect(formatRateEstimate(estimate)).toBe(expected);
+  });
+});
@@ -0,0 +1,121 @@
+import type { ImplantRecord } from "./registryData";
+import { hasPriorRevision } from "./registryMetrics";
+
+export interface CohortDimension {
+  field: keyof ImplantRecord;
+  label: string;
+}
+
+export const COHORT_DIMENSIONS: CohortDimension[] = [
+  { field: "modelRef", label: "Implant Model" },
+  { field: "manufacturer", label: "Manufacturer" },
+  { field: "fixationType", label: "Fixation Type" },
+  { field: "material", label: "Material" },
+  { field: "implantCategory", label: "Implant Category" },
+  { field: "institution", label: "Institution" },
+  { field: "operatingSurgeon", label: "Operating Surgeon" },
+];
+
+/** Side-by-side charts stop being legible beyond this many cohorts. */
+export const MAX_COHORTS = 6;
+
+/** Two-sided 95% normal quantile used for every interval in this module. */
+const Z_95 = 1.959964;
+
+/** A binomial proportion with its 95% confidence interval. */
+export interface RateEstimate {
+  events: number;
+  total: number;
+  /** 0–1; null when the cohort is empty. */
+  rate: number | null;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface CohortStats {
+  value: string;
+  count: number;
+  /** Cases with at least one complication logged. */
+  complication: RateEstimate;
+  /** Cases with a prior revision on file. */
+  revision: RateEstimate;
+  /** Cases whose follow-up is not overdue. */
+  compliance: RateEstimate;
+}
+
+export interface CohortOption {
+  value: string;
+  count: number;
+}
+
+/**
+ * Wilson score interval. Unlike the normal approximation it stays inside
+ * 0–1 and remains informative for the small cohorts typical of a registry.
+ */
+export function wilsonInterval(events: number, total: number): RateEstimate {
+  if (total <= 0) {
+    return { events, total, rate: null, lower: null, upper: null };
+  }
+  const p = events / total;
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / total;
+  const centre = (p + z2 / (2 * total)) / denominator;
+  const margin =
+    (Z_95 * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total))) /
+    denominator;
+  return {
+    events,
+    total,
+    rate: p,
+    lower: Math.max(0, centre - margin),
+    upper: Math.min(1, centre + margin),
+  };
+}
+
+/** Distinct values of a dimension across active cases, largest first. */
+export function listCohortOptions(
+  records: ImplantRecord[],
+  dimension: CohortDimension,
+): CohortOption[] {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    if (record.archived) continue;
+    const value = String(record[dimension.field]);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+export function computeCohortStats(
+  records: ImplantRecord[],
+  dimension: CohortDimension,
+  values: string[],
+): CohortStats[] {
+  const active = records.filter((r) => !r.archived);
+  return values.map((value) => {
+    const cohort = active.filter((r) => String(r[dimension.field]) === value);
+    const count = (predicate: (r: ImplantRecord) => boolean) =>
+      cohort.filter(predicate).length;
+    return {
+      value,
+      count: cohort.length,
+      complication: wilsonInterval(
+        count((r) => r.complicationsLogged > 0),
+        cohort.length,
+      ),
+      revision: wilsonInterval(count(hasPriorRevision), cohort.length),
+      compliance: wilsonInterval(
+        count((r) => r.followUpStatus !== "Overdue"),
+        cohort.length,
+      ),
+    };
+  });
+}
+
+export function formatRateEstimate(estimate: RateEstimate): string {
+  if (estimate.rate === null) return "—";
+  const pct = (x: number | null) => Math.round((x ?? 0) * 100);
+  return `${pct(estimate.rate)}% (${pct(estimate.lower)}–${pct(estimate.upper)}%)`;
+}
@@ -0,0 +1,216 @@
+import type { SortField } from "./registryQuery";
+
+export const REGISTRY_COLUMN_IDS = [
+  "patientId",
+  "implantCategory",
+  "manufacturer",
+  "operatingSurgeon",
+  "surgeryDate",
+  "duration",
+  "followUpStatus",
+  "alertLevel",
+  "riskLevel",
+  "lotNumber",
+  "modelRef",
+  "institution",
+  "anatomicalSite",
+  "laterality",
+  "age",
+  "complicationsLogged",
+  "lastReview",
+  "nextReview",
+] as const;
+
+export type RegistryColumnId = (typeof REGISTRY_COLUMN_IDS)[number];
+
+export interface RegistryColumn {
+  id: RegistryColumnId;
+  label: string;
+  /** Omitted for derived or numeric columns the canister cannot order. */
+  sortField?: SortField;
+  defaultWidth: number;
+}
+
+export const REGISTRY_COLUMNS: Record<RegistryColumnId, RegistryColumn> = {
+  patientId: {
+    id: "patientId",
+    label: "Patient ID",
+    sortField: "patientId",
+    defaultWidth: 120,
+  },
+  implantCategory: {
+    id: "implantCategory",
+    label: "Implant Category",
+    sortField: "implantCategory",
+    defaultWidth: 200,
+  },
+  manufacturer: {
+    id: "manufacturer",
+    label: "Manufacturer",
+    sortField: "manufacturer",
+    defaultWidth: 150,
+  },
+  operatingSurgeon: {
+    id: "operatingSurgeon",
+    label: "Surgeon",
+    sortField: "operatingSurgeon",
+    defaultWidth: 150,
+  },
+  surgeryDate: {
+    id: "surgeryDate",
+    label: "Surgery Date",
+    sortField: "surgeryDate",
+    defaultWidth: 130,
+  },
+  duration: { id: "duration", label: "Duration", defaultWidth: 120 },
+  followUpStatus: {
+    id: "followUpStatus",
+    label: "Follow-Up Status",
+    sortField: "followUpStatus",
+    defaultWidth: 150,
+  },
+  alertLevel: {
+    id: "alertLevel",
+    label: "Alert Level",
+    sortField: "alertLevel",
+    defaultWidth: 170,
+  },
+  riskLevel: {
+    id: "riskLevel",
+    label: "Risk Level",
+    sortField: "riskLevel",
+    defaultWidth: 120,
+  },
+  lotNumber: {
+    id: "lotNumber",
+    label: "Lot / Batch",
+    sortField: "lotNumber",
+    defaultWidth: 170,
+  },
+  modelRef: { id: "modelRef", label: "Model Reference", defaultWidth: 200 },
+  institution: {
+    id: "institution",
+    label: "Institution",
+    sortField: "institution",
+    defaultWidth: 200,
+  },
+  anatomicalSite: {
+    id: "anatomicalSite",
+    label: "Anatomical Site",
+    defaultWidth: 130,
+  },
+  laterality: { id: "laterality", label: "Laterality", defaultWidth: 110 },
+  age: { id: "age", label: "Age", defaultWidth: 80 },
+  complicationsLogged: {
+    id: "complicationsLogged",
+    label: "Complications",
+    defaultWidth: 120,
+  },
+  lastReview: {
+    id: "lastReview",
+    label: "Last Review",
+    sortField: "lastReview",
+    defaultWidth: 130,
+  },
+  nextReview: {
+    id: "nextReview",
+    label: "Next Review",
+    sortField: "nextReview",
+    defaultWidth: 130,
+  },
+};
+
+export const MIN_COLUMN_WIDTH = 70;
+export const MAX_COLUMN_WIDTH = 480;
+
+export interface ColumnSetting {
+  id: RegistryColumnId;
+  width: number;
+}
+
+/** The eight columns the registry table has always shown. */
+export const DEFAULT_COLUMN_SETTINGS: ColumnSetting[] = (
+  [
+    "patientId",
+    "implantCategory",
+    "manufacturer",
+    "operatingSurgeon",
+    "surgeryDate",
+    "duration",
+    "followUpStatus",
+    "alertLevel",
+  ] as RegistryColumnId[]
+).map((id) => ({ id, width: REGISTRY_COLUMNS[id].defaultWidth }));
+
+export interface SavedViewInput {
+  name: string;
+  columns: ColumnSetting[];
+  /** Table filters and sort, serialized as the table's URL query string. */
+  tableQuery: string;
+}
+
+/** A named table layout belonging to one user. */
+export interface SavedView extends SavedViewInput {
+  id: string;
+  owner: string;
+  /** ISO timestamp of the last save. */
+  updatedAt: string;
+}
+
+function clampWidth(width: number): number {
+  return Math.round(
+    Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width)),
+  );
+}
+
+/**
+ * Drops unknown or duplicate column ids (e.g. from a view saved by an older
+ * build) and clamps widths; falls back to the defaults if nothing survives.
+ */
+export function normalizeColumnSettings(
+  settings: Array<{ id: string; width: number }>,
+): ColumnSetting[] {
+  const seen = new Set<string>();
+  const columns: ColumnSetting[] = [];
+  for (const setting of settings) {
+    const id = REGISTRY_COLUMN_IDS.find((c) => c === setting.id);
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    columns.push({ id, width: clampWidth(setting.width) });
+  }
+  return columns.length > 0 ? columns : DEFAULT_COLUMN_SETTINGS;
+}
+
+export function toggleColumn(
+  settings: ColumnSetting[],
+  id: RegistryColumnId,
+): ColumnSetting[] {
+  if (settings.some((c) => c.id === id)) {
+    // The table always keeps at least one column.
+    return settings.length > 1 ? settings.filter((c) => c.id !== id) : settings;
+  }
+  return [...settings, { id, width: REGISTRY_COLUMNS[id].defaultWidth }];
+}
+
+export function moveColumn(
+  settings: ColumnSetting[],
+  id: RegistryColumnId,
+  offset: -1 | 1,
+): ColumnSetting[] {
+  const from = settings.findIndex((c) => c.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= settings.length) return settings;
+  const next = [...settings];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+export function resizeColumn(
+  settings: ColumnSetting[],
+  id: RegistryColumnId,
+  width: number,
+): ColumnSetting[] {
+  return settings.map((c) =>
+    c.id === id ? { ...c, width: clampWidth(width) } : c,
+  );
+}
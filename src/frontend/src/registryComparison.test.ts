@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  COMPARISON_FIELDS,
+  type ComparisonField,
+  buildComparisonRows,
+  orderForComparison,
+} from "./registryComparison";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+
+function record(overrides: Partial<ImplantRecord>): ImplantRecord {
+  return { ...REGISTRY_DATA[0], ...overrides };
+}
+
+const FIELDS: ComparisonField[] = [
+  { key: "material", label: "Material" },
+  { key: "complicationsLogged", label: "Complication Events" },
+];
+
+const A = record({ id: "rec-a", material: "Titanium", complicationsLogged: 0 });
+const B = record({ id: "rec-b", material: "Titanium", complicationsLogged: 2 });
+const C = record({ id: "rec-c", material: "Cobalt", complicationsLogged: 0 });
+
+function ids(records: ImplantRecord[]): string[] {
+  return records.map((r) => r.id);
+}
+
+describe("orderForComparison", () => {
+  it("keeps selection order without a reference", () => {
+    expect(ids(orderForComparison([A, B, C], null))).toEqual([
+      "rec-a",
+      "rec-b",
+      "rec-c",
+    ]);
+  });
+
+  it("moves the pinned reference to the front", () => {
+    expect(ids(orderForComparison([A, B, C], "rec-c"))).toEqual([
+      "rec-c",
+      "rec-a",
+      "rec-b",
+    ]);
+  });
+
+  it("ignores a reference that is no longer selected", () => {
+    expect(ids(orderForComparison([A, B], "rec-c"))).toEqual([
+      "rec-a",
+      "rec-b",
+    ]);
+  });
+});
+
+describe("buildComparisonRows", () => {
+  it("flags every case in a row once any two values disagree", () => {
+    const [material, complications] = buildComparisonRows(
+      [A, B, C],
+      null,
+      FIELDS,
+    );
+    expect(material).toMatchObject({
+      values: ["Titanium", "Titanium", "Cobalt"],
+      differs: [true, true, true],
+      hasDifference: true,
+    });
+    expect(complications.values).toEqual(["0", "2", "0"]);
+  });
+
+  it("flags only departures from the pinned reference", () => {
+    const [material, complications] = buildComparisonRows(
+      [A, B, C],
+      "rec-a",
+      FIELDS,
+    );
+    expect(material.differs).toEqual([false, false, true]);
+    expect(complications.differs).toEqual([false, true, false]);
+  });
+
+  it("leaves matching rows unflagged", () => {
+    const [material] = buildComparisonRows([A, B], "rec-b", FIELDS);
+    expect(material).toMatchObject({
+      differs: [false, false],
+      hasDifference: false,
+    });
+  });
+
+  it("diffs derived values rather than the raw field", () => {
+    const field: ComparisonField = {
+      key: "surgeryDate",
+      label: "Implant Year",
+      value: (r) => r.surgeryDate.slice(0, 4),
+    };
+    const [row] = buildComparisonRows(
+      [
+        record({ id: "rec-a", surgeryDate: "2020-01-10" }),
+        record({ id: "rec-b", surgeryDate: "2020-11-02" }),
+      ],
+      null,
+      [field],
+    );
+    expect(row).toMatchObject({
+      values: ["2020", "2020"],
+      hasDifference: false,
+    });
+  });
+
+  it("compares any number of cases across every default field", () => {
+    const records = REGISTRY_DATA.slice(0, 10);
+    const rows = buildComparisonRows(records, records[3].id);
+    expect(rows.map((r) => r.field.key)).toEqual(
+      COMPARISON_FIELDS.map((f) => f.key),
+    );
+    for (const row of rows) {
+      expect(row.values).toHaveLength(10);
+      expect(row.differs[3]).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { type ImplantRecord, getImplantDuration } from "./registryData";
+
+export interface ComparisonField {
+  key: keyof ImplantRecord;
+  label: string;
+  /** Value used for diffing; defaults to the raw field as text. */
+  value?: (record: ImplantRecord) => string;
+}
+
+export const COMPARISON_FIELDS: ComparisonField[] = [
+  { key: "implantCategory", label: "Implant Category" },
+  { key: "manufacturer", label: "Manufacturer" },
+  { key: "modelRef", label: "Model / Reference" },
+  { key: "material", label: "Material" },
+  { key: "fixationType", label: "Fixation Type" },
+  { key: "anatomicalSite", label: "Anatomical Site" },
+  {
+    key: "surgeryDate",
+    label: "Implant Duration",
+    value: (record) => getImplantDuration(record.surgeryDate),
+  },
+  { key: "alertLevel", label: "Alert Level" },
+  { key: "riskLevel", label: "Risk Stratification" },
+  { key: "followUpStatus", label: "Follow-Up Status" },
+  { key: "revisionHistory", label: "Revision History" },
+  { key: "complicationsLogged", label: "Complication Events" },
+];
+
+export interface ComparisonRow {
+  field: ComparisonField;
+  values: string[];
+  /** Per case: whether the value should be highlighted as a difference. */
+  differs: boolean[];
+  hasDifference: boolean;
+}
+
+function fieldValue(field: ComparisonField, record: ImplantRecord): string {
+  return field.value ? field.value(record) : String(record[field.key]);
+}
+
+/** Places the pinned reference case first, keeping selection order otherwise. */
+export function orderForComparison(
+  records: ImplantRecord[],
+  referenceId: string | null,
+): ImplantRecord[] {
+  const reference = records.find((r) => r.id === referenceId);
+  return reference
+    ? [reference, ...records.filter((r) => r.id !== referenceId)]
+    : records;
+}
+
+/**
+ * Diffs each comparison field across the cases. With a pinned reference, a
+ * case differs where its value departs from the reference; without one, every
+ * case in a row is flagged as soon as any two values disagree.
+ */
+export function buildComparisonRows(
+  records: ImplantRecord[],
+  referenceId: string | null,
+  fields: ComparisonField[] = COMPARISON_FIELDS,
+): ComparisonRow[] {
+  const referenceIndex = records.findIndex((r) => r.id === referenceId);
+  return fields.map((field) => {
+    const values = records.map((r) => fieldValue(field, r));
+    const hasDifference = values.some((v) => v !== values[0]);
+    const differs =
+      referenceIndex >= 0
+        ? values.map(
+            (v, i) => i !== referenceIndex && v !== values[referenceIndex],
+          )
+        : values.map(() => hasDifference);
+    return { field, values, differs, hasDifference };
+  });
+}
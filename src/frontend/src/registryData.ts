@@ -2,11 +2,13 @@ export interface ImplantRecord {
   id: string;
   patientId: string;
   implantCategory: string;
+  /** Catalogue device the case references; empty for unlinked legacy cases. */
+  deviceId: string;
   manufacturer: string;
   operatingSurgeon: string;
   surgeryDate: string; // ISO date string
   followUpStatus: "Scheduled" | "Overdue" | "Completed";
-  alertLevel: "stable" | "review" | "attention";
+  alertLevel: "stable" | "review" | "attention" | "recall";
   age: number;
   sex: "Male" | "Female";
   primaryDiagnosis: string;
@@ -23,8 +25,62 @@ export interface ImplantRecord {
   lastReview: string;
   nextReview: string;
   riskLevel: "Low" | "Moderate" | "High";
+  archived?: boolean;
 }
 
+export const IMPLANT_FIELD_LABELS: Record<
+  Exclude<keyof ImplantRecord, "id" | "archived">,
+  string
+> = {
+  patientId: "Patient Identifier",
+  implantCategory: "Implant Category",
+  deviceId: "Catalogue Device",
+  manufacturer: "Manufacturer",
+  operatingSurgeon: "Operating Surgeon",
+  surgeryDate: "Date of Implantation",
+  followUpStatus: "Follow-Up Status",
+  alertLevel: "Alert Level",
+  age: "Age",
+  sex: "Sex",
+  primaryDiagnosis: "Primary Diagnosis",
+  comorbidities: "Relevant Comorbidities",
+  institution: "Operating Institution",
+  modelRef: "Model Reference",
+  lotNumber: "Lot / Batch Number",
+  material: "Material Composition",
+  fixationType: "Fixation Type",
+  anatomicalSite: "Anatomical Site",
+  laterality: "Laterality",
+  revisionHistory: "Revision History",
+  complicationsLogged: "Complication Reports",
+  lastReview: "Last Clinical Review",
+  nextReview: "Scheduled Next Review",
+  riskLevel: "Risk Stratification",
+};
+
+export const FOLLOW_UP_STATUSES: ImplantRecord["followUpStatus"][] = [
+  "Scheduled",
+  "Overdue",
+  "Completed",
+];
+export const ALERT_LEVELS: ImplantRecord["alertLevel"][] = [
+  "stable",
+  "review",
+  "attention",
+  "recall",
+];
+export const SEXES: ImplantRecord["sex"][] = ["Male", "Female"];
+export const LATERALITIES: ImplantRecord["laterality"][] = [
+  "Left",
+  "Right",
+  "Bilateral",
+];
+export const RISK_LEVELS: ImplantRecord["riskLevel"][] = [
+  "Low",
+  "Moderate",
+  "High",
+];
+
 function calcDuration(surgeryDate: string): string {
   const surgery = new Date(surgeryDate);
   const now = new Date();
@@ -43,6 +99,7 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     id: "rec-001",
     patientId: "TH-001",
     implantCategory: "Total Hip Arthroplasty",
+    deviceId: "dev-001",
     manufacturer: "Zimmer Biomet",
     operatingSurgeon: "Dr. R. Krishnamurthy",
     surgeryDate: "2019-03-14",
@@ -62,18 +119,19 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "No prior revision",
     complicationsLogged: 1,
     lastReview: "2023-03-10",
-    nextReview: "2024-03-10",
+    nextReview: "2024-03-14",
     riskLevel: "High",
   },
   {
     id: "rec-002",
     patientId: "TH-002",
     implantCategory: "Total Knee Arthroplasty",
+    deviceId: "dev-007",
     manufacturer: "DePuy Synthes",
     operatingSurgeon: "Dr. P. Anand",
     surgeryDate: "2021-07-22",
-    followUpStatus: "Scheduled",
-    alertLevel: "stable",
+    followUpStatus: "Overdue",
+    alertLevel: "review",
     age: 62,
     sex: "Male",
     primaryDiagnosis: "Bilateral knee osteoarthritis",
@@ -88,17 +146,18 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "No prior revision",
     complicationsLogged: 0,
     lastReview: "2025-07-20",
-    nextReview: "2026-07-20",
+    nextReview: "2026-07-22",
     riskLevel: "Low",
   },
   {
     id: "rec-003",
     patientId: "TH-003",
     implantCategory: "Lumbar Spinal Fixation",
+    deviceId: "",
     manufacturer: "Stryker",
     operatingSurgeon: "Dr. S. Mehta",
     surgeryDate: "2018-11-05",
-    followUpStatus: "Overdue",
+    followUpStatus: "Completed",
     alertLevel: "attention",
     age: 55,
     sex: "Male",
@@ -114,17 +173,18 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "Hardware adjustment 2020-06",
     complicationsLogged: 2,
     lastReview: "2023-11-01",
-    nextReview: "2024-11-01",
+    nextReview: "",
     riskLevel: "High",
   },
   {
     id: "rec-004",
     patientId: "TH-004",
     implantCategory: "Shoulder Arthroplasty",
+    deviceId: "",
     manufacturer: "Smith & Nephew",
     operatingSurgeon: "Dr. R. Krishnamurthy",
     surgeryDate: "2022-02-17",
-    followUpStatus: "Completed",
+    followUpStatus: "Scheduled",
     alertLevel: "stable",
     age: 72,
     sex: "Female",
@@ -140,18 +200,19 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "No prior revision",
     complicationsLogged: 0,
     lastReview: "2025-02-15",
-    nextReview: "2026-02-15",
+    nextReview: "2027-02-17",
     riskLevel: "Low",
   },
   {
     id: "rec-005",
     patientId: "TH-005",
     implantCategory: "Ankle Fusion",
+    deviceId: "dev-020",
     manufacturer: "Zimmer Biomet",
     operatingSurgeon: "Dr. V. Subramaniam",
     surgeryDate: "2020-09-30",
-    followUpStatus: "Scheduled",
-    alertLevel: "review",
+    followUpStatus: "Completed",
+    alertLevel: "stable",
     age: 48,
     sex: "Male",
     primaryDiagnosis: "Post-traumatic ankle arthritis",
@@ -166,18 +227,19 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "No prior revision",
     complicationsLogged: 1,
     lastReview: "2025-03-22",
-    nextReview: "2026-04-01",
-    riskLevel: "Moderate",
+    nextReview: "",
+    riskLevel: "Low",
   },
   {
     id: "rec-006",
     patientId: "TH-006",
     implantCategory: "Total Hip Arthroplasty",
+    deviceId: "dev-002",
     manufacturer: "Stryker",
     operatingSurgeon: "Dr. P. Anand",
     surgeryDate: "2016-05-11",
     followUpStatus: "Overdue",
-    alertLevel: "review",
+    alertLevel: "attention",
     age: 78,
     sex: "Female",
     primaryDiagnosis: "Femoral neck fracture, right",
@@ -192,18 +254,19 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "No prior revision",
     complicationsLogged: 1,
     lastReview: "2024-05-08",
-    nextReview: "2025-05-08",
-    riskLevel: "Moderate",
+    nextReview: "2025-05-11",
+    riskLevel: "High",
   },
   {
     id: "rec-007",
     patientId: "TH-007",
     implantCategory: "Total Knee Arthroplasty",
+    deviceId: "dev-012",
     manufacturer: "Smith & Nephew",
     operatingSurgeon: "Dr. S. Mehta",
     surgeryDate: "2023-01-09",
-    followUpStatus: "Completed",
-    alertLevel: "stable",
+    followUpStatus: "Overdue",
+    alertLevel: "review",
     age: 58,
     sex: "Male",
     primaryDiagnosis: "Severe valgus deformity, right knee",
@@ -218,17 +281,18 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "No prior revision",
     complicationsLogged: 0,
     lastReview: "2025-01-06",
-    nextReview: "2026-01-06",
+    nextReview: "2026-01-09",
     riskLevel: "Low",
   },
   {
     id: "rec-008",
     patientId: "TH-008",
     implantCategory: "Cervical Disc Replacement",
+    deviceId: "",
     manufacturer: "DePuy Synthes",
     operatingSurgeon: "Dr. R. Krishnamurthy",
     surgeryDate: "2017-08-23",
-    followUpStatus: "Scheduled",
+    followUpStatus: "Overdue",
     alertLevel: "review",
     age: 44,
     sex: "Female",
@@ -244,18 +308,19 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "No prior revision",
     complicationsLogged: 1,
     lastReview: "2025-02-20",
-    nextReview: "2026-02-20",
+    nextReview: "2026-08-23",
     riskLevel: "Moderate",
   },
   {
     id: "rec-009",
     patientId: "TH-009",
     implantCategory: "Proximal Femoral Nail",
+    deviceId: "dev-026",
     manufacturer: "Stryker",
     operatingSurgeon: "Dr. V. Subramaniam",
     surgeryDate: "2024-06-03",
     followUpStatus: "Completed",
-    alertLevel: "stable",
+    alertLevel: "review",
     age: 81,
     sex: "Male",
     primaryDiagnosis: "Intertrochanteric femur fracture",
@@ -270,13 +335,14 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "No prior revision",
     complicationsLogged: 0,
     lastReview: "2025-06-01",
-    nextReview: "2025-12-01",
-    riskLevel: "Low",
+    nextReview: "",
+    riskLevel: "Moderate",
   },
   {
     id: "rec-010",
     patientId: "TH-010",
     implantCategory: "Total Hip Arthroplasty",
+    deviceId: "dev-003",
     manufacturer: "DePuy Synthes",
     operatingSurgeon: "Dr. P. Anand",
     surgeryDate: "2014-04-19",
@@ -296,7 +362,7 @@ export const REGISTRY_DATA: ImplantRecord[] = [
     revisionHistory: "Cup revision 2018-09",
     complicationsLogged: 3,
     lastReview: "2022-04-15",
-    nextReview: "2023-04-15",
+    nextReview: "2023-04-19",
     riskLevel: "High",
   },
 ];
@@ -304,3 +370,11 @@ export const REGISTRY_DATA: ImplantRecord[] = [
 export function getImplantDuration(surgeryDate: string): string {
   return calcDuration(surgeryDate);
 }
+
+export function getImplantAgeYears(
+  surgeryDate: string,
+  asOf: Date = new Date(),
+): number {
+  const surgery = new Date(surgeryDate);
+  return (asOf.getTime() - surgery.getTime()) / (1000 * 60 * 60 * 24 * 365.25);
+}
@@ -0,0 +1,290 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import {
+  type CatalogueDevice,
+  type CatalogueDeviceInput,
+  DEVICE_CATALOGUE,
+  anatomicalSiteGroup,
+  applyCatalogueDevice,
+  deviceCompatibilityError,
+  deviceSelectionError,
+  findCatalogueDevice,
+  findDeviceMismatches,
+  isDeviceCompatible,
+  isValidGtin,
+  validateDeviceInput,
+} from "./registryDevices";
+
+const CATALOGUE: CatalogueDevice[] = DEVICE_CATALOGUE.map((d) => ({
+  ...d,
+  retired: false,
+  registeredBy: "registry",
+  registeredAt: "2024-01-01T00:00:00.000Z",
+}));
+
+function device(id: string): CatalogueDevice {
+  const found = CATALOGUE.find((d) => d.id === id);
+  if (!found) throw new Error(`No device ${id}`);
+  return found;
+}
+
+const KNEE = device("dev-006");
+
+function record(overrides: Partial<ImplantRecord>): ImplantRecord {
+  return { ...REGISTRY_DATA[0], ...overrides };
+}
+
+function input(
+  overrides: Partial<CatalogueDeviceInput> = {},
+): CatalogueDeviceInput {
+  return {
+    manufacturer: "Exactech",
+    productFamily: "Equinoxe",
+    modelRef: "Exactech Equinoxe Reverse",
+    catalogueNumber: "320-10-00",
+    material: "Titanium / Polyethylene",
+    fixationType: "Reverse total shoulder",
+    intendedSites: ["Shoulder"],
+    udiDi: "04006381333931",
+    ...overrides,
+  };
+}
+
+describe("isValidGtin", () => {
+  it.each(["04006381333931", "00000000000017", "00088030103113"])(
+    "accepts %s",
+    (udiDi) => {
+      expect(isValidGtin(udiDi)).toBe(true);
+    },
+  );
+
+  it("accepts every UDI-DI in the seeded catalogue", () => {
+    expect(DEVICE_CATALOGUE.filter((d) => !isValidGtin(d.udiDi))).toEqual([]);
+  });
+
+  it.each([
+    ["04006381333932", "a wrong check digit"],
+    ["00088030103110", "a check digit off by three"],
+    ["4006381333931", "13 digits"],
+    ["004006381333931", "15 digits"],
+    ["0400638133393A", "a letter"],
+    ["0400 6381333931", "a space"],
+    ["(01)04006381333931", "a GS1 application identifier"],
+    ["", "nothing"],
+  ])("rejects %s with %s", (udiDi) => {
+    expect(isValidGtin(udiDi)).toBe(false);
+  });
+
+  it("rejects a transposition of adjacent digits", () => {
+    expect(isValidGtin("00088030101313")).toBe(false);
+  });
+});
+
+describe("anatomicalSiteGroup", () => {
+  it.each([
+    ["Lumbar Spine (L4-L5)", "Lumbar Spine"],
+    ["Cervical Spine (C5-C6) ", "Cervical Spine"],
+    ["  Hip ", "Hip"],
+  ])("reads %j as %j", (site, group) => {
+    expect(anatomicalSiteGroup(site)).toBe(group);
+  });
+});
+
+describe("site compatibility", () => {
+  it.each([
+    ["dev-001", "Hip"],
+    ["dev-006", "knee"],
+    ["dev-014", "Lumbar Spine (L4-L5)"],
+    ["dev-014", "Thoracolumbar Spine (T12-L1)"],
+  ])("accepts %s at %j", (id, site) => {
+    const candidate = device(id);
+    expect(isDeviceCompatible(candidate, site)).toBe(true);
+    expect(deviceCompatibilityError(candidate, site)).toBeNull();
+  });
+
+  it.each([
+    ["dev-006", "Shoulder", "DePuy Attune is intended for Knee, not Shoulder"],
+    [
+      "dev-001",
+      "Knee",
+      "Zimmer Biomet Taperloc Complete is intended for Hip, not Knee",
+    ],
+    [
+      "dev-014",
+      "Cervical Spine (C5-C6)",
+      "Medtronic CD Horizon Solera is intended for Lumbar Spine, Thoracolumbar Spine, not Cervical Spine",
+    ],
+    [
+      "dev-001",
+      "",
+      "Zimmer Biomet Taperloc Complete is intended for Hip, not an unspecified site",
+    ],
+  ])("rejects %s at %j", (id, site, message) => {
+    const candidate = device(id);
+    expect(isDeviceCompatible(candidate, site)).toBe(false);
+    expect(deviceCompatibilityError(candidate, site)).toBe(message);
+  });
+});
+
+describe("deviceSelectionError", () => {
+  const retired = { ...KNEE, retired: true };
+
+  it("reports an unknown device", () => {
+    expect(deviceSelectionError(undefined, "dev-999", "Knee")).toBe(
+      "Unknown catalogue device: dev-999",
+    );
+  });
+
+  it("refuses a retired device unless the record already uses it", () => {
+    expect(deviceSelectionError(retired, retired.id, "Knee")).toBe(
+      "DePuy Attune has been retired from the catalogue",
+    );
+    expect(
+      deviceSelectionError(retired, retired.id, "Knee", retired.id),
+    ).toBeNull();
+  });
+
+  it("refuses a device not intended for the site", () => {
+    expect(deviceSelectionError(KNEE, KNEE.id, "Hip")).toBe(
+      "DePuy Attune is intended for Knee, not Hip",
+    );
+  });
+});
+
+describe("applyCatalogueDevice", () => {
+  const find = (id: string) => CATALOGUE.find((d) => d.id === id);
+
+  it("copies the device's details onto the record", () => {
+    const linked = applyCatalogueDevice(
+      record({
+        deviceId: "dev-009",
+        anatomicalSite: "Knee",
+        manufacturer: "typed by hand",
+      }),
+      find,
+    );
+    expect(linked).toMatchObject({
+      manufacturer: "Stryker",
+      modelRef: "Stryker Triathlon",
+      material: "CoCr alloy / X3 polyethylene",
+      fixationType: "Cemented",
+    });
+  });
+
+  it("passes unlinked records through unchanged", () => {
+    const unlinked = record({ deviceId: "", anatomicalSite: "Knee" });
+    expect(applyCatalogueDevice(unlinked, find)).toBe(unlinked);
+  });
+
+  it("throws for a device at an incompatible site", () => {
+    expect(() =>
+      applyCatalogueDevice(
+        record({ deviceId: "dev-009", anatomicalSite: "Shoulder" }),
+        find,
+      ),
+    ).toThrow("Stryker Triathlon is intended for Knee, not Shoulder");
+  });
+});
+
+describe("findCatalogueDevice", () => {
+  it.each([
+    ["DEV-006", "dev-006"],
+    ["01070545150415", "dev-006"],
+    ["(01)00088030103113", "dev-001"],
+    [" (01) 0008 8030 1031 13 ", "dev-001"],
+  ])("finds %j", (reference, id) => {
+    expect(findCatalogueDevice(CATALOGUE, reference)?.id).toBe(id);
+  });
+
+  it("finds nothing for an unknown reference", () => {
+    expect(findCatalogueDevice(CATALOGUE, "04006381333931")).toBeUndefined();
+  });
+});
+
+describe("validateDeviceInput", () => {
+  it("accepts a complete, unique device", () => {
+    expect(validateDeviceInput(input(), CATALOGUE)).toEqual({});
+  });
+
+  it("requires every field and at least one site", () => {
+    const errors = validateDeviceInput(
+      input({ modelRef: " ", udiDi: "", intendedSites: [] }),
+      CATALOGUE,
+    );
+    expect(errors).toEqual({
+      modelRef: "Required",
+      udiDi: "Required",
+      intendedSites: "Select at least one anatomical site",
+    });
+  });
+
+  it("rejects sites outside the anatomical site list", () => {
+    expect(
+      validateDeviceInput(input({ intendedSites: ["Elbow"] }), CATALOGUE)
+        .intendedSites,
+    ).toBe("Unknown anatomical site");
+  });
+
+  it("rejects a UDI-DI with a bad check digit", () => {
+    expect(
+      validateDeviceInput(input({ udiDi: "04006381333932" }), CATALOGUE).udiDi,
+    ).toBe("UDI-DI must be a 14-digit GTIN with a valid check digit");
+  });
+
+  it("rejects a UDI-DI another device carries", () => {
+    expect(
+      validateDeviceInput(input({ udiDi: KNEE.udiDi }), CATALOGUE).udiDi,
+    ).toBe("Another device already carries this UDI-DI");
+  });
+
+  it("rejects a catalogue number the manufacturer already lists", () => {
+    const errors = validateDeviceInput(
+      input({ manufacturer: "STRYKER", catalogueNumber: "5510-F-401" }),
+      CATALOGUE,
+    );
+    expect(errors.catalogueNumber).toBe(
+      "STRYKER already lists this catalogue number",
+    );
+  });
+
+  it("allows another manufacturer to reuse a catalogue number", () => {
+    expect(
+      validateDeviceInput(input({ catalogueNumber: "5510-F-401" }), CATALOGUE),
+    ).toEqual({});
+  });
+});
+
+describe("findDeviceMismatches", () => {
+  it("flags unlinked records whose model is not intended for their site", () => {
+    const records = [
+      record({
+        id: "rec-101",
+        deviceId: "",
+        modelRef: "stryker triathlon ",
+        anatomicalSite: "Shoulder",
+      }),
+      record({
+        id: "rec-102",
+        deviceId: "",
+        modelRef: "Stryker Triathlon",
+        anatomicalSite: "Knee",
+      }),
+      record({
+        id: "rec-103",
+        deviceId: "dev-009",
+        modelRef: "Stryker Triathlon",
+        anatomicalSite: "Shoulder",
+      }),
+      record({
+        id: "rec-104",
+        deviceId: "",
+        modelRef: "Unlisted Prosthesis",
+        anatomicalSite: "Shoulder",
+      }),
+    ];
+    const mismatches = findDeviceMismatches(records, CATALOGUE);
+    expect(mismatches.map((m) => [m.record.id, m.device.id])).toEqual([
+      ["rec-101", "dev-009"],
+    ]);
+  });
+});
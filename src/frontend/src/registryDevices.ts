@@ -0,0 +1,539 @@
+import type { ImplantRecord } from "./registryData";
+import type { ValidationErrors } from "./registryValidation";
+
+export interface CatalogueDeviceInput {
+  manufacturer: string;
+  /** Product line the model belongs to, e.g. `Triathlon`. */
+  productFamily: string;
+  /** Model name as recorded on cases, including the manufacturer. */
+  modelRef: string;
+  /** Manufacturer's catalogue (reference) number. */
+  catalogueNumber: string;
+  material: string;
+  fixationType: string;
+  /** Anatomical sites from `ANATOMICAL_SITES` the device is indicated for. */
+  intendedSites: string[];
+  /** GS1 UDI device identifier: a GTIN-14 with a valid check digit. */
+  udiDi: string;
+}
+
+/**
+ * An entry in the registry's device catalogue. Records reference it by `id`
+ * and take their manufacturer, model, material and fixation from it. Retired
+ * devices stay referenced by existing cases but cannot be chosen for new ones.
+ */
+export interface CatalogueDevice extends CatalogueDeviceInput {
+  id: string;
+  retired: boolean;
+  registeredBy: string;
+  /** ISO timestamp. */
+  registeredAt: string;
+}
+
+/** Record fields supplied by the catalogue once a case references a device. */
+export const CATALOGUE_RECORD_FIELDS = [
+  "manufacturer",
+  "modelRef",
+  "material",
+  "fixationType",
+] as const satisfies readonly (keyof ImplantRecord)[];
+
+export const ANATOMICAL_SITES = [
+  "Hip",
+  "Knee",
+  "Shoulder",
+  "Ankle",
+  "Proximal Femur",
+  "Cervical Spine",
+  "Lumbar Spine",
+  "Thoracolumbar Spine",
+];
+
+export function formatDeviceId(n: number): string {
+  return `dev-${String(n).padStart(3, "0")}`;
+}
+
+/** The site without its spinal level: `Lumbar Spine (L4-L5)` → `Lumbar Spine`. */
+export function anatomicalSiteGroup(site: string): string {
+  return site.replace(/\s*\(.*$/, "").trim();
+}
+
+export function isDeviceCompatible(
+  device: Pick<CatalogueDevice, "intendedSites">,
+  anatomicalSite: string,
+): boolean {
+  const group = anatomicalSiteGroup(anatomicalSite).toLowerCase();
+  return device.intendedSites.some((site) => site.toLowerCase() === group);
+}
+
+export function deviceCompatibilityError(
+  device: Pick<CatalogueDevice, "modelRef" | "intendedSites">,
+  anatomicalSite: string,
+): string | null {
+  if (isDeviceCompatible(device, anatomicalSite)) return null;
+  return `${device.modelRef} is intended for ${device.intendedSites.join(", ")}, not ${anatomicalSiteGroup(anatomicalSite) || "an unspecified site"}`;
+}
+
+/** GTIN-14 check: mod-10 with weights 3 and 1 alternating from the right. */
+export function isValidGtin(udiDi: string): boolean {
+  if (!/^\d{14}$/.test(udiDi)) return false;
+  const digits = [...udiDi].map(Number);
+  const check = digits.pop() ?? 0;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+const REQUIRED_DEVICE_FIELDS: Array<keyof CatalogueDeviceInput> = [
+  "manufacturer",
+  "productFamily",
+  "modelRef",
+  "catalogueNumber",
+  "material",
+  "fixationType",
+  "udiDi",
+];
+
+/**
+ * Validates a device before it is added to the catalogue. UDI-DIs and
+ * manufacturer catalogue numbers must be unique within the catalogue.
+ */
+export function validateDeviceInput(
+  input: CatalogueDeviceInput,
+  catalogue: CatalogueDevice[],
+): ValidationErrors<CatalogueDeviceInput> {
+  const errors: ValidationErrors<CatalogueDeviceInput> = {};
+  for (const field of REQUIRED_DEVICE_FIELDS) {
+    if (String(input[field]).trim() === "") errors[field] = "Required";
+  }
+  if (input.intendedSites.length === 0) {
+    errors.intendedSites = "Select at least one anatomical site";
+  } else if (input.intendedSites.some((s) => !ANATOMICAL_SITES.includes(s))) {
+    errors.intendedSites = "Unknown anatomical site";
+  }
+  if (!errors.udiDi && !isValidGtin(input.udiDi)) {
+    errors.udiDi = "UDI-DI must be a 14-digit GTIN with a valid check digit";
+  } else if (!errors.udiDi && catalogue.some((d) => d.udiDi === input.udiDi)) {
+    errors.udiDi = "Another device already carries this UDI-DI";
+  }
+  if (
+    !errors.catalogueNumber &&
+    catalogue.some(
+      (d) =>
+        d.manufacturer.toLowerCase() ===
+          input.manufacturer.trim().toLowerCase() &&
+        d.catalogueNumber === input.catalogueNumber.trim(),
+    )
+  ) {
+    errors.catalogueNumber = `${input.manufacturer} already lists this catalogue number`;
+  }
+  return errors;
+}
+
+/**
+ * Finds a device by catalogue id or UDI-DI. A GS1 element string such as
+ * `(01)00088030103113` is read as its UDI-DI.
+ */
+export function findCatalogueDevice(
+  catalogue: CatalogueDevice[],
+  reference: string,
+): CatalogueDevice | undefined {
+  const text = reference.trim();
+  const gtin = text.replace(/^\(01\)/, "").replace(/\s/g, "");
+  return catalogue.find(
+    (d) => d.id.toLowerCase() === text.toLowerCase() || d.udiDi === gtin,
+  );
+}
+
+type DeviceLinkedFields = Pick<
+  ImplantRecord,
+  "deviceId" | "anatomicalSite" | (typeof CATALOGUE_RECORD_FIELDS)[number]
+>;
+
+/**
+ * Why a record cannot reference `device`: unknown, retired, or not intended
+ * for the record's site. `currentDeviceId` is the device the record already
+ * references, which may since have been retired. Null when the link is valid.
+ */
+export function deviceSelectionError(
+  device: CatalogueDevice | undefined,
+  deviceId: string,
+  anatomicalSite: string,
+  currentDeviceId = "",
+): string | null {
+  if (!device) return `Unknown catalogue device: ${deviceId}`;
+  if (device.retired && device.id !== currentDeviceId) {
+    return `${device.modelRef} has been retired from the catalogue`;
+  }
+  return deviceCompatibilityError(device, anatomicalSite);
+}
+
+/**
+ * Copies the referenced device's details onto a record, throwing when the
+ * link is invalid; see `deviceSelectionError`. Unlinked records pass through
+ * unchanged.
+ */
+export function applyCatalogueDevice<T extends DeviceLinkedFields>(
+  record: T,
+  findDevice: (id: string) => CatalogueDevice | undefined,
+  currentDeviceId = "",
+): T {
+  if (!record.deviceId) return record;
+  const device = findDevice(record.deviceId);
+  const error = deviceSelectionError(
+    device,
+    record.deviceId,
+    record.anatomicalSite,
+    currentDeviceId,
+  );
+  if (error !== null || !device) {
+    throw new Error(error ?? `Unknown catalogue device: ${record.deviceId}`);
+  }
+  return {
+    ...record,
+    manufacturer: device.manufacturer,
+    modelRef: device.modelRef,
+    material: device.material,
+    fixationType: device.fixationType,
+  };
+}
+
+export interface DeviceMismatch {
+  record: ImplantRecord;
+  device: CatalogueDevice;
+}
+
+/**
+ * Unlinked records whose free-text model names a catalogue device that is
+ * not intended for the record's anatomical site, e.g. a knee system filed
+ * under shoulder arthroplasty.
+ */
+export function findDeviceMismatches(
+  records: ImplantRecord[],
+  catalogue: CatalogueDevice[],
+): DeviceMismatch[] {
+  const byModel = new Map(
+    catalogue.map((d) => [d.modelRef.trim().toLowerCase(), d]),
+  );
+  return records.flatMap((record) => {
+    if (record.deviceId) return [];
+    const device = byModel.get(record.modelRef.trim().toLowerCase());
+    return device && !isDeviceCompatible(device, record.anatomicalSite)
+      ? [{ record, device }]
+      : [];
+  });
+}
+
+// Simulated catalogue for the pilot, mirrored by the canister's seed. The
+// UDI-DIs are well-formed GTINs but are not registered with GS1.
+export const DEVICE_CATALOGUE: Array<CatalogueDeviceInput & { id: string }> = [
+  {
+    id: "dev-001",
+    manufacturer: "Zimmer Biomet",
+    productFamily: "Taperloc",
+    modelRef: "Zimmer Biomet Taperloc Complete",
+    catalogueNumber: "51-103112",
+    material: "Titanium alloy / Polyethylene",
+    fixationType: "Cementless press-fit",
+    intendedSites: ["Hip"],
+    udiDi: "00088030103113",
+  },
+  {
+    id: "dev-002",
+    manufacturer: "Stryker",
+    productFamily: "Accolade",
+    modelRef: "Stryker Accolade II",
+    catalogueNumber: "6721-0330",
+    material: "Ti-6Al-4V / Ceramic",
+    fixationType: "Cementless",
+    intendedSites: ["Hip"],
+    udiDi: "00765408672104",
+  },
+  {
+    id: "dev-003",
+    manufacturer: "DePuy Synthes",
+    productFamily: "Pinnacle",
+    modelRef: "DePuy Synthes Pinnacle",
+    catalogueNumber: "1217-22-052",
+    material: "Ti-6Al-4V / Polyethylene",
+    fixationType: "Cementless hemispherical cup",
+    intendedSites: ["Hip"],
+    udiDi: "01070545121729",
+  },
+  {
+    id: "dev-004",
+    manufacturer: "Stryker",
+    productFamily: "Exeter",
+    modelRef: "Stryker Exeter V40",
+    catalogueNumber: "0580-1-371",
+    material: "Stainless steel / Polyethylene",
+    fixationType: "Cemented",
+    intendedSites: ["Hip"],
+    udiDi: "00765408058014",
+  },
+  {
+    id: "dev-005",
+    manufacturer: "Smith & Nephew",
+    productFamily: "Polarstem",
+    modelRef: "Smith & Nephew Polarstem",
+    catalogueNumber: "75010203",
+    material: "Titanium alloy / Oxidized zirconium",
+    fixationType: "Cementless press-fit",
+    intendedSites: ["Hip"],
+    udiDi: "00388578750108",
+  },
+  {
+    id: "dev-006",
+    manufacturer: "DePuy Synthes",
+    productFamily: "Attune",
+    modelRef: "DePuy Attune",
+    catalogueNumber: "1504-10-304",
+    material: "CoCr alloy / UHMWPE",
+    fixationType: "Cemented",
+    intendedSites: ["Knee"],
+    udiDi: "01070545150415",
+  },
+  {
+    id: "dev-007",
+    manufacturer: "DePuy Synthes",
+    productFamily: "Attune",
+    modelRef: "DePuy Attune Revision",
+    catalogueNumber: "1504-60-104",
+    material: "CoCr alloy / UHMWPE",
+    fixationType: "Cemented",
+    intendedSites: ["Knee"],
+    udiDi: "01070545150460",
+  },
+  {
+    id: "dev-008",
+    manufacturer: "Zimmer Biomet",
+    productFamily: "Persona",
+    modelRef: "Zimmer Biomet Persona",
+    catalogueNumber: "42-5000-053-01",
+    material: "CoCr alloy / Vitamin E polyethylene",
+    fixationType: "Cemented",
+    intendedSites: ["Knee"],
+    udiDi: "00088030425000",
+  },
+  {
+    id: "dev-009",
+    manufacturer: "Stryker",
+    productFamily: "Triathlon",
+    modelRef: "Stryker Triathlon",
+    catalogueNumber: "5510-F-401",
+    material: "CoCr alloy / X3 polyethylene",
+    fixationType: "Cemented",
+    intendedSites: ["Knee"],
+    udiDi: "00765408551041",
+  },
+  {
+    id: "dev-010",
+    manufacturer: "Stryker",
+    productFamily: "Triathlon",
+    modelRef: "Stryker Triathlon Tritanium",
+    catalogueNumber: "5537-T-401",
+    material: "Titanium alloy / X3 polyethylene",
+    fixationType: "Cementless",
+    intendedSites: ["Knee"],
+    udiDi: "00765408553748",
+  },
+  {
+    id: "dev-011",
+    manufacturer: "Smith & Nephew",
+    productFamily: "Legion",
+    modelRef: "Smith & Nephew Legion",
+    catalogueNumber: "71421112",
+    material: "Oxidized zirconium / UHMWPE",
+    fixationType: "Cemented",
+    intendedSites: ["Knee"],
+    udiDi: "00388578714216",
+  },
+  {
+    id: "dev-012",
+    manufacturer: "Smith & Nephew",
+    productFamily: "Legion",
+    modelRef: "Smith & Nephew Legion Revision",
+    catalogueNumber: "71423312",
+    material: "CoCr / UHMWPE",
+    fixationType: "Cemented stem extension",
+    intendedSites: ["Knee"],
+    udiDi: "00388578714230",
+  },
+  {
+    id: "dev-013",
+    manufacturer: "Smith & Nephew",
+    productFamily: "Journey",
+    modelRef: "Smith & Nephew Journey II",
+    catalogueNumber: "74022104",
+    material: "Oxidized zirconium / XLPE",
+    fixationType: "Cemented",
+    intendedSites: ["Knee"],
+    udiDi: "00388578740222",
+  },
+  {
+    id: "dev-014",
+    manufacturer: "Medtronic",
+    productFamily: "CD Horizon",
+    modelRef: "Medtronic CD Horizon Solera",
+    catalogueNumber: "55840006545",
+    material: "Titanium alloy",
+    fixationType: "Pedicle screw-rod construct",
+    intendedSites: ["Lumbar Spine", "Thoracolumbar Spine"],
+    udiDi: "00643169558403",
+  },
+  {
+    id: "dev-015",
+    manufacturer: "DePuy Synthes",
+    productFamily: "Expedium",
+    modelRef: "DePuy Synthes Expedium",
+    catalogueNumber: "1797-55-540",
+    material: "Titanium alloy",
+    fixationType: "Pedicle screw-rod construct",
+    intendedSites: ["Lumbar Spine", "Thoracolumbar Spine"],
+    udiDi: "01070545179751",
+  },
+  {
+    id: "dev-016",
+    manufacturer: "Globus Medical",
+    productFamily: "Creo",
+    modelRef: "Globus Medical Creo",
+    catalogueNumber: "1175.6545",
+    material: "Titanium alloy / PEEK interbody cage",
+    fixationType: "Pedicle screw-rod construct with interbody cage",
+    intendedSites: ["Lumbar Spine", "Thoracolumbar Spine"],
+    udiDi: "00889095117561",
+  },
+  {
+    id: "dev-017",
+    manufacturer: "Zimmer Biomet",
+    productFamily: "Comprehensive",
+    modelRef: "Zimmer Biomet Comprehensive Reverse",
+    catalogueNumber: "115340",
+    material: "Titanium / Polyethylene",
+    fixationType: "Reverse total shoulder",
+    intendedSites: ["Shoulder"],
+    udiDi: "00088030115345",
+  },
+  {
+    id: "dev-018",
+    manufacturer: "DePuy Synthes",
+    productFamily: "Delta Xtend",
+    modelRef: "DePuy Synthes Delta Xtend",
+    catalogueNumber: "1307-38-000",
+    material: "CoCr alloy / Polyethylene",
+    fixationType: "Reverse total shoulder",
+    intendedSites: ["Shoulder"],
+    udiDi: "01070545130738",
+  },
+  {
+    id: "dev-019",
+    manufacturer: "Stryker",
+    productFamily: "Aequalis",
+    modelRef: "Stryker Aequalis Ascend Flex",
+    catalogueNumber: "DWD032",
+    material: "Titanium / Polyethylene",
+    fixationType: "Anatomic total shoulder",
+    intendedSites: ["Shoulder"],
+    udiDi: "00765408320326",
+  },
+  {
+    id: "dev-020",
+    manufacturer: "Zimmer Biomet",
+    productFamily: "Trabecular Metal",
+    modelRef: "Zimmer Biomet Trabecular Metal Ankle",
+    catalogueNumber: "00-4500-010-01",
+    material: "Trabecular metal / Titanium",
+    fixationType: "Cannulated screw fixation",
+    intendedSites: ["Ankle"],
+    udiDi: "00088030450019",
+  },
+  {
+    id: "dev-021",
+    manufacturer: "Stryker",
+    productFamily: "T2",
+    modelRef: "Stryker T2 Ankle Arthrodesis Nail",
+    catalogueNumber: "1822-1015S",
+    material: "Titanium alloy",
+    fixationType: "Retrograde intramedullary nail",
+    intendedSites: ["Ankle"],
+    udiDi: "00765408182214",
+  },
+  {
+    id: "dev-022",
+    manufacturer: "DePuy Synthes",
+    productFamily: "Cannulated Screws",
+    modelRef: "DePuy Synthes 6.5 mm Cannulated Screw",
+    catalogueNumber: "208.065",
+    material: "Stainless steel",
+    fixationType: "Cannulated screw fixation",
+    intendedSites: ["Ankle", "Proximal Femur"],
+    udiDi: "01070545208062",
+  },
+  {
+    id: "dev-023",
+    manufacturer: "Medtronic",
+    productFamily: "Prestige",
+    modelRef: "Medtronic Prestige LP",
+    catalogueNumber: "6972060",
+    material: "Titanium ceramic composite",
+    fixationType: "Anterior cervical disc replacement",
+    intendedSites: ["Cervical Spine"],
+    udiDi: "00643169697201",
+  },
+  {
+    id: "dev-024",
+    manufacturer: "DePuy Synthes",
+    productFamily: "ProDisc",
+    modelRef: "DePuy Synthes ProDisc-C",
+    catalogueNumber: "SSE7115",
+    material: "CoCr alloy / UHMWPE",
+    fixationType: "Anterior cervical disc replacement",
+    intendedSites: ["Cervical Spine"],
+    udiDi: "01070545711500",
+  },
+  {
+    id: "dev-025",
+    manufacturer: "Globus Medical",
+    productFamily: "Secure-C",
+    modelRef: "Globus Medical Secure-C",
+    catalogueNumber: "1245.1506",
+    material: "CoCr alloy / UHMWPE",
+    fixationType: "Anterior cervical disc replacement",
+    intendedSites: ["Cervical Spine"],
+    udiDi: "00889095124514",
+  },
+  {
+    id: "dev-026",
+    manufacturer: "Stryker",
+    productFamily: "Gamma3",
+    modelRef: "Stryker Gamma3 Long Nail",
+    catalogueNumber: "3220-0340S",
+    material: "Titanium alloy",
+    fixationType: "Intramedullary nail",
+    intendedSites: ["Proximal Femur"],
+    udiDi: "00765408322009",
+  },
+  {
+    id: "dev-027",
+    manufacturer: "DePuy Synthes",
+    productFamily: "PFNA",
+    modelRef: "DePuy Synthes PFNA-II",
+    catalogueNumber: "04.027.330S",
+    material: "Titanium alloy",
+    fixationType: "Intramedullary nail",
+    intendedSites: ["Proximal Femur"],
+    udiDi: "01070545040273",
+  },
+  {
+    id: "dev-028",
+    manufacturer: "Smith & Nephew",
+    productFamily: "Trigen",
+    modelRef: "Smith & Nephew Trigen Intertan",
+    catalogueNumber: "71673016",
+    material: "Titanium alloy",
+    fixationType: "Intramedullary nail",
+    intendedSites: ["Proximal Femur"],
+    udiDi: "00388578716739",
+  },
+];
@@ -0,0 +1,154 @@
+import { JSDOM } from "jsdom";
+import { beforeAll, describe, expect, it } from "vitest";
+import { csvRecords, parseCsv, parseXlsx, toCsv } from "./registryExport";
+
+describe("CSV", () => {
+  it("quotes fields that need it and round-trips them", () => {
+    const rows = [
+      ["plain", 'say "hi"', "a,b"],
+      ["multi\nline", 3, true],
+    ];
+    const csv = toCsv(["A", "B", "C"], rows);
+    expect(csv).toBe(
+      'A,B,C\r\nplain,"say ""hi""","a,b"\r\n"multi\nline",3,true',
+    );
+    expect(parseCsv(csv)).toEqual([
+      ["A", "B", "C"],
+      ["plain", 'say "hi"', "a,b"],
+      ["multi\nline", "3", "true"],
+    ]);
+  });
+
+  it("skips a byte-order mark and blank lines", () => {
+    expect(parseCsv("﻿a,b\n\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("rejects an unterminated quote", () => {
+    expect(() => parseCsv('a,"b\n')).toThrow("CSV ends inside a quoted field");
+  });
+
+  it("checks columns and row widths when mapping to records", () => {
+    expect(csvRecords("a,b\n1,2", ["a"])).toEqual([{ a: "1", b: "2" }]);
+    expect(() => csvRecords("a\n1", ["a", "b"])).toThrow(
+      "CSV is missing columns: b",
+    );
+    expect(() => csvRecords("a,b\n1", ["a"])).toThrow(
+      "CSV row 2 has 1 fields, expected 2",
+    );
+  });
+});
+
+// ─── XLSX fixture ────────────────────────────────────────────────────────────
+
+async function deflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** A ZIP archive with only the fields `parseXlsx` reads filled in. */
+async function zip(
+  files: Record<string, string>,
+  compressed: string[],
+): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const deflate = compressed.includes(name);
+    const data = deflate ? await deflateRaw(raw) : raw;
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, deflate ? 8 : 0, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, deflate ? 8 : 0, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const directorySize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+  const parts = [...locals, ...centrals, end];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out.buffer;
+}
+
+const MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const WORKBOOK = {
+  "xl/workbook.xml": `<workbook xmlns="${MAIN}" xmlns:r="${REL}"><sheets><sheet name="Cases" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  "xl/_rels/workbook.xml.rels": `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`,
+  "xl/sharedStrings.xml": `<sst xmlns="${MAIN}"><si><t>Patient</t></si><si><t>Surgery Date</t></si><si><r><t>TH-</t></r><r><t>001</t></r></si></sst>`,
+  "xl/worksheets/sheet1.xml": `<worksheet xmlns="${MAIN}"><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Consented</t></is></c></row>
+    <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>45356</v></c><c r="D2" t="b"><v>1</v></c></row>
+    <row r="3"><c r="A3"><v> </v></c></row>
+  </sheetData></worksheet>`,
+};
+
+describe("parseXlsx", () => {
+  // Node has no DOMParser. Borrow jsdom's rather than run the file under the
+  // jsdom environment, whose Blob cannot be streamed.
+  beforeAll(() => {
+    globalThis.DOMParser = new JSDOM().window.DOMParser;
+  });
+
+  it.each([
+    ["stored", []],
+    ["deflated", Object.keys(WORKBOOK)],
+  ])(
+    "reads the first worksheet of a %s workbook",
+    async (_name, compressed) => {
+      const rows = await parseXlsx(await zip(WORKBOOK, compressed));
+      expect(rows).toEqual([
+        ["Patient", "Surgery Date", "", "Consented"],
+        ["TH-001", "45356", "", "TRUE"],
+      ]);
+    },
+  );
+
+  it("rejects files that are not ZIP archives", async () => {
+    await expect(
+      parseXlsx(new TextEncoder().encode("Patient,Age\n").buffer),
+    ).rejects.toThrow("Not an XLSX workbook");
+  });
+
+  it("rejects archives without a workbook", async () => {
+    await expect(
+      parseXlsx(await zip({ "word/document.xml": "<document/>" }, [])),
+    ).rejects.toThrow("Not an XLSX workbook");
+  });
+});
@@ -0,0 +1,216 @@
+export type CsvValue = string | number | boolean;
+
+function csvField(value: CsvValue): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with CRLF line endings, as spreadsheet tools expect. */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n");
+}
+
+/** Parses RFC 4180 CSV, including quoted fields spanning lines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error("CSV ends inside a quoted field");
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value !== ""));
+}
+
+/** Maps CSV rows to objects keyed by the header row. */
+export function csvRecords(
+  text: string,
+  requiredColumns: readonly string[],
+): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error("CSV file is empty");
+  const missing = requiredColumns.filter((c) => !header.includes(c));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(", ")}`);
+  }
+  return rows.map((row, i) => {
+    if (row.length !== header.length) {
+      throw new Error(
+        `CSV row ${i + 2} has ${row.length} fields, expected ${header.length}`,
+      );
+    }
+    return Object.fromEntries(header.map((column, j) => [column, row[j]]));
+  });
+}
+
+// ─── XLSX ────────────────────────────────────────────────────────────────────
+// Just enough of OOXML to read the first worksheet of a workbook as text:
+// the ZIP central directory, deflate via DecompressionStream, and the
+// shared-string and sheet XML parts. Formatting and formulas are ignored;
+// dates arrive as Excel serial day numbers.
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function unzip(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not an XLSX workbook");
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("XLSX workbook is corrupt");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (!name.endsWith(".xml") && !name.endsWith(".rels")) continue;
+    const start =
+      local +
+      30 +
+      view.getUint16(local + 26, true) +
+      view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + size);
+    if (method !== 0 && method !== 8) {
+      throw new Error(`XLSX part ${name} uses an unsupported compression`);
+    }
+    files.set(
+      name,
+      decoder.decode(method === 8 ? await inflateRaw(data) : data),
+    );
+  }
+  return files;
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+function elements(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", name));
+}
+
+/** Zero-based column of a cell reference such as "AB12". */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, "")) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function firstSheetPath(files: Map<string, string>): string {
+  const workbook = files.get("xl/workbook.xml");
+  const rels = files.get("xl/_rels/workbook.xml.rels");
+  if (!workbook || !rels) throw new Error("Not an XLSX workbook");
+  const sheet = elements(parseXml(workbook), "sheet")[0];
+  if (!sheet) throw new Error("XLSX workbook has no worksheets");
+  const id = Array.from(sheet.attributes).find(
+    (a) => a.localName === "id",
+  )?.value;
+  const target = elements(parseXml(rels), "Relationship")
+    .find((r) => r.getAttribute("Id") === id)
+    ?.getAttribute("Target");
+  if (!target) throw new Error("XLSX workbook has no worksheets");
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/** Reads the first worksheet of an XLSX workbook as rows of cell text. */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await unzip(buffer);
+  const sharedStrings = files.get("xl/sharedStrings.xml");
+  const strings = sharedStrings
+    ? elements(parseXml(sharedStrings), "si").map((si) =>
+        elements(si, "t")
+          .map((t) => t.textContent ?? "")
+          .join(""),
+      )
+    : [];
+  const sheet = files.get(firstSheetPath(files));
+  if (!sheet) throw new Error("XLSX worksheet is missing");
+  const rows = elements(parseXml(sheet), "row").map((row) => {
+    const values: string[] = [];
+    for (const cell of elements(row, "c")) {
+      const value = elements(cell, "v")[0]?.textContent ?? "";
+      const type = cell.getAttribute("t");
+      const text =
+        type === "s"
+          ? (strings[Number(value)] ?? "")
+          : type === "inlineStr"
+            ? elements(cell, "t")
+                .map((t) => t.textContent ?? "")
+                .join("")
+            : type === "b"
+              ? value === "1"
+                ? "TRUE"
+                : "FALSE"
+              : value;
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : values.length;
+      while (values.length < index) values.push("");
+      values[index] = text;
+    }
+    return values;
+  });
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+export function downloadFile(
+  fileName: string,
+  mimeType: string,
+  content: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import {
+  type FhirBundle,
+  type FhirResource,
+  recordsToFhirBundle,
+} from "./registryFhir";
+
+function record(overrides: Partial<ImplantRecord>): ImplantRecord {
+  return { ...REGISTRY_DATA[0], ...overrides };
+}
+
+const EXPORTED_AT = new Date("2026-02-03T04:05:06Z");
+
+function bundle(records: ImplantRecord[], identifiable = true): FhirBundle {
+  return recordsToFhirBundle(records, {
+    identifiable,
+    exportedAt: EXPORTED_AT,
+  });
+}
+
+function resources(
+  result: FhirBundle,
+  type: FhirResource["resourceType"],
+): FhirResource[] {
+  return result.entry
+    .map((e) => e.resource)
+    .filter((r) => r.resourceType === type);
+}
+
+/** Every `reference` value anywhere in a resource. */
+function references(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(references);
+  if (value === null || typeof value !== "object") return [];
+  return Object.entries(value).flatMap(([key, child]) =>
+    key === "reference" && typeof child === "string"
+      ? [child]
+      : references(child),
+  );
+}
+
+describe("recordsToFhirBundle", () => {
+  const records = [
+    record({ id: "rec-001", patientId: "TH-001" }),
+    record({ id: "rec-002", patientId: "TH-001", archived: true }),
+    record({ id: "rec-003", patientId: "TH-002", nextReview: "" }),
+  ];
+
+  it("is a collection stamped with the export time", () => {
+    expect(bundle(records)).toMatchObject({
+      resourceType: "Bundle",
+      type: "collection",
+      timestamp: "2026-02-03T04:05:06.000Z",
+    });
+  });
+
+  it("maps each record to a procedure, a device and five observations", () => {
+    const result = bundle(records);
+    expect(resources(result, "Procedure")).toHaveLength(3);
+    expect(resources(result, "Device")).toHaveLength(3);
+    expect(resources(result, "Observation")).toHaveLength(15);
+  });
+
+  it("gives every entry a distinct urn:uuid full URL", () => {
+    const urls = bundle(records).entry.map((e) => e.fullUrl);
+    for (const url of urls) {
+      expect(url).toMatch(
+        /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/,
+      );
+    }
+    expect(new Set(urls).size).toBe(urls.length);
+  });
+
+  it("resolves every reference to an entry in the bundle", () => {
+    const result = bundle(records);
+    const byUrl = new Map(result.entry.map((e) => [e.fullUrl, e.resource]));
+    const procedure = resources(result, "Procedure")[0];
+    const [subject, device] = [
+      procedure.subject,
+      procedure.focalDevice,
+    ].flatMap(references);
+    expect(byUrl.get(subject)).toMatchObject({ resourceType: "Patient" });
+    expect(byUrl.get(device)).toMatchObject({
+      resourceType: "Device",
+      id: "device-rec-001",
+    });
+    for (const entry of result.entry) {
+      for (const ref of references(entry.resource)) {
+        expect(byUrl.has(ref)).toBe(true);
+      }
+    }
+  });
+
+  it("carries the device's lot, model and status", () => {
+    const devices = resources(bundle(records), "Device");
+    expect(devices[0]).toMatchObject({
+      status: "active",
+      manufacturer: "Zimmer Biomet",
+      lotNumber: "ZB-2019-HIP-0431",
+      modelNumber: "Zimmer Biomet Taperloc Complete",
+    });
+    expect(devices[1].status).toBe("inactive");
+  });
+
+  it("records age, complications and the next review as observations", () => {
+    const observations = resources(bundle(records), "Observation");
+    const byId = new Map(observations.map((o) => [o.id, o]));
+    expect(byId.get("observation-rec-001-age")).toMatchObject({
+      effectiveDateTime: "2019-03-14",
+      valueQuantity: { value: 68, unit: "years", code: "a" },
+    });
+    expect(byId.get("observation-rec-001-complications")).toMatchObject({
+      valueInteger: 1,
+    });
+    expect(byId.get("observation-rec-001-follow-up")).toMatchObject({
+      valueCodeableConcept: { text: "Overdue" },
+      note: [{ text: "Next review due 2024-03-14" }],
+    });
+    expect(byId.get("observation-rec-003-follow-up")).not.toHaveProperty(
+      "note",
+    );
+  });
+
+  describe("with identifier access", () => {
+    it("shares one identified patient between a patient's records", () => {
+      const patients = resources(bundle(records), "Patient");
+      expect(patients.map((p) => p.id)).toEqual([
+        "patient-th-001",
+        "patient-th-002",
+      ]);
+      expect(patients[0]).toMatchObject({
+        identifier: [{ value: "TH-001" }],
+        gender: "female",
+      });
+    });
+  });
+
+  describe("without identifier access", () => {
+    const result = bundle(records, false);
+
+    it("gives each record its own patient without an identifier", () => {
+      const patients = resources(result, "Patient");
+      expect(patients.map((p) => p.id)).toEqual([
+        "patient-rec-001",
+        "patient-rec-002",
+        "patient-rec-003",
+      ]);
+      for (const patient of patients) {
+        expect(patient).not.toHaveProperty("identifier");
+      }
+    });
+
+    it("leaves no patient identifier anywhere in the bundle", () => {
+      expect(JSON.stringify(result)).not.toMatch(/TH-00\d/i);
+    });
+  });
+});
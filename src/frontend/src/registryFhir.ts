@@ -0,0 +1,213 @@
+import type { ImplantRecord } from "./registryData";
+
+// Codes without a standard terminology binding use the registry's own system.
+const REGISTRY_SYSTEM = "urn:thodar:registry";
+const PATIENT_ID_SYSTEM = `${REGISTRY_SYSTEM}:patient-id`;
+const RECORD_ID_SYSTEM = `${REGISTRY_SYSTEM}:record-id`;
+const OBSERVATION_SYSTEM = `${REGISTRY_SYSTEM}:observation`;
+const LOINC = "http://loinc.org";
+const UCUM = "http://unitsofmeasure.org";
+
+/** The subset of a FHIR R4 resource this module produces. */
+export interface FhirResource {
+  resourceType: "Patient" | "Procedure" | "Device" | "Observation";
+  id: string;
+  [element: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  type: "collection";
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+export interface FhirExportOptions {
+  /**
+   * Without identifier access, patients carry no identifier and each record
+   * gets its own Patient, so cases cannot be linked back to a person.
+   */
+  identifiable: boolean;
+  exportedAt?: Date;
+}
+
+function fhirId(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9.-]/g, "-");
+}
+
+/** Points at the entry holding `resource` within the bundle. */
+type Reference = (resource: FhirResource) => { reference: string };
+
+function toPatient(record: ImplantRecord, identifiable: boolean): FhirResource {
+  return {
+    resourceType: "Patient",
+    id: `patient-${fhirId(identifiable ? record.patientId : record.id)}`,
+    ...(identifiable && {
+      identifier: [{ system: PATIENT_ID_SYSTEM, value: record.patientId }],
+    }),
+    gender: record.sex.toLowerCase(),
+  };
+}
+
+function toDevice(
+  record: ImplantRecord,
+  patient: FhirResource,
+  reference: Reference,
+): FhirResource {
+  return {
+    resourceType: "Device",
+    id: `device-${fhirId(record.id)}`,
+    status: record.archived ? "inactive" : "active",
+    manufacturer: record.manufacturer,
+    lotNumber: record.lotNumber,
+    modelNumber: record.modelRef,
+    deviceName: [{ name: record.modelRef, type: "model-name" }],
+    type: { text: record.implantCategory },
+    property: [
+      { type: { text: "Material" }, valueCode: [{ text: record.material }] },
+      {
+        type: { text: "Fixation" },
+        valueCode: [{ text: record.fixationType }],
+      },
+    ],
+    patient: reference(patient),
+  };
+}
+
+function toProcedure(
+  record: ImplantRecord,
+  patient: FhirResource,
+  device: FhirResource,
+  reference: Reference,
+): FhirResource {
+  return {
+    resourceType: "Procedure",
+    id: `procedure-${fhirId(record.id)}`,
+    identifier: [{ system: RECORD_ID_SYSTEM, value: record.id }],
+    status: "completed",
+    code: { text: record.implantCategory },
+    subject: reference(patient),
+    performedDateTime: record.surgeryDate,
+    performer: [{ actor: { display: record.operatingSurgeon } }],
+    location: { display: record.institution },
+    reasonCode: [{ text: record.primaryDiagnosis }],
+    bodySite: [{ text: `${record.laterality} ${record.anatomicalSite}` }],
+    focalDevice: [
+      { action: { text: "Implanted" }, manipulated: reference(device) },
+    ],
+    note: [
+      { text: `Comorbidities: ${record.comorbidities}` },
+      { text: `Revision history: ${record.revisionHistory}` },
+    ],
+  };
+}
+
+function toObservations(
+  record: ImplantRecord,
+  patient: FhirResource,
+  procedure: FhirResource,
+  device: FhirResource,
+  reference: Reference,
+): FhirResource[] {
+  const base = (key: string, code: object) => ({
+    resourceType: "Observation" as const,
+    id: `observation-${fhirId(record.id)}-${key}`,
+    status: "final",
+    code,
+    subject: reference(patient),
+    partOf: [reference(procedure)],
+    focus: [reference(device)],
+    effectiveDateTime: record.lastReview,
+  });
+  const registryCode = (code: string, display: string) => ({
+    coding: [{ system: OBSERVATION_SYSTEM, code, display }],
+    text: display,
+  });
+  return [
+    {
+      ...base("age", {
+        coding: [{ system: LOINC, code: "30525-0", display: "Age" }],
+        text: "Age at implantation",
+      }),
+      effectiveDateTime: record.surgeryDate,
+      valueQuantity: {
+        value: record.age,
+        unit: "years",
+        system: UCUM,
+        code: "a",
+      },
+    },
+    {
+      ...base(
+        "follow-up",
+        registryCode("follow-up-status", "Follow-up status"),
+      ),
+      valueCodeableConcept: { text: record.followUpStatus },
+      ...(record.nextReview && {
+        note: [{ text: `Next review due ${record.nextReview}` }],
+      }),
+    },
+    {
+      ...base("alert", registryCode("alert-level", "Implant alert level")),
+      valueCodeableConcept: { text: record.alertLevel },
+    },
+    {
+      ...base("risk", registryCode("risk-level", "Risk stratification")),
+      valueCodeableConcept: { text: record.riskLevel },
+    },
+    {
+      ...base(
+        "complications",
+        registryCode("complications", "Complication reports"),
+      ),
+      valueInteger: record.complicationsLogged,
+    },
+  ];
+}
+
+/**
+ * One Patient, Procedure, Device and set of Observations per implant record.
+ * Identifiable exports share a Patient between records of the same patient.
+ * Entries are addressed by `urn:uuid:` full URLs, which references within
+ * the bundle resolve to.
+ */
+export function recordsToFhirBundle(
+  records: ImplantRecord[],
+  { identifiable, exportedAt = new Date() }: FhirExportOptions,
+): FhirBundle {
+  const fullUrls = new Map<string, string>();
+  const fullUrl = (resource: FhirResource) => {
+    const key = `${resource.resourceType}/${resource.id}`;
+    const url = fullUrls.get(key) ?? `urn:uuid:${crypto.randomUUID()}`;
+    fullUrls.set(key, url);
+    return url;
+  };
+  const reference: Reference = (resource) => ({
+    reference: fullUrl(resource),
+  });
+  const patients = new Map<string, FhirResource>();
+  const resources: FhirResource[] = [];
+  for (const record of records) {
+    const patient = toPatient(record, identifiable);
+    if (!patients.has(patient.id)) {
+      patients.set(patient.id, patient);
+      resources.push(patient);
+    }
+    const device = toDevice(record, patient, reference);
+    const procedure = toProcedure(record, patient, device, reference);
+    resources.push(
+      procedure,
+      device,
+      ...toObservations(record, patient, procedure, device, reference),
+    );
+  }
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: exportedAt.toISOString(),
+    entry: resources.map((resource) => ({
+      fullUrl: fullUrl(resource),
+      resource,
+    })),
+  };
+}
@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FOLLOW_UP_PROTOCOLS,
+  type FollowUpProtocol,
+  applyFollowUpSchedule,
+  computeFollowUpSchedule,
+  findFollowUpProtocol,
+  formatMilestones,
+  parseMilestones,
+  validateFollowUpProtocols,
+} from "./registryFollowUp";
+
+function protocol(overrides: Partial<FollowUpProtocol>): FollowUpProtocol {
+  return {
+    id: "custom",
+    name: "Custom",
+    categoryPattern: "knee",
+    milestones: [{ months: 6 }],
+    ...overrides,
+  };
+}
+
+describe("findFollowUpProtocol", () => {
+  it.each([
+    ["Total Knee Arthroplasty", "arthroplasty"],
+    ["Lumbar Spinal Fixation", "spinal-fixation"],
+    ["Cervical Disc Replacement", "disc-replacement"],
+    ["Proximal Femoral Nail", "fracture-fixation"],
+    ["Ankle Fusion", "fracture-fixation"],
+    ["Suture anchor", "general"],
+  ])("%s → %s", (category, protocol) => {
+    expect(findFollowUpProtocol(category).id).toBe(protocol);
+  });
+
+  it("checks configured protocols in order and falls back to the last", () => {
+    const protocols = [
+      protocol({ id: "knee" }),
+      protocol({ id: "fallback", categoryPattern: "^$" }),
+    ];
+    expect(findFollowUpProtocol("Total KNEE Arthroplasty", protocols).id).toBe(
+      "knee",
+    );
+    expect(findFollowUpProtocol("Total Hip Arthroplasty", protocols).id).toBe(
+      "fallback",
+    );
+  });
+
+  it("skips a protocol whose pattern does not compile", () => {
+    const protocols = [
+      protocol({ id: "broken", categoryPattern: "knee(" }),
+      protocol({ id: "general", categoryPattern: ".*" }),
+    ];
+    expect(findFollowUpProtocol("knee(", protocols).id).toBe("general");
+  });
+});
+
+describe("computeFollowUpSchedule", () => {
+  it.each([
+    {
+      name: "first arthroplasty review is due six weeks after surgery",
+      record: ["Total Hip Arthroplasty", "2024-01-10", ""],
+      asOf: "2024-01-20",
+      expected: ["2024-02-21", "Scheduled"],
+    },
+    {
+      name: "a missed milestone is overdue",
+      record: ["Total Hip Arthroplasty", "2024-01-10", ""],
+      asOf: "2024-03-01",
+      expected: ["2024-02-21", "Overdue"],
+    },
+    {
+      name: "a review up to 30 days early satisfies the milestone",
+      record: ["Total Hip Arthroplasty", "2024-01-10", "2024-02-15"],
+      asOf: "2024-03-01",
+      expected: ["2025-01-10", "Scheduled"],
+    },
+    {
+      name: "arthroplasty reviews recur every 24 months after the first year",
+      record: ["Total Hip Arthroplasty", "2020-01-10", "2021-01-05"],
+      asOf: "2021-02-01",
+      expected: ["2023-01-10", "Scheduled"],
+    },
+    {
+      name: "month arithmetic clamps to the end of February",
+      record: ["Lumbar Spinal Fixation", "2023-11-30", ""],
+      asOf: "2023-12-01",
+      expected: ["2024-02-29", "Scheduled"],
+    },
+    {
+      name: "a finite protocol completes after its last milestone",
+      record: ["Lumbar Spinal Fixation", "2023-01-01", "2024-01-05"],
+      asOf: "2025-01-01",
+      expected: ["", "Completed"],
+    },
+  ])("$name", ({ record, asOf, expected }) => {
+    const [implantCategory, surgeryDate, lastReview] = record;
+    const schedule = computeFollowUpSchedule(
+      { implantCategory, surgeryDate, lastReview },
+      new Date(`${asOf}T12:00:00Z`),
+    );
+    expect([schedule.nextReview, schedule.status]).toEqual(expected);
+  });
+
+  it("schedules against configured protocols", () => {
+    const schedule = computeFollowUpSchedule(
+      {
+        implantCategory: "Total Knee Arthroplasty",
+        surgeryDate: "2024-01-10",
+        lastReview: "2024-07-05",
+      },
+      new Date("2024-08-01T00:00:00Z"),
+      [protocol({ milestones: [{ months: 6 }], thenEveryMonths: 3 })],
+    );
+    expect(schedule).toMatchObject({
+      nextReview: "2024-10-10",
+      status: "Scheduled",
+    });
+    expect(schedule.protocol.id).toBe("custom");
+  });
+
+  it("does not count a surgery-day entry as a review", () => {
+    const schedule = computeFollowUpSchedule(
+      {
+        implantCategory: "Total Hip Arthroplasty",
+        surgeryDate: "2024-01-10",
+        lastReview: "2024-01-10",
+      },
+      new Date("2024-01-11T00:00:00Z"),
+    );
+    expect(schedule.nextReview).toBe("2024-02-21");
+  });
+});
+
+describe("applyFollowUpSchedule", () => {
+  it("replaces the stored review date and status", () => {
+    const record = {
+      implantCategory: "Total Hip Arthroplasty",
+      surgeryDate: "2024-01-10",
+      lastReview: "",
+      nextReview: "2030-01-01",
+      followUpStatus: "Completed" as const,
+      notes: "kept",
+    };
+    expect(
+      applyFollowUpSchedule(record, new Date("2024-03-01T00:00:00Z")),
+    ).toEqual({
+      ...record,
+      nextReview: "2024-02-21",
+      followUpStatus: "Overdue",
+    });
+  });
+});
+
+describe("milestone shorthand", () => {
+  it("round-trips the default protocols", () => {
+    for (const { milestones } of DEFAULT_FOLLOW_UP_PROTOCOLS) {
+      expect(parseMilestones(formatMilestones(milestones))).toEqual(milestones);
+    }
+  });
+
+  it.each([
+    ["6w, 3M ,12m", [{ weeks: 6 }, { months: 3 }, { months: 12 }]],
+    ["", []],
+  ])("parses %j", (text, expected) => {
+    expect(parseMilestones(text)).toEqual(expected);
+  });
+
+  it.each(["6", "0w", "6d", "6w 12m", "-3m"])("rejects %j", (text) => {
+    expect(parseMilestones(text)).toBeNull();
+  });
+});
+
+describe("validateFollowUpProtocols", () => {
+  it("accepts the default protocols", () => {
+    expect(validateFollowUpProtocols(DEFAULT_FOLLOW_UP_PROTOCOLS)).toEqual([]);
+  });
+
+  it("requires at least one protocol", () => {
+    expect(validateFollowUpProtocols([])).toEqual([
+      "At least one follow-up protocol is required",
+    ]);
+  });
+
+  it.each<[string, Partial<FollowUpProtocol>, string]>([
+    ["a name", { name: " " }, "custom: a name is required"],
+    [
+      "a pattern",
+      { categoryPattern: "" },
+      "Custom: an implant category pattern is required",
+    ],
+    [
+      "a valid pattern",
+      { categoryPattern: "[knee" },
+      'Custom: "[knee" is not a valid pattern',
+    ],
+    [
+      "some review",
+      { milestones: [] },
+      "Custom: add a milestone or a recurring interval",
+    ],
+    [
+      "whole months",
+      { thenEveryMonths: 1.5 },
+      "Custom: the recurring interval must be whole months",
+    ],
+    [
+      "increasing milestones",
+      { milestones: [{ months: 3 }, { weeks: 12 }] },
+      "Custom: milestones must be increasing and after surgery",
+    ],
+  ])("requires %s", (_, overrides, problem) => {
+    expect(validateFollowUpProtocols([protocol(overrides)])).toEqual([problem]);
+  });
+
+  it("rejects duplicate IDs", () => {
+    expect(
+      validateFollowUpProtocols([protocol({}), protocol({ name: "Other" })]),
+    ).toEqual(['Other: duplicate protocol ID "custom"']);
+  });
+});
@@ -0,0 +1,301 @@
+export const FOLLOW_UP_EVENT_TYPES = [
+  "Clinical Review",
+  "Imaging",
+  "Complication",
+  "Revision",
+  "Missed Appointment",
+] as const;
+
+export type FollowUpEventType = (typeof FOLLOW_UP_EVENT_TYPES)[number];
+
+export interface FollowUpEventInput {
+  recordId: string;
+  eventType: FollowUpEventType;
+  /** `YYYY-MM-DD` date on which the event took place. */
+  eventDate: string;
+  notes: string;
+}
+
+/** Append-only entry in a record's follow-up log. */
+export interface FollowUpEvent extends FollowUpEventInput {
+  id: string;
+  /** Principal text of the clinician who logged it, or a label offline. */
+  author: string;
+  /** ISO timestamp at which the event was logged. */
+  timestamp: string;
+}
+
+/**
+ * Every date a case is known to have been reviewed, from its record versions
+ * and its clinical review events.
+ */
+export interface ReviewHistory {
+  recordId: string;
+  /** `YYYY-MM-DD` dates, unordered and possibly repeated. */
+  reviewDates: string[];
+}
+
+// ─── Follow-up scheduling ────────────────────────────────────────────────────
+
+export interface ReviewInterval {
+  weeks?: number;
+  months?: number;
+}
+
+/**
+ * Review schedule for a family of implant categories. Milestones are measured
+ * from the surgery date; once they are exhausted, reviews continue every
+ * `thenEveryMonths` or, if that is omitted or 0, the protocol is complete.
+ */
+export interface FollowUpProtocol {
+  id: string;
+  name: string;
+  /** Regular expression matched case-insensitively against `implantCategory`. */
+  categoryPattern: string;
+  milestones: ReviewInterval[];
+  thenEveryMonths?: number;
+}
+
+/** A review this many days before a milestone still satisfies it. */
+export const REVIEW_WINDOW_DAYS = 30;
+
+/**
+ * Protocols a new registry starts with, mirrored by the canister's seed.
+ * Administrators and Quality Officers replace them through
+ * `RegistryRepository.saveFollowUpProtocols`. Checked in order; the last
+ * entry is the catch-all.
+ */
+export const DEFAULT_FOLLOW_UP_PROTOCOLS: FollowUpProtocol[] = [
+  {
+    id: "arthroplasty",
+    name: "Joint Arthroplasty",
+    categoryPattern: "arthroplasty",
+    milestones: [{ weeks: 6 }, { months: 12 }],
+    thenEveryMonths: 24,
+  },
+  {
+    id: "spinal-fixation",
+    name: "Spinal Fixation",
+    categoryPattern: "spinal fixation|spinal fusion",
+    milestones: [{ months: 3 }, { months: 6 }, { months: 12 }],
+  },
+  {
+    id: "disc-replacement",
+    name: "Disc Replacement",
+    categoryPattern: "disc replacement",
+    milestones: [{ weeks: 6 }, { months: 3 }, { months: 12 }],
+    thenEveryMonths: 24,
+  },
+  {
+    id: "fracture-fixation",
+    name: "Fracture Fixation & Fusion",
+    categoryPattern: "nail|plate|screw|fusion|fixation",
+    milestones: [{ weeks: 6 }, { months: 3 }, { months: 6 }, { months: 12 }],
+  },
+  {
+    id: "general",
+    name: "General Orthopedic Implant",
+    categoryPattern: ".*",
+    milestones: [{ weeks: 6 }, { months: 12 }],
+    thenEveryMonths: 12,
+  },
+];
+
+export interface FollowUpSchedule {
+  protocol: FollowUpProtocol;
+  /** `YYYY-MM-DD`, or "" once a finite protocol has been completed. */
+  nextReview: string;
+  status: "Scheduled" | "Overdue" | "Completed";
+}
+
+type ScheduleFields = {
+  implantCategory: string;
+  surgeryDate: string;
+  lastReview: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+}
+
+export function findFollowUpProtocol(
+  implantCategory: string,
+  protocols: FollowUpProtocol[] = DEFAULT_FOLLOW_UP_PROTOCOLS,
+): FollowUpProtocol {
+  return (
+    protocols.find((p) =>
+      compilePattern(p.categoryPattern)?.test(implantCategory),
+    ) ?? protocols[protocols.length - 1]
+  );
+}
+
+function toUtcDate(iso: string): Date {
+  return new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Month arithmetic clamps to the end of shorter months (31 Jan + 1 → 28 Feb).
+function addInterval(from: Date, interval: ReviewInterval): Date {
+  const date = new Date(from.getTime() + (interval.weeks ?? 0) * 7 * DAY_MS);
+  if (!interval.months) return date;
+  const target = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + interval.months, 1),
+  );
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+/** Review due dates in order; endless for protocols with recurring reviews. */
+function* dueDates(surgery: Date, protocol: FollowUpProtocol): Generator<Date> {
+  let last = surgery;
+  for (const milestone of protocol.milestones) {
+    last = addInterval(surgery, milestone);
+    yield last;
+  }
+  if (!protocol.thenEveryMonths) return;
+  while (true) {
+    last = addInterval(last, { months: protocol.thenEveryMonths });
+    yield last;
+  }
+}
+
+/**
+ * Next due review for a case: the first milestone not yet covered by its last
+ * clinical review, and whether that review is overdue at `asOf`.
+ */
+export function computeFollowUpSchedule(
+  record: ScheduleFields,
+  asOf: Date = new Date(),
+  protocols: FollowUpProtocol[] = DEFAULT_FOLLOW_UP_PROTOCOLS,
+): FollowUpSchedule {
+  const protocol = findFollowUpProtocol(record.implantCategory, protocols);
+  const surgery = toUtcDate(record.surgeryDate);
+  const lastReview = toUtcDate(record.lastReview || record.surgeryDate);
+  // Surgery-day entries are not a follow-up review.
+  const reviewed =
+    lastReview.getTime() > surgery.getTime() ? lastReview.getTime() : null;
+  const windowMs = REVIEW_WINDOW_DAYS * DAY_MS;
+
+  for (const due of dueDates(surgery, protocol)) {
+    if (reviewed !== null && reviewed >= due.getTime() - windowMs) continue;
+    return {
+      protocol,
+      nextReview: toIsoDate(due),
+      status:
+        due.getTime() < startOfDay(asOf).getTime() ? "Overdue" : "Scheduled",
+    };
+  }
+  return { protocol, nextReview: "", status: "Completed" };
+}
+
+function startOfDay(date: Date): Date {
+  return toUtcDate(toIsoDate(date));
+}
+
+/** Replaces the stored follow-up fields with the protocol-derived ones. */
+export function applyFollowUpSchedule<
+  T extends ScheduleFields & {
+    nextReview: string;
+    followUpStatus: FollowUpSchedule["status"];
+  },
+>(
+  record: T,
+  asOf: Date = new Date(),
+  protocols: FollowUpProtocol[] = DEFAULT_FOLLOW_UP_PROTOCOLS,
+): T {
+  const schedule = computeFollowUpSchedule(record, asOf, protocols);
+  return {
+    ...record,
+    nextReview: schedule.nextReview,
+    followUpStatus: schedule.status,
+  };
+}
+
+// ─── Protocol configuration ──────────────────────────────────────────────────
+
+/** Formats milestones as editable shorthand, e.g. "6w, 12m". */
+export function formatMilestones(milestones: ReviewInterval[]): string {
+  return milestones
+    .map((m) => (m.weeks ? `${m.weeks}w` : `${m.months ?? 0}m`))
+    .join(", ");
+}
+
+/** Parses "6w, 3m, 12m" shorthand; null when any entry is malformed. */
+export function parseMilestones(text: string): ReviewInterval[] | null {
+  const entries = text
+    .split(",")
+    .map((e) => e.trim())
+    .filter(Boolean);
+  const milestones: ReviewInterval[] = [];
+  for (const entry of entries) {
+    const match = /^(\d+)\s*([wm])$/i.exec(entry);
+    if (!match || Number(match[1]) === 0) return null;
+    const count = Number(match[1]);
+    milestones.push(
+      match[2].toLowerCase() === "w" ? { weeks: count } : { months: count },
+    );
+  }
+  return milestones;
+}
+
+// Milestones are offsets from surgery, so they must move strictly forward.
+function intervalDays(interval: ReviewInterval): number {
+  return (interval.weeks ?? 0) * 7 + (interval.months ?? 0) * 30.44;
+}
+
+/**
+ * Problems that would stop `protocols` from scheduling every case, in the
+ * order the protocols are listed. Mirrors the canister's checks, plus the
+ * pattern syntax the canister cannot parse.
+ */
+export function validateFollowUpProtocols(
+  protocols: FollowUpProtocol[],
+): string[] {
+  if (protocols.length === 0) {
+    return ["At least one follow-up protocol is required"];
+  }
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  for (const protocol of protocols) {
+    const label = protocol.name.trim() || protocol.id || "Unnamed protocol";
+    if (!protocol.id.trim()) problems.push(`${label}: an ID is required`);
+    if (ids.has(protocol.id)) {
+      problems.push(`${label}: duplicate protocol ID "${protocol.id}"`);
+    }
+    ids.add(protocol.id);
+    if (!protocol.name.trim()) problems.push(`${label}: a name is required`);
+    if (!protocol.categoryPattern.trim()) {
+      problems.push(`${label}: an implant category pattern is required`);
+    } else if (!compilePattern(protocol.categoryPattern)) {
+      problems.push(
+        `${label}: "${protocol.categoryPattern}" is not a valid pattern`,
+      );
+    }
+    const every = protocol.thenEveryMonths ?? 0;
+    if (!Number.isInteger(every) || every < 0) {
+      problems.push(`${label}: the recurring interval must be whole months`);
+    }
+    if (protocol.milestones.length === 0 && every === 0) {
+      problems.push(`${label}: add a milestone or a recurring interval`);
+    }
+    const days = protocol.milestones.map(intervalDays);
+    if (days.some((d, i) => !(d > 0) || (i > 0 && d <= days[i - 1]))) {
+      problems.push(
+        `${label}: milestones must be increasing and after surgery`,
+      );
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,43 @@
+export const GOVERNANCE_LEVELS = ["Alert", "Alarm"] as const;
+export type GovernanceLevel = (typeof GOVERNANCE_LEVELS)[number];
+
+export const GOVERNANCE_STATUSES = ["Open", "Under Review", "Closed"] as const;
+export type GovernanceStatus = (typeof GOVERNANCE_STATUSES)[number];
+
+/**
+ * An item raised for Quality Officer review. `signalKey` names the analytic
+ * signal behind it so the same signal is not raised twice while unresolved.
+ */
+export interface GovernanceItemInput {
+  signalKey: string;
+  /** Source of the item, e.g. "Outlier". */
+  category: string;
+  subject: string;
+  summary: string;
+  level: GovernanceLevel;
+}
+
+export interface GovernanceItem extends GovernanceItemInput {
+  id: string;
+  status: GovernanceStatus;
+  resolution: string;
+  raisedBy: string;
+  /** ISO timestamp. */
+  raisedAt: string;
+  updatedBy: string;
+  /** ISO timestamp. */
+  updatedAt: string;
+}
+
+export interface GovernanceItemUpdate {
+  id: string;
+  status: GovernanceStatus;
+  resolution: string;
+}
+
+export function findOpenGovernanceItem(
+  items: GovernanceItem[],
+  signalKey: string,
+): GovernanceItem | undefined {
+  return items.find((i) => i.signalKey === signalKey && i.status !== "Closed");
+}
@@ -0,0 +1,89 @@
+import { IMPLANT_FIELD_LABELS, type ImplantRecord } from "./registryData";
+
+const ANONYMOUS_PRINCIPAL = "2vxsx-fae";
+
+/** Immutable snapshot of a record as it stood after one change. */
+export interface RecordVersion {
+  recordId: string;
+  version: number;
+  /** Principal text of the editor, or a descriptive label offline. */
+  author: string;
+  /** ISO timestamp of the change. */
+  timestamp: string;
+  note: string;
+  snapshot: ImplantRecord;
+}
+
+export interface FieldChange {
+  field: keyof typeof IMPLANT_FIELD_LABELS | "archived";
+  label: string;
+  before: string;
+  after: string;
+}
+
+/** Who and why, attached to every write so it can be versioned. */
+export interface ChangeContext {
+  /** Ignored by the canister, which records the caller principal itself. */
+  author: string;
+  note: string;
+}
+
+export function diffRecords(
+  before: ImplantRecord,
+  after: ImplantRecord,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of Object.keys(IMPLANT_FIELD_LABELS) as Array<
+    keyof typeof IMPLANT_FIELD_LABELS
+  >) {
+    const from = String(before[field]);
+    const to = String(after[field]);
+    if (from !== to) {
+      changes.push({
+        field,
+        label: IMPLANT_FIELD_LABELS[field],
+        before: from,
+        after: to,
+      });
+    }
+  }
+  if (Boolean(before.archived) !== Boolean(after.archived)) {
+    changes.push({
+      field: "archived",
+      label: "Archived",
+      before: before.archived ? "Yes" : "No",
+      after: after.archived ? "Yes" : "No",
+    });
+  }
+  return changes;
+}
+
+/** Changes introduced by `versions[index]` relative to its predecessor. */
+export function changesInVersion(
+  versions: RecordVersion[],
+  index: number,
+): FieldChange[] {
+  if (index <= 0) return [];
+  return diffRecords(versions[index - 1].snapshot, versions[index].snapshot);
+}
+
+export function formatAuthor(author: string): string {
+  return author === ANONYMOUS_PRINCIPAL ? "Anonymous session" : author;
+}
+
+export function formatTimestamp(iso: string): string {
+  return iso.slice(0, 16).replace("T", " ");
+}
+
+/** Appends a dated revision to a record's free-text revision history. */
+export function appendRevisionEntry(
+  revisionHistory: string,
+  description: string,
+  date: string,
+): string {
+  const entry = `${description.trim()} ${date.slice(0, 7)}`;
+  const prior = revisionHistory.trim();
+  return prior === "" || /^no prior revision$/i.test(prior)
+    ? entry
+    : `${prior}; ${entry}`;
+}
@@ -0,0 +1,281 @@
+import { describe, expect, it } from "vitest";
+import { REGISTRY_DATA } from "./registryData";
+import { type CatalogueDevice, DEVICE_CATALOGUE } from "./registryDevices";
+import {
+  type ImportContext,
+  type ImportTable,
+  importRowStatus,
+  importableInputs,
+  normalizeDate,
+  normalizeFollowUpStatus,
+  normalizeLaterality,
+  normalizeSex,
+  planImport,
+  readImportFile,
+  suggestMapping,
+  summarizeImport,
+  unmappedRequiredFields,
+} from "./registryImport";
+import {
+  DEFAULT_PSEUDONYMIZATION_OPTIONS,
+  derivePseudonyms,
+} from "./registryPseudonymization";
+
+const AS_OF = new Date("2026-10-19T00:00:00Z");
+
+const devices: CatalogueDevice[] = DEVICE_CATALOGUE.map((d) => ({
+  ...d,
+  retired: false,
+  registeredBy: "registry",
+  registeredAt: "1970-01-01T00:00:00.000Z",
+}));
+
+const context: ImportContext = {
+  existing: REGISTRY_DATA,
+  institutions: [...new Set(REGISTRY_DATA.map((r) => r.institution))],
+  devices,
+  asOf: AS_OF,
+};
+
+describe("suggestMapping", () => {
+  it("matches field names, labels and common aliases", () => {
+    expect(
+      suggestMapping([
+        "MRN",
+        "Gender",
+        "Date of Surgery",
+        "Hospital",
+        "Side",
+        "Lot No",
+        "Implant Category",
+        "GTIN",
+      ]),
+    ).toEqual({
+      patientId: "MRN",
+      sex: "Gender",
+      surgeryDate: "Date of Surgery",
+      institution: "Hospital",
+      laterality: "Side",
+      lotNumber: "Lot No",
+      implantCategory: "Implant Category",
+      deviceId: "GTIN",
+    });
+  });
+
+  it("does not map one column to two fields", () => {
+    expect(suggestMapping(["Status", "Status"])).toEqual({
+      followUpStatus: "Status",
+    });
+  });
+});
+
+describe("unmappedRequiredFields", () => {
+  it("lets a catalogue device stand in for the device details", () => {
+    const missing = unmappedRequiredFields({ deviceId: "UDI" });
+    expect(missing).not.toContain("manufacturer");
+    expect(missing).not.toContain("modelRef");
+    expect(missing).toContain("lotNumber");
+    expect(unmappedRequiredFields({})).toContain("manufacturer");
+  });
+});
+
+describe("normalizeDate", () => {
+  it.each([
+    ["2024-03-05", "2024-03-05"],
+    ["2024-3-5", "2024-03-05"],
+    ["2024-03-05T10:30:00Z", "2024-03-05"],
+    ["05/03/2024", "2024-03-05"],
+    ["5.3.2024", "2024-03-05"],
+    ["5-3-2024", "2024-03-05"],
+    // Excel serial days count from 1899-12-30.
+    ["45356", "2024-03-05"],
+    ["45356.75", "2024-03-05"],
+    ["36526", "2000-01-01"],
+    [" next week ", "next week"],
+  ])("%j → %s", (value, expected) => {
+    expect(normalizeDate(value)).toBe(expected);
+  });
+});
+
+describe("enum normalisation", () => {
+  it.each([
+    [normalizeSex, "m", "Male"],
+    [normalizeSex, "Female", "Female"],
+    [normalizeSex, "F.", "Female"],
+    [normalizeSex, "x", null],
+    [normalizeLaterality, "Rt", "Right"],
+    [normalizeLaterality, "bilat", "Bilateral"],
+    [normalizeLaterality, "centre", null],
+    [normalizeFollowUpStatus, "late", "Overdue"],
+    [normalizeFollowUpStatus, "DONE", "Completed"],
+  ] as const)("%o(%j) → %s", (normalize, value, expected) => {
+    expect(normalize(value)).toBe(expected);
+  });
+});
+
+const COLUMNS = [
+  "Patient",
+  "Age",
+  "Sex",
+  "Diagnosis",
+  "Category",
+  "UDI",
+  "Lot",
+  "Site",
+  "Side",
+  "Surgeon",
+  "Hospital",
+  "Surgery Date",
+];
+
+function row(overrides: Partial<Record<string, string>> = {}): string[] {
+  const values: Record<string, string> = {
+    Patient: "th-101",
+    Age: "64",
+    Sex: "F",
+    Diagnosis: "Osteoarthritis",
+    Category: "Total Knee Arthroplasty",
+    UDI: DEVICE_CATALOGUE[8].udiDi,
+    Lot: "ST-2024-KNEE-0101",
+    Site: "Knee",
+    Side: "L",
+    Surgeon: "Dr. P. Anand",
+    Hospital: "psg hospitals, coimbatore",
+    "Surgery Date": "12/01/2024",
+    ...overrides,
+  };
+  return COLUMNS.map((c) => values[c]);
+}
+
+function plan(rows: string[][]) {
+  const table: ImportTable = { fileName: "cases.csv", columns: COLUMNS, rows };
+  return planImport(table, suggestMapping(COLUMNS), context);
+}
+
+describe("planImport", () => {
+  it("normalises a valid row and fills the device from the catalogue", () => {
+    const [imported] = plan([row()]);
+    expect(imported.errors).toEqual({});
+    expect(imported.line).toBe(2);
+    expect(imported.input).toMatchObject({
+      patientId: "TH-101",
+      sex: "Female",
+      laterality: "Left",
+      surgeryDate: "2024-01-12",
+      lastReview: "2024-01-12",
+      institution: "PSG Hospitals, Coimbatore",
+      deviceId: DEVICE_CATALOGUE[8].id,
+      manufacturer: DEVICE_CATALOGUE[8].manufacturer,
+      modelRef: DEVICE_CATALOGUE[8].modelRef,
+    });
+  });
+
+  it("reports each problem against its field", () => {
+    const [imported] = plan([
+      row({
+        Sex: "unknown",
+        Age: "sixty",
+        Hospital: "Elsewhere",
+        "Surgery Date": "2030-01-01",
+      }),
+    ]);
+    expect(Object.keys(imported.errors).sort()).toEqual([
+      "age",
+      "institution",
+      "lastReview",
+      "sex",
+      "surgeryDate",
+    ]);
+    expect(imported.errors.sex).toBe('Unrecognised sex "unknown"');
+    expect(importRowStatus(imported)).toBe("invalid");
+  });
+
+  it("rejects devices not intended for the site", () => {
+    const [imported] = plan([row({ Site: "Shoulder" })]);
+    expect(imported.errors.deviceId).toBe(
+      "Stryker Triathlon is intended for Knee, not Shoulder",
+    );
+  });
+
+  it("marks repeats of earlier rows and existing records as duplicates", () => {
+    const existing = REGISTRY_DATA[6];
+    const rows = plan([
+      row(),
+      row({ Lot: "ST-2024-KNEE-0102" }),
+      row({
+        Patient: existing.patientId,
+        Category: existing.implantCategory,
+        UDI: DEVICE_CATALOGUE.find((d) => d.id === existing.deviceId)?.udiDi,
+        Lot: existing.lotNumber,
+        Site: existing.anatomicalSite,
+        Side: existing.laterality,
+        "Surgery Date": existing.surgeryDate,
+      }),
+    ]);
+    expect(rows.map((r) => r.duplicateOf)).toEqual([
+      null,
+      "line 2",
+      existing.id,
+    ]);
+    expect(summarizeImport(rows)).toMatchObject({
+      total: 3,
+      ready: 1,
+      duplicates: 2,
+    });
+    expect(importableInputs(rows)).toHaveLength(1);
+  });
+
+  it("flags pseudonyms a registry patient already holds", async () => {
+    const table: ImportTable = {
+      fileName: "cases.csv",
+      columns: COLUMNS,
+      rows: [row()],
+    };
+    const pseudonyms = await derivePseudonyms(["TH-101"], "pilot key");
+    const pseudonym = pseudonyms.get("TH-101") ?? "";
+    const pseudonymization = {
+      options: { key: "pilot key", ...DEFAULT_PSEUDONYMIZATION_OPTIONS },
+      pseudonyms,
+    };
+    const mapping = suggestMapping(COLUMNS);
+
+    const [fresh] = planImport(table, mapping, {
+      ...context,
+      pseudonymization,
+    });
+    expect(fresh.input.patientId).toBe(pseudonym);
+    expect(fresh.errors).toEqual({});
+    expect(fresh.warnings).toEqual([]);
+
+    const [linked] = planImport(table, mapping, {
+      ...context,
+      existing: [
+        ...REGISTRY_DATA,
+        { ...REGISTRY_DATA[0], id: "rec-011", patientId: pseudonym },
+      ],
+      pseudonymization,
+    });
+    expect(linked.warnings).toEqual([
+      "Pseudonym is already in the registry; the case will join that patient's earlier records",
+    ]);
+  });
+});
+
+describe("readImportFile", () => {
+  it("names blank headers by position", async () => {
+    const table = await readImportFile(
+      new File(["Patient ID,\nMRN-1,44\n"], "cases.csv"),
+    );
+    expect(table.columns).toEqual(["Patient ID", "Column 2"]);
+  });
+
+  it("rejects a file that repeats a column header", async () => {
+    const file = new File(
+      ["Patient ID,Age,Sex, Age \nMRN-1,44,M,45\n"],
+      "cases.csv",
+    );
+    await expect(readImportFile(file)).rejects.toThrow(
+      'cases.csv repeats the column header "Age"; rename the copies and upload again',
+    );
+  });
+});
@@ -0,0 +1,531 @@
+import {
+  FOLLOW_UP_STATUSES,
+  IMPLANT_FIELD_LABELS,
+  type ImplantRecord,
+  LATERALITIES,
+  SEXES,
+} from "./registryData";
+import {
+  CATALOGUE_RECORD_FIELDS,
+  type CatalogueDevice,
+  applyCatalogueDevice,
+  findCatalogueDevice,
+} from "./registryDevices";
+import { parseCsv, parseXlsx, toCsv } from "./registryExport";
+import {
+  type FollowUpProtocol,
+  applyFollowUpSchedule,
+} from "./registryFollowUp";
+import {
+  type PseudonymTable,
+  type PseudonymizationChange,
+  type PseudonymizationOptions,
+  pseudonymizeRecord,
+} from "./registryPseudonymization";
+import type { ImplantRecordInput } from "./registryRepository";
+import {
+  type ValidationErrors,
+  validateImplantRecordInput,
+} from "./registryValidation";
+
+/** A spreadsheet as read from an uploaded file, before any mapping. */
+export interface ImportTable {
+  fileName: string;
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Record fields a source column can be mapped to. Alert and risk levels and
+ * the next review are always derived by the registry, so they are not
+ * importable.
+ */
+export const IMPORT_FIELDS = [
+  "patientId",
+  "age",
+  "sex",
+  "primaryDiagnosis",
+  "comorbidities",
+  "implantCategory",
+  "deviceId",
+  "manufacturer",
+  "modelRef",
+  "lotNumber",
+  "material",
+  "fixationType",
+  "anatomicalSite",
+  "laterality",
+  "operatingSurgeon",
+  "institution",
+  "surgeryDate",
+  "lastReview",
+  "followUpStatus",
+  "revisionHistory",
+  "complicationsLogged",
+] as const satisfies readonly (keyof ImplantRecordInput)[];
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Fields that may be left unmapped; rows then take the listed default. */
+const OPTIONAL_FIELD_DEFAULTS: Partial<Record<ImportField, string>> = {
+  deviceId: "not linked to the catalogue",
+  comorbidities: "None recorded",
+  lastReview: "the surgery date",
+  followUpStatus: "derived from the follow-up protocol",
+  revisionHistory: "No prior revision",
+  complicationsLogged: "0",
+};
+
+export function isOptionalImportField(field: ImportField): boolean {
+  return field in OPTIONAL_FIELD_DEFAULTS;
+}
+
+export function importFieldDefault(field: ImportField): string | undefined {
+  return OPTIONAL_FIELD_DEFAULTS[field];
+}
+
+export function importFieldLabel(field: ImportField): string {
+  return IMPLANT_FIELD_LABELS[field];
+}
+
+/** Source column chosen for each field; unmapped fields are absent. */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// Header spellings seen in departmental spreadsheets, compared after
+// stripping case, spaces and punctuation.
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  patientId: ["patient", "patientref", "mrn", "hospitalnumber"],
+  age: ["ageyears", "ageatsurgery"],
+  sex: ["gender"],
+  primaryDiagnosis: ["diagnosis", "indication"],
+  comorbidities: ["comorbidity"],
+  implantCategory: ["category", "implant", "implanttype", "procedure"],
+  deviceId: ["udi", "udidi", "gtin", "deviceidentifier", "catalogueid"],
+  manufacturer: ["vendor", "make"],
+  modelRef: ["model", "modelreference", "catalogue", "cataloguenumber"],
+  lotNumber: ["lot", "batch", "lotno", "batchnumber"],
+  material: ["materialcomposition", "bearing"],
+  fixationType: ["fixation"],
+  anatomicalSite: ["site", "joint"],
+  laterality: ["side"],
+  operatingSurgeon: ["surgeon", "consultant"],
+  institution: ["hospital", "centre", "center"],
+  surgeryDate: [
+    "dateofsurgery",
+    "operationdate",
+    "implantdate",
+    "dateofoperation",
+  ],
+  lastReview: ["lastfollowup", "lastreviewdate", "lastseen"],
+  followUpStatus: ["followup", "status"],
+  revisionHistory: ["revision", "revisions"],
+  complicationsLogged: ["complications", "complicationcount"],
+};
+
+function headerKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Maps each field to the first source column whose header names it. */
+export function suggestMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<string>();
+  for (const field of IMPORT_FIELDS) {
+    const names = new Set(
+      [field, IMPLANT_FIELD_LABELS[field], ...FIELD_ALIASES[field]].map(
+        headerKey,
+      ),
+    );
+    const column = columns.find(
+      (c) => !taken.has(c) && names.has(headerKey(c)),
+    );
+    if (column) {
+      mapping[field] = column;
+      taken.add(column);
+    }
+  }
+  return mapping;
+}
+
+/** With a catalogue device mapped, the device supplies its own details. */
+export function unmappedRequiredFields(mapping: ColumnMapping): ImportField[] {
+  const fromCatalogue = new Set<string>(
+    mapping.deviceId ? CATALOGUE_RECORD_FIELDS : [],
+  );
+  return IMPORT_FIELDS.filter(
+    (field) =>
+      !isOptionalImportField(field) &&
+      !mapping[field] &&
+      !fromCatalogue.has(field),
+  );
+}
+
+// ─── Normalisation ───────────────────────────────────────────────────────────
+const SEX_VALUES: Record<string, ImplantRecord["sex"]> = {
+  m: "Male",
+  male: "Male",
+  man: "Male",
+  f: "Female",
+  female: "Female",
+  woman: "Female",
+};
+
+const LATERALITY_VALUES: Record<string, ImplantRecord["laterality"]> = {
+  l: "Left",
+  lt: "Left",
+  left: "Left",
+  r: "Right",
+  rt: "Right",
+  right: "Right",
+  b: "Bilateral",
+  both: "Bilateral",
+  bilat: "Bilateral",
+  bilateral: "Bilateral",
+};
+
+const FOLLOW_UP_STATUS_VALUES: Record<string, ImplantRecord["followUpStatus"]> =
+  {
+    scheduled: "Scheduled",
+    due: "Scheduled",
+    pending: "Scheduled",
+    upcoming: "Scheduled",
+    overdue: "Overdue",
+    late: "Overdue",
+    missed: "Overdue",
+    completed: "Completed",
+    complete: "Completed",
+    done: "Completed",
+    closed: "Completed",
+  };
+
+function normalizeEnum<T extends string>(
+  value: string,
+  allowed: readonly T[],
+  synonyms: Record<string, T>,
+): T | null {
+  const key = value.trim().toLowerCase().replace(/\.$/, "");
+  return allowed.find((v) => v.toLowerCase() === key) ?? synonyms[key] ?? null;
+}
+
+export function normalizeSex(value: string): ImplantRecord["sex"] | null {
+  return normalizeEnum(value, SEXES, SEX_VALUES);
+}
+
+export function normalizeLaterality(
+  value: string,
+): ImplantRecord["laterality"] | null {
+  return normalizeEnum(value, LATERALITIES, LATERALITY_VALUES);
+}
+
+export function normalizeFollowUpStatus(
+  value: string,
+): ImplantRecord["followUpStatus"] | null {
+  return normalizeEnum(value, FOLLOW_UP_STATUSES, FOLLOW_UP_STATUS_VALUES);
+}
+
+// Excel counts days from 1899-12-30, absorbing its 1900 leap-year bug.
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/**
+ * Normalises dates to `YYYY-MM-DD`. Accepts ISO dates and timestamps,
+ * day-first `DD/MM/YYYY` (also with "-" or "."), and Excel serial day
+ * numbers. Anything else is returned trimmed for validation to reject.
+ */
+export function normalizeDate(value: string): string {
+  const text = value.trim();
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(text);
+  if (iso) return `${iso[1]}-${pad(Number(iso[2]))}-${pad(Number(iso[3]))}`;
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(text);
+  if (dayFirst) {
+    return `${dayFirst[3]}-${pad(Number(dayFirst[2]))}-${pad(Number(dayFirst[1]))}`;
+  }
+  if (/^\d{4,5}(\.\d+)?$/.test(text)) {
+    const date = new Date(EXCEL_EPOCH_MS + Math.floor(Number(text)) * DAY_MS);
+    return date.toISOString().slice(0, 10);
+  }
+  return text;
+}
+
+// ─── Dry run ─────────────────────────────────────────────────────────────────
+export type ImportRowStatus = "ready" | "invalid" | "duplicate";
+
+export interface ImportRow {
+  /** Line in the source file; the header is line 1. */
+  line: number;
+  input: ImplantRecordInput;
+  errors: ValidationErrors<ImplantRecordInput>;
+  warnings: string[];
+  /** What de-identification changed in this row. */
+  changes: PseudonymizationChange[];
+  /** Record id, or "line N" of an earlier row, describing the same case. */
+  duplicateOf: string | null;
+}
+
+export interface ImportContext {
+  /** Records already in the registry, for duplicate detection. */
+  existing: ImplantRecord[];
+  /** Institutions the importer may register cases for. */
+  institutions: string[];
+  /** Catalogue the Catalogue Device column is resolved against. */
+  devices: CatalogueDevice[];
+  /** Protocols stated follow-up statuses are checked against. */
+  protocols?: FollowUpProtocol[];
+  /** De-identifies each row before it is validated; see `derivePseudonyms`. */
+  pseudonymization?: {
+    options: PseudonymizationOptions;
+    pseudonyms: PseudonymTable;
+  };
+  asOf?: Date;
+}
+
+/** One implantation: the same patient, date, site and side. */
+function caseKey(
+  record: Pick<
+    ImplantRecordInput,
+    "patientId" | "surgeryDate" | "anatomicalSite" | "laterality"
+  >,
+): string {
+  return [
+    record.patientId,
+    record.surgeryDate,
+    record.anatomicalSite,
+    record.laterality,
+  ]
+    .map((v) => v.trim().toLowerCase())
+    .join("|");
+}
+
+function mappedValue(
+  values: string[],
+  columns: string[],
+  mapping: ColumnMapping,
+  field: ImportField,
+): string {
+  const column = mapping[field];
+  const index = column === undefined ? -1 : columns.indexOf(column);
+  return index < 0 ? "" : (values[index] ?? "").trim();
+}
+
+/** Patient identifiers as supplied, for building the pseudonym table. */
+export function sourcePatientIds(
+  table: ImportTable,
+  mapping: ColumnMapping,
+): string[] {
+  return table.rows.map((values) =>
+    mappedValue(values, table.columns, mapping, "patientId"),
+  );
+}
+
+function toImportRow(
+  values: string[],
+  columns: string[],
+  mapping: ColumnMapping,
+  line: number,
+  context: ImportContext,
+): ImportRow {
+  const value = (field: ImportField) =>
+    mappedValue(values, columns, mapping, field);
+  const errors: ValidationErrors<ImplantRecordInput> = {};
+  const warnings: string[] = [];
+
+  const sex = normalizeSex(value("sex"));
+  const laterality = normalizeLaterality(value("laterality"));
+  const surgeryDate = normalizeDate(value("surgeryDate"));
+  const complications = value("complicationsLogged");
+  const mapped: ImplantRecordInput = {
+    patientId: value("patientId").toUpperCase(),
+    age: value("age") === "" ? Number.NaN : Number(value("age")),
+    sex: sex ?? ("" as ImplantRecord["sex"]),
+    primaryDiagnosis: value("primaryDiagnosis"),
+    comorbidities: value("comorbidities") || "None recorded",
+    implantCategory: value("implantCategory"),
+    deviceId: "",
+    manufacturer: value("manufacturer"),
+    modelRef: value("modelRef"),
+    lotNumber: value("lotNumber"),
+    material: value("material"),
+    fixationType: value("fixationType"),
+    anatomicalSite: value("anatomicalSite"),
+    laterality: laterality ?? ("" as ImplantRecord["laterality"]),
+    operatingSurgeon: value("operatingSurgeon"),
+    institution: value("institution"),
+    surgeryDate,
+    lastReview: value("lastReview")
+      ? normalizeDate(value("lastReview"))
+      : surgeryDate,
+    nextReview: "",
+    followUpStatus: "Scheduled",
+    alertLevel: "stable",
+    riskLevel: "Low",
+    revisionHistory: value("revisionHistory") || "No prior revision",
+    complicationsLogged: complications === "" ? 0 : Number(complications),
+  };
+  const { input: deidentified, changes } = context.pseudonymization
+    ? pseudonymizeRecord(
+        mapped,
+        context.pseudonymization.options,
+        context.pseudonymization.pseudonyms,
+      )
+    : { input: mapped, changes: [] };
+  let input = deidentified;
+
+  const deviceRef = value("deviceId");
+  if (deviceRef) {
+    const device = findCatalogueDevice(context.devices, deviceRef);
+    if (!device) {
+      errors.deviceId = `"${deviceRef}" is not in the device catalogue`;
+    } else {
+      try {
+        input = applyCatalogueDevice({ ...input, deviceId: device.id }, (id) =>
+          context.devices.find((d) => d.id === id),
+        );
+      } catch (error) {
+        errors.deviceId =
+          error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  Object.assign(errors, validateImplantRecordInput(input, context.asOf));
+  if (value("sex") && !sex) errors.sex = `Unrecognised sex "${value("sex")}"`;
+  if (value("laterality") && !laterality) {
+    errors.laterality = `Unrecognised laterality "${value("laterality")}"`;
+  }
+  const match = context.institutions.find(
+    (name) => name.toLowerCase() === input.institution.toLowerCase(),
+  );
+  if (match) {
+    input.institution = match;
+  } else if (!errors.institution) {
+    errors.institution = `Institution "${input.institution}" is not registered or outside your access`;
+  }
+
+  const stated = value("followUpStatus");
+  if (stated) {
+    const status = normalizeFollowUpStatus(stated);
+    if (!status) {
+      errors.followUpStatus = `Unrecognised follow-up status "${stated}"`;
+    } else if (Object.keys(errors).length === 0) {
+      const derived = applyFollowUpSchedule(
+        input,
+        context.asOf,
+        context.protocols,
+      ).followUpStatus;
+      if (derived !== status) {
+        warnings.push(
+          `Follow-up status "${status}" will be recorded as "${derived}" under the follow-up protocol`,
+        );
+      }
+    }
+  }
+
+  return { line, input, errors, warnings, changes, duplicateOf: null };
+}
+
+/**
+ * Maps, normalises and validates every row without writing anything. Rows
+ * describing a case already in the registry, or repeating an earlier row,
+ * are marked as duplicates; pseudonyms a registry patient already holds are
+ * flagged for review.
+ */
+export function planImport(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  context: ImportContext,
+): ImportRow[] {
+  const seen = new Map(context.existing.map((r) => [caseKey(r), r.id]));
+  const registryIds = new Set(context.existing.map((r) => r.patientId));
+  return table.rows.map((values, i) => {
+    const row = toImportRow(values, table.columns, mapping, i + 2, context);
+    // Expected when a later batch is imported under the same key; otherwise
+    // the pseudonym has collided with another patient's identifier.
+    if (
+      row.changes.some((c) => c.kind === "identifier") &&
+      registryIds.has(row.input.patientId)
+    ) {
+      row.warnings.push(
+        "Pseudonym is already in the registry; the case will join that patient's earlier records",
+      );
+    }
+    const key = caseKey(row.input);
+    row.duplicateOf = seen.get(key) ?? null;
+    if (!row.duplicateOf) seen.set(key, `line ${row.line}`);
+    return row;
+  });
+}
+
+export function importRowStatus(row: ImportRow): ImportRowStatus {
+  if (Object.keys(row.errors).length > 0) return "invalid";
+  return row.duplicateOf ? "duplicate" : "ready";
+}
+
+export interface ImportSummary {
+  total: number;
+  ready: number;
+  invalid: number;
+  duplicates: number;
+  warnings: number;
+}
+
+export function summarizeImport(rows: ImportRow[]): ImportSummary {
+  const count = (status: ImportRowStatus) =>
+    rows.filter((r) => importRowStatus(r) === status).length;
+  return {
+    total: rows.length,
+    ready: count("ready"),
+    invalid: count("invalid"),
+    duplicates: count("duplicate"),
+    warnings: rows.filter((r) => r.warnings.length > 0).length,
+  };
+}
+
+/** Inputs to commit. Duplicates are skipped; invalid rows block the import. */
+export function importableInputs(rows: ImportRow[]): ImplantRecordInput[] {
+  return rows.filter((r) => importRowStatus(r) === "ready").map((r) => r.input);
+}
+
+export function importReportToCsv(rows: ImportRow[]): string {
+  return toCsv(
+    ["Line", "Patient ID", "Status", "Issues", "De-identification"],
+    rows.map((row) => [
+      row.line,
+      row.input.patientId,
+      importRowStatus(row),
+      [
+        ...Object.entries(row.errors).map(
+          ([field, message]) =>
+            `${IMPLANT_FIELD_LABELS[field as ImportField] ?? field}: ${message}`,
+        ),
+        ...(row.duplicateOf ? [`Duplicate of ${row.duplicateOf}`] : []),
+        ...row.warnings,
+      ].join("; "),
+      row.changes.map((c) => c.description).join("; "),
+    ]),
+  );
+}
+
+/** Reads a CSV or XLSX upload; the first row holds the column headers. */
+export async function readImportFile(file: File): Promise<ImportTable> {
+  const rows = /\.xlsx$/i.test(file.name)
+    ? await parseXlsx(await file.arrayBuffer())
+    : parseCsv(await file.text());
+  const [header, ...body] = rows;
+  if (!header) throw new Error(`${file.name} is empty`);
+  const columns = header.map((c, i) => c.trim() || `Column ${i + 1}`);
+  // Mappings name a column by its header, so a repeated header would leave
+  // every copy after the first unread.
+  const repeated = [
+    ...new Set(columns.filter((c, i) => columns.indexOf(c) !== i)),
+  ];
+  if (repeated.length > 0) {
+    throw new Error(
+      `${file.name} repeats the column ${repeated.length === 1 ? "header" : "headers"} ${repeated.map((c) => `"${c}"`).join(", ")}; rename the copies and upload again`,
+    );
+  }
+  if (body.length === 0) throw new Error(`${file.name} has no data rows`);
+  return { fileName: file.name, columns, rows: body };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { CallerAccess } from "./registryAccess";
+import {
+  type DataScope,
+  dataScope,
+  inScope,
+  recordVisibility,
+} from "./registryInstitutions";
+import { InMemoryRegistryRepository } from "./registryRepository";
+
+const MADURAI = "Government Rajaji Hospital, Madurai";
+
+function access(overrides: Partial<CallerAccess>): CallerAccess {
+  return {
+    principal: "caller",
+    role: null,
+    administratorAssigned: true,
+    suspended: false,
+    institution: MADURAI,
+    ...overrides,
+  };
+}
+
+describe("dataScope", () => {
+  it.each<{ name: string; access: CallerAccess | undefined; scope: DataScope }>(
+    [
+      {
+        name: "access still loading",
+        access: undefined,
+        scope: { kind: "none" },
+      },
+      {
+        name: "a surgeon at their institution",
+        access: access({ role: "Orthopedic Surgeon" }),
+        scope: { kind: "institution", institution: MADURAI },
+      },
+      {
+        name: "a surgeon without an institution",
+        access: access({ role: "Orthopedic Surgeon", institution: "" }),
+        scope: { kind: "none" },
+      },
+      {
+        name: "a suspended surgeon, who acts without a role",
+        access: access({ role: null, suspended: true }),
+        scope: { kind: "none" },
+      },
+      {
+        name: "Regional Registry Staff, who hold no case record access",
+        access: access({ role: "Regional Registry Staff" }),
+        scope: { kind: "none" },
+      },
+      {
+        name: "a Quality Officer",
+        access: access({ role: "Quality Officer" }),
+        scope: { kind: "all" },
+      },
+    ],
+  )("resolves $name", ({ access, scope }) => {
+    expect(dataScope(access)).toEqual(scope);
+  });
+});
+
+describe("inScope", () => {
+  it.each<{ scope: DataScope; institution: string; expected: boolean }>([
+    { scope: { kind: "all" }, institution: MADURAI, expected: true },
+    {
+      scope: { kind: "institution", institution: MADURAI },
+      institution: MADURAI,
+      expected: true,
+    },
+    {
+      scope: { kind: "institution", institution: MADURAI },
+      institution: "Apollo Hospitals, Chennai",
+      expected: false,
+    },
+    { scope: { kind: "none" }, institution: MADURAI, expected: false },
+  ])("$scope.kind scope includes $institution: $expected", (row) => {
+    expect(inScope(row.scope, row.institution)).toBe(row.expected);
+  });
+});
+
+describe("suspended callers", () => {
+  it("lose sight of their institution's records", async () => {
+    const repository = new InMemoryRegistryRepository();
+    await repository.assignRole("admin", "Administrator", "admin");
+    await repository.registerUser(
+      {
+        principal: "surgeon",
+        displayName: "Dr. Surgeon",
+        institution: MADURAI,
+        role: "Orthopedic Surgeon",
+      },
+      "admin",
+    );
+    const search = async () =>
+      repository.query(
+        {},
+        { descending: false },
+        { offset: 0, limit: 10 },
+        recordVisibility(await repository.getCallerAccess("surgeon")),
+      );
+
+    expect((await search()).total).toBe(2);
+    await repository.setUserSuspended("surgeon", true, "admin");
+    expect(await repository.getCallerAccess("surgeon")).toMatchObject({
+      role: null,
+      suspended: true,
+    });
+    expect(await search()).toMatchObject({ items: [], total: 0 });
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  type CallerAccess,
+  hasPermission,
+  redactIdentifiers,
+} from "./registryAccess";
+import type { ImplantRecord } from "./registryData";
+
+/** A participating hospital; records and users refer to it by name. */
+export interface Institution {
+  name: string;
+  registeredBy: string;
+  /** ISO timestamp. */
+  registeredAt: string;
+}
+
+/**
+ * Which institutions' records the caller may see. Callers without
+ * `viewCaseRecords`, suspended ones included, see none. Otherwise callers
+ * with `viewAllInstitutions` see the whole registry; everyone else only the
+ * institution on their account, and nothing when none is assigned.
+ */
+export type DataScope =
+  | { kind: "all" }
+  | { kind: "institution"; institution: string }
+  | { kind: "none" };
+
+export function dataScope(access: CallerAccess | undefined): DataScope {
+  if (!access || !hasPermission(access.role, "viewCaseRecords")) {
+    return { kind: "none" };
+  }
+  if (hasPermission(access.role, "viewAllInstitutions")) return { kind: "all" };
+  return access.institution
+    ? { kind: "institution", institution: access.institution }
+    : { kind: "none" };
+}
+
+export function inScope(scope: DataScope, institution: string): boolean {
+  return (
+    scope.kind === "all" ||
+    (scope.kind === "institution" && scope.institution === institution)
+  );
+}
+
+export function scopeRecords<T extends Pick<ImplantRecord, "institution">>(
+  records: T[],
+  scope: DataScope,
+): T[] {
+  return scope.kind === "all"
+    ? records
+    : records.filter((r) => inScope(scope, r.institution));
+}
+
+/**
+ * What the caller may see of the registry: the institutions in scope and
+ * whether patient identifiers are shown or redacted.
+ */
+export interface RecordVisibility {
+  scope: DataScope;
+  identifiable: boolean;
+}
+
+export function recordVisibility(
+  access: CallerAccess | undefined,
+): RecordVisibility {
+  return {
+    scope: dataScope(access),
+    identifiable: hasPermission(access?.role ?? null, "viewIdentifiers"),
+  };
+}
+
+/** Scopes then redacts records, as the canister does before any search. */
+export function applyVisibility<T extends ImplantRecord>(
+  records: T[],
+  visibility: RecordVisibility,
+): T[] {
+  const scoped = scopeRecords(records, visibility.scope);
+  return visibility.identifiable ? scoped : scoped.map(redactIdentifiers);
+}
+
+export function describeScope(scope: DataScope): string {
+  switch (scope.kind) {
+    case "all":
+      return "All institutions";
+    case "institution":
+      return scope.institution;
+    case "none":
+      return "No institution assigned";
+  }
+}
+
+/** Distinct institution names carried by records, for seeding a registry. */
+export function institutionsFromRecords(
+  records: Pick<ImplantRecord, "institution">[],
+): string[] {
+  return [...new Set(records.map((r) => r.institution))].sort();
+}
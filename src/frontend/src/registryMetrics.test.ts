@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import {
+  computeRegistryMetrics,
+  formatPercent,
+  formatYears,
+  hasPriorRevision,
+  isLostToFollowUp,
+} from "./registryMetrics";
+
+const AS_OF = new Date("2026-10-19T00:00:00Z");
+
+function record(overrides: Partial<ImplantRecord>): ImplantRecord {
+  return { ...REGISTRY_DATA[0], ...overrides };
+}
+
+describe("computeRegistryMetrics", () => {
+  it("summarises the seeded registry", () => {
+    expect(computeRegistryMetrics(REGISTRY_DATA, AS_OF)).toMatchObject({
+      totalActiveCases: 10,
+      upcomingFollowUps: 1,
+      replacementEvaluationAlerts: 4,
+      // rec-001, rec-006 and rec-010 lapsed before October 2025.
+      lostToFollowUp: 3,
+      complianceRate: 0.4,
+      revisionMonitoring: 2,
+    });
+  });
+
+  it("leaves archived records out of every figure", () => {
+    const records = [
+      record({ id: "a", followUpStatus: "Scheduled" }),
+      record({ id: "b", followUpStatus: "Overdue", archived: true }),
+    ];
+    expect(computeRegistryMetrics(records, AS_OF)).toMatchObject({
+      totalActiveCases: 1,
+      upcomingFollowUps: 1,
+      complianceRate: 1,
+    });
+  });
+
+  it("averages implant duration in years", () => {
+    const records = [
+      record({ surgeryDate: "2020-10-19" }),
+      record({ surgeryDate: "2024-10-19" }),
+    ];
+    const { meanImplantDurationYears } = computeRegistryMetrics(records, AS_OF);
+    expect(meanImplantDurationYears).toBeCloseTo(4, 2);
+  });
+
+  it("reports no rates for an empty registry", () => {
+    expect(computeRegistryMetrics([], AS_OF)).toMatchObject({
+      totalActiveCases: 0,
+      complianceRate: null,
+      meanImplantDurationYears: null,
+    });
+  });
+});
+
+describe("hasPriorRevision", () => {
+  it.each([
+    ["No prior revision", false],
+    ["no prior revision", false],
+    ["  ", false],
+    ["Cup revision 2018-09", true],
+    ["Hardware adjustment 2020-06", true],
+  ])("%j → %s", (revisionHistory, expected) => {
+    expect(hasPriorRevision({ revisionHistory })).toBe(expected);
+  });
+});
+
+describe("isLostToFollowUp", () => {
+  it.each([
+    ["Overdue", "2025-10-18", true],
+    ["Overdue", "2025-10-20", false],
+    ["Scheduled", "2020-01-01", false],
+  ] as const)("%s since %s → %s", (followUpStatus, nextReview, expected) => {
+    expect(
+      isLostToFollowUp(record({ followUpStatus, nextReview }), AS_OF),
+    ).toBe(expected);
+  });
+});
+
+describe("formatting", () => {
+  it.each([
+    [null, "—"],
+    [0.4, "40%"],
+    [0.996, "100%"],
+  ])("formatPercent(%s) → %s", (rate, expected) => {
+    expect(formatPercent(rate)).toBe(expected);
+  });
+
+  it.each([
+    [null, "—"],
+    [4, "4.0 yrs"],
+    [7.25, "7.3 yrs"],
+  ])("formatYears(%s) → %s", (years, expected) => {
+    expect(formatYears(years)).toBe(expected);
+  });
+});
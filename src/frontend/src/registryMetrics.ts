@@ -0,0 +1,77 @@
+import { type ImplantRecord, getImplantAgeYears } from "./registryData";
+
+/** An overdue case whose review lapsed this long ago counts as lost. */
+export const LOST_TO_FOLLOW_UP_MONTHS = 12;
+
+export interface RegistryMetrics {
+  /** Records that have not been archived. */
+  totalActiveCases: number;
+  /** Active records with a follow-up in "Scheduled" status. */
+  upcomingFollowUps: number;
+  /**
+   * Active records flagged for clinical attention or carrying a recalled
+   * device, both of which call for replacement evaluation.
+   */
+  replacementEvaluationAlerts: number;
+  /** Overdue records whose next review passed over a year ago. */
+  lostToFollowUp: number;
+  /** Share of active records not overdue, 0–1; null when there are none. */
+  complianceRate: number | null;
+  /** Active records with a prior revision on file. */
+  revisionMonitoring: number;
+  /** Mean years since implantation across active records. */
+  meanImplantDurationYears: number | null;
+}
+
+export function hasPriorRevision(
+  record: Pick<ImplantRecord, "revisionHistory">,
+): boolean {
+  const history = record.revisionHistory.trim();
+  return history !== "" && !/^no prior revision$/i.test(history);
+}
+
+export function isLostToFollowUp(
+  record: ImplantRecord,
+  asOf: Date = new Date(),
+): boolean {
+  if (record.followUpStatus !== "Overdue") return false;
+  const cutoff = new Date(asOf);
+  cutoff.setMonth(cutoff.getMonth() - LOST_TO_FOLLOW_UP_MONTHS);
+  return new Date(record.nextReview).getTime() < cutoff.getTime();
+}
+
+export function computeRegistryMetrics(
+  records: ImplantRecord[],
+  asOf: Date = new Date(),
+): RegistryMetrics {
+  const active = records.filter((r) => !r.archived);
+  const count = (predicate: (r: ImplantRecord) => boolean) =>
+    active.filter(predicate).length;
+  const overdue = count((r) => r.followUpStatus === "Overdue");
+  const totalYears = active.reduce(
+    (sum, r) => sum + getImplantAgeYears(r.surgeryDate, asOf),
+    0,
+  );
+
+  return {
+    totalActiveCases: active.length,
+    upcomingFollowUps: count((r) => r.followUpStatus === "Scheduled"),
+    replacementEvaluationAlerts: count(
+      (r) => r.alertLevel === "attention" || r.alertLevel === "recall",
+    ),
+    lostToFollowUp: count((r) => isLostToFollowUp(r, asOf)),
+    complianceRate:
+      active.length > 0 ? (active.length - overdue) / active.length : null,
+    revisionMonitoring: count(hasPriorRevision),
+    meanImplantDurationYears:
+      active.length > 0 ? totalYears / active.length : null,
+  };
+}
+
+export function formatPercent(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+export function formatYears(years: number | null): string {
+  return years === null ? "—" : `${years.toFixed(1)} yrs`;
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import {
+  ALERT_Z,
+  OUTLIER_DIMENSIONS,
+  computeExpectedRisks,
+  describeOutlier,
+  detectOutliers,
+  funnelLimit,
+  hasOutcome,
+  outlierSignalKey,
+  riskAdjustedCusum,
+} from "./registryOutliers";
+
+function record(
+  id: string,
+  overrides: Partial<ImplantRecord> = {},
+): ImplantRecord {
+  return {
+    ...REGISTRY_DATA[0],
+    id,
+    age: 50,
+    comorbidities: "None documented",
+    complicationsLogged: 0,
+    revisionHistory: "No prior revision",
+    ...overrides,
+  };
+}
+
+const revised = { revisionHistory: "Stem revision 2022-01" };
+const institution = OUTLIER_DIMENSIONS[2];
+
+describe("hasOutcome", () => {
+  it.each([
+    [{}, "revision", false],
+    [revised, "revision", true],
+    [{ complicationsLogged: 2 }, "complication", true],
+    [{}, "complication", false],
+  ] as const)("%j has %s → %s", (overrides, outcome, expected) => {
+    expect(hasOutcome(record("a", overrides), outcome)).toBe(expected);
+  });
+});
+
+describe("computeExpectedRisks", () => {
+  it("shrinks each stratum towards the registry-wide rate", () => {
+    // Two strata: under-60s without comorbidity (2/2 revised) and over-80s
+    // (0/2). Overall rate 0.5, two pseudo-cases of shrinkage each.
+    const records = [
+      record("a", revised),
+      record("b", revised),
+      record("c", { age: 85 }),
+      record("d", { age: 85 }),
+    ];
+    const { overallRate, expected } = computeExpectedRisks(records, "revision");
+    expect(overallRate).toBe(0.5);
+    expect(expected.get("a")).toBeCloseTo(0.75);
+    expect(expected.get("c")).toBeCloseTo(0.25);
+  });
+
+  it("separates comorbid cases into their own stratum", () => {
+    const records = [
+      record("a", revised),
+      record("b"),
+      record("c", { comorbidities: "Type 2 diabetes" }),
+      record("d", { comorbidities: "Type 2 diabetes" }),
+    ];
+    const { expected } = computeExpectedRisks(records, "revision");
+    // (1 + 2 × 0.25) / (2 + 2) and (0 + 2 × 0.25) / (2 + 2).
+    expect(expected.get("b")).toBeCloseTo(0.375);
+    expect(expected.get("d")).toBeCloseTo(0.125);
+  });
+});
+
+describe("funnelLimit", () => {
+  it.each([
+    [4, ALERT_Z, 1 + ALERT_Z / 2],
+    [100, ALERT_Z, 1 + ALERT_Z / 10],
+  ])("expected %s, z %s", (expected, z, limit) => {
+    expect(funnelLimit(expected, z)).toBeCloseTo(limit);
+  });
+
+  it("has no limit when nothing is expected", () => {
+    expect(funnelLimit(0, ALERT_Z)).toBeNull();
+  });
+});
+
+describe("riskAdjustedCusum", () => {
+  it("accumulates log-likelihood ratios in surgery order and resets at zero", () => {
+    // Expected 0.5, odds ratio 2: an event adds ln(2/1.5), a non-event
+    // subtracts ln(1.5).
+    const points = riskAdjustedCusum([
+      {
+        recordId: "c",
+        surgeryDate: "2024-03-01",
+        observed: false,
+        expected: 0.5,
+      },
+      {
+        recordId: "a",
+        surgeryDate: "2024-01-01",
+        observed: true,
+        expected: 0.5,
+      },
+      {
+        recordId: "b",
+        surgeryDate: "2024-02-01",
+        observed: true,
+        expected: 0.5,
+      },
+      {
+        recordId: "d",
+        surgeryDate: "2024-04-01",
+        observed: false,
+        expected: 0.5,
+      },
+    ]);
+    const up = Math.log(2 / 1.5);
+    expect(points.map((p) => p.recordId)).toEqual(["a", "b", "c", "d"]);
+    expect(points[0].value).toBeCloseTo(up);
+    expect(points[1].value).toBeCloseTo(2 * up);
+    expect(points[2].value).toBeCloseTo(2 * up - Math.log(1.5));
+    expect(points[3].value).toBe(0);
+  });
+});
+
+describe("detectOutliers", () => {
+  it("accounts for every event in the registry", () => {
+    const analysis = detectOutliers(REGISTRY_DATA, institution, "revision");
+    expect(analysis.overallRate).toBeCloseTo(0.2);
+    expect(analysis.units.reduce((sum, u) => sum + u.observed, 0)).toBe(2);
+    expect(analysis.units.reduce((sum, u) => sum + u.cases, 0)).toBe(10);
+    const ratios = analysis.units.map((u) => u.ratio ?? 0);
+    expect(ratios).toEqual([...ratios].sort((a, b) => b - a));
+  });
+
+  it("raises an alarm for a unit far above its funnel limit", () => {
+    const records = [
+      ...Array.from({ length: 12 }, (_, i) =>
+        record(`hot-${i}`, { institution: "Hot", ...revised }),
+      ),
+      ...Array.from({ length: 60 }, (_, i) =>
+        record(`cool-${i}`, {
+          institution: `Cool ${i % 3}`,
+          ...(i % 10 === 0 ? revised : {}),
+        }),
+      ),
+    ];
+    const analysis = detectOutliers(records, institution, "revision");
+    const hot = analysis.units.find((u) => u.value === "Hot");
+    expect(hot).toMatchObject({ level: "alarm", cusumSignal: true });
+    expect(describeOutlier(analysis, hot!)).toContain(
+      "above 99.8% funnel limit",
+    );
+    expect(
+      analysis.units
+        .filter((u) => u.value !== "Hot")
+        .every((u) => u.level === "none"),
+    ).toBe(true);
+  });
+});
+
+describe("outlierSignalKey", () => {
+  it("names the dimension, outcome and unit", () => {
+    expect(outlierSignalKey(institution, "revision", "PSG Hospitals")).toBe(
+      "institution:revision:PSG Hospitals",
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import type { CohortDimension } from "./registryCohorts";
+import type { ImplantRecord } from "./registryData";
+import { hasPriorRevision } from "./registryMetrics";
+import { findScoredComorbidities } from "./registryRisk";
+
+export const OUTLIER_DIMENSIONS: CohortDimension[] = [
+  { field: "modelRef", label: "Implant Model" },
+  { field: "operatingSurgeon", label: "Operating Surgeon" },
+  { field: "institution", label: "Institution" },
+];
+
+export const OUTLIER_OUTCOMES = ["revision", "complication"] as const;
+export type OutlierOutcome = (typeof OUTLIER_OUTCOMES)[number];
+
+export const OUTCOME_LABELS: Record<OutlierOutcome, string> = {
+  revision: "Revision",
+  complication: "Complication",
+};
+
+/** Funnel limits, as used by national joint registries. */
+export const ALERT_Z = 1.959964; // 95%
+export const ALARM_Z = 3.090232; // 99.8%
+
+/**
+ * CUSUM tuned to detect a doubling of the odds of the outcome; the signal
+ * threshold trades detection speed against false alarms on small series.
+ */
+export const CUSUM_ODDS_RATIO = 2;
+export const CUSUM_THRESHOLD = 2;
+
+/** Pseudo-cases pulling sparse strata towards the registry-wide rate. */
+const STRATUM_SHRINKAGE = 2;
+
+export type OutlierLevel = "none" | "alert" | "alarm";
+
+export interface CusumPoint {
+  recordId: string;
+  surgeryDate: string;
+  observed: boolean;
+  expected: number;
+  value: number;
+}
+
+export interface OutlierUnit {
+  value: string;
+  cases: number;
+  observed: number;
+  /** Sum of the case-mix adjusted probabilities of the outcome. */
+  expected: number;
+  /** Observed / expected; null when nothing was expected. */
+  ratio: number | null;
+  /** Upper funnel limits on the ratio at this unit's expected count. */
+  alertLimit: number | null;
+  alarmLimit: number | null;
+  level: OutlierLevel;
+  cusum: CusumPoint[];
+  cusumSignal: boolean;
+}
+
+export interface OutlierAnalysis {
+  dimension: CohortDimension;
+  outcome: OutlierOutcome;
+  /** Registry-wide crude rate of the outcome, 0–1. */
+  overallRate: number;
+  units: OutlierUnit[];
+}
+
+export function hasOutcome(
+  record: ImplantRecord,
+  outcome: OutlierOutcome,
+): boolean {
+  return outcome === "revision"
+    ? hasPriorRevision(record)
+    : record.complicationsLogged > 0;
+}
+
+function ageBand(age: number): string {
+  if (age >= 80) return "80+";
+  if (age >= 70) return "70-79";
+  if (age >= 60) return "60-69";
+  return "<60";
+}
+
+/**
+ * Case-mix stratum: age band crossed with whether any scored comorbidity is
+ * present. Outcome-derived scores (complications, revisions) are left out so
+ * the adjustment cannot absorb the signal it is meant to expose.
+ */
+function caseMixStratum(record: ImplantRecord): string {
+  const comorbid = findScoredComorbidities(record.comorbidities).length > 0;
+  return `${ageBand(record.age)}|${comorbid ? "comorbid" : "none"}`;
+}
+
+/** Expected probability of the outcome for each case, keyed by record id. */
+export function computeExpectedRisks(
+  records: ImplantRecord[],
+  outcome: OutlierOutcome,
+): { overallRate: number; expected: Map<string, number> } {
+  const events = records.filter((r) => hasOutcome(r, outcome)).length;
+  const overallRate = records.length > 0 ? events / records.length : 0;
+  const strata = new Map<string, { cases: number; events: number }>();
+  for (const record of records) {
+    const key = caseMixStratum(record);
+    const stratum = strata.get(key) ?? { cases: 0, events: 0 };
+    stratum.cases += 1;
+    if (hasOutcome(record, outcome)) stratum.events += 1;
+    strata.set(key, stratum);
+  }
+  const expected = new Map<string, number>();
+  for (const record of records) {
+    const stratum = strata.get(caseMixStratum(record));
+    const cases = stratum?.cases ?? 0;
+    const stratumEvents = stratum?.events ?? 0;
+    expected.set(
+      record.id,
+      (stratumEvents + STRATUM_SHRINKAGE * overallRate) /
+        (cases + STRATUM_SHRINKAGE),
+    );
+  }
+  return { overallRate, expected };
+}
+
+/** Upper limit on O/E for a unit with `expected` events (Poisson approx.). */
+export function funnelLimit(expected: number, z: number): number | null {
+  return expected > 0 ? 1 + z / Math.sqrt(expected) : null;
+}
+
+/**
+ * Risk-adjusted Bernoulli CUSUM (Steiner et al., 2000) over cases in surgery
+ * order. Each case adds the log-likelihood ratio of a raised odds of the
+ * outcome; the chart resets at zero and signals above the threshold.
+ */
+export function riskAdjustedCusum(
+  cases: Array<{
+    recordId: string;
+    surgeryDate: string;
+    observed: boolean;
+    expected: number;
+  }>,
+  oddsRatio = CUSUM_ODDS_RATIO,
+): CusumPoint[] {
+  let value = 0;
+  return [...cases]
+    .sort((a, b) => a.surgeryDate.localeCompare(b.surgeryDate))
+    .map((c) => {
+      const weight =
+        (c.observed ? Math.log(oddsRatio) : 0) -
+        Math.log(1 - c.expected + oddsRatio * c.expected);
+      value = Math.max(0, value + weight);
+      return { ...c, value };
+    });
+}
+
+export function detectOutliers(
+  records: ImplantRecord[],
+  dimension: CohortDimension,
+  outcome: OutlierOutcome,
+): OutlierAnalysis {
+  const active = records.filter((r) => !r.archived);
+  const { overallRate, expected } = computeExpectedRisks(active, outcome);
+  const groups = new Map<string, ImplantRecord[]>();
+  for (const record of active) {
+    const key = String(record[dimension.field]);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  const units = [...groups.entries()].map(([value, members]): OutlierUnit => {
+    const cases = members.map((r) => ({
+      recordId: r.id,
+      surgeryDate: r.surgeryDate,
+      observed: hasOutcome(r, outcome),
+      expected: expected.get(r.id) ?? overallRate,
+    }));
+    const observed = cases.filter((c) => c.observed).length;
+    const expectedTotal = cases.reduce((sum, c) => sum + c.expected, 0);
+    const ratio = expectedTotal > 0 ? observed / expectedTotal : null;
+    const alertLimit = funnelLimit(expectedTotal, ALERT_Z);
+    const alarmLimit = funnelLimit(expectedTotal, ALARM_Z);
+    const cusum = riskAdjustedCusum(cases);
+    return {
+      value,
+      cases: members.length,
+      observed,
+      expected: expectedTotal,
+      ratio,
+      alertLimit,
+      alarmLimit,
+      level:
+        ratio !== null && alarmLimit !== null && ratio > alarmLimit
+          ? "alarm"
+          : ratio !== null && alertLimit !== null && ratio > alertLimit
+            ? "alert"
+            : "none",
+      cusum,
+      cusumSignal: cusum.some((p) => p.value >= CUSUM_THRESHOLD),
+    };
+  });
+
+  units.sort(
+    (a, b) => (b.ratio ?? 0) - (a.ratio ?? 0) || a.value.localeCompare(b.value),
+  );
+  return { dimension, outcome, overallRate, units };
+}
+
+export function isSignalling(unit: OutlierUnit): boolean {
+  return unit.level !== "none" || unit.cusumSignal;
+}
+
+/** Stable identity of a signal, so one unit is not raised for review twice. */
+export function outlierSignalKey(
+  dimension: CohortDimension,
+  outcome: OutlierOutcome,
+  value: string,
+): string {
+  return `${dimension.field}:${outcome}:${value}`;
+}
+
+export function describeOutlier(
+  analysis: OutlierAnalysis,
+  unit: OutlierUnit,
+): string {
+  const parts = [
+    `${unit.observed} observed vs ${unit.expected.toFixed(1)} expected ${OUTCOME_LABELS[analysis.outcome].toLowerCase()}s in ${unit.cases} cases`,
+  ];
+  if (unit.ratio !== null) parts.push(`O/E ${unit.ratio.toFixed(2)}`);
+  if (unit.level === "alarm") parts.push("above 99.8% funnel limit");
+  else if (unit.level === "alert") parts.push("above 95% funnel limit");
+  if (unit.cusumSignal) parts.push("CUSUM signal");
+  return parts.join("; ");
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { REGISTRY_DATA } from "./registryData";
+import {
+  DEFAULT_PSEUDONYMIZATION_OPTIONS,
+  countPseudonymizationChanges,
+  derivePseudonyms,
+  pseudonymizeRecord,
+} from "./registryPseudonymization";
+import type { ImplantRecordInput } from "./registryRepository";
+
+const KEY = "pilot key";
+const OPTIONS = { key: KEY, ...DEFAULT_PSEUDONYMIZATION_OPTIONS };
+
+function input(overrides: Partial<ImplantRecordInput> = {}) {
+  const { id: _id, archived: _archived, ...record } = REGISTRY_DATA[0];
+  return { ...record, patientId: "MRN-4471", ...overrides };
+}
+
+describe("derivePseudonyms", () => {
+  it("maps each source identifier to a keyed base32 pseudonym", async () => {
+    const table = await derivePseudonyms(["mrn-4471", " MRN-4471 ", ""], KEY);
+    expect([...table.keys()]).toEqual(["MRN-4471"]);
+    expect(table.get("MRN-4471")).toMatch(/^TH-P[0-9A-HJKMNP-TV-Z]{8}$/);
+  });
+
+  it("is reproducible under a key and differs across keys", async () => {
+    const [first, again, other] = await Promise.all([
+      derivePseudonyms(["MRN-4471"], KEY),
+      derivePseudonyms(["MRN-4471"], KEY),
+      derivePseudonyms(["MRN-4471"], "another key"),
+    ]);
+    expect(again.get("MRN-4471")).toBe(first.get("MRN-4471"));
+    expect(other.get("MRN-4471")).not.toBe(first.get("MRN-4471"));
+  });
+
+  it("keeps a pilot-sized registry free of collisions", async () => {
+    const ids = Array.from({ length: 5000 }, (_, i) => `MRN-${i}`);
+    const table = await derivePseudonyms(ids, KEY);
+    expect(new Set(table.values()).size).toBe(5000);
+  });
+
+  it("requires a key", async () => {
+    await expect(derivePseudonyms(["MRN-4471"], "  ")).rejects.toThrow(
+      "Enter a pseudonymization key",
+    );
+  });
+});
+
+describe("pseudonymizeRecord", () => {
+  it("replaces the identifier, generalises ages and truncates dates", async () => {
+    const pseudonyms = await derivePseudonyms(["MRN-4471"], KEY);
+    const { input: output, changes } = pseudonymizeRecord(
+      input({ age: 93, surgeryDate: "2019-03-14", lastReview: "2024-08-01" }),
+      { ...OPTIONS, monthPrecisionDates: true },
+      pseudonyms,
+    );
+    expect(output).toMatchObject({
+      patientId: pseudonyms.get("MRN-4471"),
+      age: 90,
+      surgeryDate: "2019-03-01",
+      lastReview: "2024-08-01",
+    });
+    expect(countPseudonymizationChanges(changes)).toEqual({
+      identifier: 1,
+      age: 1,
+      date: 1,
+      "free text": 0,
+    });
+  });
+
+  it("replaces the source identifier where it appears in free text", async () => {
+    const pseudonyms = await derivePseudonyms(["MRN-4471"], KEY);
+    const { input: output } = pseudonymizeRecord(
+      input({ revisionHistory: "Revised 2021, see mrn-4471 notes" }),
+      OPTIONS,
+      pseudonyms,
+    );
+    expect(output.revisionHistory).toBe(
+      `Revised 2021, see ${pseudonyms.get("MRN-4471")} notes`,
+    );
+  });
+
+  it.each([
+    "Revised 14.03.2019 - 20.01.2020 after dislocation",
+    "Hb 10.5-12.0 g/dL, review in 10-12 weeks",
+    "Follow-up 2019-2021, ROM 0-120 degrees",
+    "Cup lot ST-2016-HIP-0556 retained",
+    "Reference 1234567890 from the implant card",
+  ])("leaves dates, ranges and lot numbers in %j", async (note) => {
+    const pseudonyms = await derivePseudonyms(["MRN-4471"], KEY);
+    const { input: output } = pseudonymizeRecord(
+      input({ revisionHistory: note }),
+      OPTIONS,
+      pseudonyms,
+    );
+    expect(output.revisionHistory).toBe(note);
+  });
+
+  it.each([
+    ["Call 98765 43210 to book", "Call [removed] to book"],
+    ["Son on +91 98765-43210", "Son on [removed]"],
+    ["Ward phone 044-28291234", "Ward phone [removed]"],
+    ["MRN 4521 cross-checked", "[removed] cross-checked"],
+    ["UHID: KMC-00912 on file", "[removed] on file"],
+    ["Old IP No. 45/2023 revised", "Old [removed] revised"],
+    ["Seen under KMC/2019/00432", "Seen under [removed]"],
+  ])("removes phone and hospital numbers from %j", async (note, expected) => {
+    const pseudonyms = await derivePseudonyms(["MRN-4471"], KEY);
+    const { input: output } = pseudonymizeRecord(
+      input({ revisionHistory: note }),
+      OPTIONS,
+      pseudonyms,
+    );
+    expect(output.revisionHistory).toBe(expected);
+  });
+});
@@ -0,0 +1,243 @@
+import { IMPLANT_FIELD_LABELS } from "./registryData";
+import type { ImplantRecordInput } from "./registryRepository";
+
+export interface PseudonymizationOptions {
+  /**
+   * Secret the patient pseudonyms are keyed with. The same key maps the same
+   * source identifier to the same pseudonym, so re-imports stay linkable
+   * without the source identifiers ever reaching the registry.
+   */
+  key: string;
+  /** Reports ages above 89 as 90, the Safe Harbor top band. */
+  generalizeAges: boolean;
+  /** Truncates surgery and review dates to the first of their month. */
+  monthPrecisionDates: boolean;
+  /**
+   * Removes names, phone numbers, hospital numbers and email addresses from
+   * free text.
+   */
+  scrubFreeText: boolean;
+}
+
+export const DEFAULT_PSEUDONYMIZATION_OPTIONS: Omit<
+  PseudonymizationOptions,
+  "key"
+> = {
+  generalizeAges: true,
+  monthPrecisionDates: false,
+  scrubFreeText: true,
+};
+
+export type PseudonymizationKind = "identifier" | "age" | "date" | "free text";
+
+export interface PseudonymizationChange {
+  field: keyof ImplantRecordInput;
+  kind: PseudonymizationKind;
+  /** Describes the change without repeating the value that was removed. */
+  description: string;
+}
+
+/** Upper-cased source patient identifier → pseudonym, built per batch. */
+export type PseudonymTable = Map<string, string>;
+
+const MAX_REPORTED_AGE = 90;
+const REMOVED = "[removed]";
+
+const FREE_TEXT_FIELDS = [
+  "primaryDiagnosis",
+  "comorbidities",
+  "revisionHistory",
+] as const satisfies readonly (keyof ImplantRecordInput)[];
+
+const DATE_FIELDS = [
+  "surgeryDate",
+  "lastReview",
+] as const satisfies readonly (keyof ImplantRecordInput)[];
+
+// Honorifics in common use in Tamil Nadu case notes, followed by a name.
+const TITLED_NAME =
+  /\b(?:Mr|Mrs|Ms|Miss|Master|Shri|Sri|Smt|Thiru|Tmt|Selvi|Kumari|Dr)\.?\s+[A-Z][A-Za-z.]*(?:\s+[A-Z][A-Za-z.]*)*/g;
+const LABELLED_NAME =
+  /\b(?:[Pp]atient name|[Nn]ame|[Ss]\/[Oo]|[Dd]\/[Oo]|[Ww]\/[Oo]|[Cc]\/[Oo])\s*[:-]?\s*[A-Z][A-Za-z.]*(?:\s+[A-Z][A-Za-z.]*)*/g;
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// Indian mobile numbers, with or without the +91 or trunk 0 prefix, and
+// landlines written with their STD code. Dates, ranges and counts never start
+// with a trunk prefix or a 6-9 ten-digit run, so they are left alone.
+const MOBILE_NUMBER = /(?<![\w+])(?:\+91[\s-]?|0)?[6-9]\d{4}[\s-]?\d{5}(?!\d)/g;
+const LANDLINE_NUMBER = /(?<![\w+])(?:\+91[\s-]?|0)\d{2,4}[\s-]\d{6,8}(?!\d)/g;
+// Hospital numbers, however short, when labelled as such in the note.
+const LABELLED_HOSPITAL_NUMBER =
+  /\b(?:MRN|UHID|(?:IP|OP|CR|Hospital|Reg(?:istration)?|Patient)\s*(?:No\.?|Number|ID|#))\s*[:#-]?\s*[A-Z]{0,4}[-/]?\d[\dA-Z/-]*/gi;
+// Unlabelled hospital numbers of the prefix/year/serial form, e.g.
+// "KMC/2019/00432"; lot numbers carry letters after the year and do not match.
+const HOSPITAL_NUMBER = /\b[A-Z]{2,5}[-/]\d{2,4}[-/]\d{3,}\b/g;
+
+// Crockford's base32 leaves out I, L, O and U, so pseudonyms survive being
+// read aloud or retyped.
+const PSEUDONYM_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+// 40 bits: a batch of 10,000 patients collides with odds of about 1 in
+// 22,000, and the batch is rejected if it does.
+const PSEUDONYM_BYTES = 5;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+async function hmacBase32(key: CryptoKey, id: string): Promise<string> {
+  const mac = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(id),
+  );
+  // Every five bits map to one symbol, so no value is favoured.
+  let value = 0;
+  for (const byte of new Uint8Array(mac, 0, PSEUDONYM_BYTES)) {
+    value = value * 256 + byte;
+  }
+  let symbols = "";
+  for (let i = 0; i < (PSEUDONYM_BYTES * 8) / 5; i++) {
+    symbols = PSEUDONYM_ALPHABET[value % 32] + symbols;
+    value = Math.floor(value / 32);
+  }
+  return symbols;
+}
+
+/**
+ * Keyed, reproducible `TH-Pxxxxxxxx` pseudonyms (HMAC-SHA-256) for each source
+ * identifier; the `P` keeps them apart from sequentially assigned `TH-001`
+ * identifiers. Rejects the batch if two identifiers collide under the key.
+ */
+export async function derivePseudonyms(
+  sourceIds: string[],
+  secret: string,
+): Promise<PseudonymTable> {
+  if (!secret.trim()) throw new Error("Enter a pseudonymization key");
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const table: PseudonymTable = new Map();
+  const taken = new Set<string>();
+  const ids = sourceIds.map((s) => s.trim().toUpperCase()).filter(Boolean);
+  for (const id of new Set(ids)) {
+    const pseudonym = `TH-P${await hmacBase32(key, id)}`;
+    if (taken.has(pseudonym)) {
+      throw new Error(
+        "Two patient identifiers share a pseudonym under this key; choose a different key",
+      );
+    }
+    taken.add(pseudonym);
+    table.set(id, pseudonym);
+  }
+  return table;
+}
+
+function scrub(
+  text: string,
+  sourceId: string,
+  pseudonym: string | undefined,
+): { text: string; found: string[] } {
+  const found: string[] = [];
+  let result = text;
+  if (sourceId && pseudonym) {
+    const pattern = new RegExp(`\\b${escapeRegExp(sourceId)}\\b`, "gi");
+    if (pattern.test(result)) {
+      found.push("patient identifier");
+      result = result.replace(pattern, pseudonym);
+    }
+  }
+  const remove = (pattern: RegExp, kind: string) => {
+    result = result.replace(pattern, () => {
+      found.push(kind);
+      return REMOVED;
+    });
+  };
+  remove(EMAIL, "email address");
+  remove(MOBILE_NUMBER, "phone number");
+  remove(LANDLINE_NUMBER, "phone number");
+  remove(LABELLED_HOSPITAL_NUMBER, "hospital number");
+  remove(HOSPITAL_NUMBER, "hospital number");
+  remove(TITLED_NAME, "name");
+  remove(LABELLED_NAME, "name");
+  return { text: result, found };
+}
+
+/**
+ * Applies the pipeline to one mapped import row, whose patient identifier is
+ * still the one supplied in the source file.
+ */
+export function pseudonymizeRecord(
+  input: ImplantRecordInput,
+  options: PseudonymizationOptions,
+  pseudonyms: PseudonymTable,
+): { input: ImplantRecordInput; changes: PseudonymizationChange[] } {
+  const sourceId = input.patientId.trim();
+  const pseudonym = pseudonyms.get(sourceId.toUpperCase());
+  const output: ImplantRecordInput = { ...input };
+  const changes: PseudonymizationChange[] = [];
+
+  if (pseudonym) {
+    output.patientId = pseudonym;
+    changes.push({
+      field: "patientId",
+      kind: "identifier",
+      description: "Patient identifier replaced with a keyed pseudonym",
+    });
+  }
+
+  if (options.generalizeAges && output.age > MAX_REPORTED_AGE - 1) {
+    if (output.age !== MAX_REPORTED_AGE) {
+      changes.push({
+        field: "age",
+        kind: "age",
+        description: `Age above ${MAX_REPORTED_AGE - 1} reported as ${MAX_REPORTED_AGE}`,
+      });
+    }
+    output.age = MAX_REPORTED_AGE;
+  }
+
+  if (options.monthPrecisionDates) {
+    for (const field of DATE_FIELDS) {
+      const month = /^(\d{4}-\d{2})-\d{2}$/.exec(output[field]);
+      if (month && output[field] !== `${month[1]}-01`) {
+        output[field] = `${month[1]}-01`;
+        changes.push({
+          field,
+          kind: "date",
+          description: `${IMPLANT_FIELD_LABELS[field]} truncated to month precision`,
+        });
+      }
+    }
+  }
+
+  if (options.scrubFreeText) {
+    for (const field of FREE_TEXT_FIELDS) {
+      const { text, found } = scrub(output[field], sourceId, pseudonym);
+      if (found.length === 0) continue;
+      output[field] = text;
+      changes.push({
+        field,
+        kind: "free text",
+        description: `Scrubbed ${[...new Set(found)].join(", ")} from ${IMPLANT_FIELD_LABELS[field]}`,
+      });
+    }
+  }
+
+  return { input: output, changes };
+}
+
+export function countPseudonymizationChanges(
+  changes: PseudonymizationChange[],
+): Record<PseudonymizationKind, number> {
+  const counts: Record<PseudonymizationKind, number> = {
+    identifier: 0,
+    age: 0,
+    date: 0,
+    "free text": 0,
+  };
+  for (const change of changes) counts[change.kind] += 1;
+  return counts;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import {
+  MAX_PAGE_SIZE,
+  type RecordFilter,
+  type RecordSort,
+  compareRecords,
+  matchesRecordFilter,
+  paginateRecords,
+} from "./registryQuery";
+
+const BY_ID: RecordSort = { descending: false };
+
+function record(overrides: Partial<ImplantRecord>): ImplantRecord {
+  return { ...REGISTRY_DATA[0], ...overrides };
+}
+
+function ids(records: ImplantRecord[]): string[] {
+  return records.map((r) => r.id);
+}
+
+describe("matchesRecordFilter", () => {
+  const base = record({
+    patientId: "TH-042",
+    lotNumber: "ZB-2019-HIP-0431",
+    modelRef: "Zimmer Biomet Taperloc Complete",
+  });
+
+  it("matches everything with an empty filter", () => {
+    expect(matchesRecordFilter(base, {})).toBe(true);
+  });
+
+  it.each(["th-042", "hip-0431", "TAPERLOC", "  taperloc  "])(
+    "finds %j across patient ID, lot and model",
+    (search) => {
+      expect(matchesRecordFilter(base, { search })).toBe(true);
+    },
+  );
+
+  it("does not search fields outside patient ID, lot and model", () => {
+    expect(matchesRecordFilter(base, { search: "Krishnamurthy" })).toBe(false);
+  });
+
+  it.each<[RecordFilter, boolean]>([
+    [{ followUpStatus: "Overdue" }, true],
+    [{ followUpStatus: "Scheduled" }, false],
+    [{ alertLevel: "attention" }, true],
+    [{ alertLevel: "stable" }, false],
+    [{ riskLevel: "High" }, true],
+    [{ riskLevel: "Low" }, false],
+    [{ implantCategory: "Total Hip Arthroplasty" }, true],
+    [{ implantCategory: "Total Knee Arthroplasty" }, false],
+    [{ manufacturer: "Zimmer Biomet" }, true],
+    [{ manufacturer: "Stryker" }, false],
+    [{ operatingSurgeon: "Dr. R. Krishnamurthy" }, true],
+    [{ operatingSurgeon: "Dr. A. Menon" }, false],
+    [{ institution: "Government Rajaji Hospital, Madurai" }, true],
+    [{ institution: "Madurai" }, false],
+  ])("applies %j exactly", (filter, expected) => {
+    expect(matchesRecordFilter(base, filter)).toBe(expected);
+  });
+
+  it("requires every set criterion to match", () => {
+    expect(
+      matchesRecordFilter(base, {
+        manufacturer: "Zimmer Biomet",
+        riskLevel: "Low",
+      }),
+    ).toBe(false);
+  });
+
+  it("leaves archived records out unless asked for", () => {
+    const archived = record({ archived: true });
+    expect(matchesRecordFilter(archived, {})).toBe(false);
+    expect(matchesRecordFilter(archived, { includeArchived: true })).toBe(true);
+  });
+});
+
+describe("compareRecords", () => {
+  it("ranks alert levels by severity rather than alphabetically", () => {
+    const records = (["stable", "attention", "recall", "review"] as const).map(
+      (alertLevel, i) => record({ id: `rec-00${i}`, alertLevel }),
+    );
+    const sorted = [...records].sort((a, b) =>
+      compareRecords(a, b, { field: "alertLevel", descending: false }),
+    );
+    expect(sorted.map((r) => r.alertLevel)).toEqual([
+      "stable",
+      "review",
+      "attention",
+      "recall",
+    ]);
+  });
+
+  it("ranks risk levels by severity and reverses when descending", () => {
+    const records = (["Moderate", "High", "Low"] as const).map((riskLevel, i) =>
+      record({ id: `rec-00${i}`, riskLevel }),
+    );
+    const sorted = [...records].sort((a, b) =>
+      compareRecords(a, b, { field: "riskLevel", descending: true }),
+    );
+    expect(sorted.map((r) => r.riskLevel)).toEqual(["High", "Moderate", "Low"]);
+  });
+
+  it("breaks ties on record id", () => {
+    const a = record({ id: "rec-001", manufacturer: "Stryker" });
+    const b = record({ id: "rec-002", manufacturer: "Stryker" });
+    const sort: RecordSort = { field: "manufacturer", descending: false };
+    expect(compareRecords(a, b, sort)).toBeLessThan(0);
+    expect(compareRecords(b, a, sort)).toBeGreaterThan(0);
+    expect(compareRecords(a, a, sort)).toBe(0);
+  });
+
+  it("orders by record id when no field is given", () => {
+    const a = record({ id: "rec-002", patientId: "TH-001" });
+    const b = record({ id: "rec-010", patientId: "TH-000" });
+    expect(compareRecords(a, b, BY_ID)).toBeLessThan(0);
+  });
+});
+
+describe("paginateRecords", () => {
+  const records = Array.from({ length: 5 }, (_, i) =>
+    record({ id: `rec-00${5 - i}`, archived: i === 0 }),
+  );
+
+  it("filters and sorts before slicing out the page", () => {
+    const page = paginateRecords(records, {}, BY_ID, { offset: 1, limit: 2 });
+    expect(page).toMatchObject({ total: 4, offset: 1, limit: 2 });
+    expect(ids(page.items)).toEqual(["rec-002", "rec-003"]);
+  });
+
+  it("returns a short last page", () => {
+    const page = paginateRecords(records, {}, BY_ID, { offset: 3, limit: 2 });
+    expect(ids(page.items)).toEqual(["rec-004"]);
+  });
+
+  it("clamps the offset to the matching records", () => {
+    expect(
+      paginateRecords(records, {}, BY_ID, { offset: 10, limit: 2 }),
+    ).toMatchObject({ items: [], total: 4, offset: 4 });
+    expect(
+      paginateRecords(records, {}, BY_ID, { offset: -3, limit: 2 }),
+    ).toMatchObject({ offset: 0 });
+  });
+
+  it("clamps the limit between zero and the page size cap", () => {
+    expect(
+      paginateRecords(records, {}, BY_ID, { offset: 0, limit: -1 }),
+    ).toMatchObject({ items: [], limit: 0 });
+    const many = Array.from({ length: MAX_PAGE_SIZE + 5 }, (_, i) =>
+      record({ id: `rec-${String(i).padStart(3, "0")}` }),
+    );
+    const page = paginateRecords(many, {}, BY_ID, { offset: 0, limit: 500 });
+    expect(page.limit).toBe(MAX_PAGE_SIZE);
+    expect(page.items).toHaveLength(MAX_PAGE_SIZE);
+    expect(page.total).toBe(MAX_PAGE_SIZE + 5);
+  });
+});
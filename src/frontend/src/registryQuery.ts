@@ -0,0 +1,143 @@
+import type { ImplantRecord } from "./registryData";
+
+/** Criteria for a registry search; omitted fields match any value. */
+export interface RecordFilter {
+  includeArchived?: boolean;
+  /** Case-insensitive substring over patient ID, lot number and model. */
+  search?: string;
+  followUpStatus?: ImplantRecord["followUpStatus"];
+  alertLevel?: ImplantRecord["alertLevel"];
+  riskLevel?: ImplantRecord["riskLevel"];
+  implantCategory?: string;
+  manufacturer?: string;
+  operatingSurgeon?: string;
+  institution?: string;
+}
+
+export const SORT_FIELDS = [
+  "patientId",
+  "implantCategory",
+  "manufacturer",
+  "operatingSurgeon",
+  "institution",
+  "lotNumber",
+  "surgeryDate",
+  "lastReview",
+  "nextReview",
+  "followUpStatus",
+  "alertLevel",
+  "riskLevel",
+] as const;
+
+export type SortField = (typeof SORT_FIELDS)[number];
+
+export interface RecordSort {
+  /** Omit to order by record id. */
+  field?: SortField;
+  descending: boolean;
+}
+
+export interface PageRequest {
+  offset: number;
+  limit: number;
+}
+
+export interface RecordPage {
+  items: ImplantRecord[];
+  /** Number of records matching the filter across all pages. */
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/** Mirrors the canister's cap so both repositories page identically. */
+export const MAX_PAGE_SIZE = 100;
+
+const SEARCH_FIELDS: Array<keyof ImplantRecord> = [
+  "patientId",
+  "lotNumber",
+  "modelRef",
+];
+
+// Alert and risk levels sort by severity rather than alphabetically.
+const ALERT_RANK: Record<ImplantRecord["alertLevel"], string> = {
+  stable: "0",
+  review: "1",
+  attention: "2",
+  recall: "3",
+};
+
+const RISK_RANK: Record<ImplantRecord["riskLevel"], string> = {
+  Low: "0",
+  Moderate: "1",
+  High: "2",
+};
+
+export function matchesRecordFilter(
+  record: ImplantRecord,
+  filter: RecordFilter,
+): boolean {
+  if (!filter.includeArchived && record.archived) return false;
+  const search = filter.search?.trim().toLowerCase();
+  if (
+    search &&
+    !SEARCH_FIELDS.some((f) => String(record[f]).toLowerCase().includes(search))
+  ) {
+    return false;
+  }
+  return (
+    (!filter.followUpStatus ||
+      record.followUpStatus === filter.followUpStatus) &&
+    (!filter.alertLevel || record.alertLevel === filter.alertLevel) &&
+    (!filter.riskLevel || record.riskLevel === filter.riskLevel) &&
+    (!filter.implantCategory ||
+      record.implantCategory === filter.implantCategory) &&
+    (!filter.manufacturer || record.manufacturer === filter.manufacturer) &&
+    (!filter.operatingSurgeon ||
+      record.operatingSurgeon === filter.operatingSurgeon) &&
+    (!filter.institution || record.institution === filter.institution)
+  );
+}
+
+function sortKey(record: ImplantRecord, field: SortField | undefined): string {
+  if (!field) return record.id;
+  if (field === "alertLevel") return ALERT_RANK[record.alertLevel];
+  if (field === "riskLevel") return RISK_RANK[record.riskLevel];
+  return record[field];
+}
+
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Orders like the canister: by the sort key, then by record id. */
+export function compareRecords(
+  a: ImplantRecord,
+  b: ImplantRecord,
+  sort: RecordSort,
+): number {
+  const order =
+    compareText(sortKey(a, sort.field), sortKey(b, sort.field)) ||
+    compareText(a.id, b.id);
+  return sort.descending ? -order : order;
+}
+
+/** Filters, sorts and slices out the requested page. */
+export function paginateRecords(
+  records: ImplantRecord[],
+  filter: RecordFilter,
+  sort: RecordSort,
+  page: PageRequest,
+): RecordPage {
+  const matching = records
+    .filter((r) => matchesRecordFilter(r, filter))
+    .sort((a, b) => compareRecords(a, b, sort));
+  const limit = Math.min(Math.max(0, page.limit), MAX_PAGE_SIZE);
+  const offset = Math.min(Math.max(0, page.offset), matching.length);
+  return {
+    items: matching.slice(offset, offset + limit),
+    total: matching.length,
+    offset,
+    limit,
+  };
+}
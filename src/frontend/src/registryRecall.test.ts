@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import {
+  type Recall,
+  type RecallInput,
+  applyRecallFlags,
+  compareLots,
+  matchesRecall,
+  validateRecallInput,
+} from "./registryRecall";
+
+function record(overrides: Partial<ImplantRecord>): ImplantRecord {
+  return {
+    ...REGISTRY_DATA[0],
+    manufacturer: "Zimmer Biomet",
+    modelRef: "Zimmer Biomet Taperloc Complete",
+    lotNumber: "ZB-2019-HIP-0431",
+    surgeryDate: "2019-03-14",
+    ...overrides,
+  };
+}
+
+function recall(overrides: Partial<RecallInput>): RecallInput {
+  return {
+    reference: "FSN-2026-014",
+    manufacturer: "Zimmer Biomet",
+    modelRef: "Zimmer Biomet Taperloc Complete",
+    lotFrom: "",
+    lotTo: "",
+    implantedFrom: "",
+    implantedTo: "",
+    severity: "Class II",
+    description: "",
+    ...overrides,
+  };
+}
+
+describe("compareLots", () => {
+  it.each([
+    ["LOT-0099", "LOT-0100", -1],
+    ["LOT-99", "LOT-100", -1],
+    ["LOT-100", "LOT-99", 1],
+    ["lot-0100", "LOT-0100", 0],
+    [" LOT-0100 ", "LOT-0100", 0],
+    ["AB-900", "AC-100", -1],
+    ["ZB-2019-HIP-0431", "ZB-2019-KNEE-0001", -1],
+    ["ZB-2020-HIP-0001", "ZB-2019-HIP-9999", 1],
+  ])("%s vs %s → %i", (a, b, sign) => {
+    expect(Math.sign(compareLots(a, b))).toBe(sign);
+  });
+});
+
+describe("matchesRecall", () => {
+  const range = recall({
+    lotFrom: "ZB-2019-HIP-0400",
+    lotTo: "ZB-2019-HIP-0500",
+  });
+
+  it.each([
+    ["ZB-2019-HIP-0400", true],
+    ["ZB-2019-HIP-0500", true],
+    ["ZB-2019-HIP-0431", true],
+    ["zb-2019-hip-0450", true],
+    ["ZB-2019-HIP-0399", false],
+    ["ZB-2019-HIP-0501", false],
+    ["ZB-2019-HIP-431", true],
+    ["ZB-2019-KNEE-0450", false],
+    ["ZC-2019-HIP-0450", false],
+    ["ZA-2019-HIP-0450", false],
+  ])("lot %s in the inclusive range → %s", (lotNumber, expected) => {
+    expect(matchesRecall(record({ lotNumber }), range)).toBe(expected);
+  });
+
+  it("covers every lot when both bounds are empty", () => {
+    expect(matchesRecall(record({ lotNumber: "ANY-1" }), recall({}))).toBe(
+      true,
+    );
+  });
+
+  it.each([
+    [{ lotFrom: "ZB-2019-HIP-0431" }, "ZB-2019-HIP-9999", true],
+    [{ lotFrom: "ZB-2019-HIP-0431" }, "ZB-2019-HIP-0430", false],
+    [{ lotTo: "ZB-2019-HIP-0431" }, "ZB-2019-HIP-0001", true],
+    [{ lotTo: "ZB-2019-HIP-0431" }, "ZB-2019-HIP-0432", false],
+  ])("leaves the other side of %j open", (bounds, lotNumber, expected) => {
+    expect(matchesRecall(record({ lotNumber }), recall(bounds))).toBe(expected);
+  });
+
+  it.each([
+    [{ implantedFrom: "2019-03-14" }, "2019-03-14", true],
+    [{ implantedFrom: "2019-03-14" }, "2019-03-13", false],
+    [{ implantedFrom: "2019-03-14" }, "2026-01-01", true],
+    [{ implantedTo: "2019-03-14" }, "2019-03-14", true],
+    [{ implantedTo: "2019-03-14" }, "2019-03-15", false],
+    [{ implantedTo: "2019-03-14" }, "2001-01-01", true],
+    [
+      { implantedFrom: "2019-01-01", implantedTo: "2019-12-31" },
+      "2020-01-01",
+      false,
+    ],
+  ])("applies the date window %j to %s", (window, surgeryDate, expected) => {
+    expect(matchesRecall(record({ surgeryDate }), recall(window))).toBe(
+      expected,
+    );
+  });
+
+  it("matches manufacturer and model case-insensitively", () => {
+    expect(
+      matchesRecall(
+        record({}),
+        recall({
+          manufacturer: " zimmer biomet ",
+          modelRef: "ZIMMER BIOMET TAPERLOC COMPLETE",
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it.each([
+    [{ modelRef: "Zimmer Biomet Taperloc" }],
+    [{ modelRef: "Zimmer Biomet Taperloc Complete XR" }],
+    [{ manufacturer: "Stryker" }],
+  ])("rejects a different device %j", (device) => {
+    expect(matchesRecall(record({}), recall(device))).toBe(false);
+  });
+});
+
+describe("validateRecallInput", () => {
+  it("accepts a complete notice", () => {
+    expect(validateRecallInput(recall({}))).toEqual({});
+  });
+
+  it("rejects reversed lot and date ranges", () => {
+    expect(
+      validateRecallInput(
+        recall({
+          lotFrom: "LOT-100",
+          lotTo: "LOT-99",
+          implantedFrom: "2020-01-01",
+          implantedTo: "2019-12-31",
+        }),
+      ),
+    ).toEqual({
+      lotTo: "Last lot must not precede the first lot",
+      implantedTo: "End date must not precede the start date",
+    });
+  });
+});
+
+describe("applyRecallFlags", () => {
+  const issued = {
+    id: "rcl-1",
+    issuedBy: "qo",
+    issuedAt: "2026-01-01T00:00:00Z",
+    closed: false,
+  };
+
+  it("flags only cases under an open recall", () => {
+    const affected = record({ id: "rec-a", alertLevel: "stable" });
+    const other = record({
+      id: "rec-b",
+      modelRef: "Other",
+      alertLevel: "stable",
+    });
+    const open: Recall = { ...recall({}), ...issued };
+    expect(
+      applyRecallFlags([affected, other], [open]).map((r) => r.alertLevel),
+    ).toEqual(["recall", "stable"]);
+    expect(
+      applyRecallFlags([affected], [{ ...open, closed: true }])[0].alertLevel,
+    ).toBe("stable");
+  });
+});
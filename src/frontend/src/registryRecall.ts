@@ -0,0 +1,174 @@
+import type { ImplantRecord } from "./registryData";
+
+export const RECALL_SEVERITIES = ["Class I", "Class II", "Class III"] as const;
+export type RecallSeverity = (typeof RECALL_SEVERITIES)[number];
+
+export const RECALL_SEVERITY_DESCRIPTIONS: Record<RecallSeverity, string> = {
+  "Class I": "Reasonable probability of serious harm or death",
+  "Class II": "May cause temporary or reversible harm",
+  "Class III": "Unlikely to cause adverse health consequences",
+};
+
+export const NOTICE_STATUSES = [
+  "Pending",
+  "Contact Attempted",
+  "Notified",
+  "Unreachable",
+] as const;
+export type NoticeStatus = (typeof NOTICE_STATUSES)[number];
+
+/**
+ * A field safety notice. Empty lot bounds or implant dates leave that side of
+ * the range open, so a recall can target a whole model or a single lot.
+ */
+export interface RecallInput {
+  /** Manufacturer's field safety notice number. */
+  reference: string;
+  manufacturer: string;
+  modelRef: string;
+  lotFrom: string;
+  lotTo: string;
+  /** Surgery date window, ISO dates. */
+  implantedFrom: string;
+  implantedTo: string;
+  severity: RecallSeverity;
+  description: string;
+}
+
+export interface Recall extends RecallInput {
+  id: string;
+  issuedBy: string;
+  /** ISO timestamp. */
+  issuedAt: string;
+  closed: boolean;
+}
+
+export interface RecallNoticeInput {
+  recallId: string;
+  recordId: string;
+  status: NoticeStatus;
+  note: string;
+}
+
+/** Call-back progress for one affected patient under one recall. */
+export interface RecallNotice extends RecallNoticeInput {
+  updatedBy: string;
+  /** ISO timestamp. */
+  updatedAt: string;
+}
+
+export interface RecallWorklistItem {
+  record: ImplantRecord;
+  /** Null until the first call-back attempt is recorded. */
+  notice: RecallNotice | null;
+  status: NoticeStatus;
+}
+
+export type RecallInputErrors = Partial<Record<keyof RecallInput, string>>;
+
+const sameText = (a: string, b: string) =>
+  a.trim().localeCompare(b.trim(), undefined, { sensitivity: "base" }) === 0;
+
+/** Lot numbers sort naturally so "LOT-0099" precedes "LOT-0100". */
+export function compareLots(a: string, b: string): number {
+  return a.trim().localeCompare(b.trim(), undefined, {
+    numeric: true,
+    sensitivity: "base",
+  });
+}
+
+export function validateRecallInput(input: RecallInput): RecallInputErrors {
+  const errors: RecallInputErrors = {};
+  if (!input.manufacturer.trim()) {
+    errors.manufacturer = "Manufacturer is required";
+  }
+  if (!input.modelRef.trim()) {
+    errors.modelRef = "Model is required";
+  }
+  if (!RECALL_SEVERITIES.includes(input.severity)) {
+    errors.severity = "Select a severity class";
+  }
+  if (
+    input.lotFrom &&
+    input.lotTo &&
+    compareLots(input.lotFrom, input.lotTo) > 0
+  ) {
+    errors.lotTo = "Last lot must not precede the first lot";
+  }
+  if (
+    input.implantedFrom &&
+    input.implantedTo &&
+    input.implantedFrom > input.implantedTo
+  ) {
+    errors.implantedTo = "End date must not precede the start date";
+  }
+  return errors;
+}
+
+export function matchesRecall(
+  record: ImplantRecord,
+  recall: RecallInput,
+): boolean {
+  if (!sameText(record.manufacturer, recall.manufacturer)) return false;
+  if (!sameText(record.modelRef, recall.modelRef)) return false;
+  if (recall.lotFrom && compareLots(record.lotNumber, recall.lotFrom) < 0) {
+    return false;
+  }
+  if (recall.lotTo && compareLots(record.lotNumber, recall.lotTo) > 0) {
+    return false;
+  }
+  if (recall.implantedFrom && record.surgeryDate < recall.implantedFrom) {
+    return false;
+  }
+  if (recall.implantedTo && record.surgeryDate > recall.implantedTo) {
+    return false;
+  }
+  return true;
+}
+
+/** Active (non-archived) records carrying a device covered by the recall. */
+export function findAffectedRecords(
+  records: ImplantRecord[],
+  recall: RecallInput,
+): ImplantRecord[] {
+  return records.filter((r) => !r.archived && matchesRecall(r, recall));
+}
+
+/**
+ * Open recalls override the scored alert level: a recalled device needs
+ * a call-back whatever the patient's risk profile.
+ */
+export function applyRecallFlags(
+  records: ImplantRecord[],
+  recalls: Recall[],
+): ImplantRecord[] {
+  const open = recalls.filter((r) => !r.closed);
+  if (open.length === 0) return records;
+  return records.map((record) =>
+    open.some((recall) => matchesRecall(record, recall))
+      ? { ...record, alertLevel: "recall" }
+      : record,
+  );
+}
+
+export function buildRecallWorklist(
+  records: ImplantRecord[],
+  recall: Recall,
+  notices: RecallNotice[],
+): RecallWorklistItem[] {
+  const byRecord = new Map(notices.map((n) => [n.recordId, n]));
+  return findAffectedRecords(records, recall).map((record) => {
+    const notice = byRecord.get(record.id) ?? null;
+    return { record, notice, status: notice?.status ?? "Pending" };
+  });
+}
+
+export function countByNoticeStatus(
+  worklist: RecallWorklistItem[],
+): Record<NoticeStatus, number> {
+  const counts = Object.fromEntries(
+    NOTICE_STATUSES.map((s) => [s, 0]),
+  ) as Record<NoticeStatus, number>;
+  for (const item of worklist) counts[item.status] += 1;
+  return counts;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import { parseCsv } from "./registryExport";
+import {
+  RECORD_EXPORT_FORMATS,
+  type RecordExportFormat,
+  exportRecords,
+  recordExportFileName,
+  recordsToCsv,
+  recordsToNdjson,
+} from "./registryRecordExport";
+
+function record(overrides: Partial<ImplantRecord>): ImplantRecord {
+  return { ...REGISTRY_DATA[0], ...overrides };
+}
+
+const RECORDS = [
+  record({ id: "rec-001", patientId: "TH-001" }),
+  record({
+    id: "rec-002",
+    patientId: "TH-002",
+    revisionHistory: 'Revised "early", 2021',
+    archived: true,
+  }),
+];
+
+const FORMATS = Object.keys(RECORD_EXPORT_FORMATS) as RecordExportFormat[];
+
+describe("recordsToCsv", () => {
+  it("heads the columns with field labels between record ID and archived", () => {
+    const [header] = parseCsv(recordsToCsv(RECORDS, true));
+    expect(header.slice(0, 3)).toEqual([
+      "Record ID",
+      "Patient Identifier",
+      "Implant Category",
+    ]);
+    expect(header.at(-1)).toBe("Archived");
+  });
+
+  it("writes one row per record and quotes fields that need it", () => {
+    const [header, ...rows] = parseCsv(recordsToCsv(RECORDS, true));
+    expect(rows).toHaveLength(2);
+    const second = Object.fromEntries(header.map((h, i) => [h, rows[1][i]]));
+    expect(second).toMatchObject({
+      "Record ID": "rec-002",
+      "Patient Identifier": "TH-002",
+      "Revision History": 'Revised "early", 2021',
+      "Complication Reports": "1",
+      Archived: "Yes",
+    });
+    expect(rows[0].at(-1)).toBe("No");
+  });
+
+  it("drops the patient identifier column without identifier access", () => {
+    const csv = recordsToCsv(RECORDS, false);
+    const [header, ...rows] = parseCsv(csv);
+    expect(header).not.toContain("Patient Identifier");
+    expect(rows.every((row) => row.length === header.length)).toBe(true);
+    expect(csv).not.toMatch(/TH-00\d/);
+  });
+});
+
+describe("recordsToNdjson", () => {
+  it("writes one object per line keyed by field name", () => {
+    const lines = recordsToNdjson(RECORDS, true).split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      id: "rec-001",
+      patientId: "TH-001",
+      age: 68,
+      archived: false,
+    });
+    expect(JSON.parse(lines[1]).archived).toBe(true);
+  });
+
+  it("leaves the patient identifier out without identifier access", () => {
+    const lines = recordsToNdjson(RECORDS, false).split("\n");
+    for (const line of lines) {
+      expect(JSON.parse(line)).not.toHaveProperty("patientId");
+    }
+  });
+});
+
+describe("exportRecords", () => {
+  const exportedAt = new Date("2026-02-03T04:05:06Z");
+
+  it("produces a FHIR bundle stamped with the export time", () => {
+    const bundle = JSON.parse(
+      exportRecords(RECORDS, "fhir", { identifiable: true, exportedAt }),
+    );
+    expect(bundle).toMatchObject({
+      resourceType: "Bundle",
+      type: "collection",
+      timestamp: "2026-02-03T04:05:06.000Z",
+    });
+  });
+
+  it.each(FORMATS)(
+    "keeps patient identifiers out of %s without identifier access",
+    (format) => {
+      const content = exportRecords(RECORDS, format, {
+        identifiable: false,
+        exportedAt,
+      });
+      expect(content).toContain("rec-002");
+      expect(content).not.toMatch(/TH-00\d/);
+    },
+  );
+
+  it.each(FORMATS)(
+    "includes patient identifiers in %s when allowed",
+    (format) => {
+      const content = exportRecords(RECORDS, format, {
+        identifiable: true,
+        exportedAt,
+      });
+      expect(content).toContain("TH-002");
+    },
+  );
+});
+
+describe("recordExportFileName", () => {
+  it.each<[RecordExportFormat, string]>([
+    ["csv", "thodar-registry-2026-02-03.csv"],
+    ["ndjson", "thodar-registry-2026-02-03.ndjson"],
+    ["fhir", "thodar-registry-2026-02-03.fhir.json"],
+  ])("names %s exports by date", (format, expected) => {
+    expect(recordExportFileName(format, new Date("2026-02-03T23:00:00Z"))).toBe(
+      expected,
+    );
+  });
+});
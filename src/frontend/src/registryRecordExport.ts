@@ -0,0 +1,91 @@
+import { IMPLANT_FIELD_LABELS, type ImplantRecord } from "./registryData";
+import { toCsv } from "./registryExport";
+import { recordsToFhirBundle } from "./registryFhir";
+
+export const RECORD_EXPORT_FORMATS = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  ndjson: {
+    label: "NDJSON",
+    extension: "ndjson",
+    mimeType: "application/x-ndjson",
+  },
+  fhir: {
+    label: "FHIR R4 Bundle",
+    extension: "fhir.json",
+    mimeType: "application/fhir+json",
+  },
+} as const;
+export type RecordExportFormat = keyof typeof RECORD_EXPORT_FORMATS;
+
+export interface RecordExportOptions {
+  /** False strips patient identifiers from every format. */
+  identifiable: boolean;
+  exportedAt?: Date;
+}
+
+type ExportedField = keyof typeof IMPLANT_FIELD_LABELS;
+
+function exportedFields(identifiable: boolean): ExportedField[] {
+  const fields = Object.keys(IMPLANT_FIELD_LABELS) as ExportedField[];
+  return identifiable ? fields : fields.filter((f) => f !== "patientId");
+}
+
+/** Headed with field labels, which the case import recognises. */
+export function recordsToCsv(
+  records: ImplantRecord[],
+  identifiable: boolean,
+): string {
+  const fields = exportedFields(identifiable);
+  return toCsv(
+    ["Record ID", ...fields.map((f) => IMPLANT_FIELD_LABELS[f]), "Archived"],
+    records.map((r) => [
+      r.id,
+      ...fields.map((f) => r[f]),
+      r.archived ? "Yes" : "No",
+    ]),
+  );
+}
+
+/** One JSON object per line, keyed by field name. */
+export function recordsToNdjson(
+  records: ImplantRecord[],
+  identifiable: boolean,
+): string {
+  const fields = exportedFields(identifiable);
+  return records
+    .map((r) =>
+      JSON.stringify({
+        id: r.id,
+        ...Object.fromEntries(fields.map((f) => [f, r[f]])),
+        archived: r.archived ?? false,
+      }),
+    )
+    .join("\n");
+}
+
+export function exportRecords(
+  records: ImplantRecord[],
+  format: RecordExportFormat,
+  { identifiable, exportedAt = new Date() }: RecordExportOptions,
+): string {
+  switch (format) {
+    case "csv":
+      return recordsToCsv(records, identifiable);
+    case "ndjson":
+      return recordsToNdjson(records, identifiable);
+    case "fhir":
+      return JSON.stringify(
+        recordsToFhirBundle(records, { identifiable, exportedAt }),
+        null,
+        2,
+      );
+  }
+}
+
+export function recordExportFileName(
+  format: RecordExportFormat,
+  now = new Date(),
+): string {
+  const { extension } = RECORD_EXPORT_FORMATS[format];
+  return `thodar-registry-${now.toISOString().slice(0, 10)}.${extension}`;
+}
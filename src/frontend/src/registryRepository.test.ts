@@ -0,0 +1,289 @@
+import { describe, expect, it } from "vitest";
+import type {
+  ImplantRecord as BackendImplantRecord,
+  backendInterface,
+} from "./backend";
+import { REDACTED_IDENTIFIER } from "./registryAccess";
+import { REGISTRY_DATA } from "./registryData";
+import { DEFAULT_FOLLOW_UP_PROTOCOLS } from "./registryFollowUp";
+import type { RecordVisibility } from "./registryInstitutions";
+import {
+  BackendRegistryRepository,
+  InMemoryRegistryRepository,
+  toBackendProtocol,
+} from "./registryRepository";
+
+const MADURAI = "Government Rajaji Hospital, Madurai";
+const SORT = { descending: false };
+
+function visibility(
+  overrides: Partial<RecordVisibility> = {},
+): RecordVisibility {
+  return { scope: { kind: "all" }, identifiable: true, ...overrides };
+}
+
+describe("InMemoryRegistryRepository.query", () => {
+  it("pages and counts only the caller's institution", async () => {
+    const repository = new InMemoryRegistryRepository();
+    const scoped = visibility({
+      scope: { kind: "institution", institution: MADURAI },
+    });
+    const first = await repository.query(
+      {},
+      SORT,
+      { offset: 0, limit: 1 },
+      scoped,
+    );
+    const second = await repository.query(
+      {},
+      SORT,
+      { offset: 1, limit: 1 },
+      scoped,
+    );
+    expect(first.total).toBe(2);
+    expect(first.items.map((r) => r.id)).toEqual(["rec-001"]);
+    expect(second.items.map((r) => r.id)).toEqual(["rec-009"]);
+  });
+
+  it("fills every page before reaching other institutions' records", async () => {
+    const repository = new InMemoryRegistryRepository();
+    const page = await repository.query(
+      {},
+      SORT,
+      { offset: 0, limit: 5 },
+      visibility({ scope: { kind: "institution", institution: MADURAI } }),
+    );
+    expect(page.items).toHaveLength(2);
+    expect(page.items.every((r) => r.institution === MADURAI)).toBe(true);
+  });
+
+  it("returns nothing when no institution is in scope", async () => {
+    const repository = new InMemoryRegistryRepository();
+    const page = await repository.query(
+      {},
+      SORT,
+      { offset: 0, limit: 10 },
+      visibility({ scope: { kind: "none" } }),
+    );
+    expect(page).toMatchObject({ items: [], total: 0 });
+  });
+
+  it.each([
+    { identifiable: true, total: 1 },
+    { identifiable: false, total: 0 },
+  ])(
+    "matches patient IDs in a search only when identifiable is $identifiable",
+    async ({ identifiable, total }) => {
+      const repository = new InMemoryRegistryRepository();
+      const page = await repository.query(
+        { search: "TH-001" },
+        SORT,
+        { offset: 0, limit: 10 },
+        visibility({ identifiable }),
+      );
+      expect(page.total).toBe(total);
+    },
+  );
+
+  it("redacts identifiers on the returned page", async () => {
+    const repository = new InMemoryRegistryRepository();
+    const page = await repository.query(
+      {},
+      SORT,
+      { offset: 0, limit: 10 },
+      visibility({ identifiable: false }),
+    );
+    expect(page.total).toBe(10);
+    expect(page.items.every((r) => r.patientId === REDACTED_IDENTIFIER)).toBe(
+      true,
+    );
+  });
+});
+
+// Stands in for the canister with records whose stored levels have gone stale
+// since their last write, and counts the paged queries it serves.
+function fakeActor() {
+  const records: BackendImplantRecord[] = REGISTRY_DATA.map((r) => ({
+    ...r,
+    age: BigInt(r.age),
+    complicationsLogged: BigInt(r.complicationsLogged),
+    archived: r.archived ?? false,
+    alertLevel: "stable",
+    riskLevel: "Low",
+  }));
+  const calls = { queryImplantRecords: 0 };
+  const actor = {
+    listImplantRecords: async () => records,
+    listRecalls: async () => [],
+    listFollowUpProtocols: async () =>
+      DEFAULT_FOLLOW_UP_PROTOCOLS.map(toBackendProtocol),
+    queryImplantRecords: async (
+      _filter: unknown,
+      _sort: unknown,
+      offset: bigint,
+      limit: bigint,
+    ) => {
+      calls.queryImplantRecords++;
+      return {
+        items: records.slice(Number(offset), Number(offset + limit)),
+        total: BigInt(records.length),
+        offset,
+        limit,
+      };
+    },
+  } as unknown as backendInterface;
+  return { actor, calls };
+}
+
+describe("BackendRegistryRepository.query", () => {
+  it("filters alert levels on the client against fresh scores", async () => {
+    const { actor, calls } = fakeActor();
+    const repository = new BackendRegistryRepository(actor);
+    const attention = (await repository.list()).filter(
+      (r) => r.alertLevel === "attention",
+    );
+    expect(attention.length).toBeGreaterThan(1);
+
+    const page = await repository.query(
+      { alertLevel: "attention" },
+      SORT,
+      { offset: 1, limit: 1 },
+      visibility(),
+    );
+    expect(calls.queryImplantRecords).toBe(0);
+    expect(page.total).toBe(attention.length);
+    expect(page.items.map((r) => r.id)).toEqual([attention[1].id]);
+  });
+
+  it("sorts risk levels on the client by severity", async () => {
+    const { actor, calls } = fakeActor();
+    const repository = new BackendRegistryRepository(actor);
+    const page = await repository.query(
+      {},
+      { field: "riskLevel", descending: true },
+      { offset: 0, limit: 100 },
+      visibility(),
+    );
+    expect(calls.queryImplantRecords).toBe(0);
+    const order = ["High", "Moderate", "Low"];
+    const ranks = page.items.map((r) => order.indexOf(r.riskLevel));
+    expect(ranks).toEqual([...ranks].sort());
+    expect(ranks[0]).toBe(0);
+  });
+
+  it("filters follow-up status on the client against the current protocols", async () => {
+    const { actor, calls } = fakeActor();
+    const repository = new BackendRegistryRepository(actor);
+    const overdue = (await repository.list()).filter(
+      (r) => r.followUpStatus === "Overdue",
+    );
+    const page = await repository.query(
+      { followUpStatus: "Overdue" },
+      SORT,
+      { offset: 0, limit: 100 },
+      visibility(),
+    );
+    expect(calls.queryImplantRecords).toBe(0);
+    expect(page.items.map((r) => r.id)).toEqual(overdue.map((r) => r.id));
+  });
+
+  it("pages other queries in the canister", async () => {
+    const { actor, calls } = fakeActor();
+    const repository = new BackendRegistryRepository(actor);
+    const page = await repository.query(
+      { manufacturer: "Zimmer Biomet" },
+      SORT,
+      { offset: 2, limit: 3 },
+      visibility(),
+    );
+    expect(calls.queryImplantRecords).toBe(1);
+    expect(page).toMatchObject({ total: REGISTRY_DATA.length, offset: 2 });
+    expect(page.items).toHaveLength(3);
+  });
+});
+
+describe("InMemoryRegistryRepository.saveFollowUpProtocols", () => {
+  it("reschedules every case against the saved protocols", async () => {
+    const repository = new InMemoryRegistryRepository();
+    const [hip] = await repository.list();
+    // Reviewed 2023-03-10, within the window of the 2023-03-14 milestone.
+    expect(hip.nextReview).toBe("2024-03-14");
+    const protocols = [
+      {
+        id: "six-monthly",
+        name: "Six-Monthly Review",
+        categoryPattern: ".*",
+        milestones: [],
+        thenEveryMonths: 6,
+      },
+    ];
+    await repository.saveFollowUpProtocols(protocols, "admin");
+
+    expect(await repository.listFollowUpProtocols()).toEqual(protocols);
+    expect((await repository.get(hip.id))?.nextReview).toBe("2023-09-14");
+    const [entry] = (await repository.listAuditEntries()).slice(-1);
+    expect(entry).toMatchObject({
+      action: "Follow-up protocols updated",
+      detail: "1 protocols",
+    });
+  });
+
+  it("rejects protocols that cannot schedule every case", async () => {
+    const repository = new InMemoryRegistryRepository();
+    await expect(repository.saveFollowUpProtocols([], "admin")).rejects.toThrow(
+      "At least one follow-up protocol is required",
+    );
+    await expect(
+      repository.saveFollowUpProtocols(
+        [{ id: "x", name: "Broken", categoryPattern: "(", milestones: [] }],
+        "admin",
+      ),
+    ).rejects.toThrow('Broken: "(" is not a valid pattern');
+    expect(await repository.listFollowUpProtocols()).toEqual(
+      DEFAULT_FOLLOW_UP_PROTOCOLS,
+    );
+  });
+});
+
+describe("InMemoryRegistryRepository.listAnalyticsRecords", () => {
+  it("serves every institution's active cases without identifying fields", async () => {
+    const repository = new InMemoryRegistryRepository();
+    await repository.archive("rec-010", { author: "admin", note: "Duplicate" });
+    const records = await repository.listAnalyticsRecords();
+    expect(records).toHaveLength(9);
+    expect(new Set(records.map((r) => r.institution)).size).toBe(8);
+    for (const record of records) {
+      expect(record).toMatchObject({
+        patientId: REDACTED_IDENTIFIER,
+        primaryDiagnosis: "",
+        comorbidities: "",
+        lotNumber: "",
+      });
+    }
+  });
+});
+
+describe("InMemoryRegistryRepository.listReviewHistory", () => {
+  it("gathers review dates from versions and clinical review events", async () => {
+    const repository = new InMemoryRegistryRepository();
+    const context = { author: "tester", note: "Clinical review recorded" };
+    await repository.update("rec-002", { lastReview: "2025-09-01" }, context);
+    for (const [eventType, eventDate] of [
+      ["Clinical Review", "2025-10-01"],
+      ["Imaging", "2025-11-01"],
+    ] as const) {
+      await repository.logFollowUpEvent(
+        { recordId: "rec-002", eventType, eventDate, notes: "" },
+        "tester",
+      );
+    }
+    await repository.archive("rec-003", context);
+
+    const history = await repository.listReviewHistory();
+    expect(history.map((h) => h.recordId)).not.toContain("rec-003");
+    const dates = history.find((h) => h.recordId === "rec-002")?.reviewDates;
+    expect(new Set(dates)).toEqual(
+      new Set(["2025-07-20", "2025-09-01", "2025-10-01"]),
+    );
+  });
+});
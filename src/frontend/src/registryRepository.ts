@@ -0,0 +1,1661 @@
+import type {
+  AuditEntry as BackendAuditEntry,
+  CallerAccess as BackendCallerAccess,
+  CatalogueDevice as BackendCatalogueDevice,
+  FollowUpEvent as BackendFollowUpEvent,
+  FollowUpProtocol as BackendFollowUpProtocol,
+  GovernanceItem as BackendGovernanceItem,
+  ImplantRecord as BackendImplantRecord,
+  ImplantRecordInput as BackendImplantRecordInput,
+  Institution as BackendInstitution,
+  Recall as BackendRecall,
+  RecallNotice as BackendRecallNotice,
+  RecordFilter as BackendRecordFilter,
+  RecordPage as BackendRecordPage,
+  RecordSort as BackendRecordSort,
+  RecordVersion as BackendRecordVersion,
+  RoleAssignment as BackendRoleAssignment,
+  SavedView as BackendSavedView,
+  UserAccount as BackendUserAccount,
+  backendInterface,
+} from "./backend";
+import {
+  type CallerAccess,
+  ROLES,
+  type Role,
+  type RoleAssignment,
+  type UserAccount,
+  type UserAccountInput,
+  type UserAccountUpdate,
+  canAssignRole,
+  hasPermission,
+  toAnalyticsRecord,
+} from "./registryAccess";
+import {
+  type AuditEntry,
+  type AuditEventInput,
+  CLIENT_AUDIT_PERMISSIONS,
+  type CertifiedAuditTrail,
+  chainAuditEntry,
+} from "./registryAudit";
+import {
+  type SavedView,
+  type SavedViewInput,
+  normalizeColumnSettings,
+} from "./registryColumns";
+import {
+  ALERT_LEVELS,
+  FOLLOW_UP_STATUSES,
+  type ImplantRecord,
+  LATERALITIES,
+  REGISTRY_DATA,
+  RISK_LEVELS,
+  SEXES,
+} from "./registryData";
+import {
+  type CatalogueDevice,
+  type CatalogueDeviceInput,
+  DEVICE_CATALOGUE,
+  applyCatalogueDevice,
+  formatDeviceId,
+  validateDeviceInput,
+} from "./registryDevices";
+import {
+  DEFAULT_FOLLOW_UP_PROTOCOLS,
+  FOLLOW_UP_EVENT_TYPES,
+  type FollowUpEvent,
+  type FollowUpEventInput,
+  type FollowUpProtocol,
+  type ReviewHistory,
+  applyFollowUpSchedule,
+  validateFollowUpProtocols,
+} from "./registryFollowUp";
+import {
+  GOVERNANCE_LEVELS,
+  GOVERNANCE_STATUSES,
+  type GovernanceItem,
+  type GovernanceItemInput,
+  type GovernanceItemUpdate,
+  findOpenGovernanceItem,
+} from "./registryGovernance";
+import type { ChangeContext, RecordVersion } from "./registryHistory";
+import {
+  type Institution,
+  type RecordVisibility,
+  applyVisibility,
+  institutionsFromRecords,
+} from "./registryInstitutions";
+import {
+  type PageRequest,
+  type RecordFilter,
+  type RecordPage,
+  type RecordSort,
+  type SortField,
+  paginateRecords,
+} from "./registryQuery";
+import {
+  NOTICE_STATUSES,
+  RECALL_SEVERITIES,
+  type Recall,
+  type RecallInput,
+  type RecallNotice,
+  type RecallNoticeInput,
+  applyRecallFlags,
+  validateRecallInput,
+} from "./registryRecall";
+import { applyRiskAssessment } from "./registryRisk";
+
+export type ImplantRecordInput = Omit<ImplantRecord, "id" | "archived">;
+
+/** Applies the follow-up protocol, then scores the rescheduled record. */
+function deriveClinicalState<T extends ImplantRecordInput>(
+  record: T,
+  protocols: FollowUpProtocol[],
+): T {
+  return applyRiskAssessment(
+    applyFollowUpSchedule(record, new Date(), protocols),
+  );
+}
+
+export interface ListRecordsOptions {
+  includeArchived?: boolean;
+}
+
+/**
+ * Single access point for implant records. The dashboard, analytics and case
+ * review panel all read through this interface so they never disagree.
+ * Every write appends an immutable version to the record's history and
+ * reschedules `nextReview` from the implant category's follow-up protocol;
+ * `followUpStatus`, `alertLevel` and `riskLevel` are always derived, never
+ * taken from the caller. Records matching an open recall read back with the
+ * "recall" alert level.
+ */
+export interface RegistryRepository {
+  list(options?: ListRecordsOptions): Promise<ImplantRecord[]>;
+  /**
+   * Active records across every institution as de-identified projections,
+   * for callers holding `viewAllInstitutions` without `viewCaseRecords`.
+   */
+  listAnalyticsRecords(): Promise<ImplantRecord[]>;
+  /**
+   * Searches the records `visibility` allows, so totals and page lengths
+   * count only those and a search never matches a redacted identifier.
+   */
+  query(
+    filter: RecordFilter,
+    sort: RecordSort,
+    page: PageRequest,
+    visibility: RecordVisibility,
+  ): Promise<RecordPage>;
+  get(id: string): Promise<ImplantRecord | null>;
+  listVersions(id: string): Promise<RecordVersion[]>;
+  create(
+    input: ImplantRecordInput,
+    context: ChangeContext,
+  ): Promise<ImplantRecord>;
+  /**
+   * Registers a batch of cases all-or-nothing: an unknown or out-of-scope
+   * institution on any input rejects the whole batch. `source` names the
+   * file the cases came from.
+   */
+  importRecords(
+    inputs: ImplantRecordInput[],
+    source: string,
+    author: string,
+  ): Promise<ImplantRecord[]>;
+  update(
+    id: string,
+    changes: Partial<ImplantRecordInput>,
+    context: ChangeContext,
+  ): Promise<ImplantRecord>;
+  archive(id: string, context: ChangeContext): Promise<ImplantRecord>;
+  listFollowUpEvents(recordId: string): Promise<FollowUpEvent[]>;
+  logFollowUpEvent(
+    input: FollowUpEventInput,
+    author: string,
+  ): Promise<FollowUpEvent>;
+  /** Review dates of every active case, for the compliance trend. */
+  listReviewHistory(): Promise<ReviewHistory[]>;
+  /** Views are private to `owner`; the canister uses the caller instead. */
+  listSavedViews(owner: string): Promise<SavedView[]>;
+  saveView(input: SavedViewInput, owner: string): Promise<SavedView>;
+  deleteSavedView(id: string, owner: string): Promise<void>;
+  listRecalls(): Promise<Recall[]>;
+  /** `issuedBy` is ignored by the canister, which records the caller. */
+  createRecall(input: RecallInput, issuedBy: string): Promise<Recall>;
+  closeRecall(id: string, author: string): Promise<Recall>;
+  listRecallNotices(recallId: string): Promise<RecallNotice[]>;
+  updateRecallNotice(
+    input: RecallNoticeInput,
+    author: string,
+  ): Promise<RecallNotice>;
+  listGovernanceItems(): Promise<GovernanceItem[]>;
+  /** Returns the unresolved item instead when the signal is already raised. */
+  raiseGovernanceItem(
+    input: GovernanceItemInput,
+    author: string,
+  ): Promise<GovernanceItem>;
+  updateGovernanceItem(
+    update: GovernanceItemUpdate,
+    author: string,
+  ): Promise<GovernanceItem>;
+  /** `principal` is ignored by the canister, which resolves the caller. */
+  getCallerAccess(principal: string): Promise<CallerAccess>;
+  listRoleAssignments(): Promise<RoleAssignment[]>;
+  assignRole(
+    principal: string,
+    role: Role,
+    author: string,
+  ): Promise<RoleAssignment>;
+  revokeRole(principal: string, author: string): Promise<void>;
+  listInstitutions(): Promise<Institution[]>;
+  registerInstitution(name: string, author: string): Promise<Institution>;
+  /** Includes retired devices, which existing cases may still reference. */
+  listDevices(): Promise<CatalogueDevice[]>;
+  registerDevice(
+    input: CatalogueDeviceInput,
+    author: string,
+  ): Promise<CatalogueDevice>;
+  retireDevice(id: string, author: string): Promise<CatalogueDevice>;
+  /** In matching order; the last protocol catches every other category. */
+  listFollowUpProtocols(): Promise<FollowUpProtocol[]>;
+  /**
+   * Replaces every protocol. Records are rescheduled against the new set on
+   * their next read.
+   */
+  saveFollowUpProtocols(
+    protocols: FollowUpProtocol[],
+    author: string,
+  ): Promise<FollowUpProtocol[]>;
+  listUserAccounts(): Promise<UserAccount[]>;
+  /** Registers a principal and, when `input.role` is set, assigns it. */
+  registerUser(input: UserAccountInput, author: string): Promise<UserAccount>;
+  updateUserAccount(
+    update: UserAccountUpdate,
+    author: string,
+  ): Promise<UserAccount>;
+  setUserSuspended(
+    principal: string,
+    suspended: boolean,
+    author: string,
+  ): Promise<UserAccount>;
+  /** Stamps the caller's last login; ignored for unregistered principals. */
+  recordLogin(author: string): Promise<void>;
+  /** Oldest first; every write above appends its own entry. */
+  listAuditEntries(): Promise<AuditEntry[]>;
+  /** The whole trail in one read, so the certificate matches its head. */
+  getCertifiedAuditTrail(): Promise<CertifiedAuditTrail>;
+  /** Records a view or export, which never reaches the canister otherwise. */
+  recordAuditEvent(input: AuditEventInput, author: string): Promise<AuditEntry>;
+}
+
+const BASELINE_AUTHOR = "registry";
+const BASELINE_NOTE = "Baseline captured before first tracked change";
+
+export function formatRecordId(n: number): string {
+  return `rec-${String(n).padStart(3, "0")}`;
+}
+
+function toInput(record: ImplantRecord): ImplantRecordInput {
+  const { id: _id, archived: _archived, ...input } = record;
+  return input;
+}
+
+function copyDevice(device: CatalogueDevice): CatalogueDevice {
+  return { ...device, intendedSites: [...device.intendedSites] };
+}
+
+function copyProtocol(protocol: FollowUpProtocol): FollowUpProtocol {
+  return {
+    ...protocol,
+    milestones: protocol.milestones.map((m) => ({ ...m })),
+  };
+}
+
+function copyView(view: SavedView): SavedView {
+  return { ...view, columns: view.columns.map((c) => ({ ...c })) };
+}
+
+// ─── In-memory implementation ────────────────────────────────────────────────
+export class InMemoryRegistryRepository implements RegistryRepository {
+  private records = new Map<string, ImplantRecord>();
+  private versions = new Map<string, RecordVersion[]>();
+  private events = new Map<string, FollowUpEvent[]>();
+  private nextRecordNumber: number;
+  private nextEventNumber = 1;
+  private views = new Map<string, SavedView[]>();
+  private nextViewNumber = 1;
+  private recalls = new Map<string, Recall>();
+  private nextRecallNumber = 1;
+  private notices = new Map<string, RecallNotice[]>();
+  private governanceItems = new Map<string, GovernanceItem>();
+  private nextGovernanceNumber = 1;
+  private roles = new Map<string, RoleAssignment>();
+  private accounts = new Map<string, UserAccount>();
+  private institutions = new Map<string, Institution>();
+  private devices = new Map<string, CatalogueDevice>();
+  private nextDeviceNumber = DEVICE_CATALOGUE.length + 1;
+  private protocols = DEFAULT_FOLLOW_UP_PROTOCOLS.map(copyProtocol);
+  private auditLog: AuditEntry[] = [];
+
+  constructor(seed: ImplantRecord[] = REGISTRY_DATA) {
+    for (const record of seed) {
+      this.records.set(record.id, { ...record });
+    }
+    const numbers = seed.map((r) => Number(r.id.replace(/^rec-/, "")) || 0);
+    this.nextRecordNumber = Math.max(0, ...numbers) + 1;
+    for (const name of institutionsFromRecords(seed)) {
+      this.institutions.set(name, {
+        name,
+        registeredBy: BASELINE_AUTHOR,
+        registeredAt: new Date(0).toISOString(),
+      });
+    }
+    for (const device of DEVICE_CATALOGUE) {
+      this.devices.set(device.id, {
+        ...device,
+        intendedSites: [...device.intendedSites],
+        retired: false,
+        registeredBy: BASELINE_AUTHOR,
+        registeredAt: new Date(0).toISOString(),
+      });
+    }
+  }
+
+  async list(options: ListRecordsOptions = {}): Promise<ImplantRecord[]> {
+    return this.current().filter((r) => options.includeArchived || !r.archived);
+  }
+
+  async query(
+    filter: RecordFilter,
+    sort: RecordSort,
+    page: PageRequest,
+    visibility: RecordVisibility,
+  ): Promise<RecordPage> {
+    return paginateRecords(
+      applyVisibility(this.current(), visibility),
+      filter,
+      sort,
+      page,
+    );
+  }
+
+  async listAnalyticsRecords(): Promise<ImplantRecord[]> {
+    return this.current()
+      .filter((r) => !r.archived)
+      .map(toAnalyticsRecord);
+  }
+
+  async get(id: string): Promise<ImplantRecord | null> {
+    const record = this.records.get(id);
+    return record ? this.present([record])[0] : null;
+  }
+
+  async listVersions(id: string): Promise<RecordVersion[]> {
+    return (this.versions.get(id) ?? []).map((v) => ({
+      ...v,
+      snapshot: { ...v.snapshot },
+    }));
+  }
+
+  async create(
+    input: ImplantRecordInput,
+    context: ChangeContext,
+  ): Promise<ImplantRecord> {
+    this.requireInstitution(input.institution);
+    const record: ImplantRecord = deriveClinicalState(
+      {
+        ...this.linkDevice(input),
+        id: formatRecordId(this.nextRecordNumber),
+        archived: false,
+      },
+      this.protocols,
+    );
+    this.nextRecordNumber += 1;
+    this.records.set(record.id, record);
+    this.appendVersion(record, context.author, "Case registered");
+    await this.audit(context.author, "Case registered", record.id);
+    return { ...record };
+  }
+
+  async importRecords(
+    inputs: ImplantRecordInput[],
+    source: string,
+    author: string,
+  ): Promise<ImplantRecord[]> {
+    if (inputs.length === 0) throw new Error("Nothing to import");
+    for (const input of inputs) this.requireInstitution(input.institution);
+    const linked = inputs.map((input) => this.linkDevice(input));
+    const imported = linked.map((input) => {
+      const record: ImplantRecord = deriveClinicalState(
+        {
+          ...input,
+          id: formatRecordId(this.nextRecordNumber),
+          archived: false,
+        },
+        this.protocols,
+      );
+      this.nextRecordNumber += 1;
+      this.records.set(record.id, record);
+      this.appendVersion(record, author, `Imported from ${source}`);
+      return record;
+    });
+    await this.audit(
+      author,
+      "Cases imported",
+      "",
+      `${imported.length} cases from ${source}`,
+    );
+    return imported.map((r) => ({ ...r }));
+  }
+
+  async update(
+    id: string,
+    changes: Partial<ImplantRecordInput>,
+    context: ChangeContext,
+  ): Promise<ImplantRecord> {
+    const existing = this.require(id);
+    if (changes.institution !== undefined) {
+      this.requireInstitution(changes.institution);
+    }
+    const linked = this.linkDevice({ ...existing, ...changes, id }, existing);
+    this.ensureBaseline(existing);
+    const record: ImplantRecord = deriveClinicalState(linked, this.protocols);
+    this.records.set(id, record);
+    this.appendVersion(record, context.author, context.note);
+    await this.audit(context.author, "Case record updated", id, context.note);
+    return { ...record };
+  }
+
+  async archive(id: string, context: ChangeContext): Promise<ImplantRecord> {
+    const existing = this.require(id);
+    this.ensureBaseline(existing);
+    const record: ImplantRecord = { ...existing, archived: true };
+    this.records.set(id, record);
+    this.appendVersion(record, context.author, "Record archived");
+    await this.audit(context.author, "Case record archived", id);
+    return { ...record };
+  }
+
+  async listFollowUpEvents(recordId: string): Promise<FollowUpEvent[]> {
+    return (this.events.get(recordId) ?? []).map((e) => ({ ...e }));
+  }
+
+  async logFollowUpEvent(
+    input: FollowUpEventInput,
+    author: string,
+  ): Promise<FollowUpEvent> {
+    this.require(input.recordId);
+    if (!FOLLOW_UP_EVENT_TYPES.includes(input.eventType)) {
+      throw new Error(`Unknown follow-up event type: ${input.eventType}`);
+    }
+    const event: FollowUpEvent = {
+      ...input,
+      id: `evt-${this.nextEventNumber}`,
+      author,
+      timestamp: new Date().toISOString(),
+    };
+    this.nextEventNumber += 1;
+    this.events.set(input.recordId, [
+      ...(this.events.get(input.recordId) ?? []),
+      event,
+    ]);
+    await this.audit(
+      author,
+      "Follow-up event logged",
+      input.recordId,
+      input.eventType,
+    );
+    return { ...event };
+  }
+
+  async listReviewHistory(): Promise<ReviewHistory[]> {
+    return this.current()
+      .filter((r) => !r.archived)
+      .map((record) => ({
+        recordId: record.id,
+        reviewDates: [
+          ...(this.versions.get(record.id) ?? []).map(
+            (v) => v.snapshot.lastReview,
+          ),
+          ...(this.events.get(record.id) ?? [])
+            .filter((e) => e.eventType === "Clinical Review")
+            .map((e) => e.eventDate),
+          record.lastReview,
+        ],
+      }));
+  }
+
+  async listSavedViews(owner: string): Promise<SavedView[]> {
+    return (this.views.get(owner) ?? []).map(copyView);
+  }
+
+  // Saving under an existing name replaces that view.
+  async saveView(input: SavedViewInput, owner: string): Promise<SavedView> {
+    const name = input.name.trim();
+    if (name === "") {
+      throw new Error("View name is required");
+    }
+    const existing = this.views.get(owner) ?? [];
+    let id = existing.find((v) => v.name === name)?.id;
+    if (!id) {
+      id = `view-${this.nextViewNumber}`;
+      this.nextViewNumber += 1;
+    }
+    const view: SavedView = {
+      ...input,
+      name,
+      columns: normalizeColumnSettings(input.columns),
+      id,
+      owner,
+      updatedAt: new Date().toISOString(),
+    };
+    this.views.set(owner, [...existing.filter((v) => v.id !== id), view]);
+    return copyView(view);
+  }
+
+  async deleteSavedView(id: string, owner: string): Promise<void> {
+    this.views.set(
+      owner,
+      (this.views.get(owner) ?? []).filter((v) => v.id !== id),
+    );
+  }
+
+  async listRecalls(): Promise<Recall[]> {
+    return [...this.recalls.values()].map((r) => ({ ...r }));
+  }
+
+  async createRecall(input: RecallInput, issuedBy: string): Promise<Recall> {
+    const problems = Object.values(validateRecallInput(input));
+    if (problems.length > 0) {
+      throw new Error(problems[0]);
+    }
+    const recall: Recall = {
+      ...input,
+      id: `rcl-${this.nextRecallNumber}`,
+      issuedBy,
+      issuedAt: new Date().toISOString(),
+      closed: false,
+    };
+    this.nextRecallNumber += 1;
+    this.recalls.set(recall.id, recall);
+    await this.audit(
+      issuedBy,
+      "Recall issued",
+      "",
+      `${recall.id} ${recall.reference}`,
+    );
+    return { ...recall };
+  }
+
+  async closeRecall(id: string, author: string): Promise<Recall> {
+    const recall = { ...this.requireRecall(id), closed: true };
+    this.recalls.set(id, recall);
+    await this.audit(author, "Recall closed", "", `${id} ${recall.reference}`);
+    return { ...recall };
+  }
+
+  async listRecallNotices(recallId: string): Promise<RecallNotice[]> {
+    return (this.notices.get(recallId) ?? []).map((n) => ({ ...n }));
+  }
+
+  // Recording a new status replaces the patient's earlier notice.
+  async updateRecallNotice(
+    input: RecallNoticeInput,
+    author: string,
+  ): Promise<RecallNotice> {
+    this.requireRecall(input.recallId);
+    this.require(input.recordId);
+    if (!NOTICE_STATUSES.includes(input.status)) {
+      throw new Error(`Unknown notification status: ${input.status}`);
+    }
+    const notice: RecallNotice = {
+      ...input,
+      updatedBy: author,
+      updatedAt: new Date().toISOString(),
+    };
+    this.notices.set(input.recallId, [
+      ...(this.notices.get(input.recallId) ?? []).filter(
+        (n) => n.recordId !== input.recordId,
+      ),
+      notice,
+    ]);
+    await this.audit(
+      author,
+      "Recall call-back updated",
+      input.recordId,
+      `${input.recallId}: ${input.status}`,
+    );
+    return { ...notice };
+  }
+
+  async listGovernanceItems(): Promise<GovernanceItem[]> {
+    return [...this.governanceItems.values()].map((i) => ({ ...i }));
+  }
+
+  async raiseGovernanceItem(
+    input: GovernanceItemInput,
+    author: string,
+  ): Promise<GovernanceItem> {
+    if (!input.signalKey || !input.subject) {
+      throw new Error("Governance item requires a signal and subject");
+    }
+    if (!GOVERNANCE_LEVELS.includes(input.level)) {
+      throw new Error(`Unknown governance level: ${input.level}`);
+    }
+    const open = findOpenGovernanceItem(
+      [...this.governanceItems.values()],
+      input.signalKey,
+    );
+    if (open) return { ...open };
+    const now = new Date().toISOString();
+    const item: GovernanceItem = {
+      ...input,
+      id: `gov-${this.nextGovernanceNumber}`,
+      status: "Open",
+      resolution: "",
+      raisedBy: author,
+      raisedAt: now,
+      updatedBy: author,
+      updatedAt: now,
+    };
+    this.nextGovernanceNumber += 1;
+    this.governanceItems.set(item.id, item);
+    await this.audit(
+      author,
+      "Governance item raised",
+      "",
+      `${item.id} ${item.subject}`,
+    );
+    return { ...item };
+  }
+
+  async updateGovernanceItem(
+    update: GovernanceItemUpdate,
+    author: string,
+  ): Promise<GovernanceItem> {
+    const existing = this.governanceItems.get(update.id);
+    if (!existing) {
+      throw new Error(`Governance item not found: ${update.id}`);
+    }
+    if (!GOVERNANCE_STATUSES.includes(update.status)) {
+      throw new Error(`Unknown governance status: ${update.status}`);
+    }
+    const item: GovernanceItem = {
+      ...existing,
+      status: update.status,
+      resolution: update.resolution,
+      updatedBy: author,
+      updatedAt: new Date().toISOString(),
+    };
+    this.governanceItems.set(item.id, item);
+    await this.audit(
+      author,
+      "Governance item updated",
+      "",
+      `${item.id}: ${item.status}`,
+    );
+    return { ...item };
+  }
+
+  async getCallerAccess(principal: string): Promise<CallerAccess> {
+    return {
+      principal,
+      role: this.roleOf(principal),
+      administratorAssigned: [...this.roles.values()].some(
+        (a) => a.role === "Administrator",
+      ),
+      suspended: this.accounts.get(principal)?.suspended ?? false,
+      institution: this.accounts.get(principal)?.institution ?? "",
+    };
+  }
+
+  async listRoleAssignments(): Promise<RoleAssignment[]> {
+    return [...this.roles.values()].map((a) => ({ ...a }));
+  }
+
+  async assignRole(
+    principal: string,
+    role: Role,
+    author: string,
+  ): Promise<RoleAssignment> {
+    if (!principal.trim()) {
+      throw new Error("A signed-in principal is required");
+    }
+    if (
+      this.accounts.get(author)?.suspended ||
+      !canAssignRole([...this.roles.values()], author, principal, role)
+    ) {
+      throw new Error("Not authorised: manageRoles");
+    }
+    this.ensureAccount(principal, author);
+    return this.setRole(principal, role, author);
+  }
+
+  async revokeRole(principal: string, author: string): Promise<void> {
+    this.requireManageRoles(author);
+    if (this.isLastAdministrator(principal)) {
+      throw new Error("The last Administrator cannot be revoked");
+    }
+    this.roles.delete(principal);
+    await this.audit(author, "Role revoked", "", principal);
+  }
+
+  async listInstitutions(): Promise<Institution[]> {
+    return [...this.institutions.values()].map((i) => ({ ...i }));
+  }
+
+  async registerInstitution(
+    name: string,
+    author: string,
+  ): Promise<Institution> {
+    this.requireManageRoles(author);
+    if (!name.trim()) {
+      throw new Error("An institution name is required");
+    }
+    if (this.institutions.has(name)) {
+      throw new Error(`Institution already registered: ${name}`);
+    }
+    const institution: Institution = {
+      name,
+      registeredBy: author,
+      registeredAt: new Date().toISOString(),
+    };
+    this.institutions.set(name, institution);
+    await this.audit(author, "Institution registered", "", name);
+    return { ...institution };
+  }
+
+  async listDevices(): Promise<CatalogueDevice[]> {
+    return [...this.devices.values()].map(copyDevice);
+  }
+
+  async registerDevice(
+    input: CatalogueDeviceInput,
+    author: string,
+  ): Promise<CatalogueDevice> {
+    const problems = Object.values(
+      validateDeviceInput(input, [...this.devices.values()]),
+    );
+    if (problems.length > 0) {
+      throw new Error(problems[0]);
+    }
+    const device: CatalogueDevice = {
+      ...input,
+      intendedSites: [...input.intendedSites],
+      id: formatDeviceId(this.nextDeviceNumber),
+      retired: false,
+      registeredBy: author,
+      registeredAt: new Date().toISOString(),
+    };
+    this.nextDeviceNumber += 1;
+    this.devices.set(device.id, device);
+    await this.audit(
+      author,
+      "Device registered",
+      "",
+      `${device.id} ${device.modelRef}`,
+    );
+    return copyDevice(device);
+  }
+
+  async retireDevice(id: string, author: string): Promise<CatalogueDevice> {
+    const existing = this.devices.get(id);
+    if (!existing) throw new Error(`Unknown catalogue device: ${id}`);
+    const device = { ...existing, retired: true };
+    this.devices.set(id, device);
+    await this.audit(author, "Device retired", "", `${id} ${device.modelRef}`);
+    return copyDevice(device);
+  }
+
+  async listFollowUpProtocols(): Promise<FollowUpProtocol[]> {
+    return this.protocols.map(copyProtocol);
+  }
+
+  async saveFollowUpProtocols(
+    protocols: FollowUpProtocol[],
+    author: string,
+  ): Promise<FollowUpProtocol[]> {
+    const problems = validateFollowUpProtocols(protocols);
+    if (problems.length > 0) {
+      throw new Error(problems[0]);
+    }
+    this.protocols = protocols.map(copyProtocol);
+    await this.audit(
+      author,
+      "Follow-up protocols updated",
+      "",
+      `${protocols.length} protocols`,
+    );
+    return this.protocols.map(copyProtocol);
+  }
+
+  async listUserAccounts(): Promise<UserAccount[]> {
+    return [...this.accounts.values()].map((a) => ({ ...a }));
+  }
+
+  async registerUser(
+    input: UserAccountInput,
+    author: string,
+  ): Promise<UserAccount> {
+    this.requireManageRoles(author);
+    if (!input.principal.trim()) {
+      throw new Error("A signed-in principal is required");
+    }
+    if (this.accounts.has(input.principal)) {
+      throw new Error(`User already registered: ${input.principal}`);
+    }
+    if (!input.displayName.trim()) {
+      throw new Error("A display name is required");
+    }
+    if (input.institution) this.requireInstitution(input.institution);
+    const account: UserAccount = {
+      principal: input.principal,
+      displayName: input.displayName,
+      institution: input.institution,
+      suspended: false,
+      registeredBy: author,
+      registeredAt: new Date().toISOString(),
+      lastLoginAt: null,
+    };
+    this.accounts.set(account.principal, account);
+    await this.audit(
+      author,
+      "User registered",
+      "",
+      `${account.principal}: ${account.displayName}`,
+    );
+    if (input.role) await this.setRole(input.principal, input.role, author);
+    return { ...account };
+  }
+
+  async updateUserAccount(
+    update: UserAccountUpdate,
+    author: string,
+  ): Promise<UserAccount> {
+    this.requireManageRoles(author);
+    if (!update.displayName.trim()) {
+      throw new Error("A display name is required");
+    }
+    if (update.institution) this.requireInstitution(update.institution);
+    const account = {
+      ...this.requireAccount(update.principal),
+      displayName: update.displayName,
+      institution: update.institution,
+    };
+    this.accounts.set(account.principal, account);
+    await this.audit(
+      author,
+      "User account updated",
+      "",
+      `${account.principal}: ${account.displayName}, ${account.institution}`,
+    );
+    return { ...account };
+  }
+
+  async setUserSuspended(
+    principal: string,
+    suspended: boolean,
+    author: string,
+  ): Promise<UserAccount> {
+    this.requireManageRoles(author);
+    if (principal === author) {
+      throw new Error("You cannot suspend your own account");
+    }
+    if (suspended && this.isLastAdministrator(principal)) {
+      throw new Error("The last Administrator cannot be suspended");
+    }
+    const account = { ...this.requireAccount(principal), suspended };
+    this.accounts.set(principal, account);
+    await this.audit(
+      author,
+      suspended ? "User suspended" : "User reinstated",
+      "",
+      principal,
+    );
+    return { ...account };
+  }
+
+  async recordLogin(author: string): Promise<void> {
+    const account = this.accounts.get(author);
+    if (!account) return;
+    this.accounts.set(author, {
+      ...account,
+      lastLoginAt: new Date().toISOString(),
+    });
+    await this.audit(author, "Signed in", "");
+  }
+
+  async listAuditEntries(): Promise<AuditEntry[]> {
+    return this.auditLog.map((e) => ({ ...e }));
+  }
+
+  async getCertifiedAuditTrail(): Promise<CertifiedAuditTrail> {
+    return {
+      canisterId: "",
+      entries: await this.listAuditEntries(),
+      certificate: new Uint8Array(),
+    };
+  }
+
+  async recordAuditEvent(
+    input: AuditEventInput,
+    author: string,
+  ): Promise<AuditEntry> {
+    if (!(input.action in CLIENT_AUDIT_PERMISSIONS)) {
+      throw new Error(`Unknown audit action: ${input.action}`);
+    }
+    return {
+      ...(await this.audit(author, input.action, input.caseRef, input.detail)),
+    };
+  }
+
+  private async audit(
+    author: string,
+    action: string,
+    caseRef: string,
+    detail = "",
+  ): Promise<AuditEntry> {
+    const entry = await chainAuditEntry(this.auditLog.at(-1), {
+      action,
+      principal: author,
+      role: this.roleOf(author) ?? "",
+      caseRef,
+      detail,
+    });
+    this.auditLog.push(entry);
+    return entry;
+  }
+
+  private async setRole(
+    principal: string,
+    role: Role,
+    author: string,
+  ): Promise<RoleAssignment> {
+    if (!ROLES.includes(role)) {
+      throw new Error(`Unknown role: ${role}`);
+    }
+    if (role !== "Administrator" && this.isLastAdministrator(principal)) {
+      throw new Error("The last Administrator cannot be reassigned");
+    }
+    const assignment: RoleAssignment = {
+      principal,
+      role,
+      assignedBy: author,
+      assignedAt: new Date().toISOString(),
+    };
+    this.roles.set(principal, assignment);
+    await this.audit(author, "Role assigned", "", `${principal}: ${role}`);
+    return { ...assignment };
+  }
+
+  /** The role `principal` acts with; suspended accounts act with none. */
+  private roleOf(principal: string): Role | null {
+    if (this.accounts.get(principal)?.suspended) return null;
+    return this.roles.get(principal)?.role ?? null;
+  }
+
+  private requireManageRoles(author: string) {
+    if (!hasPermission(this.roleOf(author), "manageRoles")) {
+      throw new Error("Not authorised: manageRoles");
+    }
+  }
+
+  /** `existing` is the stored record, whose device may since have retired. */
+  private linkDevice<T extends ImplantRecordInput>(
+    input: T,
+    existing?: ImplantRecord,
+  ): T {
+    return applyCatalogueDevice(
+      input,
+      (id) => this.devices.get(id),
+      existing?.deviceId,
+    );
+  }
+
+  private requireInstitution(name: string) {
+    if (!this.institutions.has(name)) {
+      throw new Error(`Unknown institution: ${name}`);
+    }
+  }
+
+  private requireAccount(principal: string): UserAccount {
+    const account = this.accounts.get(principal);
+    if (!account) {
+      throw new Error(`User not registered: ${principal}`);
+    }
+    return account;
+  }
+
+  /** Principals given a role directly still appear in user administration. */
+  private ensureAccount(principal: string, author: string) {
+    if (this.accounts.has(principal)) return;
+    this.accounts.set(principal, {
+      principal,
+      displayName: "",
+      institution: "",
+      suspended: false,
+      registeredBy: author,
+      registeredAt: new Date().toISOString(),
+      lastLoginAt: null,
+    });
+  }
+
+  /** Only active Administrators count towards keeping one in place. */
+  private isLastAdministrator(principal: string): boolean {
+    const administrators = [...this.roles.values()].filter(
+      (a) =>
+        a.role === "Administrator" &&
+        !this.accounts.get(a.principal)?.suspended,
+    );
+    return (
+      administrators.length === 1 && administrators[0].principal === principal
+    );
+  }
+
+  private appendVersion(record: ImplantRecord, author: string, note: string) {
+    const history = this.versions.get(record.id) ?? [];
+    const version: RecordVersion = {
+      recordId: record.id,
+      version: history.length + 1,
+      author,
+      timestamp: new Date().toISOString(),
+      note,
+      snapshot: { ...record },
+    };
+    this.versions.set(record.id, [...history, version]);
+  }
+
+  // Seeded records predate version tracking; capture their state before the
+  // first tracked change so that change can be diffed.
+  private ensureBaseline(record: ImplantRecord) {
+    if (!this.versions.has(record.id)) {
+      this.appendVersion(record, BASELINE_AUTHOR, BASELINE_NOTE);
+    }
+  }
+
+  // Statuses move from Scheduled to Overdue and risk scores rise as time
+  // passes, so they are recomputed on every read rather than trusted from the
+  // last write.
+  private current(): ImplantRecord[] {
+    return this.present([...this.records.values()]);
+  }
+
+  private present(records: ImplantRecord[]): ImplantRecord[] {
+    return applyRecallFlags(
+      records.map((r) => deriveClinicalState(r, this.protocols)),
+      [...this.recalls.values()],
+    );
+  }
+
+  private requireRecall(id: string): Recall {
+    const recall = this.recalls.get(id);
+    if (!recall) {
+      throw new Error(`Recall not found: ${id}`);
+    }
+    return recall;
+  }
+
+  private require(id: string): ImplantRecord {
+    const record = this.records.get(id);
+    if (!record) {
+      throw new Error(`Implant record not found: ${id}`);
+    }
+    return record;
+  }
+}
+
+// ─── Backend (canister) implementation ──────────────────────────────────────
+function pickOption<T extends string>(
+  field: string,
+  value: string,
+  options: readonly T[],
+): T {
+  const match = options.find((o) => o === value);
+  if (!match) {
+    throw new Error(`Unexpected ${field} value from registry: "${value}"`);
+  }
+  return match;
+}
+
+// Canister timestamps are `Time.now()` nanoseconds since the epoch.
+function fromNanoseconds(ns: bigint): string {
+  return new Date(Number(ns / BigInt(1_000_000))).toISOString();
+}
+
+export function fromBackendRecord(record: BackendImplantRecord): ImplantRecord {
+  return {
+    ...record,
+    age: Number(record.age),
+    complicationsLogged: Number(record.complicationsLogged),
+    followUpStatus: pickOption(
+      "followUpStatus",
+      record.followUpStatus,
+      FOLLOW_UP_STATUSES,
+    ),
+    alertLevel: pickOption("alertLevel", record.alertLevel, ALERT_LEVELS),
+    sex: pickOption("sex", record.sex, SEXES),
+    laterality: pickOption("laterality", record.laterality, LATERALITIES),
+    riskLevel: pickOption("riskLevel", record.riskLevel, RISK_LEVELS),
+  };
+}
+
+export function fromBackendVersion(
+  version: BackendRecordVersion,
+): RecordVersion {
+  return {
+    recordId: version.recordId,
+    version: Number(version.version),
+    author: version.author,
+    timestamp: fromNanoseconds(version.timestamp),
+    note: version.note,
+    snapshot: fromBackendRecord(version.snapshot),
+  };
+}
+
+export function fromBackendEvent(event: BackendFollowUpEvent): FollowUpEvent {
+  return {
+    ...event,
+    eventType: pickOption("eventType", event.eventType, FOLLOW_UP_EVENT_TYPES),
+    timestamp: fromNanoseconds(event.timestamp),
+  };
+}
+
+export function fromBackendView(view: BackendSavedView): SavedView {
+  return {
+    ...view,
+    columns: normalizeColumnSettings(
+      view.columns.map((c) => ({ id: c.id, width: Number(c.width) })),
+    ),
+    updatedAt: fromNanoseconds(view.updatedAt),
+  };
+}
+
+export function fromBackendRecall(recall: BackendRecall): Recall {
+  return {
+    ...recall,
+    severity: pickOption("severity", recall.severity, RECALL_SEVERITIES),
+    issuedAt: fromNanoseconds(recall.issuedAt),
+  };
+}
+
+export function fromBackendRecallNotice(
+  notice: BackendRecallNotice,
+): RecallNotice {
+  return {
+    ...notice,
+    status: pickOption("status", notice.status, NOTICE_STATUSES),
+    updatedAt: fromNanoseconds(notice.updatedAt),
+  };
+}
+
+export function fromBackendGovernanceItem(
+  item: BackendGovernanceItem,
+): GovernanceItem {
+  return {
+    ...item,
+    level: pickOption("level", item.level, GOVERNANCE_LEVELS),
+    status: pickOption("status", item.status, GOVERNANCE_STATUSES),
+    raisedAt: fromNanoseconds(item.raisedAt),
+    updatedAt: fromNanoseconds(item.updatedAt),
+  };
+}
+
+export function fromBackendCallerAccess(
+  access: BackendCallerAccess,
+): CallerAccess {
+  return {
+    ...access,
+    role: access.role ? pickOption("role", access.role, ROLES) : null,
+  };
+}
+
+export function fromBackendRoleAssignment(
+  assignment: BackendRoleAssignment,
+): RoleAssignment {
+  return {
+    ...assignment,
+    role: pickOption("role", assignment.role, ROLES),
+    assignedAt: fromNanoseconds(assignment.assignedAt),
+  };
+}
+
+export function fromBackendInstitution(
+  institution: BackendInstitution,
+): Institution {
+  return {
+    ...institution,
+    registeredAt: fromNanoseconds(institution.registeredAt),
+  };
+}
+
+export function fromBackendDevice(
+  device: BackendCatalogueDevice,
+): CatalogueDevice {
+  return {
+    ...device,
+    registeredAt: fromNanoseconds(device.registeredAt),
+  };
+}
+
+export function fromBackendProtocol(
+  protocol: BackendFollowUpProtocol,
+): FollowUpProtocol {
+  const thenEveryMonths = Number(protocol.thenEveryMonths);
+  return {
+    id: protocol.id,
+    name: protocol.name,
+    categoryPattern: protocol.categoryPattern,
+    milestones: protocol.milestones.map((m) => ({
+      ...(m.weeks > 0 && { weeks: Number(m.weeks) }),
+      ...(m.months > 0 && { months: Number(m.months) }),
+    })),
+    ...(thenEveryMonths > 0 && { thenEveryMonths }),
+  };
+}
+
+export function toBackendProtocol(
+  protocol: FollowUpProtocol,
+): BackendFollowUpProtocol {
+  return {
+    id: protocol.id,
+    name: protocol.name,
+    categoryPattern: protocol.categoryPattern,
+    milestones: protocol.milestones.map((m) => ({
+      weeks: BigInt(m.weeks ?? 0),
+      months: BigInt(m.months ?? 0),
+    })),
+    thenEveryMonths: BigInt(protocol.thenEveryMonths ?? 0),
+  };
+}
+
+export function fromBackendUserAccount(
+  account: BackendUserAccount,
+): UserAccount {
+  return {
+    ...account,
+    registeredAt: fromNanoseconds(account.registeredAt),
+    lastLoginAt:
+      account.lastLoginAt === BigInt(0)
+        ? null
+        : fromNanoseconds(account.lastLoginAt),
+  };
+}
+
+export function fromBackendAuditEntry(entry: BackendAuditEntry): AuditEntry {
+  return {
+    ...entry,
+    sequence: Number(entry.sequence),
+    timestamp: entry.timestamp.toString(),
+  };
+}
+
+export function fromBackendPage(page: BackendRecordPage): RecordPage {
+  return {
+    items: page.items.map(fromBackendRecord),
+    total: Number(page.total),
+    offset: Number(page.offset),
+    limit: Number(page.limit),
+  };
+}
+
+export function toBackendFilter(filter: RecordFilter): BackendRecordFilter {
+  return {
+    includeArchived: filter.includeArchived ?? false,
+    search: filter.search?.trim() ?? "",
+    followUpStatus: filter.followUpStatus ?? "",
+    alertLevel: filter.alertLevel ?? "",
+    riskLevel: filter.riskLevel ?? "",
+    implantCategory: filter.implantCategory ?? "",
+    manufacturer: filter.manufacturer ?? "",
+    operatingSurgeon: filter.operatingSurgeon ?? "",
+    institution: filter.institution ?? "",
+  };
+}
+
+export function toBackendSort(sort: RecordSort): BackendRecordSort {
+  return { field: sort.field ?? "", descending: sort.descending };
+}
+
+export function toBackendInput(
+  input: ImplantRecordInput,
+): BackendImplantRecordInput {
+  return {
+    ...input,
+    age: BigInt(input.age),
+    complicationsLogged: BigInt(input.complicationsLogged),
+  };
+}
+
+// Sort keys the canister only holds as of the last write; see `query`.
+const CLIENT_SORT_FIELDS: SortField[] = [
+  "alertLevel",
+  "riskLevel",
+  "followUpStatus",
+  "nextReview",
+];
+
+export class BackendRegistryRepository implements RegistryRepository {
+  constructor(private actor: backendInterface) {}
+
+  async list(options: ListRecordsOptions = {}): Promise<ImplantRecord[]> {
+    const [records, recalls, protocols] = await Promise.all([
+      this.actor.listImplantRecords(options.includeArchived ?? false),
+      this.listRecalls(),
+      this.listFollowUpProtocols(),
+    ]);
+    return applyRecallFlags(
+      records.map((r) => deriveClinicalState(fromBackendRecord(r), protocols)),
+      recalls,
+    );
+  }
+
+  async query(
+    filter: RecordFilter,
+    sort: RecordSort,
+    page: PageRequest,
+    _visibility: RecordVisibility,
+  ): Promise<RecordPage> {
+    // The canister scopes and redacts for the caller itself. It only holds the
+    // levels scored and the reviews scheduled at the last write, so filtering
+    // or sorting on them has to happen against fresh scores and the current
+    // protocols.
+    if (
+      filter.alertLevel ||
+      filter.riskLevel ||
+      filter.followUpStatus ||
+      (sort.field !== undefined && CLIENT_SORT_FIELDS.includes(sort.field))
+    ) {
+      const records = await this.list({
+        includeArchived: filter.includeArchived,
+      });
+      return paginateRecords(records, filter, sort, page);
+    }
+    const [result, recalls, protocols] = await Promise.all([
+      this.actor.queryImplantRecords(
+        toBackendFilter(filter),
+        toBackendSort(sort),
+        BigInt(Math.max(0, page.offset)),
+        BigInt(Math.max(0, page.limit)),
+      ),
+      this.listRecalls(),
+      this.listFollowUpProtocols(),
+    ]);
+    const { items, ...rest } = fromBackendPage(result);
+    return {
+      ...rest,
+      items: applyRecallFlags(
+        items.map((r) => deriveClinicalState(r, protocols)),
+        recalls,
+      ),
+    };
+  }
+
+  // Without case record access the caller cannot read recalls either, so the
+  // projection keeps the alert levels scored at the last write.
+  async listAnalyticsRecords(): Promise<ImplantRecord[]> {
+    const [records, protocols] = await Promise.all([
+      this.actor.listAnalyticsRecords(),
+      this.listFollowUpProtocols(),
+    ]);
+    return records.map((r) =>
+      deriveClinicalState(fromBackendRecord(r), protocols),
+    );
+  }
+
+  async get(id: string): Promise<ImplantRecord | null> {
+    const [record, recalls, protocols] = await Promise.all([
+      this.actor.getImplantRecord(id),
+      this.listRecalls(),
+      this.listFollowUpProtocols(),
+    ]);
+    if (!record) return null;
+    return applyRecallFlags(
+      [deriveClinicalState(fromBackendRecord(record), protocols)],
+      recalls,
+    )[0];
+  }
+
+  async listVersions(id: string): Promise<RecordVersion[]> {
+    const versions = await this.actor.listRecordVersions(id);
+    return versions.map(fromBackendVersion);
+  }
+
+  async create(
+    input: ImplantRecordInput,
+    _context: ChangeContext,
+  ): Promise<ImplantRecord> {
+    const protocols = await this.listFollowUpProtocols();
+    const record = await this.actor.createImplantRecord(
+      toBackendInput(deriveClinicalState(input, protocols)),
+    );
+    return fromBackendRecord(record);
+  }
+
+  async importRecords(
+    inputs: ImplantRecordInput[],
+    source: string,
+    _author: string,
+  ): Promise<ImplantRecord[]> {
+    const protocols = await this.listFollowUpProtocols();
+    const records = await this.actor.importImplantRecords(
+      inputs.map((input) =>
+        toBackendInput(deriveClinicalState(input, protocols)),
+      ),
+      source,
+    );
+    return records.map(fromBackendRecord);
+  }
+
+  async update(
+    id: string,
+    changes: Partial<ImplantRecordInput>,
+    context: ChangeContext,
+  ): Promise<ImplantRecord> {
+    const [existing, protocols] = await Promise.all([
+      this.get(id),
+      this.listFollowUpProtocols(),
+    ]);
+    if (!existing) {
+      throw new Error(`Implant record not found: ${id}`);
+    }
+    const input = deriveClinicalState(
+      { ...toInput(existing), ...changes },
+      protocols,
+    );
+    const record = await this.actor.updateImplantRecord(
+      id,
+      toBackendInput(input),
+      context.note,
+    );
+    return fromBackendRecord(record);
+  }
+
+  async archive(id: string, _context: ChangeContext): Promise<ImplantRecord> {
+    const record = await this.actor.archiveImplantRecord(id);
+    return fromBackendRecord(record);
+  }
+
+  async listFollowUpEvents(recordId: string): Promise<FollowUpEvent[]> {
+    const events = await this.actor.listFollowUpEvents(recordId);
+    return events.map(fromBackendEvent);
+  }
+
+  async logFollowUpEvent(
+    input: FollowUpEventInput,
+    _author: string,
+  ): Promise<FollowUpEvent> {
+    const event = await this.actor.logFollowUpEvent(input);
+    return fromBackendEvent(event);
+  }
+
+  async listReviewHistory(): Promise<ReviewHistory[]> {
+    return this.actor.listReviewHistory();
+  }
+
+  async listSavedViews(_owner: string): Promise<SavedView[]> {
+    const views = await this.actor.listSavedViews();
+    return views.map(fromBackendView);
+  }
+
+  async saveView(input: SavedViewInput, _owner: string): Promise<SavedView> {
+    const view = await this.actor.saveView({
+      name: input.name.trim(),
+      columns: input.columns.map((c) => ({
+        id: c.id,
+        width: BigInt(Math.round(c.width)),
+      })),
+      tableQuery: input.tableQuery,
+    });
+    return fromBackendView(view);
+  }
+
+  async deleteSavedView(id: string, _owner: string): Promise<void> {
+    await this.actor.deleteSavedView(id);
+  }
+
+  async listRecalls(): Promise<Recall[]> {
+    const recalls = await this.actor.listRecalls();
+    return recalls.map(fromBackendRecall);
+  }
+
+  async createRecall(input: RecallInput, _issuedBy: string): Promise<Recall> {
+    const recall = await this.actor.createRecall(input);
+    return fromBackendRecall(recall);
+  }
+
+  async closeRecall(id: string, _author: string): Promise<Recall> {
+    const recall = await this.actor.closeRecall(id);
+    return fromBackendRecall(recall);
+  }
+
+  async listRecallNotices(recallId: string): Promise<RecallNotice[]> {
+    const notices = await this.actor.listRecallNotices(recallId);
+    return notices.map(fromBackendRecallNotice);
+  }
+
+  async updateRecallNotice(
+    input: RecallNoticeInput,
+    _author: string,
+  ): Promise<RecallNotice> {
+    const notice = await this.actor.updateRecallNotice(input);
+    return fromBackendRecallNotice(notice);
+  }
+
+  async listGovernanceItems(): Promise<GovernanceItem[]> {
+    const items = await this.actor.listGovernanceItems();
+    return items.map(fromBackendGovernanceItem);
+  }
+
+  async raiseGovernanceItem(
+    input: GovernanceItemInput,
+    _author: string,
+  ): Promise<GovernanceItem> {
+    const item = await this.actor.raiseGovernanceItem(input);
+    return fromBackendGovernanceItem(item);
+  }
+
+  async updateGovernanceItem(
+    update: GovernanceItemUpdate,
+    _author: string,
+  ): Promise<GovernanceItem> {
+    const item = await this.actor.updateGovernanceItem(
+      update.id,
+      update.status,
+      update.resolution,
+    );
+    return fromBackendGovernanceItem(item);
+  }
+
+  async getCallerAccess(_principal: string): Promise<CallerAccess> {
+    const access = await this.actor.getCallerAccess();
+    return fromBackendCallerAccess(access);
+  }
+
+  async listRoleAssignments(): Promise<RoleAssignment[]> {
+    const assignments = await this.actor.listRoleAssignments();
+    return assignments.map(fromBackendRoleAssignment);
+  }
+
+  async assignRole(
+    principal: string,
+    role: Role,
+    _author: string,
+  ): Promise<RoleAssignment> {
+    const assignment = await this.actor.assignRole(principal, role);
+    return fromBackendRoleAssignment(assignment);
+  }
+
+  async revokeRole(principal: string, _author: string): Promise<void> {
+    await this.actor.revokeRole(principal);
+  }
+
+  async listInstitutions(): Promise<Institution[]> {
+    const institutions = await this.actor.listInstitutions();
+    return institutions.map(fromBackendInstitution);
+  }
+
+  async listDevices(): Promise<CatalogueDevice[]> {
+    const devices = await this.actor.listDevices();
+    return devices.map(fromBackendDevice);
+  }
+
+  async registerDevice(
+    input: CatalogueDeviceInput,
+    _author: string,
+  ): Promise<CatalogueDevice> {
+    const device = await this.actor.registerDevice(input);
+    return fromBackendDevice(device);
+  }
+
+  async retireDevice(id: string, _author: string): Promise<CatalogueDevice> {
+    const device = await this.actor.retireDevice(id);
+    return fromBackendDevice(device);
+  }
+
+  async listFollowUpProtocols(): Promise<FollowUpProtocol[]> {
+    const protocols = await this.actor.listFollowUpProtocols();
+    return protocols.map(fromBackendProtocol);
+  }
+
+  async saveFollowUpProtocols(
+    protocols: FollowUpProtocol[],
+    _author: string,
+  ): Promise<FollowUpProtocol[]> {
+    const saved = await this.actor.saveFollowUpProtocols(
+      protocols.map(toBackendProtocol),
+    );
+    return saved.map(fromBackendProtocol);
+  }
+
+  async registerInstitution(
+    name: string,
+    _author: string,
+  ): Promise<Institution> {
+    const institution = await this.actor.registerInstitution(name);
+    return fromBackendInstitution(institution);
+  }
+
+  async listUserAccounts(): Promise<UserAccount[]> {
+    const accounts = await this.actor.listUserAccounts();
+    return accounts.map(fromBackendUserAccount);
+  }
+
+  async registerUser(
+    input: UserAccountInput,
+    _author: string,
+  ): Promise<UserAccount> {
+    const account = await this.actor.registerUser({
+      ...input,
+      role: input.role ?? "",
+    });
+    return fromBackendUserAccount(account);
+  }
+
+  async updateUserAccount(
+    update: UserAccountUpdate,
+    _author: string,
+  ): Promise<UserAccount> {
+    const account = await this.actor.updateUserAccount(
+      update.principal,
+      update.displayName,
+      update.institution,
+    );
+    return fromBackendUserAccount(account);
+  }
+
+  async setUserSuspended(
+    principal: string,
+    suspended: boolean,
+    _author: string,
+  ): Promise<UserAccount> {
+    const account = await this.actor.setUserSuspended(principal, suspended);
+    return fromBackendUserAccount(account);
+  }
+
+  async recordLogin(_author: string): Promise<void> {
+    await this.actor.recordLogin();
+  }
+
+  async listAuditEntries(): Promise<AuditEntry[]> {
+    const entries = await this.actor.listAuditEntries();
+    return entries.map(fromBackendAuditEntry);
+  }
+
+  async getCertifiedAuditTrail(): Promise<CertifiedAuditTrail> {
+    const trail = await this.actor.getCertifiedAuditTrail();
+    return {
+      canisterId: trail.canisterId,
+      entries: trail.entries.map(fromBackendAuditEntry),
+      certificate: new Uint8Array(trail.certificate),
+    };
+  }
+
+  async recordAuditEvent(
+    input: AuditEventInput,
+    _author: string,
+  ): Promise<AuditEntry> {
+    const entry = await this.actor.recordAuditEvent(input);
+    return fromBackendAuditEntry(entry);
+  }
+}
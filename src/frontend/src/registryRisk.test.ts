@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { applyRiskAssessment, assessRisk } from "./registryRisk";
+
+const AS_OF = new Date("2026-10-19T00:00:00Z");
+
+type Case = Parameters<typeof assessRisk>[0];
+
+const LOW: Case = {
+  age: 50,
+  comorbidities: "None documented",
+  complicationsLogged: 0,
+  revisionHistory: "No prior revision",
+  surgeryDate: "2025-10-01",
+  followUpStatus: "Scheduled",
+  nextReview: "2026-10-01",
+};
+
+describe("assessRisk", () => {
+  it.each<[string, Partial<Case>, number, string, string]>([
+    ["an uncomplicated case", {}, 0, "Low", "stable"],
+    [
+      "age 70 and one comorbidity",
+      { age: 72, comorbidities: "Diabetes" },
+      2,
+      "Low",
+      "stable",
+    ],
+    [
+      "age, comorbidity and a complication",
+      { age: 72, comorbidities: "Diabetes", complicationsLogged: 1 },
+      4,
+      "Moderate",
+      "review",
+    ],
+    [
+      "two complications, whatever the score",
+      { complicationsLogged: 2 },
+      4,
+      "Moderate",
+      "attention",
+    ],
+    [
+      "an overdue review on its own",
+      { followUpStatus: "Overdue", nextReview: "2026-09-01" },
+      1,
+      "Low",
+      "review",
+    ],
+    [
+      "every factor at its cap",
+      {
+        age: 82,
+        comorbidities: "Diabetes, obesity, osteoporosis, smoker",
+        complicationsLogged: 3,
+        revisionHistory: "Cup revision 2018-09",
+        followUpStatus: "Overdue",
+        nextReview: "2025-09-01",
+        surgeryDate: "2010-01-01",
+      },
+      2 + 3 + 4 + 2 + 3 + 3,
+      "High",
+      "attention",
+    ],
+  ])("scores %s", (_name, overrides, score, riskLevel, alertLevel) => {
+    const assessment = assessRisk({ ...LOW, ...overrides }, AS_OF);
+    expect(assessment).toMatchObject({ score, riskLevel, alertLevel });
+    expect(assessment.factors.reduce((sum, f) => sum + f.points, 0)).toBe(
+      score,
+    );
+  });
+
+  it.each([
+    ["2016-10-01", 2],
+    ["2021-11-01", 0],
+    ["2011-10-01", 3],
+    ["2022-10-19", 0],
+  ])("implant placed %s scores %i for age", (surgeryDate, points) => {
+    const factor = assessRisk({ ...LOW, surgeryDate }, AS_OF).factors.find(
+      (f) => f.id === "implantAge",
+    );
+    expect(factor?.points ?? 0).toBe(points);
+  });
+
+  it("explains raised alert levels", () => {
+    const { alertReasons } = assessRisk(
+      { ...LOW, complicationsLogged: 2 },
+      AS_OF,
+    );
+    expect(alertReasons).toEqual(["2 complications logged (threshold 2)"]);
+  });
+
+  it("orders factors by points", () => {
+    const { factors } = assessRisk(
+      { ...LOW, age: 75, complicationsLogged: 2 },
+      AS_OF,
+    );
+    expect(factors.map((f) => f.id)).toEqual(["complications", "patientAge"]);
+  });
+});
+
+describe("applyRiskAssessment", () => {
+  it("overwrites the stored levels", () => {
+    const record = {
+      ...LOW,
+      complicationsLogged: 2,
+      alertLevel: "stable" as const,
+      riskLevel: "Low" as const,
+    };
+    expect(applyRiskAssessment(record, AS_OF)).toMatchObject({
+      alertLevel: "attention",
+      riskLevel: "Moderate",
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { type ImplantRecord, getImplantAgeYears } from "./registryData";
+import { hasPriorRevision } from "./registryMetrics";
+
+export interface RiskFactor {
+  id:
+    | "patientAge"
+    | "comorbidities"
+    | "complications"
+    | "priorRevision"
+    | "overdueReview"
+    | "implantAge";
+  label: string;
+  /** Human-readable account of why the factor applies to this case. */
+  detail: string;
+  points: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  riskLevel: ImplantRecord["riskLevel"];
+  alertLevel: ImplantRecord["alertLevel"];
+  /** Factors that contributed points, highest first. */
+  factors: RiskFactor[];
+  /** Why the alert level was raised above stable; empty when stable. */
+  alertReasons: string[];
+}
+
+type ScoredFields = Pick<
+  ImplantRecord,
+  | "age"
+  | "comorbidities"
+  | "complicationsLogged"
+  | "revisionHistory"
+  | "surgeryDate"
+  | "followUpStatus"
+  | "nextReview"
+>;
+
+export const HIGH_RISK_SCORE = 7;
+export const MODERATE_RISK_SCORE = 4;
+/** Complications at or above this count need attention regardless of score. */
+export const ATTENTION_COMPLICATIONS = 2;
+
+// Conditions associated with poorer implant survivorship or healing; each
+// match adds a point, capped so a long history cannot dominate the score.
+const COMORBIDITY_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "diabetes", pattern: /diabetes/i },
+  { name: "obesity", pattern: /obesity/i },
+  { name: "osteoporosis", pattern: /osteoporosis/i },
+  { name: "rheumatoid arthritis", pattern: /rheumatoid/i },
+  { name: "kidney disease", pattern: /kidney|renal/i },
+  { name: "smoking", pattern: /smok/i },
+  { name: "neuropathy", pattern: /neuropathy/i },
+  { name: "atrial fibrillation", pattern: /atrial fibrillation/i },
+];
+const MAX_COMORBIDITY_POINTS = 3;
+const POINTS_PER_COMPLICATION = 2;
+const MAX_COMPLICATION_POINTS = 4;
+const PRIOR_REVISION_POINTS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function patientAgeFactor(age: number): RiskFactor | null {
+  if (age >= 80) {
+    return {
+      id: "patientAge",
+      label: "Patient age",
+      detail: `${age} years (80 or older)`,
+      points: 2,
+    };
+  }
+  if (age >= 70) {
+    return {
+      id: "patientAge",
+      label: "Patient age",
+      detail: `${age} years (70 or older)`,
+      points: 1,
+    };
+  }
+  return null;
+}
+
+/** Scored conditions named in a free-text comorbidity list. */
+export function findScoredComorbidities(comorbidities: string): string[] {
+  return COMORBIDITY_PATTERNS.filter((c) => c.pattern.test(comorbidities)).map(
+    (c) => c.name,
+  );
+}
+
+function comorbidityFactor(comorbidities: string): RiskFactor | null {
+  const matched = findScoredComorbidities(comorbidities);
+  if (matched.length === 0) return null;
+  return {
+    id: "comorbidities",
+    label: "Comorbidities",
+    detail: matched.join(", "),
+    points: Math.min(matched.length, MAX_COMORBIDITY_POINTS),
+  };
+}
+
+function complicationFactor(count: number): RiskFactor | null {
+  if (count <= 0) return null;
+  return {
+    id: "complications",
+    label: "Complications logged",
+    detail: `${count} on record`,
+    points: Math.min(count * POINTS_PER_COMPLICATION, MAX_COMPLICATION_POINTS),
+  };
+}
+
+function revisionFactor(record: ScoredFields): RiskFactor | null {
+  if (!hasPriorRevision(record)) return null;
+  return {
+    id: "priorRevision",
+    label: "Prior revision",
+    detail: record.revisionHistory,
+    points: PRIOR_REVISION_POINTS,
+  };
+}
+
+function overdueFactor(record: ScoredFields, asOf: Date): RiskFactor | null {
+  if (record.followUpStatus !== "Overdue" || !record.nextReview) return null;
+  const days = Math.floor(
+    (asOf.getTime() - new Date(record.nextReview).getTime()) / DAY_MS,
+  );
+  if (days <= 0) return null;
+  const months = Math.floor(days / 30.44);
+  const points = months >= 12 ? 3 : months >= 6 ? 2 : 1;
+  return {
+    id: "overdueReview",
+    label: "Overdue review",
+    detail:
+      months > 0
+        ? `${months} month${months === 1 ? "" : "s"} past due`
+        : `${days} day${days === 1 ? "" : "s"} past due`,
+    points,
+  };
+}
+
+function implantAgeFactor(surgeryDate: string, asOf: Date): RiskFactor | null {
+  const years = getImplantAgeYears(surgeryDate, asOf);
+  const points = years >= 15 ? 3 : years >= 10 ? 2 : years >= 5 ? 1 : 0;
+  if (points === 0) return null;
+  return {
+    id: "implantAge",
+    label: "Implant age",
+    detail: `${Math.floor(years)} years in situ`,
+    points,
+  };
+}
+
+/**
+ * Scores a case from its clinical and follow-up data. Every point is traceable
+ * to a factor so the resulting levels can be explained to clinicians.
+ */
+export function assessRisk(
+  record: ScoredFields,
+  asOf: Date = new Date(),
+): RiskAssessment {
+  const factors = [
+    patientAgeFactor(record.age),
+    comorbidityFactor(record.comorbidities),
+    complicationFactor(record.complicationsLogged),
+    revisionFactor(record),
+    overdueFactor(record, asOf),
+    implantAgeFactor(record.surgeryDate, asOf),
+  ]
+    .filter((f): f is RiskFactor => f !== null)
+    .sort((a, b) => b.points - a.points);
+
+  const score = factors.reduce((sum, f) => sum + f.points, 0);
+  const riskLevel: ImplantRecord["riskLevel"] =
+    score >= HIGH_RISK_SCORE
+      ? "High"
+      : score >= MODERATE_RISK_SCORE
+        ? "Moderate"
+        : "Low";
+
+  const attentionReasons: string[] = [];
+  if (riskLevel === "High") {
+    attentionReasons.push(`Risk score ${score} reaches the high-risk band`);
+  }
+  if (record.complicationsLogged >= ATTENTION_COMPLICATIONS) {
+    attentionReasons.push(
+      `${record.complicationsLogged} complications logged (threshold ${ATTENTION_COMPLICATIONS})`,
+    );
+  }
+  const reviewReasons: string[] = [];
+  if (riskLevel === "Moderate") {
+    reviewReasons.push(`Risk score ${score} falls in the moderate band`);
+  }
+  if (record.followUpStatus === "Overdue") {
+    reviewReasons.push("Scheduled follow-up review is overdue");
+  }
+
+  return {
+    score,
+    riskLevel,
+    alertLevel:
+      attentionReasons.length > 0
+        ? "attention"
+        : reviewReasons.length > 0
+          ? "review"
+          : "stable",
+    factors,
+    alertReasons:
+      attentionReasons.length > 0 ? attentionReasons : reviewReasons,
+  };
+}
+
+/** Replaces the stored alert and risk levels with the scored ones. */
+export function applyRiskAssessment<
+  T extends ScoredFields & {
+    alertLevel: ImplantRecord["alertLevel"];
+    riskLevel: ImplantRecord["riskLevel"];
+  },
+>(record: T, asOf: Date = new Date()): T {
+  const { alertLevel, riskLevel } = assessRisk(record, asOf);
+  return { ...record, alertLevel, riskLevel };
+}
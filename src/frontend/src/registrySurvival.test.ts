@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import {
+  MAX_SURVIVAL_GROUPS,
+  type SurvivalObservation,
+  computeSurvivalCurves,
+  findFirstRevisionDate,
+  kaplanMeier,
+  numberAtRisk,
+  survivalAt,
+  survivalTicks,
+  toSurvivalObservation,
+} from "./registrySurvival";
+
+const observations: SurvivalObservation[] = [
+  { recordId: "a", years: 1, revised: true },
+  { recordId: "b", years: 2, revised: false },
+  { recordId: "c", years: 3, revised: true },
+  { recordId: "d", years: 4, revised: false },
+];
+
+describe("kaplanMeier", () => {
+  const curve = kaplanMeier("Fixture", observations);
+
+  it("steps down at each revision and not at censorings", () => {
+    expect(
+      curve.points.map((p) => [p.years, p.survival, p.atRisk, p.events]),
+    ).toEqual([
+      [0, 1, 4, 0],
+      [1, 0.75, 4, 1],
+      [2, 0.75, 3, 0],
+      [3, 0.375, 2, 1],
+      [4, 0.375, 1, 0],
+    ]);
+    expect(curve).toMatchObject({ cases: 4, revisions: 2, maxYears: 4 });
+  });
+
+  it("bands the estimate with the log-log Greenwood interval", () => {
+    // Greenwood sum at t=3 is 1/(4·3) + 1/(2·1) = 7/12.
+    const point = curve.points[3];
+    expect(point.lower).toBeCloseTo(0.011, 3);
+    expect(point.upper).toBeCloseTo(0.808, 3);
+    expect(curve.points[0]).toMatchObject({ lower: 1, upper: 1 });
+  });
+
+  it("counts tied events before censorings", () => {
+    const tied = kaplanMeier("Tied", [
+      { recordId: "a", years: 1, revised: true },
+      { recordId: "b", years: 1, revised: false },
+    ]);
+    expect(tied.points[1]).toMatchObject({
+      survival: 0.5,
+      atRisk: 2,
+      events: 1,
+      censored: 1,
+    });
+  });
+});
+
+describe("curve lookups", () => {
+  const curve = kaplanMeier("Fixture", observations);
+
+  it.each([
+    [0, 1],
+    [2.5, 0.75],
+    [3, 0.375],
+    [4, 0.375],
+  ])("survivalAt(%s) → %s", (years, survival) => {
+    expect(survivalAt(curve, years)?.survival).toBe(survival);
+  });
+
+  it("is undefined beyond the longest follow-up", () => {
+    expect(survivalAt(curve, 4.5)).toBeNull();
+  });
+
+  it.each([
+    [0, 4],
+    [2, 3],
+    [4, 1],
+    [5, 0],
+  ])("numberAtRisk(%s) → %s", (years, atRisk) => {
+    expect(numberAtRisk(curve, years)).toBe(atRisk);
+  });
+
+  it("spaces ticks in whole years", () => {
+    expect(survivalTicks([curve])).toEqual([0, 1, 2, 3, 4]);
+    expect(survivalTicks([{ ...curve, maxYears: 12 }])).toEqual([
+      0, 3, 6, 9, 12,
+    ]);
+  });
+});
+
+describe("findFirstRevisionDate", () => {
+  it.each([
+    ["Cup revision 2018-09", "2018-09-01"],
+    ["Liner exchange 2021-03; stem revision 2019-11", "2019-11-01"],
+    ["No prior revision", null],
+  ])("%j → %s", (history, expected) => {
+    expect(
+      findFirstRevisionDate(history)?.toISOString().slice(0, 10) ?? null,
+    ).toBe(expected);
+  });
+});
+
+describe("toSurvivalObservation", () => {
+  const base: ImplantRecord = {
+    ...REGISTRY_DATA[0],
+    surgeryDate: "2018-01-01",
+    lastReview: "2022-01-01",
+  };
+
+  it("censors unrevised implants at the last review", () => {
+    const observation = toSurvivalObservation(base);
+    expect(observation.revised).toBe(false);
+    expect(observation.years).toBeCloseTo(4, 2);
+  });
+
+  it("dates the event at the first revision", () => {
+    const observation = toSurvivalObservation({
+      ...base,
+      revisionHistory: "Cup revision 2020-01",
+    });
+    expect(observation.revised).toBe(true);
+    expect(observation.years).toBeCloseTo(2, 2);
+  });
+
+  it("falls back to the last review for undated revisions", () => {
+    const observation = toSurvivalObservation({
+      ...base,
+      revisionHistory: "Liner exchange",
+    });
+    expect(observation).toMatchObject({ revised: true });
+    expect(observation.years).toBeCloseTo(4, 2);
+  });
+});
+
+describe("computeSurvivalCurves", () => {
+  it("draws one registry-wide curve without a grouping", () => {
+    const [curve, ...rest] = computeSurvivalCurves(REGISTRY_DATA, null);
+    expect(rest).toHaveLength(0);
+    expect(curve).toMatchObject({
+      group: "All implants",
+      cases: 10,
+      revisions: 2,
+    });
+  });
+
+  it("groups by the chosen dimension, largest first", () => {
+    const curves = computeSurvivalCurves(REGISTRY_DATA, {
+      field: "implantCategory",
+      label: "Implant Category",
+    });
+    expect(curves[0]).toMatchObject({
+      group: "Total Hip Arthroplasty",
+      cases: 3,
+      revisions: 1,
+    });
+    // Seven categories are folded to the largest six.
+    expect(curves).toHaveLength(MAX_SURVIVAL_GROUPS);
+  });
+});
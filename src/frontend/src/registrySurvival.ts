@@ -0,0 +1,204 @@
+import type { CohortDimension } from "./registryCohorts";
+import type { ImplantRecord } from "./registryData";
+import { hasPriorRevision } from "./registryMetrics";
+
+export const SURVIVAL_GROUPINGS: CohortDimension[] = [
+  { field: "implantCategory", label: "Implant Category" },
+  { field: "manufacturer", label: "Manufacturer" },
+  { field: "modelRef", label: "Implant Model" },
+];
+
+/** Groups beyond this many are folded out of the chart to keep it legible. */
+export const MAX_SURVIVAL_GROUPS = 6;
+
+const Z_95 = 1.959964;
+const YEAR_MS = 1000 * 60 * 60 * 24 * 365.25;
+
+/** Time to revision, or to last review when the implant is still in situ. */
+export interface SurvivalObservation {
+  recordId: string;
+  years: number;
+  /** True when the implant was revised; false when censored at last review. */
+  revised: boolean;
+}
+
+export interface SurvivalPoint {
+  years: number;
+  survival: number;
+  /** 95% pointwise band from the log-log transformed Greenwood variance. */
+  lower: number;
+  upper: number;
+  atRisk: number;
+  events: number;
+  censored: number;
+}
+
+export interface SurvivalCurve {
+  group: string;
+  cases: number;
+  revisions: number;
+  /** Longest follow-up in the group; the curve is undefined beyond it. */
+  maxYears: number;
+  /** Starts at time 0 with survival 1, then one point per distinct time. */
+  points: SurvivalPoint[];
+}
+
+function yearsBetween(from: string, to: Date): number {
+  return Math.max(0, (to.getTime() - new Date(from).getTime()) / YEAR_MS);
+}
+
+/**
+ * Revision entries are free text ending in a YYYY-MM stamp; the earliest
+ * stamp dates the first revision, which is the survival event.
+ */
+export function findFirstRevisionDate(revisionHistory: string): Date | null {
+  const stamps = [...revisionHistory.matchAll(/\b(\d{4})-(\d{2})\b/g)]
+    .map(([, year, month]) => new Date(Date.UTC(+year, +month - 1, 1)))
+    .sort((a, b) => a.getTime() - b.getTime());
+  return stamps[0] ?? null;
+}
+
+export function toSurvivalObservation(
+  record: ImplantRecord,
+): SurvivalObservation {
+  if (hasPriorRevision(record)) {
+    // Undated revisions are placed at the last review, the latest point at
+    // which the revision is known to have happened.
+    const revisedAt =
+      findFirstRevisionDate(record.revisionHistory) ??
+      new Date(record.lastReview);
+    return {
+      recordId: record.id,
+      years: yearsBetween(record.surgeryDate, revisedAt),
+      revised: true,
+    };
+  }
+  return {
+    recordId: record.id,
+    years: yearsBetween(record.surgeryDate, new Date(record.lastReview)),
+    revised: false,
+  };
+}
+
+function confidenceBand(
+  survival: number,
+  greenwoodSum: number,
+): [number, number] {
+  if (survival <= 0) return [0, 0];
+  if (survival >= 1 || greenwoodSum <= 0) return [survival, survival];
+  const logSurvival = Math.log(survival);
+  const se = Math.sqrt(greenwoodSum) / Math.abs(logSurvival);
+  const centre = Math.log(-logSurvival);
+  return [
+    Math.exp(-Math.exp(centre + Z_95 * se)),
+    Math.exp(-Math.exp(centre - Z_95 * se)),
+  ];
+}
+
+/** Product-limit estimate; events at a tied time precede censorings. */
+export function kaplanMeier(
+  group: string,
+  observations: SurvivalObservation[],
+): SurvivalCurve {
+  const times = [...new Set(observations.map((o) => o.years))].sort(
+    (a, b) => a - b,
+  );
+  const points: SurvivalPoint[] = [
+    {
+      years: 0,
+      survival: 1,
+      lower: 1,
+      upper: 1,
+      atRisk: observations.length,
+      events: 0,
+      censored: 0,
+    },
+  ];
+  let survival = 1;
+  let greenwoodSum = 0;
+  for (const time of times) {
+    const atRisk = observations.filter((o) => o.years >= time).length;
+    const atTime = observations.filter((o) => o.years === time);
+    const events = atTime.filter((o) => o.revised).length;
+    const censored = atTime.length - events;
+    if (events > 0) {
+      survival *= 1 - events / atRisk;
+      if (atRisk > events) {
+        greenwoodSum += events / (atRisk * (atRisk - events));
+      }
+    }
+    const [lower, upper] = confidenceBand(survival, greenwoodSum);
+    points.push({
+      years: time,
+      survival,
+      lower,
+      upper,
+      atRisk,
+      events,
+      censored,
+    });
+  }
+  return {
+    group,
+    cases: observations.length,
+    revisions: observations.filter((o) => o.revised).length,
+    maxYears: times.length > 0 ? times[times.length - 1] : 0,
+    points,
+  };
+}
+
+/** Survival estimate in force at `years` (the curve is right-continuous). */
+export function survivalAt(
+  curve: SurvivalCurve,
+  years: number,
+): SurvivalPoint | null {
+  if (years > curve.maxYears) return null;
+  let current = curve.points[0];
+  for (const point of curve.points) {
+    if (point.years > years) break;
+    current = point;
+  }
+  return current;
+}
+
+/** Implants still under observation (not yet revised or censored) at `years`. */
+export function numberAtRisk(curve: SurvivalCurve, years: number): number {
+  return curve.points
+    .slice(1)
+    .filter((p) => p.years >= years)
+    .reduce((sum, p) => sum + p.events + p.censored, 0);
+}
+
+/**
+ * One curve per value of `dimension` across active implants, largest groups
+ * first, or a single registry-wide curve when no dimension is given.
+ */
+export function computeSurvivalCurves(
+  records: ImplantRecord[],
+  dimension: CohortDimension | null,
+): SurvivalCurve[] {
+  const active = records.filter((r) => !r.archived);
+  if (!dimension) {
+    return [kaplanMeier("All implants", active.map(toSurvivalObservation))];
+  }
+  const groups = new Map<string, ImplantRecord[]>();
+  for (const record of active) {
+    const key = String(record[dimension.field]);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return [...groups.entries()]
+    .sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b))
+    .slice(0, MAX_SURVIVAL_GROUPS)
+    .map(([group, members]) =>
+      kaplanMeier(group, members.map(toSurvivalObservation)),
+    );
+}
+
+/** Evenly spaced whole-year ticks spanning the longest follow-up. */
+export function survivalTicks(curves: SurvivalCurve[], count = 6): number[] {
+  const max = Math.max(0, ...curves.map((c) => c.maxYears));
+  const step = Math.max(1, Math.ceil(max / (count - 1)));
+  const ticks: number[] = [];
+  for (let year = 0; year <= max; year += step) ticks.push(year);
+  return ticks;
+}
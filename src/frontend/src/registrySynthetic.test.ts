@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  generateSyntheticCases,
+  importSyntheticCases,
+} from "./registrySynthetic";
+import { validateImplantRecordInput } from "./registryValidation";
+
+const AS_OF = new Date("2026-10-19T00:00:00Z");
+
+describe("generateSyntheticCases", () => {
+  it.each([7, -3])(
+    "produces cases that pass validation under seed %i",
+    (seed) => {
+      const cases = generateSyntheticCases({ count: 300, seed, asOf: AS_OF });
+      expect(cases).toHaveLength(300);
+      for (const input of cases) {
+        expect(validateImplantRecordInput(input, AS_OF)).toEqual({});
+      }
+    },
+  );
+});
+
+describe("importSyntheticCases", () => {
+  it("reports exactly which batches were committed before a failure", async () => {
+    const sources: string[] = [];
+    const result = importSyntheticCases(
+      { count: 1200, seed: 7, asOf: AS_OF },
+      async (inputs, source) => {
+        if (sources.length === 2) throw new Error("Ingress limit exceeded");
+        sources.push(source);
+        return inputs.map((input, i) => ({ id: `rec-${i}`, ...input }));
+      },
+    );
+    await expect(result).rejects.toThrow(
+      "Batch 3 of 3 failed: Ingress limit exceeded. Batches 1–2 (cases 1–1,000) were committed and remain in the registry; the rest were not imported.",
+    );
+    expect(sources).toEqual([
+      "Synthetic dataset (seed 7), batch 1 of 3",
+      "Synthetic dataset (seed 7), batch 2 of 3",
+    ]);
+  });
+
+  it("imports a single batch under the dataset's source", async () => {
+    const sources: string[] = [];
+    const records = await importSyntheticCases(
+      { count: 20, seed: 7, asOf: AS_OF },
+      async (inputs, source) => {
+        sources.push(source);
+        return inputs.map((input, i) => ({ id: `rec-${i}`, ...input }));
+      },
+    );
+    expect(records).toHaveLength(20);
+    expect(sources).toEqual(["Synthetic dataset (seed 7)"]);
+  });
+});
@@ -0,0 +1,835 @@
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import { type CatalogueDeviceInput, DEVICE_CATALOGUE } from "./registryDevices";
+import { applyFollowUpSchedule } from "./registryFollowUp";
+import { type ImplantRecordInput, formatRecordId } from "./registryRepository";
+import { applyRiskAssessment } from "./registryRisk";
+
+export interface SyntheticDatasetOptions {
+  count: number;
+  /** The same seed always produces the same cases. */
+  seed: number;
+  /** Institutions to spread cases across; defaults to the Tamil Nadu network. */
+  institutions?: readonly string[];
+  /** Date the follow-up and risk state is derived against. */
+  asOf?: Date;
+}
+
+/** Patient identifiers of generated cases start with this prefix. */
+export const SYNTHETIC_PATIENT_PREFIX = "SYN-";
+
+export const MAX_SYNTHETIC_CASES = 20_000;
+
+/** Cases per import call, well inside the canister's ingress message limit. */
+export const SYNTHETIC_IMPORT_BATCH_SIZE = 500;
+
+export const SYNTHETIC_INSTITUTIONS: readonly string[] = [
+  "Government Rajaji Hospital, Madurai",
+  "Sri Ramachandra Institute, Chennai",
+  "Apollo Hospitals, Chennai",
+  "MIOT International, Chennai",
+  "Kovai Medical Center, Coimbatore",
+  "Madurai Meenakshi Mission Hospital",
+  "PSG Hospitals, Coimbatore",
+  "Apollo Hospitals, Trichy",
+  "Ganga Hospital, Coimbatore",
+  "Christian Medical College, Vellore",
+  "Government Stanley Hospital, Chennai",
+  "Tirunelveli Medical College Hospital",
+];
+
+const SURGEONS = [
+  "Dr. R. Krishnamurthy",
+  "Dr. P. Anand",
+  "Dr. S. Mehta",
+  "Dr. V. Subramaniam",
+  "Dr. K. Lakshmi",
+  "Dr. M. Senthilkumar",
+  "Dr. A. Fathima",
+  "Dr. G. Ramasamy",
+  "Dr. N. Priya",
+  "Dr. T. Arulmozhi",
+  "Dr. J. Devaraj",
+  "Dr. S. Karthikeyan",
+  "Dr. B. Meenakshi",
+  "Dr. R. Vignesh",
+  "Dr. H. Abdul Rahman",
+  "Dr. C. Ilango",
+];
+const SURGEONS_PER_INSTITUTION = 3;
+
+// ─── Catalogue ───────────────────────────────────────────────────────────────
+
+/** A catalogue device (see `DEVICE_CATALOGUE`) and how often it is chosen. */
+interface DeviceProfile {
+  deviceId: string;
+  weight: number;
+}
+
+interface DiagnosisProfile {
+  diagnosis: string;
+  /** Patient age at surgery is drawn from a normal distribution. */
+  meanAge: number;
+  ageSpread: number;
+  femaleShare: number;
+  weight: number;
+  /** Overrides the category's anatomical site. */
+  site?: string;
+  /** Always recorded alongside this diagnosis. */
+  comorbidity?: string;
+}
+
+interface CategoryProfile {
+  category: string;
+  weight: number;
+  site: string;
+  /** Code used in lot numbers, e.g. `HIP` in `ZB-2019-HIP-0431`. */
+  lotCode: string;
+  /** Midline implants are recorded as bilateral. */
+  midline: boolean;
+  bilateralShare: number;
+  /** Share of patients who later have the other side done. */
+  contralateralShare: number;
+  /** Expected complications per implant-year before patient factors. */
+  complicationRate: number;
+  revisions: string[];
+  diagnoses: DiagnosisProfile[];
+  devices: DeviceProfile[];
+}
+
+const CATEGORIES: CategoryProfile[] = [
+  {
+    category: "Total Hip Arthroplasty",
+    weight: 26,
+    site: "Hip",
+    lotCode: "HIP",
+    midline: false,
+    bilateralShare: 0.02,
+    contralateralShare: 0.06,
+    complicationRate: 0.035,
+    revisions: ["Cup revision", "Liner exchange", "Stem revision"],
+    diagnoses: [
+      {
+        diagnosis: "Primary osteoarthritis of hip",
+        meanAge: 66,
+        ageSpread: 8,
+        femaleShare: 0.55,
+        weight: 45,
+      },
+      {
+        diagnosis: "Avascular necrosis of femoral head",
+        meanAge: 42,
+        ageSpread: 9,
+        femaleShare: 0.35,
+        weight: 25,
+      },
+      {
+        diagnosis: "Displaced femoral neck fracture",
+        meanAge: 74,
+        ageSpread: 8,
+        femaleShare: 0.65,
+        weight: 15,
+        comorbidity: "Osteoporosis",
+      },
+      {
+        diagnosis: "Rheumatoid arthritis of hip",
+        meanAge: 55,
+        ageSpread: 10,
+        femaleShare: 0.75,
+        weight: 8,
+        comorbidity: "Rheumatoid arthritis",
+      },
+      {
+        diagnosis: "Developmental dysplasia of hip",
+        meanAge: 38,
+        ageSpread: 8,
+        femaleShare: 0.8,
+        weight: 7,
+      },
+    ],
+    devices: [
+      { deviceId: "dev-001", weight: 3 },
+      { deviceId: "dev-002", weight: 3 },
+      { deviceId: "dev-003", weight: 3 },
+      { deviceId: "dev-004", weight: 2 },
+      { deviceId: "dev-005", weight: 1 },
+    ],
+  },
+  {
+    category: "Total Knee Arthroplasty",
+    weight: 34,
+    site: "Knee",
+    lotCode: "KNEE",
+    midline: false,
+    bilateralShare: 0.06,
+    contralateralShare: 0.12,
+    complicationRate: 0.04,
+    revisions: [
+      "Polyethylene insert exchange",
+      "Tibial component revision",
+      "Two-stage revision for infection",
+    ],
+    diagnoses: [
+      {
+        diagnosis: "Primary osteoarthritis of knee",
+        meanAge: 64,
+        ageSpread: 7,
+        femaleShare: 0.68,
+        weight: 60,
+      },
+      {
+        diagnosis: "Severe varus deformity with osteoarthritis",
+        meanAge: 67,
+        ageSpread: 7,
+        femaleShare: 0.62,
+        weight: 18,
+      },
+      {
+        diagnosis: "Rheumatoid arthritis of knee",
+        meanAge: 56,
+        ageSpread: 9,
+        femaleShare: 0.8,
+        weight: 12,
+        comorbidity: "Rheumatoid arthritis",
+      },
+      {
+        diagnosis: "Post-traumatic knee arthritis",
+        meanAge: 52,
+        ageSpread: 10,
+        femaleShare: 0.35,
+        weight: 10,
+      },
+    ],
+    devices: [
+      { deviceId: "dev-006", weight: 3 },
+      { deviceId: "dev-008", weight: 3 },
+      { deviceId: "dev-009", weight: 3 },
+      { deviceId: "dev-010", weight: 1 },
+      { deviceId: "dev-011", weight: 2 },
+    ],
+  },
+  {
+    category: "Lumbar Spinal Fixation",
+    weight: 12,
+    site: "Lumbar Spine (L4-L5)",
+    lotCode: "SPINE",
+    midline: true,
+    bilateralShare: 0,
+    contralateralShare: 0,
+    complicationRate: 0.06,
+    revisions: ["Hardware adjustment", "Extension of fusion", "Screw revision"],
+    diagnoses: [
+      {
+        diagnosis: "L4-L5 degenerative spondylolisthesis",
+        meanAge: 58,
+        ageSpread: 9,
+        femaleShare: 0.6,
+        weight: 40,
+      },
+      {
+        diagnosis: "L5-S1 isthmic spondylolisthesis",
+        meanAge: 44,
+        ageSpread: 10,
+        femaleShare: 0.4,
+        weight: 25,
+        site: "Lumbar Spine (L5-S1)",
+      },
+      {
+        diagnosis: "Lumbar canal stenosis with instability",
+        meanAge: 63,
+        ageSpread: 8,
+        femaleShare: 0.45,
+        weight: 25,
+        site: "Lumbar Spine (L3-L5)",
+      },
+      {
+        diagnosis: "Traumatic L1 burst fracture",
+        meanAge: 36,
+        ageSpread: 11,
+        femaleShare: 0.2,
+        weight: 10,
+        site: "Thoracolumbar Spine (T12-L2)",
+      },
+    ],
+    devices: [
+      { deviceId: "dev-014", weight: 3 },
+      { deviceId: "dev-015", weight: 2 },
+      { deviceId: "dev-016", weight: 2 },
+    ],
+  },
+  {
+    category: "Shoulder Arthroplasty",
+    weight: 6,
+    site: "Shoulder",
+    lotCode: "SHO",
+    midline: false,
+    bilateralShare: 0,
+    contralateralShare: 0.03,
+    complicationRate: 0.045,
+    revisions: ["Glenoid component revision", "Conversion to reverse"],
+    diagnoses: [
+      {
+        diagnosis: "Rotator cuff arthropathy",
+        meanAge: 71,
+        ageSpread: 6,
+        femaleShare: 0.6,
+        weight: 45,
+      },
+      {
+        diagnosis: "Glenohumeral osteoarthritis",
+        meanAge: 66,
+        ageSpread: 8,
+        femaleShare: 0.5,
+        weight: 35,
+      },
+      {
+        diagnosis: "Complex proximal humerus fracture",
+        meanAge: 73,
+        ageSpread: 7,
+        femaleShare: 0.75,
+        weight: 20,
+        comorbidity: "Osteoporosis",
+      },
+    ],
+    devices: [
+      { deviceId: "dev-017", weight: 2 },
+      { deviceId: "dev-018", weight: 2 },
+      { deviceId: "dev-019", weight: 1 },
+    ],
+  },
+  {
+    category: "Ankle Fusion",
+    weight: 5,
+    site: "Ankle",
+    lotCode: "ANK",
+    midline: false,
+    bilateralShare: 0,
+    contralateralShare: 0,
+    complicationRate: 0.07,
+    revisions: ["Revision arthrodesis for non-union", "Hardware removal"],
+    diagnoses: [
+      {
+        diagnosis: "Post-traumatic ankle arthritis",
+        meanAge: 48,
+        ageSpread: 11,
+        femaleShare: 0.35,
+        weight: 55,
+      },
+      {
+        diagnosis: "Primary ankle osteoarthritis",
+        meanAge: 60,
+        ageSpread: 9,
+        femaleShare: 0.5,
+        weight: 25,
+      },
+      {
+        diagnosis: "Charcot neuroarthropathy of ankle",
+        meanAge: 57,
+        ageSpread: 8,
+        femaleShare: 0.4,
+        weight: 20,
+        comorbidity: "Type 2 diabetes mellitus",
+      },
+    ],
+    devices: [
+      { deviceId: "dev-020", weight: 1 },
+      { deviceId: "dev-021", weight: 2 },
+      { deviceId: "dev-022", weight: 2 },
+    ],
+  },
+  {
+    category: "Cervical Disc Replacement",
+    weight: 5,
+    site: "Cervical Spine (C5-C6)",
+    lotCode: "CERV",
+    midline: true,
+    bilateralShare: 0,
+    contralateralShare: 0,
+    complicationRate: 0.03,
+    revisions: [
+      "Conversion to anterior cervical fusion",
+      "Device repositioning",
+    ],
+    diagnoses: [
+      {
+        diagnosis: "C5-C6 cervical radiculopathy",
+        meanAge: 45,
+        ageSpread: 8,
+        femaleShare: 0.45,
+        weight: 50,
+      },
+      {
+        diagnosis: "C6-C7 cervical radiculopathy",
+        meanAge: 46,
+        ageSpread: 8,
+        femaleShare: 0.45,
+        weight: 30,
+        site: "Cervical Spine (C6-C7)",
+      },
+      {
+        diagnosis: "Cervical myelopathy with disc herniation",
+        meanAge: 52,
+        ageSpread: 9,
+        femaleShare: 0.4,
+        weight: 20,
+      },
+    ],
+    devices: [
+      { deviceId: "dev-023", weight: 2 },
+      { deviceId: "dev-024", weight: 2 },
+      { deviceId: "dev-025", weight: 1 },
+    ],
+  },
+  {
+    category: "Proximal Femoral Nail",
+    weight: 12,
+    site: "Proximal Femur",
+    lotCode: "PFN",
+    midline: false,
+    bilateralShare: 0,
+    contralateralShare: 0.02,
+    complicationRate: 0.08,
+    revisions: ["Conversion to hip arthroplasty", "Lag screw exchange"],
+    diagnoses: [
+      {
+        diagnosis: "Intertrochanteric femur fracture",
+        meanAge: 76,
+        ageSpread: 8,
+        femaleShare: 0.65,
+        weight: 65,
+        comorbidity: "Osteoporosis",
+      },
+      {
+        diagnosis: "Subtrochanteric femur fracture",
+        meanAge: 58,
+        ageSpread: 15,
+        femaleShare: 0.4,
+        weight: 25,
+      },
+      {
+        diagnosis: "Pathological proximal femur fracture",
+        meanAge: 64,
+        ageSpread: 10,
+        femaleShare: 0.5,
+        weight: 10,
+      },
+    ],
+    devices: [
+      { deviceId: "dev-026", weight: 3 },
+      { deviceId: "dev-027", weight: 3 },
+      { deviceId: "dev-028", weight: 2 },
+    ],
+  },
+];
+
+const MANUFACTURER_CODES: Record<string, string> = {
+  "Zimmer Biomet": "ZB",
+  "DePuy Synthes": "DP",
+  Stryker: "ST",
+  "Smith & Nephew": "SN",
+  Medtronic: "MD",
+  "Globus Medical": "GM",
+};
+
+// Prevalence among patients aged 60; `perDecade` shifts it for every ten
+// years of age either side. The scored ones feed the risk model.
+const COMORBIDITIES: {
+  name: string;
+  prevalence: number;
+  perDecade: number;
+  sex?: ImplantRecord["sex"];
+}[] = [
+  { name: "Type 2 diabetes mellitus", prevalence: 0.26, perDecade: 0.04 },
+  { name: "Hypertension", prevalence: 0.34, perDecade: 0.08 },
+  { name: "Obesity", prevalence: 0.14, perDecade: -0.02 },
+  { name: "Osteoporosis", prevalence: 0.18, perDecade: 0.08, sex: "Female" },
+  { name: "Hypothyroidism", prevalence: 0.12, perDecade: 0, sex: "Female" },
+  { name: "Chronic kidney disease", prevalence: 0.06, perDecade: 0.03 },
+  { name: "Smoking history", prevalence: 0.22, perDecade: -0.03, sex: "Male" },
+  { name: "Atrial fibrillation", prevalence: 0.04, perDecade: 0.03 },
+];
+
+// Complication rates scale with each of these; a case with none documented
+// keeps the category's base rate.
+const COMPLICATION_RISK_FACTORS = [
+  /diabetes/i,
+  /obesity/i,
+  /kidney/i,
+  /smoking/i,
+  /rheumatoid/i,
+];
+
+const REGISTRY_YEARS = 12;
+const FOLLOW_UP_ADHERENCE = 0.8;
+/** Each complication carries this chance of a revision. */
+const REVISION_PER_COMPLICATION = 0.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Sampling ────────────────────────────────────────────────────────────────
+
+type Random = () => number;
+
+/** Mulberry32: small, fast and identical on every platform. */
+function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+function pick<T>(random: Random, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function catalogueDevice(id: string): (typeof DEVICE_CATALOGUE)[number] {
+  const device = DEVICE_CATALOGUE.find((d) => d.id === id);
+  if (!device) throw new Error(`Unknown catalogue device: ${id}`);
+  return device;
+}
+
+function pickWeighted<T extends { weight: number }>(
+  random: Random,
+  items: readonly T[],
+): T {
+  const total = items.reduce((sum, item) => sum + item.weight, 0);
+  let target = random() * total;
+  for (const item of items) {
+    target -= item.weight;
+    if (target < 0) return item;
+  }
+  return items[items.length - 1];
+}
+
+function normal(random: Random, mean: number, spread: number): number {
+  const u = 1 - random();
+  const v = random();
+  return (
+    mean + spread * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  );
+}
+
+function poisson(random: Random, mean: number): number {
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count += 1;
+    product *= random();
+  }
+  return count;
+}
+
+function isoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// ─── Generation ──────────────────────────────────────────────────────────────
+
+interface Patient {
+  id: string;
+  age: number;
+  sex: ImplantRecord["sex"];
+  comorbidities: string[];
+}
+
+class SyntheticRegistry {
+  private random: Random;
+  private asOf: number;
+  private lots = new Map<string, string>();
+  private patientCount = 0;
+
+  constructor(
+    private seed: number,
+    private institutions: readonly string[],
+    asOf: Date,
+  ) {
+    this.random = seededRandom(seed);
+    this.asOf = asOf.getTime();
+  }
+
+  /** A case and, for some patients, a later one on the other side. */
+  nextCases(): ImplantRecordInput[] {
+    const profile = pickWeighted(this.random, CATEGORIES);
+    const diagnosis = pickWeighted(this.random, profile.diagnoses);
+    const patient = this.nextPatient(diagnosis);
+    const institutionIndex = Math.floor(
+      this.random() * this.institutions.length,
+    );
+    // Recent years carry more cases, as registry participation grows.
+    const yearsAgo = REGISTRY_YEARS * (1 - Math.sqrt(this.random()));
+    const surgery = this.asOf - Math.round(yearsAgo * 365.25) * DAY_MS;
+    const laterality: ImplantRecord["laterality"] =
+      profile.midline || this.random() < profile.bilateralShare
+        ? "Bilateral"
+        : this.random() < 0.5
+          ? "Left"
+          : "Right";
+
+    const first = this.toCase(
+      profile,
+      diagnosis,
+      patient,
+      institutionIndex,
+      surgery,
+      laterality,
+    );
+    if (laterality === "Bilateral") return [first];
+    if (this.random() >= profile.contralateralShare) return [first];
+    const second =
+      surgery + Math.round((6 + this.random() * 30) * 30.44) * DAY_MS;
+    if (second >= this.asOf) return [first];
+    const years = Math.floor((second - surgery) / (365.25 * DAY_MS));
+    return [
+      first,
+      this.toCase(
+        profile,
+        diagnosis,
+        { ...patient, age: patient.age + years },
+        institutionIndex,
+        second,
+        laterality === "Left" ? "Right" : "Left",
+      ),
+    ];
+  }
+
+  private nextPatient(diagnosis: DiagnosisProfile): Patient {
+    this.patientCount += 1;
+    const age = Math.round(
+      Math.min(
+        95,
+        Math.max(
+          18,
+          normal(this.random, diagnosis.meanAge, diagnosis.ageSpread),
+        ),
+      ),
+    );
+    const sex = this.random() < diagnosis.femaleShare ? "Female" : "Male";
+    const comorbidities = COMORBIDITIES.filter((c) => {
+      if (c.sex && c.sex !== sex) return false;
+      const chance = c.prevalence + ((age - 60) / 10) * c.perDecade;
+      return this.random() < Math.max(0.01, chance);
+    }).map((c) => c.name);
+    if (
+      diagnosis.comorbidity &&
+      !comorbidities.includes(diagnosis.comorbidity)
+    ) {
+      comorbidities.unshift(diagnosis.comorbidity);
+    }
+    if (
+      comorbidities.includes("Type 2 diabetes mellitus") &&
+      this.random() < 0.3
+    ) {
+      comorbidities.push("Peripheral neuropathy");
+    }
+    return {
+      id: `${SYNTHETIC_PATIENT_PREFIX}${this.seed}-${String(this.patientCount).padStart(6, "0")}`,
+      age,
+      sex,
+      comorbidities,
+    };
+  }
+
+  private surgeon(institutionIndex: number): string {
+    const slot = Math.floor(this.random() * SURGEONS_PER_INSTITUTION);
+    return SURGEONS[
+      (institutionIndex * SURGEONS_PER_INSTITUTION + slot) % SURGEONS.length
+    ];
+  }
+
+  /** Cases of the same model in the same quarter share a lot. */
+  private lotNumber(
+    profile: CategoryProfile,
+    device: CatalogueDeviceInput,
+    surgery: number,
+  ): string {
+    const date = new Date(surgery);
+    const year = date.getUTCFullYear();
+    const key = `${device.modelRef}|${year}|${Math.floor(date.getUTCMonth() / 3)}`;
+    let lot = this.lots.get(key);
+    if (!lot) {
+      const code = MANUFACTURER_CODES[device.manufacturer] ?? "XX";
+      const number = String(1000 + Math.floor(this.random() * 9000));
+      lot = `${code}-${year}-${profile.lotCode}-${number}`;
+      this.lots.set(key, lot);
+    }
+    return lot;
+  }
+
+  private toCase(
+    profile: CategoryProfile,
+    diagnosis: DiagnosisProfile,
+    patient: Patient,
+    institutionIndex: number,
+    surgery: number,
+    laterality: ImplantRecord["laterality"],
+  ): ImplantRecordInput {
+    const device = catalogueDevice(
+      pickWeighted(this.random, profile.devices).deviceId,
+    );
+    const elapsed = this.asOf - surgery;
+    // Most patients attend recently; the rest drop out part-way through.
+    const attended =
+      this.random() < FOLLOW_UP_ADHERENCE
+        ? 0.9 + this.random() * 0.1
+        : 0.15 + this.random() * 0.5;
+    const lastReview =
+      surgery + Math.round((elapsed * attended) / DAY_MS) * DAY_MS;
+
+    const followedYears = (lastReview - surgery) / (365.25 * DAY_MS);
+    const riskFactors = COMPLICATION_RISK_FACTORS.filter((pattern) =>
+      patient.comorbidities.some((c) => pattern.test(c)),
+    ).length;
+    const ageFactor = patient.age >= 80 ? 1.5 : patient.age >= 70 ? 1.2 : 1;
+    const complications = Math.min(
+      6,
+      poisson(
+        this.random,
+        profile.complicationRate *
+          Math.max(0.25, followedYears) *
+          ageFactor *
+          (1 + 0.35 * riskFactors),
+      ),
+    );
+
+    const revisions: string[] = [];
+    for (let i = 0; i < complications && revisions.length < 2; i++) {
+      if (this.random() >= REVISION_PER_COMPLICATION) continue;
+      const at =
+        surgery + Math.max(30 * DAY_MS, (lastReview - surgery) * this.random());
+      revisions.push(
+        `${pick(this.random, profile.revisions)} ${isoDate(Math.min(at, lastReview)).slice(0, 7)}`,
+      );
+    }
+    revisions.sort((a, b) => a.slice(-7).localeCompare(b.slice(-7)));
+
+    const input: ImplantRecordInput = {
+      patientId: patient.id,
+      implantCategory: profile.category,
+      deviceId: device.id,
+      manufacturer: device.manufacturer,
+      operatingSurgeon: this.surgeon(institutionIndex),
+      surgeryDate: isoDate(surgery),
+      followUpStatus: "Scheduled",
+      alertLevel: "stable",
+      age: patient.age,
+      sex: patient.sex,
+      primaryDiagnosis: diagnosis.diagnosis,
+      comorbidities: patient.comorbidities.join(", ") || "None documented",
+      institution: this.institutions[institutionIndex],
+      modelRef: device.modelRef,
+      lotNumber: this.lotNumber(profile, device, surgery),
+      material: device.material,
+      fixationType: device.fixationType,
+      anatomicalSite: diagnosis.site ?? profile.site,
+      laterality,
+      revisionHistory: revisions.join("; ") || "No prior revision",
+      complicationsLogged: complications,
+      lastReview: isoDate(lastReview),
+      nextReview: "",
+      riskLevel: "Low",
+    };
+    const asOf = new Date(this.asOf);
+    return applyRiskAssessment(applyFollowUpSchedule(input, asOf), asOf);
+  }
+}
+
+/**
+ * Deterministic, plausible cases for demos and load testing: device
+ * combinations per implant category, age and sex per diagnosis, comorbidities
+ * by age, and complications and revisions that follow patient risk. Follow-up
+ * and risk state are derived exactly as for registered cases.
+ */
+export function generateSyntheticCases({
+  count,
+  seed,
+  institutions = SYNTHETIC_INSTITUTIONS,
+  asOf = new Date(),
+}: SyntheticDatasetOptions): ImplantRecordInput[] {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SYNTHETIC_CASES) {
+    throw new Error(
+      `Case count must be between 1 and ${MAX_SYNTHETIC_CASES.toLocaleString()}`,
+    );
+  }
+  if (institutions.length === 0) {
+    throw new Error("At least one institution is needed to generate cases");
+  }
+  const registry = new SyntheticRegistry(seed, institutions, asOf);
+  const cases: ImplantRecordInput[] = [];
+  while (cases.length < count) cases.push(...registry.nextCases());
+  return cases.slice(0, count);
+}
+
+/**
+ * Imports generated cases one batch per call, each audited under its own
+ * source. A batch is atomic, but a failure leaves the earlier batches in the
+ * registry, so the error names exactly which cases were committed.
+ */
+export async function importSyntheticCases(
+  options: SyntheticDatasetOptions,
+  importBatch: (
+    inputs: ImplantRecordInput[],
+    source: string,
+  ) => Promise<ImplantRecord[]>,
+): Promise<ImplantRecord[]> {
+  const inputs = generateSyntheticCases(options);
+  const batches = Math.ceil(inputs.length / SYNTHETIC_IMPORT_BATCH_SIZE);
+  const imported: ImplantRecord[] = [];
+  for (let batch = 1; batch <= batches; batch++) {
+    const start = (batch - 1) * SYNTHETIC_IMPORT_BATCH_SIZE;
+    const source =
+      batches === 1
+        ? `Synthetic dataset (seed ${options.seed})`
+        : `Synthetic dataset (seed ${options.seed}), batch ${batch} of ${batches}`;
+    try {
+      imported.push(
+        ...(await importBatch(
+          inputs.slice(start, start + SYNTHETIC_IMPORT_BATCH_SIZE),
+          source,
+        )),
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const committed =
+        batch === 1
+          ? "No cases were imported."
+          : `Batches 1–${batch - 1} (cases 1–${start.toLocaleString()}) were committed and remain in the registry; the rest were not imported.`;
+      throw new Error(
+        `Batch ${batch} of ${batches} failed: ${reason}. ${committed}`,
+      );
+    }
+  }
+  return imported;
+}
+
+/** Generated cases as stored records, numbered from `firstRecordNumber`. */
+export function generateSyntheticRecords(
+  options: SyntheticDatasetOptions,
+  firstRecordNumber = 1,
+): ImplantRecord[] {
+  return generateSyntheticCases(options).map((input, i) => ({
+    id: formatRecordId(firstRecordNumber + i),
+    ...input,
+  }));
+}
+
+/**
+ * Seed for the offline registry: the baseline cases, followed by
+ * `VITE_SYNTHETIC_RECORDS` generated ones (seeded by
+ * `VITE_SYNTHETIC_SEED`) when set.
+ */
+export function offlineSeedRecords(
+  count = Number(import.meta.env.VITE_SYNTHETIC_RECORDS ?? 0),
+  seed = Number(import.meta.env.VITE_SYNTHETIC_SEED ?? 1),
+): ImplantRecord[] {
+  if (!count) return REGISTRY_DATA;
+  return [
+    ...REGISTRY_DATA,
+    ...generateSyntheticRecords(
+      { count: Math.min(count, MAX_SYNTHETIC_CASES), seed },
+      REGISTRY_DATA.length + 1,
+    ),
+  ];
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { type ImplantRecord, REGISTRY_DATA } from "./registryData";
+import {
+  DEFAULT_TABLE_STATE,
+  type RegistryTableState,
+  collectFacetValues,
+  hasActiveFilters,
+  parseTableState,
+  serializeTableState,
+} from "./registryTableState";
+
+function state(
+  overrides: Partial<RegistryTableState> = {},
+): RegistryTableState {
+  return { ...DEFAULT_TABLE_STATE, ...overrides };
+}
+
+describe("parseTableState", () => {
+  it("falls back to the defaults for an empty query string", () => {
+    expect(parseTableState("")).toEqual({
+      ...DEFAULT_TABLE_STATE,
+      filter: {
+        followUpStatus: undefined,
+        alertLevel: undefined,
+        riskLevel: undefined,
+      },
+    });
+  });
+
+  it("reads every filter, the sort and the page", () => {
+    const parsed = parseTableState(
+      "?q=%20TH-00%20&category=Total+Hip+Arthroplasty&manufacturer=Stryker" +
+        "&surgeon=Dr.+A.+Menon&institution=AIIMS&status=Overdue&alert=recall" +
+        "&risk=High&sort=-surgeryDate&page=3&size=25",
+    );
+    expect(parsed).toEqual({
+      filter: {
+        search: "TH-00",
+        implantCategory: "Total Hip Arthroplasty",
+        manufacturer: "Stryker",
+        operatingSurgeon: "Dr. A. Menon",
+        institution: "AIIMS",
+        followUpStatus: "Overdue",
+        alertLevel: "recall",
+        riskLevel: "High",
+      },
+      sort: { field: "surgeryDate", descending: true },
+      page: 3,
+      pageSize: 25,
+    });
+  });
+
+  it("sorts ascending without a leading minus", () => {
+    expect(parseTableState("sort=alertLevel").sort).toEqual({
+      field: "alertLevel",
+      descending: false,
+    });
+  });
+
+  it.each([
+    ["status=Late", "followUpStatus"],
+    ["alert=critical", "alertLevel"],
+    ["risk=high", "riskLevel"],
+  ] as const)("ignores the unknown value in %s", (search, field) => {
+    expect(parseTableState(search).filter[field]).toBeUndefined();
+  });
+
+  it.each(["sort=age", "sort=-", "sort=--patientId"])(
+    "keeps the default sort for %s",
+    (search) => {
+      expect(parseTableState(search).sort).toEqual(DEFAULT_TABLE_STATE.sort);
+    },
+  );
+
+  it.each(["page=0", "page=-2", "page=1.5", "page=two"])(
+    "starts on the first page for %s",
+    (search) => {
+      expect(parseTableState(search).page).toBe(1);
+    },
+  );
+
+  it.each(["size=20", "size=0", "size=100"])(
+    "keeps the default page size for %s",
+    (search) => {
+      expect(parseTableState(search).pageSize).toBe(
+        DEFAULT_TABLE_STATE.pageSize,
+      );
+    },
+  );
+
+  it("drops blank text filters", () => {
+    expect(parseTableState("q=%20%20&manufacturer=").filter).not.toHaveProperty(
+      "search",
+    );
+  });
+});
+
+describe("serializeTableState", () => {
+  it("writes nothing for the default state", () => {
+    expect(serializeTableState(DEFAULT_TABLE_STATE)).toBe("");
+  });
+
+  it("round-trips through parseTableState", () => {
+    const original = state({
+      filter: {
+        search: "ZB-2019",
+        manufacturer: "Zimmer Biomet",
+        followUpStatus: "Scheduled",
+        riskLevel: "Moderate",
+      },
+      sort: { field: "riskLevel", descending: true },
+      page: 2,
+      pageSize: 50,
+    });
+    const parsed = parseTableState(serializeTableState(original));
+    expect(parsed).toMatchObject(original);
+    expect(serializeTableState(parsed)).toBe(serializeTableState(original));
+  });
+
+  it("keeps unrelated parameters and replaces stale table ones", () => {
+    const search = serializeTableState(
+      state({ sort: { field: "lastReview", descending: false } }),
+      "case=rec-004&alert=recall&page=4",
+    );
+    expect(new URLSearchParams(search).toString()).toBe(
+      "case=rec-004&sort=lastReview",
+    );
+  });
+
+  it("omits the first page and trims text filters", () => {
+    const params = new URLSearchParams(
+      serializeTableState(state({ filter: { search: "  TH-004 " }, page: 1 })),
+    );
+    expect(params.get("q")).toBe("TH-004");
+    expect(params.has("page")).toBe(false);
+  });
+});
+
+describe("hasActiveFilters", () => {
+  it.each([
+    [{}, false],
+    [{ search: "", alertLevel: undefined }, false],
+    [{ search: "TH" }, true],
+    [{ riskLevel: "Low" }, true],
+  ] as const)("reports %j as %s", (filter, expected) => {
+    expect(hasActiveFilters(filter)).toBe(expected);
+  });
+});
+
+describe("collectFacetValues", () => {
+  it("lists distinct values alphabetically", () => {
+    const records: ImplantRecord[] = [
+      "Stryker",
+      "DePuy Synthes",
+      "Stryker",
+    ].map((manufacturer) => ({ ...REGISTRY_DATA[0], manufacturer }));
+    expect(collectFacetValues(records, "manufacturer")).toEqual([
+      "DePuy Synthes",
+      "Stryker",
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  ALERT_LEVELS,
+  FOLLOW_UP_STATUSES,
+  type ImplantRecord,
+  RISK_LEVELS,
+} from "./registryData";
+import {
+  type RecordFilter,
+  type RecordSort,
+  SORT_FIELDS,
+} from "./registryQuery";
+
+export type TableFilter = Omit<RecordFilter, "includeArchived">;
+
+export interface RegistryTableState {
+  filter: TableFilter;
+  sort: RecordSort;
+  /** 1-based page number. */
+  page: number;
+  pageSize: number;
+}
+
+export const PAGE_SIZES = [10, 25, 50] as const;
+
+export const DEFAULT_TABLE_STATE: RegistryTableState = {
+  filter: {},
+  sort: { descending: false },
+  page: 1,
+  pageSize: PAGE_SIZES[0],
+};
+
+// Short, stable URL parameter names so shared links stay readable.
+type TextFilterField = keyof Pick<
+  TableFilter,
+  | "search"
+  | "implantCategory"
+  | "manufacturer"
+  | "operatingSurgeon"
+  | "institution"
+>;
+
+const TEXT_PARAMS: Array<[TextFilterField, string]> = [
+  ["search", "q"],
+  ["implantCategory", "category"],
+  ["manufacturer", "manufacturer"],
+  ["operatingSurgeon", "surgeon"],
+  ["institution", "institution"],
+];
+
+const STATUS_PARAM = "status";
+const ALERT_PARAM = "alert";
+const RISK_PARAM = "risk";
+const SORT_PARAM = "sort";
+const PAGE_PARAM = "page";
+const SIZE_PARAM = "size";
+
+export const TABLE_PARAMS = [
+  ...TEXT_PARAMS.map(([, param]) => param),
+  STATUS_PARAM,
+  ALERT_PARAM,
+  RISK_PARAM,
+  SORT_PARAM,
+  PAGE_PARAM,
+  SIZE_PARAM,
+];
+
+function pickParam<T extends string>(
+  value: string | null,
+  options: readonly T[],
+): T | undefined {
+  return options.find((o) => o === value);
+}
+
+function parsePositiveInt(value: string | null): number | undefined {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/** Reads table state from a query string, ignoring unknown or invalid values. */
+export function parseTableState(search: string): RegistryTableState {
+  const params = new URLSearchParams(search);
+  const filter: TableFilter = {};
+  for (const [field, param] of TEXT_PARAMS) {
+    const value = params.get(param)?.trim();
+    if (value) filter[field] = value;
+  }
+  filter.followUpStatus = pickParam(
+    params.get(STATUS_PARAM),
+    FOLLOW_UP_STATUSES,
+  );
+  filter.alertLevel = pickParam(params.get(ALERT_PARAM), ALERT_LEVELS);
+  filter.riskLevel = pickParam(params.get(RISK_PARAM), RISK_LEVELS);
+
+  const sortParam = params.get(SORT_PARAM) ?? "";
+  const descending = sortParam.startsWith("-");
+  const field = pickParam(
+    descending ? sortParam.slice(1) : sortParam,
+    SORT_FIELDS,
+  );
+  const size = parsePositiveInt(params.get(SIZE_PARAM));
+
+  return {
+    filter,
+    sort: field ? { field, descending } : DEFAULT_TABLE_STATE.sort,
+    page: parsePositiveInt(params.get(PAGE_PARAM)) ?? 1,
+    pageSize:
+      PAGE_SIZES.find((s) => s === size) ?? DEFAULT_TABLE_STATE.pageSize,
+  };
+}
+
+/**
+ * Writes table state into `search`, keeping any unrelated parameters and
+ * omitting values that equal the defaults.
+ */
+export function serializeTableState(
+  state: RegistryTableState,
+  search = "",
+): string {
+  const params = new URLSearchParams(search);
+  for (const param of TABLE_PARAMS) params.delete(param);
+
+  for (const [field, param] of TEXT_PARAMS) {
+    const value = state.filter[field]?.trim();
+    if (value) params.set(param, value);
+  }
+  const enums: Array<[string, string | undefined]> = [
+    [STATUS_PARAM, state.filter.followUpStatus],
+    [ALERT_PARAM, state.filter.alertLevel],
+    [RISK_PARAM, state.filter.riskLevel],
+  ];
+  for (const [param, value] of enums) {
+    if (value) params.set(param, value);
+  }
+  if (state.sort.field) {
+    params.set(
+      SORT_PARAM,
+      `${state.sort.descending ? "-" : ""}${state.sort.field}`,
+    );
+  }
+  if (state.page > 1) params.set(PAGE_PARAM, String(state.page));
+  if (state.pageSize !== DEFAULT_TABLE_STATE.pageSize) {
+    params.set(SIZE_PARAM, String(state.pageSize));
+  }
+  return params.toString();
+}
+
+export function hasActiveFilters(filter: TableFilter): boolean {
+  return Object.values(filter).some((v) => v !== undefined && v !== "");
+}
+
+export type FacetField = keyof Pick<
+  ImplantRecord,
+  "implantCategory" | "manufacturer" | "operatingSurgeon" | "institution"
+>;
+
+/** Distinct values of `field` across `records`, alphabetically. */
+export function collectFacetValues(
+  records: ImplantRecord[],
+  field: FacetField,
+): string[] {
+  return [...new Set(records.map((r) => r[field]))].sort((a, b) =>
+    a.localeCompare(b),
+  );
+}
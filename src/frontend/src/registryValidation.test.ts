@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { REGISTRY_DATA } from "./registryData";
+import type { ImplantRecordInput } from "./registryRepository";
+import {
+  parseIsoDate,
+  validateImplantRecordInput,
+  validateLotNumber,
+} from "./registryValidation";
+
+const AS_OF = new Date("2026-10-19T00:00:00Z");
+
+const VALID: ImplantRecordInput = { ...REGISTRY_DATA[0] };
+
+function errors(overrides: Partial<ImplantRecordInput>) {
+  return validateImplantRecordInput({ ...VALID, ...overrides }, AS_OF);
+}
+
+describe("validateLotNumber", () => {
+  it.each([
+    ["Zimmer Biomet", "ZB-2019-HIP-0431", null],
+    [" stryker ", "ST-2016-HIP-0556", null],
+    [
+      "Stryker",
+      "ZB-2019-HIP-0431",
+      "Stryker lot numbers follow the format ST-2016-HIP-0556",
+    ],
+    [
+      "DePuy Synthes",
+      "DP-2021-KN-0877",
+      "DePuy Synthes lot numbers follow the format DP-2021-KNEE-0877",
+    ],
+    ["Local Vendor", "lv-2024-77", null],
+    [
+      "Local Vendor",
+      "LV 2024/77",
+      "Lot number may contain only letters, digits and hyphens",
+    ],
+    [
+      "Local Vendor",
+      "-ABC",
+      "Lot number may contain only letters, digits and hyphens",
+    ],
+  ])("%s %j → %s", (manufacturer, lotNumber, expected) => {
+    expect(validateLotNumber(manufacturer, lotNumber)).toBe(expected);
+  });
+});
+
+describe("parseIsoDate", () => {
+  it.each([
+    ["2024-02-29", "2024-02-29T00:00:00.000Z"],
+    ["2023-02-29", null],
+    ["2024-2-9", null],
+    ["2024-02-29T10:00:00Z", null],
+  ])("%j → %s", (value, expected) => {
+    expect(parseIsoDate(value)?.toISOString() ?? null).toBe(expected);
+  });
+});
+
+describe("validateImplantRecordInput", () => {
+  it("accepts a seeded record", () => {
+    expect(errors({})).toEqual({});
+  });
+
+  it("marks blank required fields", () => {
+    expect(errors({ institution: " ", lotNumber: "", lastReview: "" })).toEqual(
+      {
+        institution: "Required",
+        lotNumber: "Required",
+        lastReview: "Required",
+      },
+    );
+  });
+
+  it.each([
+    "TH-001",
+    "TH-12345",
+    "TH-P7K3M9QXA",
+    "SYN-42-000001",
+    "SYN--7-1000000",
+  ])("accepts the patient ID %j", (patientId) => {
+    expect(errors({ patientId })).toEqual({});
+  });
+
+  it.each([
+    "th-001",
+    "TH-01",
+    "TH-P7K3M9QX",
+    // Crockford base32 leaves out I, L, O and U.
+    "TH-P7K3M9QXI",
+    "SYN-42-00001",
+    "MRN-001",
+  ])("rejects the patient ID %j, naming every format", (patientId) => {
+    expect(errors({ patientId })).toEqual({
+      patientId:
+        "Patient ID must be a TH-001 registry number, a TH-P pseudonym such as TH-P7K3M9QXA or a SYN-42-000001 demo ID",
+    });
+  });
+
+  it.each([
+    [{ age: -1 }, "age"],
+    [{ age: 121 }, "age"],
+    [{ age: 64.5 }, "age"],
+    [{ complicationsLogged: -1 }, "complicationsLogged"],
+    [{ sex: "" as ImplantRecordInput["sex"] }, "sex"],
+    [
+      { laterality: "Centre" as ImplantRecordInput["laterality"] },
+      "laterality",
+    ],
+    [{ riskLevel: "Severe" as ImplantRecordInput["riskLevel"] }, "riskLevel"],
+  ])("rejects %o", (overrides, field) => {
+    expect(Object.keys(errors(overrides))).toEqual([field]);
+  });
+
+  it.each([
+    [
+      { surgeryDate: "2026-10-20", lastReview: "2026-10-20" },
+      {
+        surgeryDate: "Surgery date cannot be in the future",
+        lastReview: "Last review cannot be in the future",
+      },
+    ],
+    [{ surgeryDate: "2026-02-30" }, { surgeryDate: "Enter a valid date" }],
+    [
+      { surgeryDate: "2024-05-01", lastReview: "2024-04-30" },
+      { lastReview: "Last review cannot precede the surgery date" },
+    ],
+    [
+      { lastReview: "2026-10-20" },
+      { lastReview: "Last review cannot be in the future" },
+    ],
+  ])("checks dates in %o", (overrides, expected) => {
+    expect(errors(overrides)).toEqual(expected);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  ALERT_LEVELS,
+  FOLLOW_UP_STATUSES,
+  LATERALITIES,
+  RISK_LEVELS,
+  SEXES,
+} from "./registryData";
+import type { ImplantRecordInput } from "./registryRepository";
+
+export type ValidationErrors<T> = Partial<Record<keyof T, string>>;
+
+export interface LotNumberFormat {
+  manufacturer: string;
+  pattern: RegExp;
+  example: string;
+}
+
+// Lot formats as printed on the device labels of the pilot's manufacturers:
+// two-letter prefix, year of manufacture, product line and a serial.
+export const LOT_NUMBER_FORMATS: LotNumberFormat[] = [
+  {
+    manufacturer: "Zimmer Biomet",
+    pattern: /^ZB-\d{4}-[A-Z]{3,5}-\d{4}$/,
+    example: "ZB-2019-HIP-0431",
+  },
+  {
+    manufacturer: "DePuy Synthes",
+    pattern: /^DP-\d{4}-[A-Z]{3,5}-\d{4}$/,
+    example: "DP-2021-KNEE-0877",
+  },
+  {
+    manufacturer: "Stryker",
+    pattern: /^ST-\d{4}-[A-Z]{3,5}-\d{4}$/,
+    example: "ST-2016-HIP-0556",
+  },
+  {
+    manufacturer: "Smith & Nephew",
+    pattern: /^SN-\d{4}-[A-Z]{3,5}-\d{4}$/,
+    example: "SN-2023-KNEE-1041",
+  },
+];
+
+const GENERIC_LOT_PATTERN = /^[A-Z0-9][A-Z0-9-]{3,}$/i;
+// Sequential identifiers, the pseudonyms assigned on de-identified import, or
+// the SYN-<seed>-<serial> identifiers of generated demo cases.
+const PATIENT_ID_PATTERN =
+  /^(?:TH-(?:\d{3,}|P[0-9A-HJKMNP-TV-Z]{8})|SYN--?\d+-\d{6,})$/;
+
+const REQUIRED_FIELDS: Array<keyof ImplantRecordInput> = [
+  "patientId",
+  "implantCategory",
+  "manufacturer",
+  "operatingSurgeon",
+  "surgeryDate",
+  "primaryDiagnosis",
+  "institution",
+  "modelRef",
+  "lotNumber",
+  "material",
+  "fixationType",
+  "anatomicalSite",
+  "lastReview",
+];
+
+export function findLotNumberFormat(
+  manufacturer: string,
+): LotNumberFormat | undefined {
+  return LOT_NUMBER_FORMATS.find(
+    (f) => f.manufacturer.toLowerCase() === manufacturer.trim().toLowerCase(),
+  );
+}
+
+/** Parses a strict `YYYY-MM-DD` date, returning null for anything else. */
+export function parseIsoDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toISOString().slice(0, 10) === value ? date : null;
+}
+
+export function validateLotNumber(
+  manufacturer: string,
+  lotNumber: string,
+): string | null {
+  const format = findLotNumberFormat(manufacturer);
+  if (format) {
+    return format.pattern.test(lotNumber)
+      ? null
+      : `${format.manufacturer} lot numbers follow the format ${format.example}`;
+  }
+  return GENERIC_LOT_PATTERN.test(lotNumber)
+    ? null
+    : "Lot number may contain only letters, digits and hyphens";
+}
+
+/**
+ * Validates a record before it is written to the registry. Returns one
+ * message per offending field; an empty object means the input is valid.
+ */
+export function validateImplantRecordInput(
+  input: ImplantRecordInput,
+  asOf: Date = new Date(),
+): ValidationErrors<ImplantRecordInput> {
+  const errors: ValidationErrors<ImplantRecordInput> = {};
+
+  for (const field of REQUIRED_FIELDS) {
+    if (String(input[field] ?? "").trim() === "") {
+      errors[field] = "Required";
+    }
+  }
+
+  if (!errors.patientId && !PATIENT_ID_PATTERN.test(input.patientId)) {
+    errors.patientId =
+      "Patient ID must be a TH-001 registry number, a TH-P pseudonym such as TH-P7K3M9QXA or a SYN-42-000001 demo ID";
+  }
+  if (!Number.isInteger(input.age) || input.age < 0 || input.age > 120) {
+    errors.age = "Age must be a whole number between 0 and 120";
+  }
+  if (!SEXES.includes(input.sex)) errors.sex = "Select a sex";
+  if (!LATERALITIES.includes(input.laterality)) {
+    errors.laterality = "Select a laterality";
+  }
+  if (!FOLLOW_UP_STATUSES.includes(input.followUpStatus)) {
+    errors.followUpStatus = "Unknown follow-up status";
+  }
+  if (!ALERT_LEVELS.includes(input.alertLevel)) {
+    errors.alertLevel = "Unknown alert level";
+  }
+  if (!RISK_LEVELS.includes(input.riskLevel)) {
+    errors.riskLevel = "Unknown risk level";
+  }
+  if (
+    !Number.isInteger(input.complicationsLogged) ||
+    input.complicationsLogged < 0
+  ) {
+    errors.complicationsLogged = "Complications must be zero or more";
+  }
+
+  if (!errors.lotNumber) {
+    const lotError = validateLotNumber(input.manufacturer, input.lotNumber);
+    if (lotError) errors.lotNumber = lotError;
+  }
+
+  const surgery = errors.surgeryDate ? null : parseIsoDate(input.surgeryDate);
+  if (!errors.surgeryDate && !surgery) {
+    errors.surgeryDate = "Enter a valid date";
+  } else if (surgery && surgery.getTime() > asOf.getTime()) {
+    errors.surgeryDate = "Surgery date cannot be in the future";
+  }
+
+  // `nextReview` and `followUpStatus` are derived from the follow-up protocol
+  // on write, so only the review that actually took place is checked here.
+  const lastReview = errors.lastReview ? null : parseIsoDate(input.lastReview);
+  if (!errors.lastReview && !lastReview) {
+    errors.lastReview = "Enter a valid date";
+  } else if (lastReview && surgery && lastReview < surgery) {
+    errors.lastReview = "Last review cannot precede the surgery date";
+  } else if (lastReview && lastReview.getTime() > asOf.getTime()) {
+    errors.lastReview = "Last review cannot be in the future";
+  }
+
+  return errors;
+}
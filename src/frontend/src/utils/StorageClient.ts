@@ -127,7 +127,7 @@ function validateHashFormat(hash: string, context: string): void {
   }
 }
 
-class YHash {
+export class YHash {
   public readonly bytes: Uint8Array;
 
   constructor(bytes: Uint8Array) {